@@ -1,5 +1,12 @@
 import { useEffect } from 'react';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import {
+  createBrowserRouter,
+  createRoutesFromElements,
+  Navigate,
+  Outlet,
+  Route,
+  RouterProvider,
+} from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
 
@@ -7,6 +14,12 @@ import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
 import LoginPage from '@/pages/LoginPage';
 import CallbackPage from '@/pages/CallbackPage';
 import HomePage from '@/pages/HomePage';
+import QuizCreationPage from '@/pages/QuizCreationPage';
+import QuizDetailPage from '@/pages/QuizDetailPage';
+import QuizEditorPage from '@/pages/QuizEditorPage';
+import QuizLibraryPage from '@/pages/QuizLibraryPage';
+import QuizPlayPage from '@/pages/QuizPlayPage';
+import QuizResultsPage from '@/pages/QuizResultsPage';
 
 // Components
 import AuthGuard from '@/components/auth/AuthGuard';
@@ -14,21 +27,27 @@ import AuthGuard from '@/components/auth/AuthGuard';
 // Hooks
 import { useAuthInitialization } from '@/hooks/useAuth';
 
+// Services
+import { answerOutbox } from '@/services/quiz.service';
+
+// Utils
+import { getRetryDelay, isRetryableError } from '@/utils/error-handling';
+import { getBackoffDelay } from '@/utils/retry';
+
 // Create query client
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       staleTime: 5 * 60 * 1000, // 5 minutes
       retry: (failureCount, error) => {
-        // Don't retry on 401/403 errors
-        if (error instanceof Error) {
-          const message = error.message.toLowerCase();
-          if (message.includes('401') || message.includes('403')) {
-            return false;
-          }
+        // Client errors (401/403/404/...) will fail the same way again
+        if (!isRetryableError(error)) {
+          return false;
         }
         return failureCount < 2;
       },
+      // Honor Retry-After on 429s, otherwise back off exponentially
+      retryDelay: (attempt, error) => getRetryDelay(error, getBackoffDelay(attempt)),
     },
     mutations: {
       retry: false,
@@ -48,6 +67,9 @@ function AppInitializer({ children }: { children: React.ReactNode }) {
     }
   }, [initializationError]);
 
+  // Replay answers queued while offline, now and whenever connectivity returns
+  useEffect(() => answerOutbox.start(), []);
+
   // Show loading screen during initialization
   if (isInitializing) {
     return (
@@ -79,36 +101,77 @@ function AppInitializer({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
+/**
+ * Layout shared by every route
+ */
+function AppLayout() {
+  return (
+    <AppInitializer>
+      <div className="min-h-screen bg-background text-foreground">
+        <Outlet />
+      </div>
+    </AppInitializer>
+  );
+}
+
+// Data router, so pages can block navigation (see useUnsavedChangesGuard)
+const router = createBrowserRouter(
+  createRoutesFromElements(
+    <Route element={<AppLayout />}>
+      {/* Public routes */}
+      <Route path="/login" element={<LoginPage />} />
+      <Route path="/callback" element={<CallbackPage />} />
+      {/* Public quizzes can be viewed signed out */}
+      <Route path="/quiz/:id" element={<QuizDetailPage />} />
+      
+      {/* Protected routes */}
+      <Route path="/dashboard" element={
+        <AuthGuard>
+          <HomePage />
+        </AuthGuard>
+      } />
+      <Route path="/library" element={
+        <AuthGuard>
+          <QuizLibraryPage />
+        </AuthGuard>
+      } />
+      <Route path="/quiz/new" element={
+        <AuthGuard>
+          <QuizCreationPage />
+        </AuthGuard>
+      } />
+      <Route path="/quiz/:id/edit" element={
+        <AuthGuard>
+          <QuizEditorPage />
+        </AuthGuard>
+      } />
+      <Route path="/quiz/:id/play" element={
+        <AuthGuard>
+          <QuizPlayPage />
+        </AuthGuard>
+      } />
+      <Route path="/sessions/:sessionId/results" element={
+        <AuthGuard>
+          <QuizResultsPage />
+        </AuthGuard>
+      } />
+      
+      {/* Redirect root to dashboard */}
+      <Route path="/" element={<Navigate to="/dashboard" replace />} />
+      
+      {/* Catch all - redirect to dashboard */}
+      <Route path="*" element={<Navigate to="/dashboard" replace />} />
+    </Route>
+  )
+);
+
 /**
  * Main App component with routing and providers
  */
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <BrowserRouter>
-        <AppInitializer>
-          <div className="min-h-screen bg-background text-foreground">
-            <Routes>
-              {/* Public routes */}
-              <Route path="/login" element={<LoginPage />} />
-              <Route path="/callback" element={<CallbackPage />} />
-              
-              {/* Protected routes */}
-              <Route path="/dashboard" element={
-                <AuthGuard>
-                  <HomePage />
-                </AuthGuard>
-              } />
-              
-              {/* Redirect root to dashboard */}
-              <Route path="/" element={<Navigate to="/dashboard" replace />} />
-              
-              {/* Catch all - redirect to dashboard */}
-              <Route path="*" element={<Navigate to="/dashboard" replace />} />
-            </Routes>
-          </div>
-        </AppInitializer>
-      </BrowserRouter>
+      <RouterProvider router={router} />
       
       {/* React Query Dev Tools (only in development) */}
       {import.meta.env.DEV && (
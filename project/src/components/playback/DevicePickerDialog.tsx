@@ -0,0 +1,205 @@
+import { useEffect, useState } from 'react';
+import { usePlaybackStore } from '@/stores/playback.store';
+import { useSettingsStore } from '@/stores/settings.store';
+import { DEVICE_TYPE_ICONS, isDeviceSelectable, pickDevice } from '@/utils/devices';
+import type { SpotifyDevice } from '@/types/spotify';
+import { cn } from '@/lib/utils';
+
+interface DevicePickerDialogProps {
+  /** Called with the device to play on */
+  onSelect: (device: SpotifyDevice) => void;
+  /** Start without Spotify playback, e.g. without Premium */
+  onSkip: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Choose the Spotify device a quiz plays on
+ * Lists the devices from /playback/devices. With rememberDeviceSelection on,
+ * the device picked last time is preselected while it is still available.
+ */
+export function DevicePickerDialog({ onSelect, onSkip, onClose }: DevicePickerDialogProps) {
+  const devices = usePlaybackStore((state) => state.devices);
+  const selectedDeviceId = usePlaybackStore((state) => state.selectedDeviceId);
+  const isLoadingDevices = usePlaybackStore((state) => state.isLoadingDevices);
+  const error = usePlaybackStore((state) => state.error);
+  const premiumRequired = usePlaybackStore((state) => state.premiumRequired);
+  const loadDevices = usePlaybackStore((state) => state.loadDevices);
+  const selectDevice = usePlaybackStore((state) => state.selectDevice);
+  const rememberDevice = useSettingsStore((state) => state.settings.rememberDeviceSelection);
+  // Device clicked in this dialog
+  const [pickedId, setPickedId] = useState<string | null>(null);
+
+  // Revalidated whenever the list changes
+  const selected = pickDevice(devices, [pickedId, rememberDevice ? selectedDeviceId : null]);
+
+  const refresh = () => {
+    loadDevices().catch(() => {
+      // Shown from the store's error
+    });
+  };
+
+  useEffect(() => {
+    loadDevices().catch(() => {
+      // Shown from the store's error
+    });
+  }, [loadDevices]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleConfirm = () => {
+    if (!selected) return;
+    selectDevice(selected.id);
+    onSelect(selected);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="device-picker-title"
+        className="w-full max-w-md bg-card border border-border rounded-xl p-6 shadow-xl space-y-4"
+      >
+        <div className="flex items-center justify-between gap-4">
+          <h2 id="device-picker-title" className="text-lg font-semibold text-card-foreground">
+            Play on
+          </h2>
+          <button
+            type="button"
+            onClick={refresh}
+            disabled={isLoadingDevices}
+            className="px-3 py-1.5 text-sm text-muted-foreground hover:text-foreground border border-border rounded-lg hover:bg-muted/50 transition-colors disabled:opacity-50"
+          >
+            {isLoadingDevices ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
+
+        {error && (
+          <div
+            role="alert"
+            className="bg-destructive/10 border border-destructive/20 rounded-lg p-3 text-sm text-destructive"
+          >
+            {error}
+            {premiumRequired && ' You can still play with track previews.'}
+          </div>
+        )}
+
+        {devices.length > 0 ? (
+          <ul className="space-y-2" role="radiogroup" aria-label="Devices">
+            {devices.map((device) => (
+              <DeviceOption
+                key={device.id}
+                device={device}
+                selected={device.id === selected?.id}
+                onSelect={() => setPickedId(device.id)}
+              />
+            ))}
+          </ul>
+        ) : (
+          !isLoadingDevices && !premiumRequired && <NoDevices />
+        )}
+
+        <div className="flex flex-wrap justify-end gap-3 pt-2">
+          <button
+            type="button"
+            onClick={onSkip}
+            className="px-4 py-2 text-sm text-muted-foreground hover:text-foreground border border-border rounded-lg hover:bg-muted/50 transition-colors"
+          >
+            Play without Spotify
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={!selected}
+            className="px-4 py-2 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+          >
+            {selected ? `Play on ${selected.name}` : 'Choose a device'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * A device with its type, status badges and volume
+ */
+function DeviceOption({
+  device,
+  selected,
+  onSelect,
+}: {
+  device: SpotifyDevice;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  const selectable = isDeviceSelectable(device);
+
+  return (
+    <li>
+      <button
+        type="button"
+        role="radio"
+        aria-checked={selected}
+        onClick={onSelect}
+        disabled={!selectable}
+        className={cn(
+          'w-full flex items-center gap-3 rounded-lg border p-3 text-left transition-colors disabled:opacity-50',
+          selected
+            ? 'border-spotify-green bg-spotify-green/10'
+            : 'border-border hover:bg-muted/50'
+        )}
+      >
+        <span className="text-2xl" aria-hidden="true">
+          {DEVICE_TYPE_ICONS[device.type]}
+        </span>
+        <span className="flex-1 min-w-0">
+          <span className="block truncate font-medium text-foreground">{device.name}</span>
+          <span className="flex flex-wrap gap-1.5 mt-1">
+            {device.isActive && <Badge className="bg-green-500/10 text-green-500">Active</Badge>}
+            {device.isRestricted && (
+              <Badge className="bg-destructive/10 text-destructive">Restricted</Badge>
+            )}
+            {device.isPrivateSession && (
+              <Badge className="bg-muted text-muted-foreground">Private session</Badge>
+            )}
+          </span>
+        </span>
+        <span className="flex-shrink-0 text-xs text-muted-foreground">
+          {device.supportsVolume ? `🔈 ${device.volumePercent}%` : 'Fixed volume'}
+        </span>
+      </button>
+    </li>
+  );
+}
+
+function Badge({ className, children }: { className: string; children: string }) {
+  return (
+    <span className={cn('rounded-full px-2 py-0.5 text-xs font-medium', className)}>
+      {children}
+    </span>
+  );
+}
+
+/**
+ * Spotify only lists devices where the app is open
+ */
+function NoDevices() {
+  return (
+    <div className="bg-muted/50 rounded-lg p-4 text-center space-y-2">
+      <div className="text-3xl">🎧</div>
+      <h3 className="font-semibold text-foreground">No devices found</h3>
+      <p className="text-sm text-muted-foreground">
+        Open Spotify on your phone, computer or speaker and play something for a moment, then
+        refresh. Devices only show up while Spotify is open on them.
+      </p>
+    </div>
+  );
+}
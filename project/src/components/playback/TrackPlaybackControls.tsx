@@ -0,0 +1,72 @@
+import type { TrackPlayback } from '@/hooks/useTrackPlayback';
+import { cn } from '@/lib/utils';
+import { formatDuration } from '@/utils/quiz';
+
+interface TrackPlaybackControlsProps {
+  playback: TrackPlayback;
+  /** Name of the device playing, for remote playback */
+  deviceName?: string;
+  className?: string;
+}
+
+/**
+ * Play/pause for the current question's track, with where it plays
+ * Once a clip has played through, the button replays it from its start.
+ */
+export function TrackPlaybackControls({
+  playback,
+  deviceName,
+  className,
+}: TrackPlaybackControlsProps) {
+  const { strategy, status, error, notice, clip, play, pause } = playback;
+
+  if (strategy === 'none') {
+    return (
+      <p className={cn('text-sm text-muted-foreground', className)}>
+        Audio is off - turn on audio previews in your settings to hear the tracks.
+      </p>
+    );
+  }
+
+  if (status === 'unavailable') {
+    return (
+      <p className={cn('text-sm text-muted-foreground', className)}>
+        No preview available for this track - answer from the question alone.
+      </p>
+    );
+  }
+
+  const source = strategy === 'remote' ? `On ${deviceName ?? 'your Spotify device'}` : 'Preview clip';
+  const clipLength = clip?.durationMs ? formatDuration(Math.round(clip.durationMs / 1000)) : null;
+  const isPlaying = status === 'playing';
+  const label = isPlaying ? 'Pause track' : status === 'ended' ? 'Replay clip' : 'Play track';
+
+  return (
+    <div className={cn('flex items-center gap-3', className)}>
+      <button
+        type="button"
+        onClick={isPlaying ? pause : play}
+        disabled={status === 'loading'}
+        aria-label={label}
+        title={label}
+        className="w-10 h-10 flex-shrink-0 rounded-full bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors disabled:opacity-50"
+      >
+        {isPlaying ? '❚❚' : status === 'ended' ? '↻' : '▶'}
+      </button>
+      <div className="min-w-0 text-sm">
+        <p className="text-foreground">{status === 'loading' ? 'Loading track...' : source}</p>
+        {clipLength && (
+          <p className="text-muted-foreground">
+            {status === 'ended' ? 'Clip over - replay it as often as you like' : `${clipLength} clip`}
+          </p>
+        )}
+        {notice && <p className="text-yellow-600">{notice}</p>}
+        {error && (
+          <p role="alert" className="text-destructive">
+            {error}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
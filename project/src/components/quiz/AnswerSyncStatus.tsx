@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import type { QuizAnswer } from '@/types/session';
+import { cn } from '@/lib/utils';
+
+interface AnswerSyncStatusProps {
+  answers: QuizAnswer[];
+  isOnline: boolean;
+  className?: string;
+}
+
+function pluralizeAnswers(count: number): string {
+  return count === 1 ? '1 answer' : `${count} answers`;
+}
+
+/**
+ * Shows whether answers given offline have reached the server yet
+ * Renders nothing while online and nothing was ever queued.
+ */
+export function AnswerSyncStatus({ answers, isOnline, className }: AnswerSyncStatusProps) {
+  const pendingCount = answers.filter((answer) => answer.syncStatus === 'pending').length;
+  const failedCount = answers.filter((answer) => answer.syncStatus === 'failed').length;
+  // Remember that answers were queued, to confirm once they are all synced
+  const [hadPending, setHadPending] = useState(false);
+
+  useEffect(() => {
+    if (pendingCount > 0) setHadPending(true);
+  }, [pendingCount]);
+
+  let message: string | null = null;
+  let tone = 'bg-muted/50 border-border text-muted-foreground';
+  if (failedCount > 0) {
+    message = `${pluralizeAnswers(failedCount)} could not be saved and won't count towards your score`;
+    tone = 'bg-destructive/10 border-destructive/20 text-destructive';
+  } else if (pendingCount > 0) {
+    message = isOnline
+      ? `Syncing ${pluralizeAnswers(pendingCount)}...`
+      : `Offline · ${pluralizeAnswers(pendingCount)} saved on this device`;
+    tone = 'bg-yellow-500/10 border-yellow-500/20 text-yellow-600';
+  } else if (!isOnline) {
+    message = "You're offline · answers will be saved on this device";
+  } else if (hadPending) {
+    message = 'All answers synced';
+    tone = 'bg-green-500/10 border-green-500/20 text-green-500';
+  }
+
+  if (!message) return null;
+
+  return (
+    <div role="status" className={cn('border rounded-lg px-3 py-2 text-sm', tone, className)}>
+      {message}
+    </div>
+  );
+}
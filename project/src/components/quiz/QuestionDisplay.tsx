@@ -0,0 +1,55 @@
+import type { Question } from '@/types/quiz';
+import type { AnswerFeedback } from '@/types/session';
+import { QuestionInput } from '@/components/quiz/QuestionInput';
+
+interface QuestionDisplayProps {
+  question: Question;
+  /** Answer the player picked for this question */
+  selectedAnswer: string | null;
+  /** Outcome once the answer has been checked */
+  feedback: AnswerFeedback | null;
+  disabled?: boolean;
+  onSubmit: (answer: string) => void;
+}
+
+/**
+ * A question with its track and the answer controls for its type
+ */
+export function QuestionDisplay({
+  question,
+  selectedAnswer,
+  feedback,
+  disabled = false,
+  onSubmit,
+}: QuestionDisplayProps) {
+  const track = question.spotifyTrack;
+
+  return (
+    <div className="space-y-6">
+      {track && (
+        <div className="flex items-center gap-3 rounded-lg bg-muted/50 p-3">
+          {track.imageUrl ? (
+            <img src={track.imageUrl} alt="" className="w-12 h-12 rounded" />
+          ) : (
+            <div className="w-12 h-12 rounded bg-spotify-green/20 flex items-center justify-center text-xl">
+              🎵
+            </div>
+          )}
+          <p className="text-sm text-muted-foreground">
+            {feedback ? `${track.name} - ${track.artist}` : 'Listen to the track'}
+          </p>
+        </div>
+      )}
+
+      <h2 className="text-xl font-semibold text-card-foreground">{question.text}</h2>
+
+      <QuestionInput
+        question={question}
+        selectedAnswer={selectedAnswer}
+        feedback={feedback}
+        disabled={disabled}
+        onSubmit={onSubmit}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+import { useState, type Dispatch } from 'react';
+import type { Question, QuestionType, SnippetSettings } from '@/types/quiz';
+import type { QuestionErrors, QuizEditorEvent } from '@/lib/quiz-editor';
+import { QUESTION_TYPES, getQuestionType, questionTypes } from '@/lib/question-types';
+import { SnippetFields } from '@/components/quiz/SnippetFields';
+import { TrackSearch } from '@/components/quiz/TrackSearch';
+import { cn } from '@/lib/utils';
+
+interface QuestionEditorProps {
+  question: Question;
+  index: number;
+  questionCount: number;
+  errors?: QuestionErrors;
+  /** The quiz's clip settings, which this question's override */
+  quizSnippet?: SnippetSettings;
+  dispatch: Dispatch<QuizEditorEvent>;
+}
+
+const OPTIONS_LEGENDS: Record<QuestionType, string> = {
+  MultipleChoice: 'Options - select the correct one',
+  FreeText: 'Also accept',
+  YearGuess: 'Options',
+  Ordering: 'Items in the correct order',
+};
+
+const inputClassName =
+  'w-full rounded-lg border bg-background px-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-spotify-green';
+
+/**
+ * Editable question: type, text, answer fields for the type, explanation,
+ * track and the clip of it to play
+ */
+export function QuestionEditor({
+  question,
+  index,
+  questionCount,
+  errors = {},
+  quizSnippet,
+  dispatch,
+}: QuestionEditorProps) {
+  const [isSearchingTrack, setIsSearchingTrack] = useState(false);
+  const fieldId = (field: string) => `question-${question.id}-${field}`;
+  const track = question.spotifyTrack;
+  const definition = getQuestionType(question.type);
+
+  return (
+    <li className="bg-card border border-border rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="font-semibold text-card-foreground">Question {index + 1}</h2>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            onClick={() => dispatch({ type: 'MOVE_QUESTION', from: index, to: index - 1 })}
+            disabled={index === 0}
+            aria-label={`Move question ${index + 1} up`}
+            className="px-2 py-1 text-sm text-muted-foreground hover:text-foreground disabled:opacity-30"
+          >
+            ↑
+          </button>
+          <button
+            type="button"
+            onClick={() => dispatch({ type: 'MOVE_QUESTION', from: index, to: index + 1 })}
+            disabled={index === questionCount - 1}
+            aria-label={`Move question ${index + 1} down`}
+            className="px-2 py-1 text-sm text-muted-foreground hover:text-foreground disabled:opacity-30"
+          >
+            ↓
+          </button>
+          <button
+            type="button"
+            onClick={() => dispatch({ type: 'DELETE_QUESTION', index })}
+            aria-label={`Delete question ${index + 1}`}
+            className="px-2 py-1 text-sm text-destructive hover:underline"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label htmlFor={fieldId('text')} className="block text-sm font-medium text-foreground">
+          Question
+        </label>
+        <input
+          id={fieldId('text')}
+          type="text"
+          value={question.text}
+          onChange={(e) => dispatch({ type: 'UPDATE_QUESTION', index, changes: { text: e.target.value } })}
+          aria-invalid={!!errors.text}
+          className={cn(inputClassName, errors.text ? 'border-destructive' : 'border-border')}
+        />
+        <FieldError message={errors.text} />
+      </div>
+
+      <div className="space-y-1">
+        <label htmlFor={fieldId('type')} className="block text-sm font-medium text-foreground">
+          Type
+        </label>
+        <select
+          id={fieldId('type')}
+          value={question.type}
+          onChange={(e) =>
+            dispatch({ type: 'SET_TYPE', index, questionType: e.target.value as QuestionType })
+          }
+          className={cn(inputClassName, 'border-border')}
+        >
+          {QUESTION_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {questionTypes[type].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {(question.type === 'FreeText' || question.type === 'YearGuess') && (
+        <div className="space-y-1">
+          <label htmlFor={fieldId('answer')} className="block text-sm font-medium text-foreground">
+            {question.type === 'YearGuess' ? 'Year' : 'Correct answer'}
+          </label>
+          <input
+            id={fieldId('answer')}
+            type={question.type === 'YearGuess' ? 'number' : 'text'}
+            value={question.correctAnswer}
+            onChange={(e) =>
+              dispatch({ type: 'UPDATE_QUESTION', index, changes: { correctAnswer: e.target.value } })
+            }
+            aria-invalid={!!errors.correctAnswer}
+            className={cn(inputClassName, errors.correctAnswer ? 'border-destructive' : 'border-border')}
+          />
+          <FieldError message={errors.correctAnswer} />
+        </div>
+      )}
+
+      {question.type !== 'YearGuess' && (
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-foreground">{OPTIONS_LEGENDS[question.type]}</legend>
+          {question.options.map((option, optionIndex) => (
+            <div key={optionIndex} className="flex items-center gap-2">
+              {question.type === 'MultipleChoice' && (
+                <input
+                  type="radio"
+                  name={fieldId('correct')}
+                  checked={option !== '' && option === question.correctAnswer}
+                  onChange={() =>
+                    dispatch({ type: 'UPDATE_QUESTION', index, changes: { correctAnswer: option } })
+                  }
+                  aria-label={`Option ${optionIndex + 1} is correct`}
+                  className="accent-spotify-green"
+                />
+              )}
+              <input
+                type="text"
+                value={option}
+                onChange={(e) =>
+                  dispatch({ type: 'SET_OPTION', index, optionIndex, value: e.target.value })
+                }
+                aria-label={`Option ${optionIndex + 1}`}
+                className={cn(inputClassName, errors.options ? 'border-destructive' : 'border-border')}
+              />
+              <button
+                type="button"
+                onClick={() => dispatch({ type: 'REMOVE_OPTION', index, optionIndex })}
+                disabled={question.options.length <= definition.minOptions}
+                aria-label={`Remove option ${optionIndex + 1}`}
+                className="px-2 text-muted-foreground hover:text-destructive disabled:opacity-30"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <FieldError message={errors.options} />
+          {question.type !== 'FreeText' && <FieldError message={errors.correctAnswer} />}
+          <button
+            type="button"
+            onClick={() => dispatch({ type: 'ADD_OPTION', index })}
+            className="text-sm text-spotify-green hover:underline"
+          >
+            + Add option
+          </button>
+        </fieldset>
+      )}
+
+      <div className="space-y-1">
+        <label htmlFor={fieldId('explanation')} className="block text-sm font-medium text-foreground">
+          Explanation <span className="text-muted-foreground font-normal">(optional)</span>
+        </label>
+        <textarea
+          id={fieldId('explanation')}
+          value={question.explanation ?? ''}
+          onChange={(e) =>
+            dispatch({
+              type: 'UPDATE_QUESTION',
+              index,
+              changes: { explanation: e.target.value || undefined },
+            })
+          }
+          rows={2}
+          className={cn(inputClassName, 'border-border')}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-foreground">Track</p>
+        {track ? (
+          <div className="flex items-center justify-between gap-3 rounded-lg bg-muted/50 p-3">
+            <div className="flex items-center gap-3 min-w-0">
+              {track.imageUrl ? (
+                <img src={track.imageUrl} alt="" className="w-10 h-10 rounded" />
+              ) : (
+                <div className="w-10 h-10 rounded bg-spotify-green/20 flex items-center justify-center">
+                  🎵
+                </div>
+              )}
+              <div className="min-w-0 text-sm">
+                <p className="truncate text-foreground">{track.name}</p>
+                <p className="truncate text-muted-foreground">{track.artist}</p>
+              </div>
+            </div>
+            <div className="flex flex-shrink-0 gap-3 text-sm">
+              <button
+                type="button"
+                onClick={() => setIsSearchingTrack(true)}
+                className="text-spotify-green hover:underline"
+              >
+                Swap
+              </button>
+              <button
+                type="button"
+                onClick={() => dispatch({ type: 'SET_TRACK', index, track: null })}
+                className="text-muted-foreground hover:text-destructive"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ) : (
+          !isSearchingTrack && (
+            <button
+              type="button"
+              onClick={() => setIsSearchingTrack(true)}
+              className="text-sm text-spotify-green hover:underline"
+            >
+              + Attach a track
+            </button>
+          )
+        )}
+        {isSearchingTrack && (
+          <TrackSearch
+            onSelect={(selected) => {
+              dispatch({ type: 'SET_TRACK', index, track: selected });
+              setIsSearchingTrack(false);
+            }}
+            onCancel={() => setIsSearchingTrack(false)}
+          />
+        )}
+      </div>
+
+      {track && (
+        <SnippetFields
+          id={fieldId('snippet')}
+          snippet={question.snippet}
+          inherited={quizSnippet}
+          error={errors.snippet}
+          onChange={(snippet) => dispatch({ type: 'SET_SNIPPET', index, snippet })}
+        />
+      )}
+    </li>
+  );
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return (
+    <p role="alert" className="text-xs text-destructive">
+      {message}
+    </p>
+  );
+}
@@ -0,0 +1,33 @@
+import type { ComponentType } from 'react';
+import type { Question, QuestionType } from '@/types/quiz';
+import type { AnswerFeedback } from '@/types/session';
+import { MultipleChoiceInput } from '@/components/quiz/question-types/MultipleChoiceInput';
+import { FreeTextInput } from '@/components/quiz/question-types/FreeTextInput';
+import { YearGuessInput } from '@/components/quiz/question-types/YearGuessInput';
+import { OrderingInput } from '@/components/quiz/question-types/OrderingInput';
+
+export interface QuestionInputProps {
+  question: Question;
+  /** Answer the player gave for this question, as sent to the API */
+  selectedAnswer: string | null;
+  /** Outcome once the answer has been checked */
+  feedback: AnswerFeedback | null;
+  disabled: boolean;
+  onSubmit: (answer: string) => void;
+}
+
+const renderers: Record<QuestionType, ComponentType<QuestionInputProps>> = {
+  MultipleChoice: MultipleChoiceInput,
+  FreeText: FreeTextInput,
+  YearGuess: YearGuessInput,
+  Ordering: OrderingInput,
+};
+
+/**
+ * Answer controls for the question's type
+ */
+export function QuestionInput(props: QuestionInputProps) {
+  const Renderer = renderers[props.question.type] ?? MultipleChoiceInput;
+  // Remount per question so typed or arranged answers start over
+  return <Renderer key={props.question.id} {...props} />;
+}
@@ -0,0 +1,129 @@
+import type { Question } from '@/types/quiz';
+import type { QuizAnswer } from '@/types/session';
+import { formatElapsed } from '@/utils/quiz';
+import { formatAnswer } from '@/lib/question-types';
+import type { QuestionPoints } from '@/lib/scoring';
+import { cn } from '@/lib/utils';
+
+interface QuestionResultRowProps {
+  question: Question;
+  /** Position in the quiz, starting at 1 */
+  number: number;
+  /** Missing when the question was not answered on this device */
+  answer?: QuizAnswer;
+  points?: QuestionPoints;
+  onReview: () => void;
+}
+
+/**
+ * One question of a completed quiz: the answer given against the correct one
+ */
+export function QuestionResultRow({
+  question,
+  number,
+  answer,
+  points,
+  onReview,
+}: QuestionResultRowProps) {
+  const track = question.spotifyTrack;
+
+  let status: string;
+  let tone: string;
+  if (!answer || answer.isCorrect === null) {
+    status = 'Not recorded';
+    tone = 'bg-muted text-muted-foreground';
+  } else if (answer.isCorrect) {
+    status = 'Correct';
+    tone = 'bg-green-500/10 text-green-500';
+  } else if (answer.credit) {
+    status = `${Math.round(answer.credit * 100)}% credit`;
+    tone = 'bg-yellow-500/10 text-yellow-600';
+  } else {
+    status = 'Wrong';
+    tone = 'bg-destructive/10 text-destructive';
+  }
+
+  return (
+    <li className="bg-card border border-border rounded-lg p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <h3 className="font-medium text-card-foreground">
+          <span className="text-muted-foreground">{number}.</span> {question.text}
+        </h3>
+        <span className={cn('flex-shrink-0 rounded-full px-2 py-0.5 text-xs font-medium', tone)}>
+          {status}
+        </span>
+      </div>
+
+      <dl className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm">
+        <div>
+          <dt className="text-muted-foreground">Your answer</dt>
+          <dd className="text-foreground">
+            {answer ? formatAnswer(question, answer.selectedAnswer) : '-'}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-muted-foreground">Correct answer</dt>
+          <dd className="text-foreground">{formatAnswer(question, question.correctAnswer)}</dd>
+        </div>
+        <div>
+          <dt className="text-muted-foreground">Time taken</dt>
+          <dd className="text-foreground">{answer ? formatElapsed(answer.timeToAnswer) : '-'}</dd>
+        </div>
+      </dl>
+
+      {points && points.total > 0 && <PointsBreakdown points={points} />}
+
+      {question.explanation && (
+        <p className="text-sm text-muted-foreground">{question.explanation}</p>
+      )}
+
+      <div className="flex items-center justify-between gap-4">
+        {track ? (
+          <div className="flex items-center gap-3 min-w-0">
+            {track.imageUrl ? (
+              <img src={track.imageUrl} alt={track.album ?? ''} className="w-10 h-10 rounded" />
+            ) : (
+              <div className="w-10 h-10 rounded bg-spotify-green/20 flex items-center justify-center">
+                🎵
+              </div>
+            )}
+            <div className="min-w-0 text-sm">
+              <p className="truncate text-foreground">{track.name}</p>
+              <p className="truncate text-muted-foreground">
+                {track.artist}
+                {track.album && ` · ${track.album}`}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <span />
+        )}
+        <button
+          type="button"
+          onClick={onReview}
+          className="flex-shrink-0 px-3 py-1.5 text-sm text-muted-foreground hover:text-foreground border border-border rounded-lg hover:bg-muted/50 transition-colors"
+        >
+          Review
+        </button>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * How a question's points add up, e.g. "100 base + 32 speed + 10 streak × 1.5"
+ */
+function PointsBreakdown({ points }: { points: QuestionPoints }) {
+  const parts = [`${points.base} base`];
+  if (points.timeBonus) parts.push(`${points.timeBonus} speed`);
+  if (points.streakBonus) parts.push(`${points.streakBonus} streak`);
+
+  return (
+    <p className="text-sm text-muted-foreground">
+      <span className="font-medium text-foreground">+{points.total} points</span> ·{' '}
+      {parts.join(' + ')}
+      {points.multiplier !== 1 && ` × ${points.multiplier}`}
+      {points.streak > 1 && ` · ${points.streak} in a row`}
+    </p>
+  );
+}
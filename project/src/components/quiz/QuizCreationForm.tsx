@@ -0,0 +1,211 @@
+import { useState, type FormEvent } from 'react';
+import type { QuizGenerationRequest } from '@/types/quiz';
+import type { Difficulty } from '@/types/user';
+import { DIFFICULTIES, QUESTION_COUNT_RANGE } from '@/utils/settings';
+import { questionTypes } from '@/lib/question-types';
+import {
+  PROMPT_LENGTH_RANGE,
+  QUESTION_FORMATS,
+  estimateQuizDuration,
+  formatDuration,
+  validateQuizParams,
+  type QuizParamErrors,
+} from '@/utils/quiz';
+import { cn } from '@/lib/utils';
+
+interface QuizCreationFormProps {
+  /** Starting values, usually from the user's settings */
+  initialValues: QuizGenerationRequest;
+  onSubmit: (params: QuizGenerationRequest) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Form for the quiz generation parameters
+ * Validates client-side and only submits valid parameters
+ */
+export function QuizCreationForm({ initialValues, onSubmit, disabled = false }: QuizCreationFormProps) {
+  const [values, setValues] = useState<QuizGenerationRequest>(initialValues);
+  const [errors, setErrors] = useState<QuizParamErrors>({});
+  // Validate as the user types only after the first submit attempt
+  const [submitted, setSubmitted] = useState(false);
+
+  const update = <K extends keyof QuizGenerationRequest>(key: K, value: QuizGenerationRequest[K]) => {
+    const next = { ...values, [key]: value };
+    setValues(next);
+    if (submitted) {
+      setErrors(validateQuizParams(next).errors);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitted(true);
+
+    const result = validateQuizParams(values);
+    setErrors(result.errors);
+    if (result.isValid) {
+      onSubmit({ ...values, prompt: values.prompt.trim() });
+    }
+  };
+
+  const estimatedDuration = estimateQuizDuration(values.questionCount, values.difficulty);
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-6">
+      {/* Prompt */}
+      <div className="space-y-2">
+        <label htmlFor="quiz-prompt" className="block text-sm font-medium text-foreground">
+          What should the quiz be about?
+        </label>
+        <textarea
+          id="quiz-prompt"
+          value={values.prompt}
+          onChange={(e) => update('prompt', e.target.value)}
+          disabled={disabled}
+          rows={3}
+          maxLength={PROMPT_LENGTH_RANGE.max}
+          placeholder="e.g. 90s rock bands, Motown classics, songs from movie soundtracks"
+          aria-invalid={!!errors.prompt}
+          aria-describedby={errors.prompt ? 'quiz-prompt-error' : undefined}
+          className={cn(
+            'w-full rounded-lg border bg-background px-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-spotify-green disabled:opacity-50',
+            errors.prompt ? 'border-destructive' : 'border-border'
+          )}
+        />
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <FieldError id="quiz-prompt-error" message={errors.prompt} />
+          <span className="ml-auto">
+            {values.prompt.length}/{PROMPT_LENGTH_RANGE.max}
+          </span>
+        </div>
+      </div>
+
+      {/* Question count */}
+      <div className="space-y-2">
+        <label htmlFor="quiz-question-count" className="block text-sm font-medium text-foreground">
+          Number of questions: <span className="text-spotify-green">{values.questionCount}</span>
+        </label>
+        <input
+          id="quiz-question-count"
+          type="range"
+          min={QUESTION_COUNT_RANGE.min}
+          max={QUESTION_COUNT_RANGE.max}
+          step={1}
+          value={values.questionCount}
+          onChange={(e) => update('questionCount', Number(e.target.value))}
+          disabled={disabled}
+          className="w-full accent-spotify-green"
+        />
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{QUESTION_COUNT_RANGE.min}</span>
+          <span>{QUESTION_COUNT_RANGE.max}</span>
+        </div>
+        <FieldError message={errors.questionCount} />
+      </div>
+
+      {/* Question type */}
+      <fieldset className="space-y-2" disabled={disabled}>
+        <legend className="block text-sm font-medium text-foreground mb-2">Question type</legend>
+        <div className="grid grid-cols-2 gap-2">
+          {QUESTION_FORMATS.map((format) => (
+            <label
+              key={format}
+              className={cn(
+                'cursor-pointer rounded-lg border px-3 py-2 text-sm transition-colors',
+                values.format === format
+                  ? 'border-spotify-green bg-spotify-green/10 text-foreground'
+                  : 'border-border text-muted-foreground hover:text-foreground'
+              )}
+            >
+              <input
+                type="radio"
+                name="format"
+                value={format}
+                checked={values.format === format}
+                onChange={() => update('format', format)}
+                className="sr-only"
+              />
+              <span className="block font-medium">{questionTypes[format].label}</span>
+              <span className="block text-xs text-muted-foreground">
+                {questionTypes[format].description}
+              </span>
+            </label>
+          ))}
+        </div>
+        <FieldError message={errors.format} />
+      </fieldset>
+
+      {/* Difficulty */}
+      <fieldset className="space-y-2" disabled={disabled}>
+        <legend className="block text-sm font-medium text-foreground mb-2">Difficulty</legend>
+        <div className="grid grid-cols-3 gap-2">
+          {DIFFICULTIES.map((difficulty: Difficulty) => (
+            <label
+              key={difficulty}
+              className={cn(
+                'cursor-pointer rounded-lg border px-3 py-2 text-center text-sm font-medium transition-colors',
+                values.difficulty === difficulty
+                  ? 'border-spotify-green bg-spotify-green/10 text-foreground'
+                  : 'border-border text-muted-foreground hover:text-foreground'
+              )}
+            >
+              <input
+                type="radio"
+                name="difficulty"
+                value={difficulty}
+                checked={values.difficulty === difficulty}
+                onChange={() => update('difficulty', difficulty)}
+                className="sr-only"
+              />
+              {difficulty}
+            </label>
+          ))}
+        </div>
+        <FieldError message={errors.difficulty} />
+      </fieldset>
+
+      {/* Audio previews */}
+      <label className="flex items-start gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={values.includeAudio}
+          onChange={(e) => update('includeAudio', e.target.checked)}
+          disabled={disabled}
+          className="mt-1 h-4 w-4 accent-spotify-green"
+        />
+        <span>
+          <span className="block text-sm font-medium text-foreground">Include audio previews</span>
+          <span className="block text-xs text-muted-foreground">
+            Play a clip of each track while you answer
+          </span>
+        </span>
+      </label>
+
+      <div className="flex items-center justify-between gap-4 border-t border-border pt-4">
+        <p className="text-sm text-muted-foreground">
+          About {formatDuration(estimatedDuration)} to play
+        </p>
+        <button
+          type="submit"
+          disabled={disabled}
+          className="px-4 py-2 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors disabled:opacity-50"
+        >
+          Generate Quiz
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Validation message under a field
+ */
+function FieldError({ id, message }: { id?: string; message?: string }) {
+  if (!message) return null;
+  return (
+    <p id={id} role="alert" className="text-xs text-destructive">
+      {message}
+    </p>
+  );
+}
@@ -0,0 +1,63 @@
+import { useRef, useState, type DragEvent } from 'react';
+import { cn } from '@/lib/utils';
+
+interface QuizFileDropzoneProps {
+  onFile: (file: File) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Drop target for quiz files, with a file picker as fallback
+ */
+export function QuizFileDropzone({ onFile, disabled = false }: QuizFileDropzoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDragOver = (event: DragEvent) => {
+    event.preventDefault();
+    if (!disabled) setIsDragging(true);
+  };
+
+  const handleDrop = (event: DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file && !disabled) onFile(file);
+  };
+
+  return (
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={cn(
+        'rounded-lg border-2 border-dashed p-6 text-center space-y-2 transition-colors',
+        isDragging ? 'border-spotify-green bg-spotify-green/10' : 'border-border',
+        disabled && 'opacity-60'
+      )}
+    >
+      <p className="text-sm text-foreground">Drop a quiz file here to import it</p>
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        className="text-sm text-spotify-green hover:underline disabled:pointer-events-none"
+      >
+        or choose a file
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          // Allow picking the same file again
+          e.target.value = '';
+          if (file) onFile(file);
+        }}
+        className="hidden"
+        aria-label="Quiz file"
+      />
+    </div>
+  );
+}
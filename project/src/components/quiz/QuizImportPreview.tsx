@@ -0,0 +1,115 @@
+import type { QuizImportPreview as Preview } from '@/hooks/useQuizFile';
+import type { QuestionField, QuizField } from '@/lib/quiz-file';
+
+interface QuizImportPreviewProps {
+  preview: Preview;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+const QUIZ_FIELD_LABELS: Record<QuizField, string> = {
+  title: 'Title',
+  description: 'Description',
+  difficulty: 'Difficulty',
+  tags: 'Tags',
+  snippet: 'Clip settings',
+};
+
+const QUESTION_FIELD_LABELS: Record<QuestionField, string> = {
+  text: 'text',
+  options: 'options',
+  correctAnswer: 'correct answer',
+  explanation: 'explanation',
+  track: 'track',
+  snippet: 'clip',
+};
+
+/**
+ * What importing a quiz file will change, before it is saved
+ */
+export function QuizImportPreview({ preview, onSave, onCancel }: QuizImportPreviewProps) {
+  const { quiz, diff, migratedFrom, missingTrackCount, invalidQuestionCount } = preview;
+  const hasChanges = !diff || diff.hasChanges;
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-4 space-y-4">
+      <div>
+        <h2 className="font-semibold text-card-foreground">Import {quiz.title}</h2>
+        <p className="text-sm text-muted-foreground">
+          {diff ? 'Replaces the version on this device' : 'New quiz'} · {quiz.questions.length}{' '}
+          questions
+        </p>
+      </div>
+
+      <ul className="space-y-1 text-xs text-muted-foreground">
+        {migratedFrom !== undefined && (
+          <li>The file uses format version {migratedFrom} and was upgraded.</li>
+        )}
+        {missingTrackCount > 0 && (
+          <li>
+            {missingTrackCount} track{missingTrackCount === 1 ? ' is' : 's are'} no longer on
+            Spotify and will be left out.
+          </li>
+        )}
+        {invalidQuestionCount > 0 && (
+          <li className="text-destructive">
+            {invalidQuestionCount} question{invalidQuestionCount === 1 ? ' needs' : 's need'}{' '}
+            fixing in the editor.
+          </li>
+        )}
+      </ul>
+
+      {diff &&
+        (diff.hasChanges ? (
+          <ul className="space-y-1 text-sm" aria-label="Changes">
+            {diff.fields.map((field) => (
+              <li key={field} className="text-foreground">
+                ~ {QUIZ_FIELD_LABELS[field]} changed
+              </li>
+            ))}
+            {diff.added.map((question) => (
+              <li key={`added-${question.id}`} className="text-spotify-green">
+                + {question.text || 'Untitled question'}
+              </li>
+            ))}
+            {diff.removed.map((question) => (
+              <li key={`removed-${question.id}`} className="text-destructive line-through">
+                − {question.text || 'Untitled question'}
+              </li>
+            ))}
+            {diff.changed.map(({ after, fields }) => (
+              <li key={`changed-${after.id}`} className="text-foreground">
+                ~ {after.text || 'Untitled question'}{' '}
+                <span className="text-muted-foreground">
+                  ({fields.map((field) => QUESTION_FIELD_LABELS[field]).join(', ')})
+                </span>
+              </li>
+            ))}
+            {diff.reordered && <li className="text-foreground">~ Questions reordered</li>}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            The file matches the version on this device.
+          </p>
+        ))}
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm text-muted-foreground hover:text-foreground"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={onSave}
+          disabled={!hasChanges}
+          className="px-4 py-2 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+        >
+          Save quiz
+        </button>
+      </div>
+    </div>
+  );
+}
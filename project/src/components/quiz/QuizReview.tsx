@@ -0,0 +1,81 @@
+import { QuestionDisplay } from '@/components/quiz/QuestionDisplay';
+import { TrackPreview } from '@/components/quiz/TrackPreview';
+import type { QuizResult } from '@/types/session';
+import { formatElapsed } from '@/utils/quiz';
+
+interface QuizReviewProps {
+  result: QuizResult;
+  /** Index of the question shown */
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Read-only walk through the questions of a completed quiz, with the
+ * track's preview clip for each
+ */
+export function QuizReview({ result, index, onIndexChange, onClose }: QuizReviewProps) {
+  const { questions } = result.quiz;
+  const question = questions[index];
+  if (!question) return null;
+
+  const answer = result.answers.find((given) => given.questionId === question.id);
+  const isFirst = index === 0;
+  const isLast = index === questions.length - 1;
+
+  return (
+    <section aria-label="Review questions" className="bg-card border border-border rounded-xl p-6 shadow-xl space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Question {index + 1} of {questions.length}
+          {answer && ` · answered in ${formatElapsed(answer.timeToAnswer)}`}
+        </p>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-sm text-muted-foreground hover:text-foreground"
+        >
+          Back to results
+        </button>
+      </div>
+
+      <QuestionDisplay
+        question={question}
+        selectedAnswer={answer?.selectedAnswer ?? null}
+        feedback={{
+          isCorrect: answer?.isCorrect ?? null,
+          correctAnswer: question.correctAnswer,
+          explanation: question.explanation,
+          alreadyAnswered: false,
+        }}
+        disabled
+        onSubmit={() => {}}
+      />
+
+      {question.explanation && (
+        <p className="text-sm text-muted-foreground">{question.explanation}</p>
+      )}
+
+      {question.spotifyTrack && <TrackPreview track={question.spotifyTrack} />}
+
+      <div className="flex justify-between">
+        <button
+          type="button"
+          onClick={() => onIndexChange(index - 1)}
+          disabled={isFirst}
+          className="px-4 py-2 text-sm text-muted-foreground hover:text-foreground border border-border rounded-lg hover:bg-muted/50 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+        >
+          Previous
+        </button>
+        <button
+          type="button"
+          onClick={() => (isLast ? onClose() : onIndexChange(index + 1))}
+          className="px-4 py-2 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors"
+        >
+          {isLast ? 'Finish review' : 'Next'}
+        </button>
+      </div>
+    </section>
+  );
+}
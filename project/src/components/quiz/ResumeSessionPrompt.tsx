@@ -0,0 +1,81 @@
+import { useNavigate } from 'react-router-dom';
+import { useResumableSession } from '@/hooks/useQuiz';
+import type { ActiveSessionRecord } from '@/types/session';
+import { cn } from '@/lib/utils';
+
+interface ResumeSessionPromptProps {
+  session: ActiveSessionRecord;
+  onResume: () => void;
+  onDiscard: () => void;
+  /** Label of the discard button */
+  discardText?: string;
+  className?: string;
+}
+
+/**
+ * "Resume your quiz?" prompt for a saved session
+ */
+export function ResumeSessionPrompt({
+  session,
+  onResume,
+  onDiscard,
+  discardText = 'Discard',
+  className,
+}: ResumeSessionPromptProps) {
+  const questionCount = session.quiz.questions.length;
+  const questionNumber = Math.min(session.currentQuestionIndex + 1, questionCount);
+
+  return (
+    <div
+      role="region"
+      aria-label="Unfinished quiz"
+      className={cn(
+        'flex flex-col sm:flex-row sm:items-center justify-between gap-4 bg-card border border-spotify-green/40 rounded-lg p-4',
+        className
+      )}
+    >
+      <div>
+        <h3 className="font-semibold text-foreground">Resume your quiz?</h3>
+        <p className="text-sm text-muted-foreground">
+          {session.quiz.title} · Question {questionNumber} of {questionCount} · Score {session.score}
+        </p>
+      </div>
+      <div className="flex gap-3 flex-shrink-0">
+        <button
+          type="button"
+          onClick={onResume}
+          className="px-4 py-2 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors"
+        >
+          Resume
+        </button>
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="px-4 py-2 text-sm text-muted-foreground hover:text-foreground border border-border rounded-lg hover:bg-muted/50 transition-colors"
+        >
+          {discardText}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Resume prompt for pages outside the player; renders nothing when
+ * there is no session to resume
+ */
+export function ResumeSessionBanner({ className }: { className?: string }) {
+  const navigate = useNavigate();
+  const { session, discard } = useResumableSession();
+
+  if (!session) return null;
+
+  return (
+    <ResumeSessionPrompt
+      session={session}
+      className={className}
+      onResume={() => navigate(`/quiz/${session.quizId}/play`, { state: { resume: true } })}
+      onDiscard={discard}
+    />
+  );
+}
@@ -0,0 +1,54 @@
+import { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+
+interface ShareLinkProps {
+  url: string;
+  className?: string;
+}
+
+/**
+ * Read-only link with a copy button
+ * Falls back to selecting the link when the clipboard is not available.
+ */
+export function ShareLink({ url, className }: ShareLinkProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+      // Let the user copy it themselves
+      inputRef.current?.select();
+    }
+  };
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      <input
+        ref={inputRef}
+        type="text"
+        readOnly
+        value={url}
+        onFocus={(event) => event.target.select()}
+        aria-label="Share link"
+        className="min-w-0 flex-1 rounded-lg border border-border bg-muted/50 px-3 py-2 text-sm text-foreground"
+      />
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="flex-shrink-0 px-4 py-2 text-sm font-medium border border-border rounded-lg hover:bg-muted/50 transition-colors"
+      >
+        {copied ? 'Copied!' : 'Copy link'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import type { SnippetSettings } from '@/types/quiz';
+import { cn } from '@/lib/utils';
+
+interface SnippetFieldsProps {
+  /** Prefix for input IDs */
+  id: string;
+  snippet?: SnippetSettings;
+  /** Settings used where these leave a field empty, shown as placeholders */
+  inherited?: SnippetSettings;
+  error?: string;
+  onChange: (snippet: SnippetSettings | null) => void;
+}
+
+const inputClassName =
+  'w-full rounded-lg border bg-background px-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-spotify-green';
+
+const toSeconds = (ms: number | undefined) => (ms === undefined ? '' : String(ms / 1000));
+
+/**
+ * Input in seconds back to milliseconds; empty or invalid input clears the field
+ */
+function toMs(value: string): number | undefined {
+  const seconds = Number(value);
+  if (value.trim() === '' || !Number.isFinite(seconds) || seconds < 0) return undefined;
+  return Math.round(seconds * 1000);
+}
+
+/**
+ * Clip settings: where the clip starts (fixed or random) and how long it plays
+ * Times are entered in seconds. Empty fields fall back to the inherited
+ * settings, or play from the start to the end.
+ */
+export function SnippetFields({ id, snippet = {}, inherited = {}, error, onChange }: SnippetFieldsProps) {
+  const update = (changes: Partial<SnippetSettings>) => onChange({ ...snippet, ...changes });
+  const randomStart = snippet.randomStart ?? inherited.randomStart ?? false;
+  const placeholder = (ms: number | undefined, fallback: string) =>
+    ms === undefined ? fallback : toSeconds(ms);
+
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-sm font-medium text-foreground">
+        Clip <span className="text-muted-foreground font-normal">(optional, in seconds)</span>
+      </legend>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <label htmlFor={`${id}-start`} className="block text-xs text-muted-foreground">
+            {randomStart ? 'Earliest start' : 'Start at'}
+          </label>
+          <input
+            id={`${id}-start`}
+            type="number"
+            min={0}
+            step="any"
+            value={toSeconds(snippet.startMs)}
+            placeholder={placeholder(inherited.startMs, '0')}
+            onChange={(e) => update({ startMs: toMs(e.target.value) })}
+            className={cn(inputClassName, 'border-border')}
+          />
+        </div>
+        {randomStart && (
+          <div className="space-y-1">
+            <label htmlFor={`${id}-max-start`} className="block text-xs text-muted-foreground">
+              Latest start
+            </label>
+            <input
+              id={`${id}-max-start`}
+              type="number"
+              min={0}
+              step="any"
+              value={toSeconds(snippet.maxStartMs)}
+              placeholder={placeholder(inherited.maxStartMs, 'Any')}
+              onChange={(e) => update({ maxStartMs: toMs(e.target.value) })}
+              aria-invalid={!!error}
+              className={cn(inputClassName, error ? 'border-destructive' : 'border-border')}
+            />
+          </div>
+        )}
+        <div className="space-y-1">
+          <label htmlFor={`${id}-duration`} className="block text-xs text-muted-foreground">
+            Length
+          </label>
+          <input
+            id={`${id}-duration`}
+            type="number"
+            min={1}
+            step="any"
+            value={toSeconds(snippet.durationMs)}
+            placeholder={placeholder(inherited.durationMs, 'Whole track')}
+            onChange={(e) => update({ durationMs: toMs(e.target.value) })}
+            aria-invalid={!!error}
+            className={cn(inputClassName, error ? 'border-destructive' : 'border-border')}
+          />
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-foreground">
+        <input
+          type="checkbox"
+          checked={randomStart}
+          onChange={(e) => update({ randomStart: e.target.checked })}
+          className="accent-spotify-green"
+        />
+        Start at a random point
+      </label>
+      {error && (
+        <p role="alert" className="text-xs text-destructive">
+          {error}
+        </p>
+      )}
+    </fieldset>
+  );
+}
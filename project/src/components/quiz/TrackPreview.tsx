@@ -0,0 +1,32 @@
+import type { SpotifyTrack } from '@/types/quiz';
+import { cn } from '@/lib/utils';
+
+interface TrackPreviewProps {
+  track: SpotifyTrack;
+  className?: string;
+}
+
+/**
+ * Player for a track's 30 second preview clip
+ */
+export function TrackPreview({ track, className }: TrackPreviewProps) {
+  if (!track.previewUrl) {
+    return (
+      <p className={cn('text-sm text-muted-foreground', className)}>
+        No preview available for this track
+      </p>
+    );
+  }
+
+  return (
+    <audio
+      // Start over when stepping to another track
+      key={track.id}
+      controls
+      preload="none"
+      src={track.previewUrl}
+      aria-label={`Preview of ${track.name} by ${track.artist}`}
+      className={cn('w-full', className)}
+    />
+  );
+}
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { useTrackSearch } from '@/hooks/useQuizEditor';
+import type { SpotifyTrack } from '@/types/quiz';
+import { getErrorMessage } from '@/utils/error-handling';
+
+interface TrackSearchProps {
+  onSelect: (track: SpotifyTrack) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Search Spotify for a track to attach to a question
+ */
+export function TrackSearch({ onSelect, onCancel }: TrackSearchProps) {
+  const [query, setQuery] = useState('');
+  const { data: tracks, error, isFetching } = useTrackSearch(query);
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border p-3">
+      <div className="flex gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search Spotify for a track"
+          aria-label="Search Spotify for a track"
+          autoFocus
+          className="flex-1 rounded-lg border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-spotify-green"
+        />
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-2 text-sm text-muted-foreground hover:text-foreground"
+        >
+          Cancel
+        </button>
+      </div>
+
+      {isFetching && <p className="text-xs text-muted-foreground">Searching...</p>}
+      {error && (
+        <p role="alert" className="text-xs text-destructive">
+          {getErrorMessage(error, 'Failed to search tracks')}
+        </p>
+      )}
+      {tracks && tracks.length === 0 && (
+        <p className="text-xs text-muted-foreground">No tracks found</p>
+      )}
+
+      {tracks && tracks.length > 0 && (
+        <ul className="max-h-64 overflow-y-auto divide-y divide-border" aria-label="Search results">
+          {tracks.map((track) => (
+            <li key={track.id}>
+              <button
+                type="button"
+                onClick={() => onSelect(track)}
+                className="flex w-full items-center gap-3 px-2 py-2 text-left hover:bg-muted/50 rounded"
+              >
+                {track.imageUrl ? (
+                  <img src={track.imageUrl} alt="" className="w-8 h-8 rounded" />
+                ) : (
+                  <div className="w-8 h-8 rounded bg-spotify-green/20" />
+                )}
+                <span className="min-w-0 text-sm">
+                  <span className="block truncate text-foreground">{track.name}</span>
+                  <span className="block truncate text-muted-foreground">{track.artist}</span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
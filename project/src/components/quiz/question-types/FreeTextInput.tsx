@@ -0,0 +1,50 @@
+import { useState, type FormEvent } from 'react';
+import type { QuestionInputProps } from '@/components/quiz/QuestionInput';
+import { questionTypes } from '@/lib/question-types';
+import { cn } from '@/lib/utils';
+
+/**
+ * Typed guess of a title or artist; small typos and accents don't matter
+ */
+export function FreeTextInput({ selectedAnswer, feedback, disabled, onSubmit }: QuestionInputProps) {
+  const [guess, setGuess] = useState(selectedAnswer ?? '');
+  const isLocked = disabled || !!feedback;
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const answer = questionTypes.FreeText.serializeAnswer(guess);
+    if (answer) onSubmit(answer);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-3">
+      <input
+        type="text"
+        value={isLocked ? (selectedAnswer ?? guess) : guess}
+        onChange={(e) => setGuess(e.target.value)}
+        disabled={isLocked}
+        placeholder="Type your answer"
+        aria-label="Your answer"
+        autoComplete="off"
+        autoFocus
+        className={cn(
+          'flex-1 rounded-lg border bg-background px-4 py-3 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-spotify-green',
+          feedback?.isCorrect
+            ? 'border-green-500'
+            : feedback?.isCorrect === false
+              ? 'border-destructive'
+              : 'border-border'
+        )}
+      />
+      {!feedback && (
+        <button
+          type="submit"
+          disabled={disabled || !guess.trim()}
+          className="px-4 py-3 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors disabled:opacity-50"
+        >
+          Submit
+        </button>
+      )}
+    </form>
+  );
+}
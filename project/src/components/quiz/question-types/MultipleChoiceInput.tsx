@@ -0,0 +1,46 @@
+import type { QuestionInputProps } from '@/components/quiz/QuestionInput';
+import { cn } from '@/lib/utils';
+
+/**
+ * Options to pick from; picking one submits it
+ * Marks the correct and the chosen answer once feedback is available
+ */
+export function MultipleChoiceInput({
+  question,
+  selectedAnswer,
+  feedback,
+  disabled,
+  onSubmit,
+}: QuestionInputProps) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3" role="group" aria-label="Answer options">
+      {question.options.map((option) => {
+        const isSelected = option === selectedAnswer;
+        const isCorrect = feedback?.correctAnswer === option;
+        const isWrongPick = !!feedback && isSelected && feedback.isCorrect === false;
+
+        return (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onSubmit(option)}
+            disabled={disabled || !!feedback}
+            aria-pressed={isSelected}
+            className={cn(
+              'rounded-lg border px-4 py-3 text-left text-sm font-medium transition-colors disabled:cursor-default',
+              isCorrect
+                ? 'border-green-500 bg-green-500/10 text-foreground'
+                : isWrongPick
+                  ? 'border-destructive bg-destructive/10 text-foreground'
+                  : isSelected
+                    ? 'border-spotify-green bg-spotify-green/10 text-foreground'
+                    : 'border-border text-foreground hover:bg-muted/50'
+            )}
+          >
+            {option}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
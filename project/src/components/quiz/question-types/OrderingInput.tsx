@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import type { QuestionInputProps } from '@/components/quiz/QuestionInput';
+import { questionTypes } from '@/lib/question-types';
+import type { Question } from '@/types/quiz';
+import { createSeededRandom } from '@/utils/random';
+import { cn } from '@/lib/utils';
+
+const { parseAnswer, serializeAnswer } = questionTypes.Ordering;
+
+/**
+ * Shuffle the items the same way every time the question is shown, never
+ * starting in the correct order
+ */
+function getStartingOrder(question: Question): string[] {
+  const random = createSeededRandom(question.id);
+
+  const items = [...question.options];
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+
+  const correct = parseAnswer(question.correctAnswer);
+  if (items.length > 1 && correct && items.every((item, index) => item === correct[index])) {
+    items.push(items.shift()!);
+  }
+  return items;
+}
+
+/**
+ * Arrange the items in order with up/down controls
+ */
+export function OrderingInput({
+  question,
+  selectedAnswer,
+  feedback,
+  disabled,
+  onSubmit,
+}: QuestionInputProps) {
+  const [order, setOrder] = useState(
+    () => (selectedAnswer && parseAnswer(selectedAnswer)) || getStartingOrder(question)
+  );
+  const isLocked = disabled || !!feedback;
+  const correctOrder = feedback?.correctAnswer ? parseAnswer(feedback.correctAnswer) : null;
+
+  const move = (from: number, to: number) => {
+    const next = [...order];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    setOrder(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <ol className="space-y-2" aria-label="Items in order">
+        {order.map((item, index) => {
+          const isInPlace = correctOrder?.[index] === item;
+          return (
+            <li
+              key={item}
+              className={cn(
+                'flex items-center gap-3 rounded-lg border px-4 py-3 text-sm font-medium text-foreground',
+                !correctOrder
+                  ? 'border-border'
+                  : isInPlace
+                    ? 'border-green-500 bg-green-500/10'
+                    : 'border-destructive bg-destructive/10'
+              )}
+            >
+              <span className="text-muted-foreground">{index + 1}.</span>
+              <span className="flex-1">{item}</span>
+              {correctOrder && !isInPlace && (
+                <span className="text-xs text-muted-foreground">
+                  #{correctOrder.indexOf(item) + 1}
+                </span>
+              )}
+              {!isLocked && (
+                <span className="flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() => move(index, index - 1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${item} up`}
+                    className="px-2 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(index, index + 1)}
+                    disabled={index === order.length - 1}
+                    aria-label={`Move ${item} down`}
+                    className="px-2 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {!feedback && (
+        <button
+          type="button"
+          onClick={() => onSubmit(serializeAnswer(order))}
+          disabled={disabled}
+          className="w-full px-4 py-3 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors disabled:opacity-50"
+        >
+          Submit order
+        </button>
+      )}
+    </div>
+  );
+}
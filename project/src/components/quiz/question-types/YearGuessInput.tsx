@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import type { QuestionInputProps } from '@/components/quiz/QuestionInput';
+import { YEAR_GUESS_RANGE, questionTypes } from '@/lib/question-types';
+
+const { parseAnswer, serializeAnswer } = questionTypes.YearGuess;
+
+/**
+ * Slider to guess a year; close guesses earn partial credit
+ */
+export function YearGuessInput({ selectedAnswer, feedback, disabled, onSubmit }: QuestionInputProps) {
+  const [year, setYear] = useState(
+    () =>
+      (selectedAnswer && parseAnswer(selectedAnswer)) ||
+      Math.round((YEAR_GUESS_RANGE.min + YEAR_GUESS_RANGE.max) / 2)
+  );
+  const isLocked = disabled || !!feedback;
+  const correctYear = feedback?.correctAnswer ? parseAnswer(feedback.correctAnswer) : null;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-center text-4xl font-bold text-spotify-green" aria-live="polite">
+        {year}
+      </p>
+      <input
+        type="range"
+        min={YEAR_GUESS_RANGE.min}
+        max={YEAR_GUESS_RANGE.max}
+        step={1}
+        value={year}
+        onChange={(e) => setYear(Number(e.target.value))}
+        disabled={isLocked}
+        aria-label="Year"
+        className="w-full accent-spotify-green"
+      />
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{YEAR_GUESS_RANGE.min}</span>
+        <span>{YEAR_GUESS_RANGE.max}</span>
+      </div>
+
+      {correctYear !== null ? (
+        <p className="text-center text-sm text-muted-foreground">
+          {correctYear === year
+            ? 'Spot on!'
+            : `${Math.abs(correctYear - year)} year${Math.abs(correctYear - year) === 1 ? '' : 's'} off - it was ${correctYear}`}
+        </p>
+      ) : (
+        !feedback && (
+          <button
+            type="button"
+            onClick={() => onSubmit(serializeAnswer(year))}
+            disabled={disabled}
+            className="w-full px-4 py-3 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors disabled:opacity-50"
+          >
+            Lock in {year}
+          </button>
+        )
+      )}
+    </div>
+  );
+}
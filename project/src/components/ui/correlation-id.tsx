@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+
+interface CorrelationIdProps {
+  id: string;
+  className?: string;
+}
+
+/**
+ * Shows a request's correlation ID with a copy button,
+ * so users can quote it when reporting a problem
+ */
+export function CorrelationId({ id, className }: CorrelationIdProps) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(id);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy correlation ID:', error);
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        'flex items-center justify-between gap-3 rounded-lg border border-border bg-muted/50 px-3 py-2 text-left',
+        className
+      )}
+    >
+      <div className="min-w-0">
+        <p className="text-xs text-muted-foreground">Error reference</p>
+        <code className="block truncate text-xs text-foreground">{id}</code>
+      </div>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="flex-shrink-0 text-xs font-medium text-primary hover:underline"
+        aria-label="Copy error reference"
+      >
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+    </div>
+  );
+}
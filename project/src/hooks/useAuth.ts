@@ -1,6 +1,8 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuthStore, useAuthActions } from '@/stores/auth.store';
 import authService from '@/services/auth.service';
+import type { HttpRequestOptions } from '@/lib/http-client';
+import { isRetryableError } from '@/utils/error-handling';
 
 /**
  * Custom hook for authentication with TanStack Query integration
@@ -18,8 +20,8 @@ export function useAuth() {
     enabled: authStore.isAuthenticated && !!authStore.getAccessToken(),
     staleTime: 5 * 60 * 1000, // 5 minutes
     retry: (failureCount, error) => {
-      // Don't retry on 401 errors (token expired)
-      if (error instanceof Error && error.message.includes('401')) {
+      // Don't retry on 401 (token expired) or other client errors
+      if (!isRetryableError(error)) {
         return false;
       }
       return failureCount < 2;
@@ -98,19 +100,8 @@ export function useAuth() {
     },
   });
 
-  // Auto-refresh token when it's about to expire
-  const tokenRefreshQuery = useQuery({
-    queryKey: ['auth', 'token-refresh'],
-    queryFn: async () => {
-      if (authStore.isTokenExpired()) {
-        return authActions.refreshToken();
-      }
-      return null;
-    },
-    enabled: authStore.isAuthenticated && authStore.isTokenExpired(),
-    refetchInterval: 5 * 60 * 1000, // Check every 5 minutes
-    retry: false, // Don't retry failed refreshes
-  });
+  // Proactive token refresh is scheduled once by the auth store, not per consumer
+  const { tokenRefresh } = authStore;
 
   return {
     // Auth state from store
@@ -128,19 +119,23 @@ export function useAuth() {
     // Actions
     login: loginMutation.mutate,
     logout: logoutMutation.mutate,
-    handleCallback: callbackMutation.mutate,
+    handleCallback: callbackMutation.mutateAsync,
     refreshToken: refreshMutation.mutate,
     
     // Loading states for individual operations
     isLoginLoading: loginMutation.isPending,
     isCallbackLoading: callbackMutation.isPending,
-    isRefreshLoading: refreshMutation.isPending || tokenRefreshQuery.isLoading,
+    isRefreshLoading: refreshMutation.isPending || tokenRefresh.status === 'refreshing',
     isLogoutLoading: logoutMutation.isPending,
     
     // Error states
     loginError: loginMutation.error?.message || null,
     callbackError: callbackMutation.error?.message || null,
     refreshError: refreshMutation.error?.message || null,
+
+    // Token lifecycle
+    nextTokenRefreshAt: tokenRefresh.nextRefreshAt,
+    lastTokenRefreshFailure: tokenRefresh.lastFailure,
     
     // Query utilities
     refetchUser: userQuery.refetch,
@@ -177,23 +172,15 @@ export function useAuthInitialization() {
  * Hook for making authenticated Spotify API requests
  */
 export function useSpotifyApi() {
-  const { accessToken, refreshToken } = useAuth();
+  const { accessToken } = useAuth();
 
-  const makeRequest = async <T>(endpoint: string, options: RequestInit = {}): Promise<T> => {
+  // The HTTP client refreshes and replays once on 401
+  const makeRequest = async <T>(endpoint: string, options: HttpRequestOptions<T> = {}): Promise<T> => {
     if (!accessToken) {
       throw new Error('No access token available');
     }
 
-    try {
-      return await authService.spotifyApiRequest<T>(endpoint, options);
-    } catch (error) {
-      // If token is expired, try to refresh and retry
-      if (error instanceof Error && error.message.includes('401')) {
-        await refreshToken();
-        return authService.spotifyApiRequest<T>(endpoint, options);
-      }
-      throw error;
-    }
+    return authService.spotifyApiRequest<T>(endpoint, options);
   };
 
   return { makeRequest };
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { usePlaybackStore } from '@/stores/playback.store';
+import {
+  detectPlaybackChanges,
+  getPollInterval,
+  interpolateProgress,
+  type PlaybackChange,
+} from '@/lib/playback-sync';
+import type { PlaybackState } from '@/types/spotify';
+
+export interface PlaybackSyncOptions {
+  /** Poll only while the quiz plays on a device */
+  enabled: boolean;
+  /** A quiz clip is playing, so polls are more frequent */
+  isClipPlaying?: boolean;
+  /** Called with changes made outside the quiz, e.g. in the Spotify app */
+  onChange?: (change: PlaybackChange, playback: PlaybackState | null) => void;
+}
+
+export interface PlaybackSync {
+  playback: PlaybackState | null;
+  /** Progress at this moment, worked out locally; null when nothing is known */
+  getProgressMs: () => number | null;
+}
+
+/**
+ * Keep the playback store in step with the Spotify device
+ * Polls GET /playback/status - every second while a quiz clip plays, less
+ * often otherwise and not at all in hidden tabs - and reports changes since
+ * the last known playback. Commands sent from the quiz update that playback
+ * first, so only changes made elsewhere are reported.
+ */
+export function usePlaybackSync({
+  enabled,
+  isClipPlaying = false,
+  onChange,
+}: PlaybackSyncOptions): PlaybackSync {
+  const playback = usePlaybackStore(state => state.playback);
+
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const isClipPlayingRef = useRef(isClipPlaying);
+  isClipPlayingRef.current = isClipPlaying;
+  // Restarts the wait for the next poll with the current interval
+  const rescheduleRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let isPolling = false;
+    let cancelled = false;
+
+    const clearTimer = () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    };
+
+    const schedule = () => {
+      clearTimer();
+      if (cancelled || isPolling || document.hidden) return;
+      const interval = getPollInterval(
+        isClipPlayingRef.current,
+        usePlaybackStore.getState().playback
+      );
+      timer = setTimeout(poll, interval);
+    };
+
+    const poll = async () => {
+      clearTimer();
+      if (isPolling) return;
+      isPolling = true;
+
+      const store = usePlaybackStore.getState();
+      const previous = store.playback;
+      // A command in flight would be mistaken for an outside change
+      const wasBusy = store.pendingCommand !== null;
+      try {
+        const next = await store.refreshStatus();
+        if (!cancelled && !wasBusy && usePlaybackStore.getState().pendingCommand === null) {
+          detectPlaybackChanges(previous, next).forEach(change =>
+            onChangeRef.current?.(change, next)
+          );
+        }
+      } catch {
+        // The store keeps the error; try again on the next poll
+      }
+
+      isPolling = false;
+      schedule();
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        clearTimer();
+      } else if (!timer && !isPolling) {
+        // Catch up on what changed while the tab was hidden
+        void poll();
+      }
+    };
+
+    rescheduleRef.current = schedule;
+    void poll();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      cancelled = true;
+      rescheduleRef.current = null;
+      clearTimer();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [enabled]);
+
+  // Switch to the clip interval as soon as a clip starts, and back after
+  useEffect(() => {
+    rescheduleRef.current?.();
+  }, [isClipPlaying]);
+
+  const getProgressMs = useCallback(() => {
+    const { playback: current, clockOffsetMs } = usePlaybackStore.getState();
+    return current ? interpolateProgress(current, Date.now(), clockOffsetMs ?? 0) : null;
+  }, []);
+
+  return { playback, getProgressMs };
+}
@@ -0,0 +1,397 @@
+import { useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import quizService, { answerOutbox } from '@/services/quiz.service';
+import type { Quiz, QuizGenerationRequest, UserQuizzesParams } from '@/types/quiz';
+import type { ActiveSessionRecord } from '@/types/session';
+import {
+  ConflictError,
+  NetworkError,
+  NotFoundError,
+  isAbortError,
+  toRequestError,
+} from '@/utils/error-handling';
+import {
+  SessionExpiredError,
+  initialQuizSessionState,
+  isSessionStale,
+  quizSessionReducer,
+  toActiveSessionRecord,
+  toQuizResult,
+} from '@/lib/quiz-session';
+import { DEFAULT_GAME_MODE, type GameMode } from '@/lib/scoring';
+import { useResultsStore } from '@/stores/results.store';
+import { useSessionStore } from '@/stores/session.store';
+import { useAuthStore } from '@/stores/auth.store';
+
+/**
+ * Query keys for quiz data
+ * Mirror the contract's CACHE_KEYS (specs/001-frontend-application/contracts/quiz-api.md)
+ */
+export const quizKeys = {
+  all: ['quiz'] as const,
+  /** Quiz including its questions */
+  full: (id: string) => ['quiz', id, 'full'] as const,
+  /** CACHE_KEYS.QUIZ_DETAILS - metadata without questions */
+  details: (id: string) => ['quiz', id, 'details'] as const,
+  /** Every page of the user's quiz history */
+  allUserQuizzes: ['user-quizzes'] as const,
+  /** CACHE_KEYS.USER_QUIZZES - one entry per user, page and filter */
+  userQuizzes: (userId: string, params: UserQuizzesParams) =>
+    ['user-quizzes', userId, params.page ?? 1, params] as const,
+};
+
+// The contract caches quiz details for an hour and the user's quiz
+// history for 5 minutes
+const QUIZ_DETAILS_STALE_TIME = 60 * 60 * 1000;
+const USER_QUIZZES_STALE_TIME = 5 * 60 * 1000;
+
+/**
+ * Mutation for POST /quiz/generate
+ * Adds cancellation (aborting the request and any pending retry) and
+ * exposes the current retry number for progress UI.
+ */
+export function useGenerateQuiz() {
+  const queryClient = useQueryClient();
+  const controllerRef = useRef<AbortController | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+
+  const mutation = useMutation<Quiz, Error, QuizGenerationRequest>({
+    mutationFn: params => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setRetryCount(0);
+
+      return quizService.generateQuiz(params, {
+        signal: controller.signal,
+        onRetry: retry => setRetryCount(retry),
+      });
+    },
+    onSuccess: quiz => {
+      // Generated quizzes include their questions - keep them for the player
+      queryClient.setQueryData(quizKeys.full(quiz.id), quiz);
+      queryClient.invalidateQueries({ queryKey: quizKeys.allUserQuizzes });
+    },
+    onError: error => {
+      if (!isAbortError(error)) {
+        console.error('Quiz generation failed:', error);
+      }
+    },
+  });
+
+  const { reset } = mutation;
+
+  /**
+   * Abort the generation in flight and return to the idle state
+   */
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setRetryCount(0);
+    reset();
+  }, [reset]);
+
+  // Don't keep generating for a page the user has left
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return {
+    ...mutation,
+    cancel,
+    retryCount,
+  };
+}
+
+/**
+ * Quiz metadata (GET /quiz/{id}); works signed out for public quizzes
+ */
+export function useQuizDetails(id: string | undefined) {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+
+  return useQuery({
+    queryKey: quizKeys.details(id ?? ''),
+    queryFn: () => quizService.getQuiz(id!, { auth: isAuthenticated }),
+    enabled: !!id,
+    staleTime: QUIZ_DETAILS_STALE_TIME,
+    meta: {
+      errorMessage: 'Failed to load quiz',
+    },
+  });
+}
+
+/**
+ * Page of the signed-in user's quizzes (GET /quiz/my-quizzes)
+ * Keeps showing the previous page while the next one loads.
+ */
+export function useUserQuizzes(params: UserQuizzesParams) {
+  const userId = useAuthStore(state => state.user?.id);
+
+  return useQuery({
+    queryKey: quizKeys.userQuizzes(userId ?? '', params),
+    queryFn: () => quizService.getUserQuizzes(params),
+    enabled: !!userId,
+    staleTime: USER_QUIZZES_STALE_TIME,
+    placeholderData: keepPreviousData,
+    meta: {
+      errorMessage: 'Failed to load your quizzes',
+    },
+  });
+}
+
+// How often a session in play records that the player is still there
+const SESSION_HEARTBEAT_MS = 5000;
+
+/**
+ * Saved quiz session that can still be resumed
+ * Sessions inactive for longer than the timeout are abandoned.
+ */
+export function useResumableSession() {
+  const activeSession = useSessionStore(state => state.activeSession);
+  const clearSession = useSessionStore(state => state.clearSession);
+  const isStale = !!activeSession && isSessionStale(activeSession, Date.now());
+
+  useEffect(() => {
+    if (activeSession && isStale) {
+      clearSession(activeSession.sessionId);
+    }
+  }, [activeSession, isStale, clearSession]);
+
+  const discard = useCallback(() => clearSession(), [clearSession]);
+
+  return {
+    session: isStale ? null : activeSession,
+    discard,
+  };
+}
+
+/**
+ * Play a quiz: drives the quiz session state machine
+ * The session in play is saved locally so it can be resumed after a reload.
+ * @param quizId Quiz to start a session for
+ * @param deviceId Spotify device selected for playback
+ * @param gameMode Scoring rules for a new session
+ */
+export function useQuizSession(
+  quizId: string | undefined,
+  deviceId?: string,
+  gameMode: GameMode = DEFAULT_GAME_MODE
+) {
+  const queryClient = useQueryClient();
+  const [state, dispatch] = useReducer(quizSessionReducer, initialQuizSessionState);
+  const saveSession = useSessionStore(store => store.saveSession);
+  const touchSession = useSessionStore(store => store.touchSession);
+  const clearSession = useSessionStore(store => store.clearSession);
+  const saveResult = useResultsStore(store => store.saveResult);
+  // Latest state for callbacks, so they can run the reducer ahead of React
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  // Starting is not idempotent - never run two starts at once (e.g. StrictMode)
+  const startInFlight = useRef(false);
+
+  const start = useCallback(async () => {
+    if (!quizId || startInFlight.current) return;
+    startInFlight.current = true;
+    dispatch({ type: 'START', gameMode });
+
+    try {
+      const session = await quizService.startSession(quizId, deviceId);
+      queryClient.setQueryData(quizKeys.full(session.quiz.id), session.quiz);
+      dispatch({ type: 'STARTED', session, at: Date.now() });
+    } catch (error) {
+      console.error('Failed to start quiz session:', error);
+      dispatch({ type: 'START_FAILED', error: toRequestError(error) });
+    } finally {
+      startInFlight.current = false;
+    }
+  }, [quizId, deviceId, gameMode, queryClient]);
+
+  /**
+   * Continue a saved session where the server says it stands
+   */
+  const resume = useCallback(
+    async (record: ActiveSessionRecord) => {
+      if (startInFlight.current) return;
+      startInFlight.current = true;
+      dispatch({ type: 'START' });
+
+      try {
+        const status = await quizService.getSessionStatus(record.sessionId);
+        if (!status.isActive && status.questionsRemaining > 0) {
+          throw new SessionExpiredError();
+        }
+        dispatch({ type: 'RESUMED', record, status, at: Date.now() });
+      } catch (error) {
+        console.error('Failed to resume quiz session:', error);
+        // Keep the saved session when the server could not be reached
+        if (error instanceof SessionExpiredError || error instanceof NotFoundError) {
+          clearSession(record.sessionId);
+        }
+        dispatch({
+          type: 'START_FAILED',
+          error: error instanceof NotFoundError ? new SessionExpiredError() : toRequestError(error),
+        });
+      } finally {
+        startInFlight.current = false;
+      }
+    },
+    [clearSession]
+  );
+
+  // Save progress locally; once complete, keep the result instead
+  useEffect(() => {
+    if (!state.sessionId) return;
+    if (state.status === 'completed') {
+      clearSession(state.sessionId);
+      const result = toQuizResult(state, Date.now());
+      if (result) {
+        saveResult(result);
+      }
+      return;
+    }
+    const record = toActiveSessionRecord(state, Date.now());
+    if (record) {
+      saveSession(record);
+    }
+  }, [state, saveSession, clearSession, saveResult]);
+
+  // Finished sessions show up in the library
+  const isCompleted = state.status === 'completed';
+  useEffect(() => {
+    if (isCompleted) {
+      queryClient.invalidateQueries({ queryKey: quizKeys.allUserQuizzes });
+    }
+  }, [isCompleted, queryClient]);
+
+  // Keep the saved session's activity time current, so time away from
+  // the quiz is not counted towards the answer time after resuming
+  const isInPlay =
+    !!state.sessionId && ['answering', 'submitting', 'feedback'].includes(state.status);
+  useEffect(() => {
+    const sessionId = stateRef.current.sessionId;
+    if (!isInPlay || !sessionId) return;
+
+    const touch = () => touchSession(sessionId, Date.now());
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') touch();
+    };
+    const timer = setInterval(touch, SESSION_HEARTBEAT_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', touch);
+
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', touch);
+    };
+  }, [isInPlay, touchSession]);
+
+  // Reflect answers replayed from the offline outbox
+  useEffect(
+    () =>
+      answerOutbox.subscribe(event => {
+        const { sessionId, questionId } = event.entry;
+        if (event.type === 'synced') {
+          dispatch({ type: 'ANSWER_SYNCED', sessionId, questionId, response: event.response });
+        } else if (event.type === 'dropped') {
+          dispatch({ type: 'ANSWER_DROPPED', sessionId, questionId });
+        }
+      }),
+    []
+  );
+
+  const submitAnswer = useCallback(async (answer: string) => {
+    const event = { type: 'SUBMIT', answer, at: Date.now() } as const;
+    // Same pure transition React will apply - gives us the answer to send
+    const next = quizSessionReducer(stateRef.current, event);
+    if (next.status !== 'submitting' || !next.sessionId || !next.pendingAnswer) return;
+    const { sessionId, pendingAnswer } = next;
+    dispatch(event);
+
+    const queueAnswer = async () => {
+      await answerOutbox.enqueue(sessionId, pendingAnswer);
+      dispatch({ type: 'ANSWER_QUEUED', at: Date.now() });
+      if (navigator.onLine) {
+        answerOutbox.flush().catch(error => console.error('Failed to sync queued answers:', error));
+      }
+    };
+
+    try {
+      // Answers must reach the server in order - queue behind any still waiting
+      const hasQueued = await answerOutbox.count(sessionId).then(
+        count => count > 0,
+        () => false
+      );
+      if (!navigator.onLine || hasQueued) {
+        await queueAnswer();
+        return;
+      }
+
+      try {
+        const response = await quizService.submitAnswer(sessionId, pendingAnswer);
+        dispatch({ type: 'ANSWER_ACCEPTED', response, at: Date.now() });
+      } catch (error) {
+        // The connection dropped mid-quiz - keep playing offline
+        if (!(error instanceof NetworkError)) throw error;
+        await queueAnswer();
+      }
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        // Already answered (e.g. submitted from another tab) - catch up with the server
+        const status = await quizService.getSessionStatus(sessionId).catch(() => undefined);
+        dispatch({ type: 'ANSWER_CONFLICT', status, at: Date.now() });
+        return;
+      }
+      console.error('Failed to submit answer:', error);
+      dispatch({ type: 'SUBMIT_FAILED', error: toRequestError(error) });
+    }
+  }, []);
+
+  const nextQuestion = useCallback(() => {
+    dispatch({ type: 'NEXT', at: Date.now() });
+  }, []);
+
+  return {
+    state,
+    start,
+    resume,
+    submitAnswer,
+    nextQuestion,
+  };
+}
+
+/**
+ * Result of a session completed on this device
+ * @returns null when the result is not (or no longer) saved locally
+ */
+export function useQuizResult(sessionId: string | undefined) {
+  const syncAnswer = useResultsStore(store => store.syncAnswer);
+
+  // Answers given offline may still be syncing after the quiz ends
+  useEffect(
+    () =>
+      answerOutbox.subscribe(event => {
+        const { sessionId: eventSessionId, questionId } = event.entry;
+        if (event.type === 'synced') {
+          syncAnswer(eventSessionId, questionId, 'synced', event.response);
+        } else if (event.type === 'dropped') {
+          syncAnswer(eventSessionId, questionId, 'failed');
+        }
+      }),
+    [syncAnswer]
+  );
+
+  return useResultsStore(store => (sessionId ? (store.results[sessionId] ?? null) : null));
+}
+
+/**
+ * Results of the quiz's sessions completed on this device, newest first
+ */
+export function useQuizResults(quizId: string | undefined) {
+  const results = useResultsStore(store => store.results);
+  return useMemo(
+    () =>
+      Object.values(results)
+        .filter(result => result.quizId === quizId)
+        .sort((a, b) => b.completedAt.localeCompare(a.completedAt)),
+    [results, quizId]
+  );
+}
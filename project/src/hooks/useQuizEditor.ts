@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useMemo, useReducer, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import spotifyService from '@/services/spotify.service';
+import {
+  createEditorState,
+  isEditorDirty,
+  quizEditorReducer,
+  validateQuiz,
+} from '@/lib/quiz-editor';
+import { quizKeys } from '@/hooks/useQuiz';
+import { useEditedQuizzesStore } from '@/stores/edited-quizzes.store';
+import type { Quiz } from '@/types/quiz';
+
+// Wait for the user to stop typing before searching
+const TRACK_SEARCH_DEBOUNCE_MS = 300;
+const TRACK_SEARCH_MIN_LENGTH = 2;
+
+/**
+ * Quiz with its questions to edit: the saved edits, otherwise the quiz as
+ * generated or played in this session
+ * @returns null when the questions are not available on this device
+ */
+export function useEditableQuiz(id: string | undefined) {
+  const edited = useEditedQuizzesStore(store => (id ? store.quizzes[id] : undefined));
+  // The API only returns questions on generate and start-session - never fetch
+  const { data: cached } = useQuery<Quiz>({
+    queryKey: quizKeys.full(id ?? ''),
+    enabled: false,
+  });
+  return edited ?? cached ?? null;
+}
+
+/**
+ * Edit a quiz's questions with undo/redo
+ * Saving keeps the quiz on this device and in the query cache.
+ */
+export function useQuizEditor(quiz: Quiz) {
+  const queryClient = useQueryClient();
+  const saveQuiz = useEditedQuizzesStore(store => store.saveQuiz);
+  const [state, dispatch] = useReducer(quizEditorReducer, quiz, createEditorState);
+
+  const validation = useMemo(() => validateQuiz(state.present), [state.present]);
+  const isDirty = isEditorDirty(state);
+
+  const save = useCallback(() => {
+    if (!validation.isValid) return false;
+    saveQuiz(state.present);
+    queryClient.setQueryData(quizKeys.full(state.present.id), state.present);
+    dispatch({ type: 'SAVED' });
+    return true;
+  }, [validation.isValid, state.present, saveQuiz, queryClient]);
+
+  const discard = useCallback(() => dispatch({ type: 'LOAD', quiz: state.saved }), [state.saved]);
+
+  return {
+    quiz: state.present,
+    dispatch,
+    validation,
+    isDirty,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    save,
+    discard,
+  };
+}
+
+/**
+ * Search Spotify tracks as the user types
+ */
+export function useTrackSearch(query: string) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), TRACK_SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  return useQuery({
+    queryKey: ['spotify', 'search', 'tracks', debouncedQuery],
+    queryFn: ({ signal }) => spotifyService.searchTracks(debouncedQuery, { signal }),
+    enabled: debouncedQuery.length >= TRACK_SEARCH_MIN_LENGTH,
+    meta: {
+      errorMessage: 'Failed to search tracks',
+    },
+  });
+}
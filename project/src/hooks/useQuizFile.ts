@@ -0,0 +1,94 @@
+import { useCallback } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import spotifyService from '@/services/spotify.service';
+import {
+  diffQuizzes,
+  fromQuizFile,
+  getQuizFileName,
+  getQuizFileTrackIds,
+  parseQuizFile,
+  serializeQuizFile,
+  type QuizDiff,
+} from '@/lib/quiz-file';
+import { validateQuiz } from '@/lib/quiz-editor';
+import { quizKeys } from '@/hooks/useQuiz';
+import { useEditedQuizzesStore } from '@/stores/edited-quizzes.store';
+import type { Quiz } from '@/types/quiz';
+
+export interface QuizImportPreview {
+  quiz: Quiz;
+  /** Changes from the version on this device; null for a new quiz */
+  diff: QuizDiff | null;
+  /** Version the file was migrated from */
+  migratedFrom?: number;
+  /** Referenced tracks Spotify no longer has */
+  missingTrackCount: number;
+  /** Questions to fix in the editor before the quiz is complete */
+  invalidQuestionCount: number;
+}
+
+/**
+ * Download a quiz as a VibeGuess quiz file
+ */
+export function downloadQuizFile(quiz: Quiz) {
+  const blob = new Blob([serializeQuizFile(quiz)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getQuizFileName(quiz);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Import a quiz file: read and validate it, then preview the changes
+ * before saving the quiz on this device
+ */
+export function useQuizImport() {
+  const queryClient = useQueryClient();
+  const saveQuiz = useEditedQuizzesStore(store => store.saveQuiz);
+
+  const mutation = useMutation<QuizImportPreview, Error, File>({
+    mutationFn: async file => {
+      const { file: quizFile, migratedFrom } = parseQuizFile(await file.text());
+      const trackIds = getQuizFileTrackIds(quizFile);
+      const tracks = trackIds.length > 0 ? await spotifyService.getTracks(trackIds) : new Map();
+      const quiz = fromQuizFile(quizFile, tracks);
+
+      const existing =
+        useEditedQuizzesStore.getState().quizzes[quiz.id] ??
+        queryClient.getQueryData<Quiz>(quizKeys.full(quiz.id));
+
+      return {
+        quiz,
+        diff: existing ? diffQuizzes(existing, quiz) : null,
+        migratedFrom,
+        missingTrackCount: trackIds.filter(id => !tracks.has(id)).length,
+        invalidQuestionCount: Object.keys(validateQuiz(quiz).questions).length,
+      };
+    },
+    onError: error => {
+      console.error('Quiz import failed:', error);
+    },
+  });
+
+  const { data: preview, reset } = mutation;
+
+  /**
+   * Save the previewed quiz
+   * @returns The saved quiz
+   */
+  const confirm = useCallback(() => {
+    if (!preview) return null;
+    saveQuiz(preview.quiz);
+    queryClient.setQueryData(quizKeys.full(preview.quiz.id), preview.quiz);
+    reset();
+    return preview.quiz;
+  }, [preview, saveQuiz, queryClient, reset]);
+
+  return {
+    ...mutation,
+    preview,
+    confirm,
+  };
+}
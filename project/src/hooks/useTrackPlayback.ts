@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { usePlaybackSync } from '@/hooks/usePlaybackSync';
+import { useAuthStore } from '@/stores/auth.store';
+import { usePlaybackStore } from '@/stores/playback.store';
+import { useSettingsStore } from '@/stores/settings.store';
+import { ClipPlayer, getQuestionClip, resolveSnippet, type ClipWindow } from '@/lib/snippet';
+import {
+  PreviewTrackPlayer,
+  RemoteTrackPlayer,
+  choosePlaybackStrategy,
+  type PlaybackStrategy,
+} from '@/lib/track-player';
+import type { PlaybackChange } from '@/lib/playback-sync';
+import type { Question, SnippetSettings } from '@/types/quiz';
+import type { PlaybackState } from '@/types/spotify';
+import { getErrorMessage, isAbortError } from '@/utils/error-handling';
+
+export type TrackPlaybackStatus =
+  | 'idle'
+  | 'loading'
+  | 'playing'
+  | 'paused'
+  /** The clip played to its end */
+  | 'ended'
+  /** The track has no audio for the current strategy */
+  | 'unavailable'
+  | 'error';
+
+/**
+ * Volume of the device commands go to, to scale clip fades by
+ */
+function getVolume(): number | null {
+  const { playback, devices, selectedDeviceId } = usePlaybackStore.getState();
+  const device = devices.find(item => item.id === selectedDeviceId);
+  if (device && !device.supportsVolume) return null;
+  if (playback?.device && playback.device.id === selectedDeviceId) return playback.volume;
+  return device?.volumePercent ?? null;
+}
+
+export interface TrackPlayback {
+  strategy: PlaybackStrategy;
+  status: TrackPlaybackStatus;
+  error: string | null;
+  /** Something changed playback outside the quiz, e.g. in the Spotify app */
+  notice: string | null;
+  /** Part of the track the question plays; null when there is no audio */
+  clip: ClipWindow | null;
+  /** Play the clip from its start; replaying leaves the answer timer alone */
+  play: () => void;
+  pause: () => void;
+}
+
+/**
+ * Play a question's track, on the Spotify device or as a preview clip
+ * The strategy follows the user's Premium status, the chosen device and the
+ * enableAudioPreview setting, and falls back to previews when the device
+ * refuses playback for lack of Premium. Each new track starts playing on
+ * its own, as the clip set by the question or quiz.
+ * @param deviceId Device picked for the quiz
+ * @param quizSnippet The quiz's clip settings, which questions override
+ */
+export function useTrackPlayback(
+  question: Question | undefined,
+  deviceId: string | undefined,
+  quizSnippet?: SnippetSettings
+): TrackPlayback {
+  const track = question?.spotifyTrack;
+  const hasPremium = useAuthStore(state => state.user?.hasSpotifyPremium === true);
+  const enableAudioPreview = useSettingsStore(state => state.settings.enableAudioPreview);
+  const premiumRequired = usePlaybackStore(state => state.premiumRequired);
+  const strategy = choosePlaybackStrategy({
+    hasPremium,
+    enableAudioPreview,
+    deviceId,
+    premiumRequired,
+  });
+
+  const player = useMemo(() => {
+    if (strategy === 'remote') {
+      const { play, pause, setVolume } = usePlaybackStore.getState();
+      return new ClipPlayer(new RemoteTrackPlayer({ play, pause, setVolume, getVolume }));
+    }
+    return strategy === 'preview' ? new ClipPlayer(new PreviewTrackPlayer()) : null;
+  }, [strategy]);
+
+  useEffect(() => {
+    if (!player) return;
+    player.onEnded = () => setStatus('ended');
+    return () => player.dispose();
+  }, [player]);
+
+  const clip = useMemo(() => {
+    if (!question || !track || strategy === 'none') return null;
+    const snippet = resolveSnippet(quizSnippet, question.snippet);
+    return getQuestionClip(question.id, track, snippet, strategy);
+  }, [question, track, quizSnippet, strategy]);
+
+  // The player's device selection comes from the quiz URL
+  useEffect(() => {
+    if (deviceId) usePlaybackStore.getState().selectDevice(deviceId);
+  }, [deviceId]);
+
+  const [status, setStatus] = useState<TrackPlaybackStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Bumped by every play, pause and cancel, so only the latest one sets the status
+  const requestRef = useRef(0);
+
+  // Follow the device, so changes made in the Spotify app stop the clip
+  const handlePlaybackChange = useCallback(
+    (change: PlaybackChange, playback: PlaybackState | null) => {
+      if (change.type === 'device-changed' && playback?.device) {
+        setNotice(`Spotify moved playback to ${playback.device.name}.`);
+        return;
+      }
+      if (status !== 'playing') return;
+      const otherTrack = change.type === 'track-changed' && !!track && change.trackId !== track.id;
+      if (otherTrack || change.type === 'paused' || change.type === 'stopped') {
+        // Leave the device alone - the clip would otherwise pause what they chose
+        requestRef.current++;
+        player?.cancel();
+        setStatus('paused');
+        setNotice(
+          otherTrack
+            ? "Spotify switched to another track - press play to hear this question's track."
+            : 'Playback was paused in Spotify.'
+        );
+      }
+    },
+    [status, track, player]
+  );
+  usePlaybackSync({
+    enabled: strategy === 'remote' && !!track,
+    isClipPlaying: status === 'playing',
+    onChange: handlePlaybackChange,
+  });
+
+  const play = useCallback(() => {
+    if (!player || !track || !clip) return;
+    if (!player.player.canPlay(track)) {
+      setStatus('unavailable');
+      return;
+    }
+
+    const request = ++requestRef.current;
+    setStatus('loading');
+    setError(null);
+    setNotice(null);
+    player.play(track, clip).then(
+      () => {
+        if (request === requestRef.current) setStatus('playing');
+      },
+      (playError: unknown) => {
+        if (request !== requestRef.current) return;
+        // Autoplay blocked until the user interacts - they can press play
+        if (playError instanceof DOMException && playError.name === 'NotAllowedError') {
+          setStatus('paused');
+        } else if (!isAbortError(playError)) {
+          setStatus('error');
+          setError(getErrorMessage(playError, 'Failed to play the track'));
+        }
+      }
+    );
+  }, [player, track, clip]);
+
+  const pause = useCallback(() => {
+    if (!player) return;
+    const request = ++requestRef.current;
+    player.pause().then(
+      () => {
+        if (request === requestRef.current) setStatus('paused');
+      },
+      (pauseError: unknown) => {
+        if (request === requestRef.current) {
+          setError(getErrorMessage(pauseError, 'Failed to pause'));
+        }
+      }
+    );
+  }, [player]);
+
+  // Start each track as its question is shown
+  useEffect(() => {
+    if (!track) {
+      setStatus('idle');
+      return;
+    }
+    play();
+  }, [track, play]);
+
+  return { strategy, status: player ? status : 'idle', error, notice, clip, play, pause };
+}
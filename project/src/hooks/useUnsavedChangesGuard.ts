@@ -0,0 +1,42 @@
+import { useEffect } from 'react';
+import { useBlocker } from 'react-router-dom';
+
+/**
+ * Ask for confirmation before leaving a page with unsaved changes
+ * Covers reloading or closing the tab as well as every navigation within
+ * the app: links, back/forward and navigate() calls.
+ * @param when Whether there are unsaved changes
+ */
+export function useUnsavedChangesGuard(
+  when: boolean,
+  message = 'You have unsaved changes. Leave anyway?'
+) {
+  const blocker = useBlocker(
+    ({ currentLocation, nextLocation }) =>
+      when &&
+      (currentLocation.pathname !== nextLocation.pathname ||
+        currentLocation.search !== nextLocation.search)
+  );
+
+  useEffect(() => {
+    if (blocker.state !== 'blocked') return;
+    if (window.confirm(message)) {
+      blocker.proceed();
+    } else {
+      blocker.reset();
+    }
+  }, [blocker, message]);
+
+  useEffect(() => {
+    if (!when) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      // Older browsers only prompt when returnValue is set
+      event.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [when]);
+}
@@ -0,0 +1,258 @@
+import type { SubmitAnswerRequest, SubmitAnswerResponse } from '@/types/quiz';
+import {
+  ConflictError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  UnauthorizedError,
+} from '@/utils/error-handling';
+
+/**
+ * Answer outbox
+ * IndexedDB-backed queue of answers submitted while offline, keyed by
+ * session and question. Flushed in the order the answers were given once
+ * connectivity returns; a 409 means the server already has the answer and
+ * counts as synced.
+ */
+
+const DB_NAME = 'vibeguess';
+const DB_VERSION = 1;
+const STORE_NAME = 'answer-outbox';
+const QUEUED_AT_INDEX = 'queuedAt';
+
+export interface OutboxEntry {
+  sessionId: string;
+  questionId: string;
+  answer: SubmitAnswerRequest;
+  /** When the answer was queued, in ms since epoch - defines flush order */
+  queuedAt: number;
+}
+
+export type OutboxEvent =
+  | { type: 'queued'; entry: OutboxEntry }
+  /** Response is missing when the server already had the answer (409) */
+  | { type: 'synced'; entry: OutboxEntry; response?: SubmitAnswerResponse }
+  /** The server rejected the answer for good; it is removed from the outbox */
+  | { type: 'dropped'; entry: OutboxEntry; error: Error };
+
+export interface FlushResult {
+  synced: number;
+  dropped: number;
+  /** Entries still queued, e.g. because the connection dropped again */
+  remaining: number;
+}
+
+export interface AnswerOutboxOptions {
+  /** Send one answer to the server */
+  submit: (sessionId: string, answer: SubmitAnswerRequest) => Promise<SubmitAnswerResponse>;
+  /** IndexedDB implementation (fake-indexeddb in tests) */
+  indexedDB?: IDBFactory;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Errors after which the remaining answers should wait for a later flush
+ */
+function isTransientError(error: unknown): boolean {
+  return (
+    error instanceof NetworkError ||
+    error instanceof RateLimitError ||
+    error instanceof ServerError ||
+    // Session could not be renewed - keep answers until the user signs in again
+    error instanceof UnauthorizedError
+  );
+}
+
+export class AnswerOutbox {
+  private db: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<(event: OutboxEvent) => void>();
+  private flushInFlight: Promise<FlushResult> | null = null;
+
+  constructor(private options: AnswerOutboxOptions) {}
+
+  /**
+   * Queue an answer; replaces an earlier queued answer to the same question
+   */
+  async enqueue(sessionId: string, answer: SubmitAnswerRequest): Promise<OutboxEntry> {
+    const entry: OutboxEntry = {
+      sessionId,
+      questionId: answer.questionId,
+      answer,
+      queuedAt: Date.now(),
+    };
+    await this.run('readwrite', store => store.put(entry));
+    this.emit({ type: 'queued', entry });
+    return entry;
+  }
+
+  /**
+   * Queued answers in flush order, optionally for one session
+   */
+  async list(sessionId?: string): Promise<OutboxEntry[]> {
+    const entries = await this.run('readonly', store => store.index(QUEUED_AT_INDEX).getAll());
+    return sessionId ? entries.filter(entry => entry.sessionId === sessionId) : entries;
+  }
+
+  /**
+   * Number of queued answers, optionally for one session
+   */
+  async count(sessionId?: string): Promise<number> {
+    return (await this.list(sessionId)).length;
+  }
+
+  async remove(sessionId: string, questionId: string): Promise<void> {
+    await this.run('readwrite', store => store.delete([sessionId, questionId]));
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear());
+  }
+
+  /**
+   * Submit queued answers in order
+   * Stops at the first transient failure so later answers never overtake
+   * earlier ones. Concurrent calls share one flush.
+   */
+  flush(): Promise<FlushResult> {
+    if (!this.flushInFlight) {
+      this.flushInFlight = this.flushEntries().finally(() => {
+        this.flushInFlight = null;
+      });
+    }
+    return this.flushInFlight;
+  }
+
+  /**
+   * Flush now and whenever the browser comes back online
+   * @returns Function that stops listening
+   */
+  start(): () => void {
+    const handleOnline = () => {
+      this.flush().catch(error => console.error('Failed to sync queued answers:', error));
+    };
+
+    window.addEventListener('online', handleOnline);
+    if (navigator.onLine) {
+      handleOnline();
+    }
+    return () => window.removeEventListener('online', handleOnline);
+  }
+
+  /**
+   * Listen for queued, synced and dropped answers
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (event: OutboxEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async flushEntries(): Promise<FlushResult> {
+    const result: FlushResult = { synced: 0, dropped: 0, remaining: 0 };
+
+    // Answers queued while flushing are picked up by the next pass
+    for (;;) {
+      const entries = await this.list();
+      if (entries.length === 0) {
+        return result;
+      }
+
+      for (const entry of entries) {
+        const event = await this.submitEntry(entry);
+        if (!event) {
+          result.remaining = await this.count();
+          return result;
+        }
+
+        await this.remove(entry.sessionId, entry.questionId);
+        if (event.type === 'synced') {
+          result.synced++;
+        } else {
+          result.dropped++;
+        }
+        this.emit(event);
+      }
+    }
+  }
+
+  /**
+   * Send one queued answer
+   * @returns null when it should stay queued for a later flush
+   */
+  private async submitEntry(entry: OutboxEntry): Promise<OutboxEvent | null> {
+    try {
+      const response = await this.options.submit(entry.sessionId, entry.answer);
+      return { type: 'synced', entry, response };
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return { type: 'synced', entry };
+      }
+      if (isTransientError(error)) {
+        return null;
+      }
+      console.error('Dropping queued answer the server rejected:', error);
+      return {
+        type: 'dropped',
+        entry,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  }
+
+  private emit(event: OutboxEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, mode);
+    // Writes are only durable once the transaction completes
+    const completed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const [result] = await Promise.all([
+      promisify(operation(transaction.objectStore(STORE_NAME))),
+      completed,
+    ]);
+    return result;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const factory = this.options.indexedDB ?? globalThis.indexedDB;
+      if (!factory) {
+        return Promise.reject(new Error('Offline answers are not supported in this browser'));
+      }
+
+      const request = factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, {
+          keyPath: ['sessionId', 'questionId'],
+        });
+        store.createIndex(QUEUED_AT_INDEX, 'queuedAt');
+      };
+      this.db = promisify(request).catch(error => {
+        // Allow another attempt, e.g. after the user closes a blocking tab
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,9 @@
+import authService from '@/services/auth.service';
+
+/**
+ * Shared API clients
+ * Authenticated with the current session - services use these instead of
+ * calling fetch directly.
+ */
+export const apiClient = authService.api;
+export const spotifyClient = authService.spotify;
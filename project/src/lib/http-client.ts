@@ -0,0 +1,429 @@
+import {
+  ApiError,
+  NetworkError,
+  RateLimitError,
+  TimeoutError,
+  createApiError,
+  getRetryDelay,
+  isAbortError,
+  isRetryableError,
+  toRequestError,
+} from '@/utils/error-handling';
+import { getBackoffDelay } from '@/utils/retry';
+import type { Schema } from '@/lib/schema';
+
+/**
+ * HTTP client
+ * Fetch wrapper shared by every service: bearer injection, single-flight
+ * token refresh with one replay on 401, retries with backoff that honor
+ * rate-limit headers, per-request timeouts and correlation IDs.
+ */
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-ID';
+
+// Methods that can safely be sent twice
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/**
+ * Where the client gets (and renews) the access token
+ */
+export interface TokenSource {
+  /** Current access token, if any */
+  getAccessToken: () => string | null | undefined;
+  /** Obtain a new access token; rejects when the session cannot be renewed */
+  refreshAccessToken: () => Promise<string>;
+}
+
+/**
+ * A request as seen by request interceptors
+ */
+export interface HttpRequestConfig {
+  url: string;
+  method: string;
+  headers: Headers;
+  body?: BodyInit | null;
+  credentials?: RequestCredentials;
+}
+
+export type RequestInterceptor = (
+  config: HttpRequestConfig
+) => HttpRequestConfig | Promise<HttpRequestConfig>;
+
+export type ResponseInterceptor = (
+  response: Response,
+  config: HttpRequestConfig
+) => Response | Promise<Response>;
+
+export interface HttpClientOptions {
+  /** Prefix for relative request paths */
+  baseURL: string;
+  /** Token source for authenticated requests */
+  tokenSource?: TokenSource;
+  /** Default per-request timeout in milliseconds */
+  timeoutMs?: number;
+  /** Default retries for retryable failures */
+  maxRetries?: number;
+  /** First retry delay in milliseconds */
+  retryBaseDelayMs?: number;
+  /** Upper bound for any retry delay, including server-requested ones */
+  maxRetryDelayMs?: number;
+  /** Send an X-Correlation-ID header (disable for third-party APIs) */
+  sendCorrelationId?: boolean;
+  /** Default fetch credentials mode */
+  credentials?: RequestCredentials;
+}
+
+export interface HttpRequestOptions<T = unknown> {
+  method?: string;
+  headers?: HeadersInit;
+  /** Sent as JSON unless it already is a string, FormData, Blob, etc. */
+  body?: unknown;
+  /** Query string parameters; null and undefined values are skipped */
+  query?: Record<string, string | number | boolean | null | undefined>;
+  /** Inject the bearer token (default true) */
+  auth?: boolean;
+  /** Refresh the token and replay once on 401 (default true) */
+  refreshOnUnauthorized?: boolean;
+  credentials?: RequestCredentials;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  /**
+   * Retries for retryable failures. When omitted, non-idempotent methods
+   * are only retried on 429, since the server did not process them.
+   */
+  retries?: number;
+  /** Reuse a correlation ID instead of generating one */
+  correlationId?: string;
+  /** Error message used when the error response has none */
+  errorMessage?: string;
+  /** Validate the response body; the result type is inferred from it */
+  schema?: Schema<T>;
+  /** Called before each retry with the 1-based retry number and the wait in ms */
+  onRetry?: (retry: number, error: Error, delayMs: number) => void;
+}
+
+/**
+ * Generate an ID that ties a request to the backend's logs
+ */
+export function generateCorrelationId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function isBodyInit(body: unknown): body is BodyInit {
+  return (
+    typeof body === 'string' ||
+    body instanceof FormData ||
+    body instanceof Blob ||
+    body instanceof URLSearchParams ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body)
+  );
+}
+
+export class HttpClient {
+  private requestInterceptors: RequestInterceptor[] = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
+  // Shared by all requests that hit a 401 at the same time
+  private refreshInFlight: Promise<string> | null = null;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private maxRetryDelayMs: number;
+
+  constructor(private options: HttpClientOptions) {
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.maxRetries = options.maxRetries ?? 2;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 500;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 30000;
+  }
+
+  /**
+   * Run a function on every outgoing request
+   * @returns Function that removes the interceptor
+   */
+  addRequestInterceptor(interceptor: RequestInterceptor): () => void {
+    this.requestInterceptors.push(interceptor);
+    return () => {
+      this.requestInterceptors = this.requestInterceptors.filter(item => item !== interceptor);
+    };
+  }
+
+  /**
+   * Run a function on every response, before error handling
+   * @returns Function that removes the interceptor
+   */
+  addResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+    this.responseInterceptors.push(interceptor);
+    return () => {
+      this.responseInterceptors = this.responseInterceptors.filter(item => item !== interceptor);
+    };
+  }
+
+  get<T>(path: string, options: HttpRequestOptions<T> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'GET' });
+  }
+
+  post<T>(path: string, body?: unknown, options: HttpRequestOptions<T> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'POST', body });
+  }
+
+  put<T>(path: string, body?: unknown, options: HttpRequestOptions<T> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'PUT', body });
+  }
+
+  patch<T>(path: string, body?: unknown, options: HttpRequestOptions<T> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'PATCH', body });
+  }
+
+  delete<T>(path: string, options: HttpRequestOptions<T> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'DELETE' });
+  }
+
+  /**
+   * Send a request and parse the response body
+   * @returns Parsed JSON, text, or undefined for empty responses
+   * @throws SchemaValidationError if a schema is given and the body does not match
+   */
+  async request<T>(path: string, options: HttpRequestOptions<T> = {}): Promise<T> {
+    const response = await this.send(path, options);
+    const body = await this.parseBody<T>(response);
+    if (!options.schema) {
+      return body;
+    }
+    const method = (options.method || 'GET').toUpperCase();
+    return options.schema.parse(body, `response from ${method} ${path}`);
+  }
+
+  /**
+   * Send a request and return the successful response unparsed
+   * Throws a typed error for non-2xx responses.
+   */
+  async send<T>(path: string, options: HttpRequestOptions<T> = {}): Promise<Response> {
+    const method = (options.method || 'GET').toUpperCase();
+    const correlationId = options.correlationId ?? generateCorrelationId();
+    const maxRetries = options.retries ?? this.maxRetries;
+    const canRefresh =
+      options.auth !== false &&
+      options.refreshOnUnauthorized !== false &&
+      !!this.options.tokenSource;
+    let replayed = false;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.execute(path, method, correlationId, options);
+        if (response.ok) {
+          return response;
+        }
+
+        // Renew the token once and replay; the replay is not a retry
+        if (response.status === 401 && canRefresh && !replayed) {
+          replayed = true;
+          const refreshed = await this.refreshAccessToken().then(
+            () => true,
+            () => false
+          );
+          if (refreshed) {
+            attempt--;
+            continue;
+          }
+        }
+
+        throw await createApiError(response, options.errorMessage || 'Request failed');
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+
+        const requestError = toRequestError(error);
+        if (attempt >= maxRetries || !this.shouldRetry(requestError, method, options)) {
+          throw requestError;
+        }
+
+        const fallbackDelay = getBackoffDelay(attempt, {
+          baseDelayMs: this.retryBaseDelayMs,
+          maxDelayMs: this.maxRetryDelayMs,
+        });
+        const delay = Math.min(this.maxRetryDelayMs, getRetryDelay(requestError, fallbackDelay));
+        options.onRetry?.(attempt + 1, requestError, delay);
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  private shouldRetry<T>(error: Error, method: string, options: HttpRequestOptions<T>): boolean {
+    // Only typed errors are retried here; anything else is a bug that should surface
+    const isTyped = error instanceof ApiError || error instanceof NetworkError;
+    if (!isTyped || !isRetryableError(error)) {
+      return false;
+    }
+    if (options.retries !== undefined || IDEMPOTENT_METHODS.has(method)) {
+      return true;
+    }
+    return error instanceof RateLimitError;
+  }
+
+  /**
+   * Perform a single fetch with timeout, abort and interceptors applied
+   */
+  private async execute(
+    path: string,
+    method: string,
+    correlationId: string,
+    options: HttpRequestOptions<unknown>
+  ): Promise<Response> {
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort(options.signal?.reason);
+
+    if (options.signal?.aborted) {
+      clearTimeout(timer);
+      throw options.signal.reason;
+    }
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      let config = this.buildConfig(path, method, correlationId, options);
+      for (const interceptor of this.requestInterceptors) {
+        config = await interceptor(config);
+      }
+
+      let response = await fetch(config.url, {
+        method: config.method,
+        headers: config.headers,
+        body: config.body,
+        credentials: config.credentials,
+        signal: controller.signal,
+      });
+
+      for (const interceptor of this.responseInterceptors) {
+        response = await interceptor(response, config);
+      }
+      return response;
+    } catch (error) {
+      if (timedOut) {
+        throw new TimeoutError(timeoutMs);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private buildConfig(
+    path: string,
+    method: string,
+    correlationId: string,
+    options: HttpRequestOptions<unknown>
+  ): HttpRequestConfig {
+    const headers = new Headers(options.headers);
+
+    if (this.options.sendCorrelationId !== false && !headers.has(CORRELATION_ID_HEADER)) {
+      headers.set(CORRELATION_ID_HEADER, correlationId);
+    }
+
+    // Read the token per attempt so replays pick up the refreshed one
+    if (options.auth !== false && this.options.tokenSource && !headers.has('Authorization')) {
+      const token = this.options.tokenSource.getAccessToken();
+      if (token) {
+        headers.set('Authorization', `Bearer ${token}`);
+      }
+    }
+
+    let body: BodyInit | null | undefined;
+    if (options.body !== undefined) {
+      if (isBodyInit(options.body)) {
+        body = options.body;
+      } else {
+        body = JSON.stringify(options.body);
+        if (!headers.has('Content-Type')) {
+          headers.set('Content-Type', 'application/json');
+        }
+      }
+    }
+
+    return {
+      url: this.buildURL(path, options.query),
+      method,
+      headers,
+      body,
+      credentials: options.credentials ?? this.options.credentials,
+    };
+  }
+
+  private buildURL(path: string, query?: HttpRequestOptions['query']): string {
+    const url = /^https?:\/\//.test(path) ? path : `${this.options.baseURL}${path}`;
+    if (!query) {
+      return url;
+    }
+
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== null && value !== undefined) {
+        params.append(key, String(value));
+      }
+    });
+
+    const search = params.toString();
+    if (!search) {
+      return url;
+    }
+    return `${url}${url.includes('?') ? '&' : '?'}${search}`;
+  }
+
+  private async parseBody<T>(response: Response): Promise<T> {
+    if (response.status === 204 || response.headers.get('Content-Length') === '0') {
+      return undefined as T;
+    }
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (contentType.includes('json')) {
+      return response.json();
+    }
+
+    const text = await response.text();
+    return (text || undefined) as T;
+  }
+
+  private refreshAccessToken(): Promise<string> {
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.options.tokenSource!.refreshAccessToken().finally(() => {
+        this.refreshInFlight = null;
+      });
+    }
+    return this.refreshInFlight;
+  }
+}
@@ -0,0 +1,89 @@
+import type {
+  PlaybackControlResponse,
+  PlaybackState,
+  PlaybackStatusResponse,
+} from '@/types/spotify';
+
+/**
+ * Playback state
+ * Pure helpers that turn playback API responses into the PlaybackState the
+ * client keeps. The status endpoint reports everything; commands only send
+ * back the fields they changed, which are merged into what is known.
+ */
+
+/**
+ * Playback state from a GET /playback/status response
+ * @param now Fallback when the response's timestamp cannot be read, on the
+ *   server's clock
+ */
+export function toPlaybackState(status: PlaybackStatusResponse, now: number): PlaybackState {
+  const measuredAt = Date.parse(status.timestamp);
+  return {
+    isPlaying: status.isPlaying,
+    ...(status.trackId !== undefined && { trackId: status.trackId }),
+    ...(status.trackName !== undefined && { trackName: status.trackName }),
+    ...(status.artistName !== undefined && { artistName: status.artistName }),
+    ...(status.albumName !== undefined && { albumName: status.albumName }),
+    progressMs: status.progressMs,
+    durationMs: status.durationMs,
+    ...(status.device && { device: status.device }),
+    volume: status.device?.volumePercent ?? 0,
+    shuffleState: status.shuffleState,
+    repeatState: status.repeatState,
+    updatedAt: Number.isNaN(measuredAt) ? now : measuredAt,
+  };
+}
+
+/**
+ * Apply the response to a play, pause, seek or volume command
+ * @param state Playback before the command; null when none was known
+ * @param now When the response arrived, on the server's clock
+ * @returns Updated state; null when nothing is known yet and the response
+ *   does not describe the playback
+ */
+export function applyControlResponse(
+  state: PlaybackState | null,
+  response: PlaybackControlResponse,
+  now: number
+): PlaybackState | null {
+  const { playbackState, volumePercent } = response;
+  if (!state && !playbackState) return null;
+
+  const next: PlaybackState = state
+    ? { ...state }
+    : {
+        isPlaying: false,
+        progressMs: 0,
+        durationMs: 0,
+        volume: 0,
+        shuffleState: false,
+        repeatState: 'off',
+        updatedAt: now,
+      };
+
+  if (playbackState) {
+    next.isPlaying = playbackState.isPlaying;
+    next.progressMs = playbackState.positionMs;
+    next.updatedAt = now;
+    if (playbackState.trackId !== undefined && playbackState.trackId !== next.trackId) {
+      // Details of the previous track no longer apply
+      delete next.trackName;
+      delete next.artistName;
+      delete next.albumName;
+      next.trackId = playbackState.trackId;
+    }
+    if (playbackState.device && playbackState.device.id !== next.device?.id) {
+      next.device = {
+        id: playbackState.device.id,
+        name: playbackState.device.name,
+        type: 'Unknown',
+        volumePercent: next.volume,
+      };
+    }
+  }
+  if (volumePercent !== undefined) {
+    next.volume = volumePercent;
+    if (next.device) next.device = { ...next.device, volumePercent };
+  }
+  return next;
+}
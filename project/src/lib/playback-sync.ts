@@ -0,0 +1,134 @@
+import type { PlaybackState } from '@/types/spotify';
+
+/**
+ * Playback sync
+ * Pure helpers for following playback on the user's Spotify device between
+ * polls of GET /playback/status.
+ *
+ * - Clock offset: the status `timestamp` is on the server's clock. The
+ *   offset to the local clock is estimated from the middle of each request
+ *   and smoothed over polls, so progress can be worked out locally without
+ *   the device's clock drifting away from ours. The playback store keeps
+ *   the offset and moves command responses onto the server's clock too.
+ * - Progress: between polls, progress runs on from the last measurement
+ *   while playing, within the track's length.
+ * - Changes: each poll is compared with what was expected, to spot changes
+ *   made outside the quiz - another track, a pause or resume, a seek or
+ *   another device.
+ */
+
+export const PLAYBACK_POLL_MS = {
+  /** A quiz clip is playing, so changes should be noticed quickly */
+  clip: 1000,
+  /** Something else is playing */
+  playing: 5000,
+  /** Nothing is playing */
+  idle: 15000,
+} as const;
+
+// Progress further than this from the expected position counts as a seek
+export const SEEK_THRESHOLD_MS = 3000;
+
+// Share of each new sample in the smoothed clock offset
+const CLOCK_OFFSET_WEIGHT = 0.25;
+
+export type PlaybackChange =
+  | { type: 'track-changed'; previousTrackId?: string; trackId?: string }
+  | { type: 'paused' }
+  | { type: 'resumed' }
+  | { type: 'seeked'; expectedMs: number; progressMs: number }
+  | { type: 'device-changed'; previousDeviceId?: string; deviceId?: string }
+  /** Nothing is playing on any device any more */
+  | { type: 'stopped' };
+
+/**
+ * How long to wait before the next poll
+ */
+export function getPollInterval(isClipPlaying: boolean, playback: PlaybackState | null): number {
+  if (isClipPlaying) return PLAYBACK_POLL_MS.clip;
+  return playback?.isPlaying ? PLAYBACK_POLL_MS.playing : PLAYBACK_POLL_MS.idle;
+}
+
+/**
+ * Server clock minus local clock, from one status request
+ * The server measured at some point during the request; the middle is the
+ * best guess.
+ * @param serverTime The response's timestamp, ms since epoch
+ */
+export function measureClockOffset(
+  serverTime: number,
+  requestedAt: number,
+  receivedAt: number
+): number {
+  return serverTime - (requestedAt + receivedAt) / 2;
+}
+
+/**
+ * Fold a new offset sample into the smoothed offset
+ * @param previous Smoothed offset so far; null before the first sample
+ */
+export function smoothClockOffset(previous: number | null, sample: number): number {
+  if (previous === null) return sample;
+  return previous + (sample - previous) * CLOCK_OFFSET_WEIGHT;
+}
+
+/**
+ * Progress of the playback at a local time
+ * @param clockOffsetMs Server clock minus local clock
+ */
+export function interpolateProgress(
+  playback: PlaybackState,
+  now: number,
+  clockOffsetMs = 0
+): number {
+  if (!playback.isPlaying) return playback.progressMs;
+  const elapsed = Math.max(0, now + clockOffsetMs - playback.updatedAt);
+  const progressMs = playback.progressMs + elapsed;
+  return playback.durationMs > 0 ? Math.min(progressMs, playback.durationMs) : progressMs;
+}
+
+/**
+ * Changes between the playback known before a poll and the one it reported
+ * Positions are only compared while the playback kept playing (or stayed
+ * paused), since there is no telling when a pause or resume happened.
+ */
+export function detectPlaybackChanges(
+  previous: PlaybackState | null,
+  next: PlaybackState | null
+): PlaybackChange[] {
+  if (!previous) return [];
+  if (!next) return previous.isPlaying ? [{ type: 'stopped' }] : [];
+
+  const changes: PlaybackChange[] = [];
+  const previousDeviceId = previous.device?.id;
+  if (next.device && next.device.id !== previousDeviceId) {
+    changes.push({ type: 'device-changed', previousDeviceId, deviceId: next.device.id });
+  }
+
+  if (next.trackId !== previous.trackId) {
+    // A new track makes its pause state and position beside the point
+    changes.push({
+      type: 'track-changed',
+      previousTrackId: previous.trackId,
+      trackId: next.trackId,
+    });
+    return changes;
+  }
+
+  if (previous.isPlaying && !next.isPlaying) {
+    changes.push({ type: 'paused' });
+    return changes;
+  }
+  if (!previous.isPlaying && next.isPlaying) {
+    changes.push({ type: 'resumed' });
+    return changes;
+  }
+
+  // Where the previous playback should have got to when the new one was
+  // measured; both times are on the server's clock
+  const expectedMs = Math.round(interpolateProgress(previous, next.updatedAt));
+  if (Math.abs(next.progressMs - expectedMs) > SEEK_THRESHOLD_MS) {
+    changes.push({ type: 'seeked', expectedMs, progressMs: next.progressMs });
+  }
+  return changes;
+}
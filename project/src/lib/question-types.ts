@@ -0,0 +1,229 @@
+import { isFuzzyMatch, normalizeAnswer } from '@/utils/text-match';
+import type { Question, QuestionType } from '@/types/quiz';
+
+/**
+ * Question type registry
+ * Every question keeps the contract's shape - `options` and a string
+ * `correctAnswer` - and its type decides what they mean, how answers are
+ * written to a string for the API and how they are checked locally.
+ * Renderers live in @/components/quiz/question-types.
+ *
+ * - MultipleChoice: pick one of `options`
+ * - FreeText: type the `correctAnswer`; `options` are other accepted spellings
+ * - YearGuess: pick the year in `correctAnswer` on a slider, with partial
+ *   credit for close guesses
+ * - Ordering: put `options` in the order listed by `correctAnswer` (a JSON array)
+ */
+
+export interface QuestionErrors {
+  text?: string;
+  options?: string;
+  correctAnswer?: string;
+  snippet?: string;
+}
+
+export interface AnswerScore {
+  /** Share of the question's points earned, 0-1 */
+  credit: number;
+  /** Full credit */
+  isCorrect: boolean;
+}
+
+/** Answer value of each question type, before it is written to a string */
+export interface QuestionAnswerValues {
+  MultipleChoice: string;
+  FreeText: string;
+  YearGuess: number;
+  Ordering: string[];
+}
+
+export interface QuestionTypeDefinition<T extends QuestionType = QuestionType> {
+  type: T;
+  label: string;
+  /** What the player does, for choosing a format */
+  description: string;
+  /** Fewest options a question of this type needs */
+  minOptions: number;
+  /** Write an answer as sent to the API */
+  serializeAnswer: (value: QuestionAnswerValues[T]) => string;
+  /** @returns null when the string is not a valid answer of this type */
+  parseAnswer: (answer: string) => QuestionAnswerValues[T] | null;
+  /** Credit for an answer, 0-1 */
+  score: (question: Question, answer: string) => number;
+  /** Readable form of an answer */
+  formatAnswer: (question: Question, answer: string) => string;
+  /** Problems with the options and correct answer */
+  validate: (question: Question) => QuestionErrors;
+  /** Derive fields kept in sync by the editor */
+  normalize?: (question: Question) => Question;
+}
+
+// Years off at which a year guess earns no credit
+export const YEAR_GUESS_TOLERANCE = 10;
+
+export const YEAR_GUESS_RANGE = { min: 1900, max: new Date().getFullYear() } as const;
+
+/**
+ * Problems with a list of options: empty or repeated entries
+ */
+function validateOptions(options: string[], minOptions: number): string | undefined {
+  const trimmed = options.map(option => option.trim());
+  if (trimmed.length < minOptions) {
+    return `At least ${minOptions} options are required`;
+  }
+  if (trimmed.some(option => !option)) {
+    return 'Options cannot be empty';
+  }
+  if (new Set(trimmed.map(option => option.toLowerCase())).size !== trimmed.length) {
+    return 'Options must be different from each other';
+  }
+  return undefined;
+}
+
+function parseYear(answer: string): number | null {
+  const year = Number(answer.trim());
+  return answer.trim() && Number.isInteger(year) ? year : null;
+}
+
+function parseOrder(answer: string): string[] | null {
+  try {
+    const order: unknown = JSON.parse(answer);
+    return Array.isArray(order) && order.every(item => typeof item === 'string') ? order : null;
+  } catch {
+    return null;
+  }
+}
+
+const multipleChoice: QuestionTypeDefinition<'MultipleChoice'> = {
+  type: 'MultipleChoice',
+  label: 'Multiple choice',
+  description: 'Pick the right answer from a list',
+  minOptions: 2,
+  serializeAnswer: value => value,
+  parseAnswer: answer => answer,
+  score: (question, answer) => (answer === question.correctAnswer ? 1 : 0),
+  formatAnswer: (_, answer) => answer,
+  validate: question => {
+    const errors: QuestionErrors = {};
+    const optionsError = validateOptions(question.options, 2);
+    if (optionsError) errors.options = optionsError;
+    if (!question.options.map(option => option.trim()).includes(question.correctAnswer.trim())) {
+      errors.correctAnswer = 'The correct answer must be one of the options';
+    }
+    return errors;
+  },
+};
+
+const freeText: QuestionTypeDefinition<'FreeText'> = {
+  type: 'FreeText',
+  label: 'Free text',
+  description: 'Type the title or artist',
+  minOptions: 0,
+  serializeAnswer: value => value.trim(),
+  parseAnswer: answer => answer,
+  score: (question, answer) =>
+    [question.correctAnswer, ...question.options].some(accepted => isFuzzyMatch(answer, accepted))
+      ? 1
+      : 0,
+  formatAnswer: (_, answer) => answer,
+  validate: question => {
+    const errors: QuestionErrors = {};
+    if (!normalizeAnswer(question.correctAnswer)) {
+      errors.correctAnswer = 'Enter the correct answer';
+    }
+    if (question.options.length > 0) {
+      const optionsError = validateOptions(question.options, 0);
+      if (optionsError) errors.options = optionsError;
+    }
+    return errors;
+  },
+};
+
+const yearGuess: QuestionTypeDefinition<'YearGuess'> = {
+  type: 'YearGuess',
+  label: 'Year guess',
+  description: 'Guess the release year - close counts',
+  minOptions: 0,
+  serializeAnswer: value => String(Math.round(value)),
+  parseAnswer: parseYear,
+  score: (question, answer) => {
+    const guess = parseYear(answer);
+    const year = parseYear(question.correctAnswer);
+    if (guess === null || year === null) return 0;
+    return Math.max(0, 1 - Math.abs(guess - year) / YEAR_GUESS_TOLERANCE);
+  },
+  formatAnswer: (_, answer) => answer,
+  validate: question => {
+    const year = parseYear(question.correctAnswer);
+    if (year === null || year < YEAR_GUESS_RANGE.min || year > YEAR_GUESS_RANGE.max) {
+      return {
+        correctAnswer: `The year must be between ${YEAR_GUESS_RANGE.min} and ${YEAR_GUESS_RANGE.max}`,
+      };
+    }
+    return {};
+  },
+};
+
+const ordering: QuestionTypeDefinition<'Ordering'> = {
+  type: 'Ordering',
+  label: 'Ordering',
+  description: 'Put the tracks in release order',
+  minOptions: 2,
+  serializeAnswer: value => JSON.stringify(value),
+  parseAnswer: parseOrder,
+  // Share of items in the right place
+  score: (question, answer) => {
+    const guess = parseOrder(answer);
+    const order = parseOrder(question.correctAnswer);
+    if (!guess || !order || order.length === 0) return 0;
+    return order.filter((item, index) => guess[index] === item).length / order.length;
+  },
+  formatAnswer: (_, answer) => parseOrder(answer)?.join(' → ') ?? answer,
+  validate: question => {
+    const errors: QuestionErrors = {};
+    const optionsError = validateOptions(question.options, 2);
+    if (optionsError) errors.options = optionsError;
+    const order = parseOrder(question.correctAnswer);
+    if (
+      !order ||
+      order.length !== question.options.length ||
+      !question.options.every(option => order.includes(option))
+    ) {
+      errors.correctAnswer = 'The correct order must list every item once';
+    }
+    return errors;
+  },
+  // The editor lists the items in their correct order
+  normalize: question => ({ ...question, correctAnswer: JSON.stringify(question.options) }),
+};
+
+export const questionTypes: { [T in QuestionType]: QuestionTypeDefinition<T> } = {
+  MultipleChoice: multipleChoice,
+  FreeText: freeText,
+  YearGuess: yearGuess,
+  Ordering: ordering,
+};
+
+export const QUESTION_TYPES = Object.keys(questionTypes) as QuestionType[];
+
+/**
+ * Definition of a question's type; unknown types are treated as multiple choice
+ */
+export function getQuestionType(type: QuestionType): QuestionTypeDefinition {
+  return (questionTypes[type] ?? multipleChoice) as QuestionTypeDefinition;
+}
+
+/**
+ * Check an answer locally
+ */
+export function scoreAnswer(question: Question, answer: string): AnswerScore {
+  const credit = getQuestionType(question.type).score(question, answer);
+  return { credit, isCorrect: credit >= 1 };
+}
+
+/**
+ * Readable form of an answer to a question
+ */
+export function formatAnswer(question: Question, answer: string): string {
+  return getQuestionType(question.type).formatAnswer(question, answer);
+}
@@ -0,0 +1,302 @@
+import { getQuestionType, type QuestionErrors } from '@/lib/question-types';
+import { validateSnippet } from '@/lib/snippet';
+import type { Question, QuestionType, Quiz, SnippetSettings, SpotifyTrack } from '@/types/quiz';
+
+/**
+ * Quiz editor state machine
+ * Pure reducer for editing a quiz's questions with undo/redo. Every edit
+ * replaces the quiz immutably, so history entries are plain snapshots and
+ * the editor is dirty whenever the current snapshot is not the saved one.
+ * Consecutive edits to the same field (typing) are merged into one step.
+ */
+
+// Oldest undo steps are dropped beyond this many
+export const EDITOR_HISTORY_LIMIT = 100;
+
+export interface QuizEditorState {
+  /** Earlier snapshots, oldest first */
+  past: Quiz[];
+  present: Quiz;
+  /** Undone snapshots, next redo first */
+  future: Quiz[];
+  /** Last saved snapshot */
+  saved: Quiz;
+  /** Field the last edit changed, for merging consecutive keystrokes */
+  lastEditKey: string | null;
+}
+
+export type QuizEditorEvent =
+  | { type: 'UPDATE_QUESTION'; index: number; changes: Partial<Omit<Question, 'id' | 'type'>> }
+  /** Switch a question to another type, keeping what still applies */
+  | { type: 'SET_TYPE'; index: number; questionType: QuestionType }
+  | { type: 'SET_OPTION'; index: number; optionIndex: number; value: string }
+  | { type: 'ADD_OPTION'; index: number }
+  | { type: 'REMOVE_OPTION'; index: number; optionIndex: number }
+  | { type: 'SET_TRACK'; index: number; track: SpotifyTrack | null }
+  /** Clip settings for a question; null plays the quiz's clip */
+  | { type: 'SET_SNIPPET'; index: number; snippet: SnippetSettings | null }
+  /** Clip settings for every question; null plays whole tracks */
+  | { type: 'SET_QUIZ_SNIPPET'; snippet: SnippetSettings | null }
+  | { type: 'ADD_QUESTION'; id: string }
+  | { type: 'DELETE_QUESTION'; index: number }
+  | { type: 'MOVE_QUESTION'; from: number; to: number }
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  /** The current snapshot was saved */
+  | { type: 'SAVED' }
+  /** Start over with another quiz */
+  | { type: 'LOAD'; quiz: Quiz };
+
+export type { QuestionErrors };
+
+export interface QuizValidation {
+  isValid: boolean;
+  /** Errors by question ID; questions without errors are left out */
+  questions: Record<string, QuestionErrors>;
+  /** Problem with the quiz as a whole */
+  quiz?: string;
+  /** Problem with the quiz's clip settings */
+  snippet?: string;
+}
+
+export function createEditorState(quiz: Quiz): QuizEditorState {
+  return { past: [], present: quiz, future: [], saved: quiz, lastEditKey: null };
+}
+
+export function isEditorDirty(state: QuizEditorState): boolean {
+  return state.present !== state.saved;
+}
+
+/**
+ * Check a question before it can be saved
+ */
+export function validateQuestion(question: Question): QuestionErrors {
+  const errors = getQuestionType(question.type).validate(question);
+  const snippetError = validateSnippet(question.snippet);
+  return {
+    ...(!question.text.trim() && { text: 'Question text is required' }),
+    ...errors,
+    ...(snippetError && { snippet: snippetError }),
+  };
+}
+
+export function validateQuiz(quiz: Quiz): QuizValidation {
+  const questions: Record<string, QuestionErrors> = {};
+  quiz.questions.forEach(question => {
+    const errors = validateQuestion(question);
+    if (Object.keys(errors).length > 0) {
+      questions[question.id] = errors;
+    }
+  });
+  const quizError = quiz.questions.length === 0 ? 'A quiz needs at least one question' : undefined;
+  const snippetError = validateSnippet(quiz.snippet);
+
+  return {
+    isValid: !quizError && !snippetError && Object.keys(questions).length === 0,
+    questions,
+    ...(quizError && { quiz: quizError }),
+    ...(snippetError && { snippet: snippetError }),
+  };
+}
+
+function replaceQuestion(
+  quiz: Quiz,
+  index: number,
+  update: (question: Question) => Question
+): Quiz | null {
+  const question = quiz.questions[index];
+  if (!question) return null;
+  const questions = [...quiz.questions];
+  const updated = update(question);
+  questions[index] = getQuestionType(updated.type).normalize?.(updated) ?? updated;
+  return { ...quiz, questions };
+}
+
+/**
+ * Set or clear clip settings; settings without any field are cleared
+ */
+function withSnippet<T extends { snippet?: SnippetSettings }>(
+  target: T,
+  snippet: SnippetSettings | null
+): T {
+  const updated = { ...target };
+  const isEmpty = !snippet || Object.values(snippet).every(value => value === undefined);
+  if (isEmpty) {
+    delete updated.snippet;
+  } else {
+    updated.snippet = snippet;
+  }
+  return updated;
+}
+
+function withQuestions(quiz: Quiz, questions: Question[]): Quiz {
+  return { ...quiz, questions, questionCount: questions.length };
+}
+
+/**
+ * Apply an edit to the quiz
+ * @returns null when the edit does not apply (e.g. unknown index)
+ */
+function applyEdit(quiz: Quiz, event: QuizEditorEvent): Quiz | null {
+  switch (event.type) {
+    case 'UPDATE_QUESTION':
+      return replaceQuestion(quiz, event.index, question => ({ ...question, ...event.changes }));
+
+    case 'SET_TYPE':
+      if (quiz.questions[event.index]?.type === event.questionType) return null;
+      return replaceQuestion(quiz, event.index, question => {
+        const keepOptions = getQuestionType(event.questionType).minOptions > 0;
+        return {
+          ...question,
+          type: event.questionType,
+          options: keepOptions ? question.options : [],
+          correctAnswer: '',
+        };
+      });
+
+    case 'SET_OPTION':
+      return replaceQuestion(quiz, event.index, question => {
+        const previous = question.options[event.optionIndex];
+        if (previous === undefined) return question;
+        const options = [...question.options];
+        options[event.optionIndex] = event.value;
+        return {
+          ...question,
+          options,
+          // Renaming the correct option keeps it correct
+          correctAnswer: question.correctAnswer === previous ? event.value : question.correctAnswer,
+        };
+      });
+
+    case 'ADD_OPTION':
+      return replaceQuestion(quiz, event.index, question => ({
+        ...question,
+        options: [...question.options, ''],
+      }));
+
+    case 'REMOVE_OPTION':
+      return replaceQuestion(quiz, event.index, question => ({
+        ...question,
+        options: question.options.filter((_, optionIndex) => optionIndex !== event.optionIndex),
+      }));
+
+    case 'SET_TRACK':
+      return replaceQuestion(quiz, event.index, question => {
+        const updated = { ...question, spotifyTrack: event.track ?? undefined };
+        if (!event.track) delete updated.spotifyTrack;
+        return updated;
+      });
+
+    case 'SET_SNIPPET':
+      return replaceQuestion(quiz, event.index, question => withSnippet(question, event.snippet));
+
+    case 'SET_QUIZ_SNIPPET':
+      return withSnippet(quiz, event.snippet);
+
+    case 'ADD_QUESTION':
+      return withQuestions(quiz, [
+        ...quiz.questions,
+        {
+          id: event.id,
+          text: '',
+          type: 'MultipleChoice',
+          options: ['', ''],
+          correctAnswer: '',
+        },
+      ]);
+
+    case 'DELETE_QUESTION':
+      if (!quiz.questions[event.index]) return null;
+      return withQuestions(
+        quiz,
+        quiz.questions.filter((_, index) => index !== event.index)
+      );
+
+    case 'MOVE_QUESTION': {
+      const { from, to } = event;
+      if (from === to || !quiz.questions[from] || to < 0 || to >= quiz.questions.length) {
+        return null;
+      }
+      const questions = [...quiz.questions];
+      const [moved] = questions.splice(from, 1);
+      questions.splice(to, 0, moved);
+      return withQuestions(quiz, questions);
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Field an edit changes, when consecutive edits to it should merge
+ */
+function getEditKey(quiz: Quiz, event: QuizEditorEvent): string | null {
+  const questionId = 'index' in event ? quiz.questions[event.index]?.id : undefined;
+  if (event.type === 'UPDATE_QUESTION') {
+    const fields = Object.keys(event.changes);
+    // Text fields are typed; picking a correct answer is a single step
+    if (fields.length === 1 && (fields[0] === 'text' || fields[0] === 'explanation')) {
+      return `${questionId}:${fields[0]}`;
+    }
+  }
+  if (event.type === 'SET_OPTION') {
+    return `${questionId}:option:${event.optionIndex}`;
+  }
+  // Clip times are typed too
+  if (event.type === 'SET_SNIPPET') {
+    return `${questionId}:snippet`;
+  }
+  if (event.type === 'SET_QUIZ_SNIPPET') {
+    return 'quiz:snippet';
+  }
+  return null;
+}
+
+export function quizEditorReducer(state: QuizEditorState, event: QuizEditorEvent): QuizEditorState {
+  switch (event.type) {
+    case 'UNDO': {
+      if (state.past.length === 0) return state;
+      return {
+        ...state,
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+        lastEditKey: null,
+      };
+    }
+
+    case 'REDO': {
+      if (state.future.length === 0) return state;
+      return {
+        ...state,
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        lastEditKey: null,
+      };
+    }
+
+    case 'SAVED':
+      return { ...state, saved: state.present, lastEditKey: null };
+
+    case 'LOAD':
+      return createEditorState(event.quiz);
+
+    default: {
+      const next = applyEdit(state.present, event);
+      if (!next) return state;
+
+      const editKey = getEditKey(state.present, event);
+      // Keep typing in one field as a single undo step
+      const merge = !!editKey && editKey === state.lastEditKey;
+      return {
+        ...state,
+        past: merge ? state.past : [...state.past, state.present].slice(-EDITOR_HISTORY_LIMIT),
+        present: next,
+        future: [],
+        lastEditKey: editKey,
+      };
+    }
+  }
+}
@@ -0,0 +1,282 @@
+import { SchemaValidationError, type Infer } from '@/lib/schema';
+import {
+  QUIZ_FILE_FORMAT,
+  quizFileHeaderSchema,
+  quizFileV1Schema,
+  quizFileV2Schema,
+} from '@/schemas/quiz-file';
+import { estimateQuizDuration } from '@/utils/quiz';
+import type { Question, Quiz, SnippetSettings, SpotifyTrack } from '@/types/quiz';
+
+/**
+ * VibeGuess quiz files
+ * Quizzes are exported as versioned JSON that references tracks by Spotify
+ * ID, so files stay small and diff well in git. Older versions are migrated
+ * step by step to the current one on import.
+ */
+
+export const QUIZ_FILE_VERSION = 2;
+
+export const QUIZ_FILE_EXTENSION = '.vibeguess.json';
+
+export type QuizFileV1 = Infer<typeof quizFileV1Schema>;
+
+/** Current file format */
+export type QuizFile = Infer<typeof quizFileV2Schema>;
+
+/**
+ * Thrown when a file cannot be imported
+ */
+export class QuizFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuizFileError';
+  }
+}
+
+export interface ParsedQuizFile {
+  file: QuizFile;
+  /** Version the file was written in, when it had to be migrated */
+  migratedFrom?: number;
+}
+
+function migrateV1(file: QuizFileV1, now: Date): QuizFile {
+  const { quiz } = file;
+  return {
+    format: QUIZ_FILE_FORMAT,
+    version: 2,
+    exportedAt: now.toISOString(),
+    quiz: {
+      id: quiz.id,
+      title: quiz.title,
+      description: quiz.description ?? '',
+      difficulty: quiz.difficulty,
+      estimatedDuration: estimateQuizDuration(quiz.questions.length, quiz.difficulty),
+      createdAt: now.toISOString(),
+      tags: quiz.tags ?? [],
+      questions: quiz.questions.map((question, index) => ({
+        id: `${quiz.id}-q${index + 1}`,
+        type: 'MultipleChoice',
+        text: question.text,
+        options: question.options,
+        correctAnswer: question.correctAnswer,
+        ...(question.explanation !== undefined && { explanation: question.explanation }),
+        ...(question.spotifyTrackId && { track: { spotifyId: question.spotifyTrackId } }),
+      })),
+    },
+  };
+}
+
+/**
+ * Read a quiz file, migrating older versions to the current one
+ * @throws QuizFileError when the file is not a valid quiz file
+ */
+export function parseQuizFile(text: string, now = new Date()): ParsedQuizFile {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new QuizFileError('The file is not valid JSON');
+  }
+
+  if (!quizFileHeaderSchema.is(json)) {
+    throw new QuizFileError('The file is not a VibeGuess quiz file');
+  }
+  if (json.version > QUIZ_FILE_VERSION) {
+    throw new QuizFileError(
+      `The file uses format version ${json.version}, which this version of VibeGuess cannot read`
+    );
+  }
+
+  try {
+    if (json.version === 1) {
+      return { file: migrateV1(quizFileV1Schema.parse(json, 'quiz file'), now), migratedFrom: 1 };
+    }
+    return { file: quizFileV2Schema.parse(json, 'quiz file') };
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      throw new QuizFileError(error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a quiz in the current file format
+ */
+export function toQuizFile(quiz: Quiz, now = new Date()): QuizFile {
+  return {
+    format: QUIZ_FILE_FORMAT,
+    version: QUIZ_FILE_VERSION,
+    exportedAt: now.toISOString(),
+    quiz: {
+      id: quiz.id,
+      title: quiz.title,
+      description: quiz.description,
+      difficulty: quiz.difficulty,
+      estimatedDuration: quiz.estimatedDuration,
+      createdAt: quiz.createdAt,
+      ...(quiz.isPublic !== undefined && { isPublic: quiz.isPublic }),
+      tags: quiz.tags ?? [],
+      ...(quiz.snippet && { snippet: quiz.snippet }),
+      questions: quiz.questions.map(question => ({
+        id: question.id,
+        type: question.type,
+        text: question.text,
+        options: question.options,
+        correctAnswer: question.correctAnswer,
+        ...(question.explanation !== undefined && { explanation: question.explanation }),
+        ...(question.spotifyTrack && {
+          track: {
+            spotifyId: question.spotifyTrack.id,
+            name: question.spotifyTrack.name,
+            artist: question.spotifyTrack.artist,
+          },
+        }),
+        ...(question.snippet && { snippet: question.snippet }),
+      })),
+    },
+  };
+}
+
+export function serializeQuizFile(quiz: Quiz, now = new Date()): string {
+  return `${JSON.stringify(toQuizFile(quiz, now), null, 2)}\n`;
+}
+
+/**
+ * File name for an exported quiz, e.g. "90s-rock.vibeguess.json"
+ */
+export function getQuizFileName(quiz: Quiz): string {
+  const slug = quiz.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || quiz.id}${QUIZ_FILE_EXTENSION}`;
+}
+
+/**
+ * Spotify IDs of the tracks a file references
+ */
+export function getQuizFileTrackIds(file: QuizFile): string[] {
+  return [...new Set(file.quiz.questions.flatMap(question => question.track?.spotifyId ?? []))];
+}
+
+/**
+ * Build the quiz a file describes
+ * @param tracks Referenced tracks by Spotify ID; questions whose track is
+ *   missing are imported without one
+ */
+export function fromQuizFile(file: QuizFile, tracks: Map<string, SpotifyTrack>): Quiz {
+  const { quiz } = file;
+  return {
+    id: quiz.id,
+    title: quiz.title,
+    description: quiz.description,
+    questionCount: quiz.questions.length,
+    difficulty: quiz.difficulty,
+    estimatedDuration: quiz.estimatedDuration,
+    createdAt: quiz.createdAt,
+    ...(quiz.isPublic !== undefined && { isPublic: quiz.isPublic }),
+    tags: quiz.tags,
+    ...(quiz.snippet && { snippet: quiz.snippet }),
+    questions: quiz.questions.map(({ track, ...question }) => {
+      const spotifyTrack = track && tracks.get(track.spotifyId);
+      return spotifyTrack ? { ...question, spotifyTrack } : question;
+    }),
+  };
+}
+
+export type QuizField = 'title' | 'description' | 'difficulty' | 'tags' | 'snippet';
+
+export type QuestionField =
+  | 'text'
+  | 'options'
+  | 'correctAnswer'
+  | 'explanation'
+  | 'track'
+  | 'snippet';
+
+export interface QuestionChange {
+  before: Question;
+  after: Question;
+  fields: QuestionField[];
+}
+
+export interface QuizDiff {
+  /** Quiz metadata that changed */
+  fields: QuizField[];
+  added: Question[];
+  removed: Question[];
+  changed: QuestionChange[];
+  /** Whether the remaining questions are in a different order */
+  reordered: boolean;
+  hasChanges: boolean;
+}
+
+function sameList(a: readonly string[] = [], b: readonly string[] = []): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+function sameSnippet(a?: SnippetSettings, b?: SnippetSettings): boolean {
+  return (
+    a?.startMs === b?.startMs &&
+    !!a?.randomStart === !!b?.randomStart &&
+    a?.maxStartMs === b?.maxStartMs &&
+    a?.durationMs === b?.durationMs
+  );
+}
+
+function getChangedFields(before: Question, after: Question): QuestionField[] {
+  const fields: QuestionField[] = [];
+  if (before.text !== after.text) fields.push('text');
+  if (!sameList(before.options, after.options)) fields.push('options');
+  if (before.correctAnswer !== after.correctAnswer) fields.push('correctAnswer');
+  if ((before.explanation ?? '') !== (after.explanation ?? '')) fields.push('explanation');
+  if (before.spotifyTrack?.id !== after.spotifyTrack?.id) fields.push('track');
+  if (!sameSnippet(before.snippet, after.snippet)) fields.push('snippet');
+  return fields;
+}
+
+/**
+ * Compare an imported quiz with the version already on this device,
+ * matching questions by ID
+ */
+export function diffQuizzes(before: Quiz, after: Quiz): QuizDiff {
+  const fields: QuizField[] = [];
+  if (before.title !== after.title) fields.push('title');
+  if (before.description !== after.description) fields.push('description');
+  if (before.difficulty !== after.difficulty) fields.push('difficulty');
+  if (!sameList(before.tags, after.tags)) fields.push('tags');
+  if (!sameSnippet(before.snippet, after.snippet)) fields.push('snippet');
+
+  const beforeById = new Map(before.questions.map(question => [question.id, question]));
+  const afterIds = new Set(after.questions.map(question => question.id));
+
+  const added = after.questions.filter(question => !beforeById.has(question.id));
+  const removed = before.questions.filter(question => !afterIds.has(question.id));
+  const changed = after.questions.flatMap(question => {
+    const previous = beforeById.get(question.id);
+    const changedFields = previous ? getChangedFields(previous, question) : [];
+    return previous && changedFields.length > 0
+      ? [{ before: previous, after: question, fields: changedFields }]
+      : [];
+  });
+  const reordered = !sameList(
+    before.questions.map(question => question.id).filter(id => afterIds.has(id)),
+    after.questions.map(question => question.id).filter(id => beforeById.has(id))
+  );
+
+  return {
+    fields,
+    added,
+    removed,
+    changed,
+    reordered,
+    hasChanges:
+      fields.length > 0 ||
+      added.length > 0 ||
+      removed.length > 0 ||
+      changed.length > 0 ||
+      reordered,
+  };
+}
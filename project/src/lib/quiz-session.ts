@@ -0,0 +1,523 @@
+import type {
+  Question,
+  QuizSessionStatus,
+  StartSessionResponse,
+  SubmitAnswerResponse,
+} from '@/types/quiz';
+import type { ActiveSessionRecord, QuizResult, QuizSessionState } from '@/types/session';
+import { scoreAnswer } from '@/lib/question-types';
+import { DEFAULT_GAME_MODE, type GameMode } from '@/lib/scoring';
+
+/**
+ * Quiz session state machine
+ * Pure reducer for a quiz being played: start-session, per-question answer
+ * timing, answer submission, feedback and completion. Events carry their
+ * own timestamps so the machine can be driven (and tested) without React
+ * or real timers.
+ *
+ *   idle -> starting -> answering <-> submitting -> feedback -> answering ...
+ *                                                          \-> completed
+ *
+ * A session saved locally (ActiveSessionRecord) can be resumed from
+ * 'starting' once the server's session status is known.
+ */
+
+// Sessions expire after 24 hours of inactivity (data-model.md)
+const DEFAULT_SESSION_TIMEOUT_MINUTES = 24 * 60;
+
+// How long a saved session stays resumable without activity,
+// configurable with VITE_QUIZ_SESSION_TIMEOUT_MINUTES
+const timeoutMinutes =
+  Number(import.meta.env.VITE_QUIZ_SESSION_TIMEOUT_MINUTES) || DEFAULT_SESSION_TIMEOUT_MINUTES;
+export const QUIZ_SESSION_TIMEOUT_MS = timeoutMinutes * 60 * 1000;
+
+/**
+ * The saved session can no longer be resumed (finished elsewhere or expired)
+ */
+export class SessionExpiredError extends Error {
+  constructor() {
+    super('This quiz session has expired. Start a new one to keep playing.');
+    this.name = 'SessionExpiredError';
+  }
+}
+
+export type QuizSessionEvent =
+  /** Game mode of a new session; resumed sessions keep their own */
+  | { type: 'START'; gameMode?: GameMode }
+  | { type: 'STARTED'; session: StartSessionResponse; at: number }
+  /** Saved session reconciled with the server's status */
+  | { type: 'RESUMED'; record: ActiveSessionRecord; status: QuizSessionStatus; at: number }
+  | { type: 'START_FAILED'; error: Error }
+  | { type: 'SUBMIT'; answer: string; at: number }
+  | { type: 'ANSWER_ACCEPTED'; response: SubmitAnswerResponse; at: number }
+  /** 409 - the server already has an answer; status reconciles progress when available */
+  | { type: 'ANSWER_CONFLICT'; status?: QuizSessionStatus; at: number }
+  /** Offline - the answer went to the outbox and is checked locally */
+  | { type: 'ANSWER_QUEUED'; at: number }
+  /** A queued answer reached the server; response is missing after a 409 */
+  | {
+      type: 'ANSWER_SYNCED';
+      sessionId: string;
+      questionId: string;
+      response?: SubmitAnswerResponse;
+    }
+  /** The server rejected a queued answer */
+  | { type: 'ANSWER_DROPPED'; sessionId: string; questionId: string }
+  | { type: 'SUBMIT_FAILED'; error: Error }
+  | { type: 'NEXT'; at: number }
+  | { type: 'RESET' };
+
+export const initialQuizSessionState: QuizSessionState = {
+  status: 'idle',
+  sessionId: null,
+  quiz: null,
+  gameMode: DEFAULT_GAME_MODE,
+  currentQuestionIndex: 0,
+  score: 0,
+  timeLimit: null,
+  questionShownAt: null,
+  pendingAnswer: null,
+  feedback: null,
+  nextQuestionIndex: null,
+  isComplete: false,
+  answers: [],
+  result: null,
+  error: null,
+};
+
+/**
+ * Question currently in play, if any
+ */
+export function getCurrentQuestion(state: QuizSessionState): Question | null {
+  return state.quiz?.questions[state.currentQuestionIndex] ?? null;
+}
+
+/**
+ * Credit for an answer the server checked. The server only reports right
+ * or wrong, so partial credit for near misses is worked out locally.
+ */
+function getCredit(question: Question | undefined, answer: string, isCorrect: boolean): number {
+  if (isCorrect) return 1;
+  const credit = question ? scoreAnswer(question, answer).credit : 0;
+  return credit < 1 ? credit : 0;
+}
+
+function findQuestion(state: QuizSessionState, questionId: string): Question | undefined {
+  return state.quiz?.questions.find(question => question.id === questionId);
+}
+
+/**
+ * Milliseconds the player has spent on the current question
+ */
+export function getTimeToAnswer(state: QuizSessionState, now: number): number {
+  return state.questionShownAt === null ? 0 : Math.max(0, now - state.questionShownAt);
+}
+
+/**
+ * Whether a saved session has been inactive for too long to resume
+ */
+export function isSessionStale(
+  record: ActiveSessionRecord,
+  now: number,
+  timeoutMs = QUIZ_SESSION_TIMEOUT_MS
+): boolean {
+  return now - record.lastActiveAt > timeoutMs;
+}
+
+/**
+ * Snapshot of a session in play, for saving locally
+ * @returns null when there is nothing worth resuming
+ */
+export function toActiveSessionRecord(
+  state: QuizSessionState,
+  now: number
+): ActiveSessionRecord | null {
+  if (
+    !state.sessionId ||
+    !state.quiz ||
+    !['answering', 'submitting', 'feedback'].includes(state.status)
+  ) {
+    return null;
+  }
+  return {
+    sessionId: state.sessionId,
+    quizId: state.quiz.id,
+    quiz: state.quiz,
+    gameMode: state.gameMode,
+    currentQuestionIndex: state.currentQuestionIndex,
+    score: state.score,
+    answers: state.answers,
+    questionShownAt: state.questionShownAt,
+    lastActiveAt: now,
+  };
+}
+
+/**
+ * Results of a completed session
+ * Prefers the server's result and falls back to the locally tracked score,
+ * e.g. while answers given offline are still syncing.
+ */
+export function toQuizResult(state: QuizSessionState, now: number): QuizResult | null {
+  if (state.status !== 'completed' || !state.sessionId || !state.quiz) {
+    return null;
+  }
+  const totalQuestions = state.result?.totalQuestions ?? state.quiz.questions.length;
+  const score = state.result?.finalScore ?? state.score;
+  const lastAnswer = state.answers[state.answers.length - 1];
+  return {
+    sessionId: state.sessionId,
+    quizId: state.quiz.id,
+    quiz: state.quiz,
+    gameMode: state.gameMode,
+    totalQuestions,
+    correctAnswers: countCorrectAnswers(state.answers),
+    score,
+    percentage:
+      state.result?.percentage ?? (totalQuestions ? Math.round((score / totalQuestions) * 100) : 0),
+    timeSpent: state.answers.reduce((total, answer) => total + answer.timeToAnswer, 0),
+    completedAt: state.result?.completedAt ?? lastAnswer?.answeredAt ?? new Date(now).toISOString(),
+    answers: state.answers,
+  };
+}
+
+/**
+ * Apply the outcome of an answer replayed from the outbox to a saved result
+ * @param response Server response; missing after a 409 or when dropped
+ */
+export function syncResultAnswer(
+  result: QuizResult,
+  questionId: string,
+  syncStatus: 'synced' | 'failed',
+  response?: SubmitAnswerResponse
+): QuizResult {
+  const previous = result.answers.find(answer => answer.questionId === questionId);
+  if (!previous) return result;
+
+  const question = result.quiz.questions.find(item => item.id === questionId);
+  const answers = result.answers.map(answer =>
+    answer === previous
+      ? {
+          ...answer,
+          isCorrect: response?.isCorrect ?? answer.isCorrect,
+          ...(response && {
+            credit: getCredit(question, answer.selectedAnswer, response.isCorrect),
+          }),
+          syncStatus,
+        }
+      : answer
+  );
+  let score = result.score;
+  if (response) {
+    score =
+      response.sessionResult?.finalScore ?? response.currentScore + getProvisionalScore(answers);
+  } else if (syncStatus === 'failed' && previous.syncStatus === 'pending' && previous.isCorrect) {
+    score -= 1;
+  }
+  return {
+    ...result,
+    answers,
+    correctAnswers: countCorrectAnswers(answers),
+    score,
+    percentage:
+      response?.sessionResult?.percentage ??
+      (result.totalQuestions ? Math.round((score / result.totalQuestions) * 100) : 0),
+    completedAt: response?.sessionResult?.completedAt ?? result.completedAt,
+  };
+}
+
+/**
+ * Correct answers, leaving out those the server rejected
+ */
+function countCorrectAnswers(answers: QuizSessionState['answers']): number {
+  return answers.filter(answer => answer.isCorrect && answer.syncStatus !== 'failed').length;
+}
+
+/**
+ * Points from answers still waiting in the outbox, checked locally
+ */
+function getProvisionalScore(answers: QuizSessionState['answers']): number {
+  return answers.filter(answer => answer.syncStatus === 'pending' && answer.isCorrect).length;
+}
+
+/**
+ * Index after the saved session's progress, counting answers the server
+ * may not have received yet
+ */
+function getLocalNextIndex(record: ActiveSessionRecord): number {
+  const current = record.quiz.questions[record.currentQuestionIndex];
+  const isAnswered = !!current && record.answers.some(answer => answer.questionId === current.id);
+  return record.currentQuestionIndex + (isAnswered ? 1 : 0);
+}
+
+export function quizSessionReducer(
+  state: QuizSessionState,
+  event: QuizSessionEvent
+): QuizSessionState {
+  switch (event.type) {
+    case 'START':
+      if (state.status !== 'idle' && state.status !== 'error') return state;
+      return {
+        ...initialQuizSessionState,
+        status: 'starting',
+        gameMode: event.gameMode ?? DEFAULT_GAME_MODE,
+      };
+
+    case 'STARTED': {
+      if (state.status !== 'starting') return state;
+      const { session } = event;
+      const isComplete =
+        !session.isActive || session.currentQuestionIndex >= session.quiz.questions.length;
+      return {
+        ...state,
+        status: isComplete ? 'completed' : 'answering',
+        sessionId: session.sessionId,
+        quiz: session.quiz,
+        currentQuestionIndex: session.currentQuestionIndex,
+        score: session.score,
+        timeLimit: session.timeLimit ?? null,
+        questionShownAt: event.at,
+        isComplete,
+        error: null,
+      };
+    }
+
+    case 'RESUMED': {
+      if (state.status !== 'starting') return state;
+      const { record, status } = event;
+      const questionCount = record.quiz.questions.length;
+      // The server is the source of truth for progress, except for answers
+      // still waiting in the outbox
+      const hasPending = record.answers.some(answer => answer.syncStatus === 'pending');
+      const currentQuestionIndex = hasPending
+        ? Math.max(status.currentQuestionIndex, getLocalNextIndex(record))
+        : status.currentQuestionIndex;
+      const isComplete =
+        (!hasPending && (!status.isActive || status.questionsRemaining === 0)) ||
+        currentQuestionIndex >= questionCount;
+
+      // Still on the saved question: carry over the time spent on it
+      // before the interruption, but not the time the tab was gone
+      const sameQuestion = currentQuestionIndex === record.currentQuestionIndex;
+      const spentMs =
+        sameQuestion && record.questionShownAt !== null
+          ? Math.max(0, record.lastActiveAt - record.questionShownAt)
+          : 0;
+
+      return {
+        ...state,
+        status: isComplete ? 'completed' : 'answering',
+        sessionId: record.sessionId,
+        quiz: record.quiz,
+        gameMode: record.gameMode ?? DEFAULT_GAME_MODE,
+        currentQuestionIndex,
+        score: status.score + getProvisionalScore(record.answers),
+        questionShownAt: event.at - spentMs,
+        answers: record.answers,
+        isComplete,
+        error: null,
+      };
+    }
+
+    case 'START_FAILED':
+      if (state.status !== 'starting') return state;
+      return { ...state, status: 'error', error: event.error };
+
+    case 'SUBMIT': {
+      if (state.status !== 'answering') return state;
+      const question = getCurrentQuestion(state);
+      if (!question) return state;
+
+      // A re-submit after a failure keeps the original answer time
+      const pendingAnswer =
+        state.pendingAnswer?.questionId === question.id &&
+        state.pendingAnswer.selectedAnswer === event.answer
+          ? state.pendingAnswer
+          : {
+              questionId: question.id,
+              selectedAnswer: event.answer,
+              timeToAnswer: getTimeToAnswer(state, event.at),
+            };
+      return { ...state, status: 'submitting', pendingAnswer, error: null };
+    }
+
+    case 'ANSWER_ACCEPTED': {
+      if (state.status !== 'submitting' || !state.pendingAnswer) return state;
+      const { response } = event;
+      const credit = getCredit(
+        findQuestion(state, state.pendingAnswer.questionId),
+        state.pendingAnswer.selectedAnswer,
+        response.isCorrect
+      );
+      return {
+        ...state,
+        status: 'feedback',
+        score: response.currentScore,
+        feedback: {
+          isCorrect: response.isCorrect,
+          credit,
+          correctAnswer: response.correctAnswer,
+          explanation: response.explanation,
+          alreadyAnswered: false,
+        },
+        nextQuestionIndex: response.nextQuestionIndex ?? state.currentQuestionIndex + 1,
+        isComplete: response.isSessionComplete,
+        result: response.sessionResult ?? null,
+        answers: [
+          ...state.answers,
+          {
+            ...state.pendingAnswer,
+            isCorrect: response.isCorrect,
+            credit,
+            answeredAt: new Date(event.at).toISOString(),
+            syncStatus: 'synced',
+          },
+        ],
+        pendingAnswer: null,
+      };
+    }
+
+    case 'ANSWER_CONFLICT': {
+      if (state.status !== 'submitting' || !state.pendingAnswer) return state;
+      const { status } = event;
+      const questionCount = state.quiz?.questions.length ?? 0;
+      const nextQuestionIndex = status
+        ? Math.max(status.currentQuestionIndex, state.currentQuestionIndex + 1)
+        : state.currentQuestionIndex + 1;
+      const isComplete = status
+        ? !status.isActive || status.questionsRemaining === 0
+        : nextQuestionIndex >= questionCount;
+      return {
+        ...state,
+        status: 'feedback',
+        score: status?.score ?? state.score,
+        feedback: {
+          isCorrect: null,
+          correctAnswer: null,
+          alreadyAnswered: true,
+        },
+        nextQuestionIndex,
+        isComplete,
+        answers: [
+          ...state.answers,
+          {
+            ...state.pendingAnswer,
+            isCorrect: null,
+            answeredAt: new Date(event.at).toISOString(),
+            syncStatus: 'synced',
+          },
+        ],
+        pendingAnswer: null,
+      };
+    }
+
+    case 'ANSWER_QUEUED': {
+      if (state.status !== 'submitting' || !state.pendingAnswer) return state;
+      const question = getCurrentQuestion(state);
+      if (!question) return state;
+
+      // Questions carry their correct answer, so feedback works offline
+      const { isCorrect, credit } = scoreAnswer(question, state.pendingAnswer.selectedAnswer);
+      const nextQuestionIndex = state.currentQuestionIndex + 1;
+      return {
+        ...state,
+        status: 'feedback',
+        score: state.score + (isCorrect ? 1 : 0),
+        feedback: {
+          isCorrect,
+          credit,
+          correctAnswer: question.correctAnswer,
+          explanation: question.explanation,
+          alreadyAnswered: false,
+          queued: true,
+        },
+        nextQuestionIndex,
+        isComplete: nextQuestionIndex >= (state.quiz?.questions.length ?? 0),
+        answers: [
+          ...state.answers,
+          {
+            ...state.pendingAnswer,
+            isCorrect,
+            credit,
+            answeredAt: new Date(event.at).toISOString(),
+            syncStatus: 'pending',
+          },
+        ],
+        pendingAnswer: null,
+      };
+    }
+
+    case 'ANSWER_SYNCED': {
+      if (event.sessionId !== state.sessionId) return state;
+      const { response } = event;
+      const answers = state.answers.map(answer =>
+        answer.questionId === event.questionId
+          ? {
+              ...answer,
+              isCorrect: response?.isCorrect ?? answer.isCorrect,
+              ...(response && {
+                credit: getCredit(
+                  findQuestion(state, answer.questionId),
+                  answer.selectedAnswer,
+                  response.isCorrect
+                ),
+              }),
+              syncStatus: 'synced' as const,
+            }
+          : answer
+      );
+      return {
+        ...state,
+        answers,
+        // Server score plus local points for answers still queued behind this one
+        score: response ? response.currentScore + getProvisionalScore(answers) : state.score,
+        result: response?.sessionResult ?? state.result,
+      };
+    }
+
+    case 'ANSWER_DROPPED': {
+      if (event.sessionId !== state.sessionId) return state;
+      const answers = state.answers.map(answer =>
+        answer.questionId === event.questionId
+          ? { ...answer, syncStatus: 'failed' as const }
+          : answer
+      );
+      const dropped = state.answers.find(answer => answer.questionId === event.questionId);
+      return {
+        ...state,
+        answers,
+        // The server never counted it
+        score:
+          dropped?.syncStatus === 'pending' && dropped.isCorrect ? state.score - 1 : state.score,
+      };
+    }
+
+    case 'SUBMIT_FAILED':
+      // No automatic retry: back to the question so the player can re-submit
+      if (state.status !== 'submitting') return state;
+      return { ...state, status: 'answering', error: event.error };
+
+    case 'NEXT': {
+      if (state.status !== 'feedback') return state;
+      const questionCount = state.quiz?.questions.length ?? 0;
+      const nextIndex = state.nextQuestionIndex ?? state.currentQuestionIndex + 1;
+      if (state.isComplete || nextIndex >= questionCount) {
+        return { ...state, status: 'completed', isComplete: true, feedback: null };
+      }
+      return {
+        ...state,
+        status: 'answering',
+        currentQuestionIndex: nextIndex,
+        questionShownAt: event.at,
+        feedback: null,
+        nextQuestionIndex: null,
+        error: null,
+      };
+    }
+
+    case 'RESET':
+      return initialQuizSessionState;
+
+    default:
+      return state;
+  }
+}
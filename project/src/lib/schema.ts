@@ -0,0 +1,258 @@
+/**
+ * Runtime schemas
+ * Small declarative validators for API payloads. A schema checks unknown
+ * JSON at runtime and also provides its TypeScript type through Infer<>,
+ * so the types cannot drift from what is actually validated.
+ */
+
+/**
+ * Thrown when a payload does not match its schema
+ */
+export class SchemaValidationError extends Error {
+  constructor(
+    /** Dotted path of the failing field, e.g. "questions[2].options" */
+    readonly path: string,
+    /** What the schema expected at that path */
+    readonly expected: string,
+    /** What was found instead */
+    readonly received: string,
+    context = 'payload'
+  ) {
+    const field = path || '(root)';
+    super(
+      received === 'undefined'
+        ? `Invalid ${context}: "${field}" is required`
+        : `Invalid ${context}: "${field}" must be ${expected}, received ${received}`
+    );
+    this.name = 'SchemaValidationError';
+  }
+}
+
+// Thrown internally while walking a value; converted to SchemaValidationError by parse()
+class SchemaIssue {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    readonly value: unknown
+  ) {}
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string')
+    return `"${value.length > 40 ? `${value.slice(0, 40)}...` : value}"`;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+type Check<T> = (value: unknown, path: string) => T;
+
+export class Schema<T> {
+  readonly isOptional: boolean = false;
+
+  constructor(
+    /** @internal Validate a value at a path, throwing a SchemaIssue */
+    readonly check: Check<T>
+  ) {}
+
+  /**
+   * Validate a value
+   * @param context Describes the payload in error messages, e.g. "response from GET /auth/me"
+   * @throws SchemaValidationError naming the offending field
+   */
+  parse(value: unknown, context?: string): T {
+    try {
+      return this.check(value, '');
+    } catch (error) {
+      if (error instanceof SchemaIssue) {
+        throw new SchemaValidationError(error.path, error.expected, describe(error.value), context);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a value matches the schema
+   */
+  is(value: unknown): value is T {
+    try {
+      this.check(value, '');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Allow the field to be missing */
+  optional(): OptionalSchema<T> {
+    return new OptionalSchema((value, path) =>
+      value === undefined ? undefined : this.check(value, path)
+    );
+  }
+
+  /** Allow null */
+  nullable(): Schema<T | null> {
+    return new Schema((value, path) => (value === null ? null : this.check(value, path)));
+  }
+}
+
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  readonly isOptional = true as const;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type RequiredKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalSchema<unknown> ? never : K;
+}[keyof S];
+
+type ObjectOutput<S extends Shape> = {
+  [K in RequiredKeys<S>]: Infer<S[K]>;
+} & {
+  [K in Exclude<keyof S, RequiredKeys<S>>]?: Infer<S[K]>;
+} extends infer O
+  ? { [K in keyof O]: O[K] }
+  : never;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+interface StringOptions {
+  /** Reject empty strings */
+  nonEmpty?: boolean;
+}
+
+interface NumberOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+function string({ nonEmpty = false }: StringOptions = {}): Schema<string> {
+  const expected = nonEmpty ? 'a non-empty string' : 'a string';
+  return new Schema((value, path) => {
+    if (typeof value !== 'string' || (nonEmpty && value.length === 0)) {
+      throw new SchemaIssue(path, expected, value);
+    }
+    return value;
+  });
+}
+
+function number({ min, max, integer = false }: NumberOptions = {}): Schema<number> {
+  let expected = integer ? 'an integer' : 'a number';
+  if (min !== undefined && max !== undefined) expected += ` between ${min} and ${max}`;
+  else if (min !== undefined) expected += ` >= ${min}`;
+  else if (max !== undefined) expected += ` <= ${max}`;
+
+  return new Schema((value, path) => {
+    if (
+      typeof value !== 'number' ||
+      !Number.isFinite(value) ||
+      (integer && !Number.isInteger(value)) ||
+      (min !== undefined && value < min) ||
+      (max !== undefined && value > max)
+    ) {
+      throw new SchemaIssue(path, expected, value);
+    }
+    return value;
+  });
+}
+
+function boolean(): Schema<boolean> {
+  return new Schema((value, path) => {
+    if (typeof value !== 'boolean') {
+      throw new SchemaIssue(path, 'a boolean', value);
+    }
+    return value;
+  });
+}
+
+function literal<const T extends string | number | boolean>(expected: T): Schema<T> {
+  return new Schema((value, path) => {
+    if (value !== expected) {
+      throw new SchemaIssue(path, JSON.stringify(expected), value);
+    }
+    return expected;
+  });
+}
+
+function oneOf<const T extends readonly (string | number)[]>(values: T): Schema<T[number]> {
+  const expected = `one of ${values.map(value => JSON.stringify(value)).join(', ')}`;
+  return new Schema((value, path) => {
+    if (!values.includes(value as T[number])) {
+      throw new SchemaIssue(path, expected, value);
+    }
+    return value as T[number];
+  });
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+  return new Schema((value, path) => {
+    if (!Array.isArray(value)) {
+      throw new SchemaIssue(path, 'an array', value);
+    }
+    return value.map((entry, index) => item.check(entry, joinPath(path, index)));
+  });
+}
+
+/**
+ * Object with known fields; unknown fields are dropped from the output
+ */
+function object<S extends Shape>(shape: S): Schema<ObjectOutput<S>> {
+  return new Schema((value, path) => {
+    if (!isRecord(value)) {
+      throw new SchemaIssue(path, 'an object', value);
+    }
+
+    const output: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const parsed = schema.check(value[key], joinPath(path, key));
+      if (parsed !== undefined) {
+        output[key] = parsed;
+      }
+    }
+    return output as ObjectOutput<S>;
+  });
+}
+
+function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return new Schema((value, path) => {
+    if (!isRecord(value)) {
+      throw new SchemaIssue(path, 'an object', value);
+    }
+
+    const output: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      output[key] = item.check(entry, joinPath(path, key));
+    }
+    return output;
+  });
+}
+
+function unknown(): Schema<unknown> {
+  return new Schema(value => value);
+}
+
+/**
+ * Schema builders
+ */
+export const s = {
+  string,
+  number,
+  boolean,
+  literal,
+  oneOf,
+  array,
+  object,
+  record,
+  unknown,
+};
@@ -0,0 +1,190 @@
+import type { Question } from '@/types/quiz';
+import type { QuizAnswer } from '@/types/session';
+import type { Difficulty } from '@/types/user';
+
+/**
+ * Quiz scoring engine
+ * The API only counts correct answers; points are worked out locally from
+ * each answer's credit, how quickly it was given, the streak of correct
+ * answers leading up to it and the quiz's difficulty. Everything here is
+ * pure and rounds to whole points, so every player - solo or in a shared
+ * game - scores the same answers the same way.
+ *
+ * Points for a question: (base + time bonus + streak bonus) × multiplier
+ * - base: `basePoints` scaled by the answer's credit
+ * - time bonus: up to `maxPoints`, falling linearly to 0 at `windowMs`,
+ *   scaled by credit
+ * - streak bonus: from the `minStreak`th correct answer in a row, grows by
+ *   `bonusPerAnswer` per answer up to `maxBonus`; partial credit, wrong and
+ *   missing answers end the streak
+ * - multiplier: by quiz difficulty
+ */
+
+export type GameMode = 'classic' | 'speed' | 'relaxed';
+
+export interface ScoringRules {
+  basePoints: number;
+  /** Bonus for answering quickly; null turns it off */
+  timeBonus: { maxPoints: number; windowMs: number } | null;
+  /** Bonus for consecutive correct answers; null turns it off */
+  streak: { minStreak: number; bonusPerAnswer: number; maxBonus: number } | null;
+  difficultyMultipliers: Record<Difficulty, number>;
+}
+
+export const SCORING_RULES: Record<GameMode, ScoringRules> = {
+  classic: {
+    basePoints: 100,
+    timeBonus: { maxPoints: 50, windowMs: 20_000 },
+    streak: { minStreak: 2, bonusPerAnswer: 10, maxBonus: 50 },
+    difficultyMultipliers: { Easy: 1, Medium: 1.5, Hard: 2 },
+  },
+  // Answering fast is worth as much as answering right
+  speed: {
+    basePoints: 100,
+    timeBonus: { maxPoints: 100, windowMs: 10_000 },
+    streak: { minStreak: 2, bonusPerAnswer: 20, maxBonus: 100 },
+    difficultyMultipliers: { Easy: 1, Medium: 1.5, Hard: 2 },
+  },
+  // No clock - only correct answers count
+  relaxed: {
+    basePoints: 100,
+    timeBonus: null,
+    streak: null,
+    difficultyMultipliers: { Easy: 1, Medium: 1.25, Hard: 1.5 },
+  },
+};
+
+export const DEFAULT_GAME_MODE: GameMode = 'classic';
+
+export const GAME_MODE_LABELS: Record<GameMode, { label: string; description: string }> = {
+  classic: { label: 'Classic', description: 'Points for right answers, fast answers and streaks' },
+  speed: { label: 'Speed', description: 'Fast answers and long streaks are worth double' },
+  relaxed: { label: 'Relaxed', description: 'No clock - only right answers count' },
+};
+
+/**
+ * Whether a value, e.g. from the URL, names a game mode
+ */
+export function isGameMode(value: unknown): value is GameMode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SCORING_RULES, value);
+}
+
+/** What scoring needs to know about an answer */
+export type ScoringAnswer = Pick<
+  QuizAnswer,
+  'questionId' | 'isCorrect' | 'credit' | 'timeToAnswer'
+>;
+
+export interface QuestionPoints {
+  questionId: string;
+  base: number;
+  timeBonus: number;
+  streakBonus: number;
+  multiplier: number;
+  /** Correct answers in a row, ending with this one */
+  streak: number;
+  total: number;
+}
+
+export interface ScoreBreakdown {
+  /** Points for each question, in quiz order */
+  questions: QuestionPoints[];
+  total: number;
+  /** Most correct answers in a row */
+  bestStreak: number;
+  /** Points for answering every question correctly as fast as possible */
+  maxTotal: number;
+}
+
+/**
+ * Share of the points an answer earns; unchecked answers earn nothing
+ */
+export function getAnswerCredit(answer: ScoringAnswer | undefined): number {
+  if (!answer || answer.isCorrect === null) return 0;
+  const credit = answer.credit ?? (answer.isCorrect ? 1 : 0);
+  return Math.min(1, Math.max(0, credit));
+}
+
+function getTimeBonus(rules: ScoringRules, timeToAnswer: number, credit: number): number {
+  if (!rules.timeBonus || credit === 0) return 0;
+  const { maxPoints, windowMs } = rules.timeBonus;
+  const remaining = Math.max(0, 1 - Math.max(0, timeToAnswer) / windowMs);
+  return Math.round(maxPoints * remaining * credit);
+}
+
+function getStreakBonus(rules: ScoringRules, streak: number): number {
+  if (!rules.streak || streak < rules.streak.minStreak) return 0;
+  const { minStreak, bonusPerAnswer, maxBonus } = rules.streak;
+  return Math.min(maxBonus, (streak - minStreak + 1) * bonusPerAnswer);
+}
+
+/**
+ * Points for one answer
+ * @param previousStreak Correct answers in a row before this one
+ */
+export function scoreQuestion(
+  questionId: string,
+  answer: ScoringAnswer | undefined,
+  previousStreak: number,
+  difficulty: Difficulty,
+  rules: ScoringRules
+): QuestionPoints {
+  const credit = getAnswerCredit(answer);
+  const streak = credit >= 1 ? previousStreak + 1 : 0;
+  const base = Math.round(rules.basePoints * credit);
+  const timeBonus = answer ? getTimeBonus(rules, answer.timeToAnswer, credit) : 0;
+  const streakBonus = getStreakBonus(rules, streak);
+  const multiplier = rules.difficultyMultipliers[difficulty] ?? 1;
+
+  return {
+    questionId,
+    base,
+    timeBonus,
+    streakBonus,
+    multiplier,
+    streak,
+    total: Math.round((base + timeBonus + streakBonus) * multiplier),
+  };
+}
+
+/**
+ * Points for a whole quiz, scoring answers in question order
+ * @param answers Answers in any order; questions without one score 0
+ */
+export function scoreQuiz(
+  questions: Pick<Question, 'id'>[],
+  answers: ScoringAnswer[],
+  difficulty: Difficulty,
+  rules: ScoringRules
+): ScoreBreakdown {
+  const answersById = new Map(answers.map(answer => [answer.questionId, answer]));
+  const perfect = (questionId: string): ScoringAnswer => ({
+    questionId,
+    isCorrect: true,
+    credit: 1,
+    timeToAnswer: 0,
+  });
+
+  const scored: QuestionPoints[] = [];
+  let maxTotal = 0;
+  questions.forEach((question, index) => {
+    const previous = scored[scored.length - 1];
+    scored.push(
+      scoreQuestion(
+        question.id,
+        answersById.get(question.id),
+        previous?.streak ?? 0,
+        difficulty,
+        rules
+      )
+    );
+    maxTotal += scoreQuestion(question.id, perfect(question.id), index, difficulty, rules).total;
+  });
+
+  return {
+    questions: scored,
+    total: scored.reduce((total, points) => total + points.total, 0),
+    bestStreak: scored.reduce((best, points) => Math.max(best, points.streak), 0),
+    maxTotal,
+  };
+}
@@ -0,0 +1,215 @@
+import type { StoredAuthTokens } from '@/utils/token-storage';
+
+/**
+ * Cross-tab session bus
+ * Keeps auth state in sync between tabs of the same origin and elects a
+ * single leader tab that performs token refreshes (refresh tokens rotate,
+ * so two tabs refreshing concurrently would invalidate each other).
+ */
+
+export type SessionMessage =
+  /** New tokens were obtained (login or refresh) */
+  | { type: 'tokens'; tokens: StoredAuthTokens }
+  /** The user logged out */
+  | { type: 'logout' }
+  /** A follower asks the leader to refresh */
+  | { type: 'refresh-request' }
+  /**
+   * The leader's refresh failed; status and code are set when the backend
+   * answered, so followers can tell a rejected refresh from a transient failure
+   */
+  | { type: 'refresh-failed'; status?: number; code?: string; message?: string }
+  /** A new tab asks peers for the current tokens */
+  | { type: 'session-request' }
+  /** Presence announcements used for leader election */
+  | { type: 'hello' }
+  | { type: 'heartbeat' }
+  | { type: 'goodbye' };
+
+export type SessionEnvelope = SessionMessage & { from: string };
+
+/**
+ * Transport used by the bus. BroadcastChannel in modern browsers,
+ * storage events as a fallback, or a fake channel in tests.
+ */
+export interface SessionChannel {
+  postMessage(message: SessionEnvelope): void;
+  subscribe(listener: (message: SessionEnvelope) => void): () => void;
+  close(): void;
+}
+
+const CHANNEL_NAME = 'vibeguess-session';
+const HEARTBEAT_INTERVAL_MS = 5000;
+// A peer is considered gone after missing this many heartbeats
+const MISSED_HEARTBEATS = 3;
+
+/**
+ * BroadcastChannel transport
+ */
+export function createBroadcastChannel(name = CHANNEL_NAME): SessionChannel {
+  const channel = new BroadcastChannel(name);
+
+  return {
+    postMessage: (message) => channel.postMessage(message),
+    subscribe: (listener) => {
+      const handler = (event: MessageEvent<SessionEnvelope>) => listener(event.data);
+      channel.addEventListener('message', handler);
+      return () => channel.removeEventListener('message', handler);
+    },
+    close: () => channel.close(),
+  };
+}
+
+/**
+ * Storage event transport for browsers without BroadcastChannel.
+ * Messages are written and removed immediately, so tokens never remain in
+ * localStorage; the write alone fires the storage event in other tabs.
+ */
+export function createStorageChannel(key = CHANNEL_NAME): SessionChannel {
+  return {
+    postMessage: (message) => {
+      try {
+        // Nonce makes repeated identical messages still fire an event
+        localStorage.setItem(key, JSON.stringify({ message, nonce: Math.random() }));
+        localStorage.removeItem(key);
+      } catch (error) {
+        console.error('Failed to post session message:', error);
+      }
+    },
+    subscribe: (listener) => {
+      const handler = (event: StorageEvent) => {
+        if (event.key !== key || !event.newValue) return;
+        try {
+          listener(JSON.parse(event.newValue).message as SessionEnvelope);
+        } catch (error) {
+          console.error('Failed to parse session message:', error);
+        }
+      };
+      window.addEventListener('storage', handler);
+      return () => window.removeEventListener('storage', handler);
+    },
+    close: () => {},
+  };
+}
+
+/**
+ * Pick the best transport available in this browser
+ */
+export function createSessionChannel(): SessionChannel {
+  if (typeof BroadcastChannel !== 'undefined') {
+    return createBroadcastChannel();
+  }
+  return createStorageChannel();
+}
+
+/**
+ * Generate a tab ID that sorts by creation time, so the oldest tab leads
+ */
+function generateTabId(): string {
+  const created = Date.now().toString().padStart(15, '0');
+  const random = Math.random().toString(36).slice(2, 10);
+  return `${created}-${random}`;
+}
+
+export class SessionBus {
+  readonly tabId = generateTabId();
+  // Last time each peer tab was seen, keyed by tab ID
+  private peers = new Map<string, number>();
+  private listeners = new Set<(message: SessionEnvelope) => void>();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    private channel: SessionChannel,
+    private heartbeatIntervalMs = HEARTBEAT_INTERVAL_MS
+  ) {}
+
+  /**
+   * Start listening and announce this tab to its peers
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = this.channel.subscribe((message) => this.receive(message));
+    this.heartbeatTimer = setInterval(() => this.post({ type: 'heartbeat' }), this.heartbeatIntervalMs);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.stop);
+    }
+
+    this.post({ type: 'hello' });
+  }
+
+  /**
+   * Stop listening and tell peers this tab is gone
+   */
+  stop = (): void => {
+    if (!this.unsubscribe) return;
+
+    this.post({ type: 'goodbye' });
+    this.unsubscribe();
+    this.unsubscribe = null;
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.stop);
+    }
+  };
+
+  /**
+   * Whether this tab is the elected refresh leader (the oldest live tab)
+   */
+  isLeader(): boolean {
+    const staleBefore = Date.now() - this.heartbeatIntervalMs * MISSED_HEARTBEATS;
+    for (const [peerId, lastSeen] of this.peers) {
+      if (lastSeen < staleBefore) {
+        this.peers.delete(peerId);
+      }
+    }
+
+    return [...this.peers.keys()].every((peerId) => this.tabId < peerId);
+  }
+
+  /**
+   * Send a message to all other tabs
+   */
+  publish(message: SessionMessage): void {
+    this.post(message);
+  }
+
+  /**
+   * Listen for messages from other tabs
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (message: SessionEnvelope) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private post(message: SessionMessage): void {
+    this.channel.postMessage({ ...message, from: this.tabId });
+  }
+
+  private receive(message: SessionEnvelope): void {
+    if (message.from === this.tabId) return;
+
+    if (message.type === 'goodbye') {
+      this.peers.delete(message.from);
+    } else {
+      const isNewPeer = !this.peers.has(message.from);
+      this.peers.set(message.from, Date.now());
+      // Answer newcomers right away so they learn about us before electing
+      if (message.type === 'hello' && isNewPeer) {
+        this.post({ type: 'heartbeat' });
+      }
+    }
+
+    this.listeners.forEach((listener) => listener(message));
+  }
+}
@@ -0,0 +1,220 @@
+import type { TrackPlayer } from '@/lib/track-player';
+import type { SnippetSettings, SpotifyTrack } from '@/types/quiz';
+import { createSeededRandom } from '@/utils/random';
+
+/**
+ * Snippet mode
+ * Questions can play a clip of their track instead of starting at 0:00.
+ * Clip settings are set for a quiz and overridden field by field per
+ * question. A random start is seeded by the question, so replaying (or
+ * resuming) a question plays the same clip. Clips fade in and out by
+ * changing the player's volume - in coarse steps on remote devices, whose
+ * volume commands are rate limited.
+ */
+
+// Length of Spotify's preview clips
+export const PREVIEW_CLIP_MS = 30000;
+
+export const CLIP_FADE_MS = 800;
+
+// How often the fade volume is updated
+const CLIP_TICK_MS = 50;
+
+export interface ResolvedSnippet {
+  startMs: number;
+  randomStart: boolean;
+  maxStartMs?: number;
+  /** null plays to the end */
+  durationMs: number | null;
+}
+
+/** Part of a track to play */
+export interface ClipWindow {
+  startMs: number;
+  /** null plays to the end */
+  durationMs: number | null;
+}
+
+/**
+ * Clip settings for a question, falling back to the quiz's
+ */
+export function resolveSnippet(
+  quizSnippet: SnippetSettings | undefined,
+  questionSnippet: SnippetSettings | undefined
+): ResolvedSnippet {
+  const merged = { ...quizSnippet, ...questionSnippet };
+  return {
+    startMs: merged.startMs ?? 0,
+    randomStart: merged.randomStart ?? false,
+    ...(merged.maxStartMs !== undefined && { maxStartMs: merged.maxStartMs }),
+    durationMs: merged.durationMs ?? null,
+  };
+}
+
+/**
+ * Length of a track that can be played
+ * @param strategy Previews only have their 30 second clip
+ */
+export function getPlayableMs(track: SpotifyTrack, strategy: 'remote' | 'preview'): number {
+  if (strategy === 'remote') return track.durationMs;
+  return track.durationMs > 0 ? Math.min(track.durationMs, PREVIEW_CLIP_MS) : PREVIEW_CLIP_MS;
+}
+
+/**
+ * Where a clip starts and how long it plays, kept within the playable length
+ * @param random Number in [0, 1) picking a random start
+ */
+export function getClipWindow(
+  snippet: ResolvedSnippet,
+  playableMs: number,
+  random: number
+): ClipWindow {
+  const durationMs = snippet.durationMs === null ? null : Math.min(snippet.durationMs, playableMs);
+  const latestStart = Math.max(0, playableMs - (durationMs ?? 0));
+  const earliestStart = Math.min(snippet.startMs, latestStart);
+  const maxStart = snippet.randomStart
+    ? Math.max(earliestStart, Math.min(snippet.maxStartMs ?? latestStart, latestStart))
+    : earliestStart;
+
+  return {
+    startMs: Math.round(earliestStart + (maxStart - earliestStart) * random),
+    durationMs,
+  };
+}
+
+/**
+ * Clip window for a question's track, the same every time for the question
+ */
+export function getQuestionClip(
+  questionId: string,
+  track: SpotifyTrack,
+  snippet: ResolvedSnippet,
+  strategy: 'remote' | 'preview'
+): ClipWindow {
+  return getClipWindow(snippet, getPlayableMs(track, strategy), createSeededRandom(questionId)());
+}
+
+/**
+ * Volume 0-1 at a point of a clip: rising over the fade at the start and
+ * falling over the fade before the end
+ */
+export function getClipGain(
+  elapsedMs: number,
+  durationMs: number | null,
+  fadeMs = CLIP_FADE_MS
+): number {
+  if (fadeMs <= 0) return 1;
+  const fadeIn = elapsedMs / fadeMs;
+  const fadeOut = durationMs === null ? 1 : (durationMs - elapsedMs) / fadeMs;
+  return Math.max(0, Math.min(1, fadeIn, fadeOut));
+}
+
+/**
+ * Problem with clip settings, if any
+ */
+export function validateSnippet(snippet: SnippetSettings | undefined): string | undefined {
+  if (!snippet) return undefined;
+  if (snippet.durationMs !== undefined && snippet.durationMs < 1000) {
+    return 'Clips must be at least 1 second long';
+  }
+  if (
+    snippet.randomStart &&
+    snippet.maxStartMs !== undefined &&
+    snippet.maxStartMs < (snippet.startMs ?? 0)
+  ) {
+    return 'The latest start must not be before the earliest start';
+  }
+  return undefined;
+}
+
+export interface ClipPlayerOptions {
+  fadeMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Plays clips through a track player
+ * Starts the track at the clip's start, fades it in and out and pauses it
+ * when the clip is over. Playing again replays the clip from its start; of
+ * overlapping plays, only the last one is followed.
+ */
+export class ClipPlayer {
+  /** Called when a clip finishes playing */
+  onEnded: (() => void) | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  // Bumped by every play, pause and cancel, so a play that was still
+  // starting can tell it has been overtaken
+  private generation = 0;
+  private fadeMs: number;
+  private now: () => number;
+
+  constructor(
+    readonly player: TrackPlayer,
+    { fadeMs = CLIP_FADE_MS, now = () => Date.now() }: ClipPlayerOptions = {}
+  ) {
+    this.fadeMs = fadeMs;
+    this.now = now;
+    // The track ran out before the clip did
+    player.onEnded = () => this.finish();
+  }
+
+  async play(track: SpotifyTrack, clip: ClipWindow): Promise<void> {
+    const generation = this.stop();
+    this.player.setVolume?.(this.fadeMs > 0 ? 0 : 1);
+    await this.player.play(track, clip.startMs);
+    if (generation !== this.generation) return;
+
+    const startedAt = this.now();
+    this.timer = setInterval(() => {
+      const elapsedMs = this.now() - startedAt;
+      if (clip.durationMs !== null && elapsedMs >= clip.durationMs) {
+        this.player.pause().catch(() => {
+          // The clip is over either way
+        });
+        this.finish();
+        return;
+      }
+      this.player.setVolume?.(getClipGain(elapsedMs, clip.durationMs, this.fadeMs));
+      // Full tracks only need the timer for the fade in
+      if (clip.durationMs === null && elapsedMs >= this.fadeMs) {
+        this.stopTimer();
+      }
+    }, CLIP_TICK_MS);
+  }
+
+  async pause(): Promise<void> {
+    this.stop();
+    await this.player.pause();
+  }
+
+  /** Stop following the clip, leaving the player playing or paused as it is */
+  cancel(): void {
+    this.stop();
+    // Undo a fade the clip was in the middle of
+    this.player.setVolume?.(1);
+  }
+
+  dispose(): void {
+    this.stop();
+    this.player.onEnded = null;
+    this.player.dispose();
+  }
+
+  /** Stop following the current clip; returns the new generation */
+  private stop(): number {
+    this.stopTimer();
+    return ++this.generation;
+  }
+
+  private finish(): void {
+    this.stop();
+    this.onEnded?.();
+  }
+
+  private stopTimer(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
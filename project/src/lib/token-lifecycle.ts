@@ -0,0 +1,204 @@
+import type { AuthTokens, TokenRefreshState } from '@/types/auth';
+import type { StoredAuthTokens } from '@/utils/token-storage';
+import { ApiError } from '@/utils/error-handling';
+import { getBackoffDelay } from '@/utils/retry';
+
+/**
+ * Token lifecycle manager
+ * Schedules a single proactive refresh ahead of the access token's expiry,
+ * pauses while the tab is hidden or offline, and retries failed refreshes
+ * with jittered backoff before giving up. A refresh the backend rejects
+ * (400/401 - the refresh cookie is missing or revoked) is not retried.
+ */
+
+// Refresh this long before the access token expires
+export const TOKEN_REFRESH_SKEW_MS = 5 * 60 * 1000;
+
+export interface TokenLifecycleOptions {
+  /** Perform the refresh; resolves with the new tokens */
+  refresh: () => Promise<AuthTokens>;
+  /** Called once all retries are exhausted */
+  onExpired: (error: unknown) => void;
+  /** Called whenever the scheduler state changes */
+  onStateChange?: (state: TokenRefreshState) => void;
+  /** Refresh margin before expiry in milliseconds */
+  skewMs?: number;
+  /** Retries after the first failed refresh */
+  maxRetries?: number;
+  /** First retry delay in milliseconds */
+  retryBaseDelayMs?: number;
+}
+
+export const initialTokenRefreshState: TokenRefreshState = {
+  status: 'idle',
+  nextRefreshAt: null,
+  lastRefreshAt: null,
+  lastFailure: null,
+  retryCount: 0,
+};
+
+/**
+ * Absolute expiry of a token set in ms since epoch
+ */
+export function getTokenExpiry(tokens: AuthTokens): number {
+  const stored = tokens as StoredAuthTokens;
+  if (typeof stored.expires_at === 'number') {
+    return stored.expires_at;
+  }
+  return Date.now() + (tokens.expires_in || 3600) * 1000;
+}
+
+/**
+ * Whether a failed refresh can never succeed by retrying
+ */
+function isRefreshRejected(error: unknown): boolean {
+  return error instanceof ApiError && (error.status === 400 || error.status === 401);
+}
+
+export class TokenLifecycleManager {
+  private state: TokenRefreshState = initialTokenRefreshState;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listening = false;
+  private skewMs: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+
+  constructor(private options: TokenLifecycleOptions) {
+    this.skewMs = options.skewMs ?? TOKEN_REFRESH_SKEW_MS;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 2000;
+  }
+
+  getState(): TokenRefreshState {
+    return this.state;
+  }
+
+  /**
+   * Arm (or re-arm) the refresh timer for a token set
+   */
+  schedule(tokens: AuthTokens): void {
+    this.startListening();
+    this.update({
+      status: 'scheduled',
+      nextRefreshAt: Math.max(Date.now(), getTokenExpiry(tokens) - this.skewMs),
+      retryCount: 0,
+    });
+    this.arm();
+  }
+
+  /**
+   * Cancel any pending refresh and detach listeners
+   */
+  stop(): void {
+    this.clearTimer();
+    this.stopListening();
+    this.update({ ...initialTokenRefreshState, lastFailure: this.state.lastFailure });
+  }
+
+  private arm(): void {
+    this.clearTimer();
+    if (this.state.nextRefreshAt === null) return;
+
+    const delay = Math.max(0, this.state.nextRefreshAt - Date.now());
+    this.timer = setTimeout(() => this.fire(), delay);
+  }
+
+  private fire(): void {
+    this.timer = null;
+
+    // Background tabs wait until they are visible/online again
+    if (this.isHidden() || this.isOffline()) {
+      this.update({ status: 'paused' });
+      return;
+    }
+
+    void this.run();
+  }
+
+  private async run(): Promise<void> {
+    this.update({ status: 'refreshing' });
+
+    try {
+      const tokens = await this.options.refresh();
+      this.update({ lastRefreshAt: Date.now() });
+      this.schedule(tokens);
+    } catch (error) {
+      const lastFailure = {
+        message: error instanceof Error ? error.message : 'Token refresh failed',
+        at: Date.now(),
+      };
+
+      // Being offline is not the refresh token's fault - wait for 'online'
+      if (this.isOffline()) {
+        this.update({ status: 'paused', lastFailure });
+        return;
+      }
+
+      if (isRefreshRejected(error) || this.state.retryCount >= this.maxRetries) {
+        this.stop();
+        this.update({ lastFailure });
+        this.options.onExpired(error);
+        return;
+      }
+
+      const delay = getBackoffDelay(this.state.retryCount, { baseDelayMs: this.retryBaseDelayMs });
+      this.update({
+        status: 'scheduled',
+        nextRefreshAt: Date.now() + delay,
+        retryCount: this.state.retryCount + 1,
+        lastFailure,
+      });
+      this.arm();
+    }
+  }
+
+  /**
+   * Catch up after the tab becomes visible or the network returns.
+   * Timers in background tabs are throttled, so re-arm even if not yet due.
+   */
+  private handleResume = (): void => {
+    if (this.isHidden() || this.isOffline()) return;
+    if (this.state.status === 'idle' || this.state.status === 'refreshing') return;
+
+    if (this.state.status === 'paused' || (this.state.nextRefreshAt ?? 0) <= Date.now()) {
+      this.clearTimer();
+      void this.run();
+    } else {
+      this.arm();
+    }
+  };
+
+  private startListening(): void {
+    if (this.listening || typeof window === 'undefined') return;
+    document.addEventListener('visibilitychange', this.handleResume);
+    window.addEventListener('online', this.handleResume);
+    this.listening = true;
+  }
+
+  private stopListening(): void {
+    if (!this.listening) return;
+    document.removeEventListener('visibilitychange', this.handleResume);
+    window.removeEventListener('online', this.handleResume);
+    this.listening = false;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private isHidden(): boolean {
+    return typeof document !== 'undefined' && document.hidden;
+  }
+
+  private isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+  }
+
+  private update(patch: Partial<TokenRefreshState>): void {
+    this.state = { ...this.state, ...patch };
+    this.options.onStateChange?.(this.state);
+  }
+}
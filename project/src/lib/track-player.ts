@@ -0,0 +1,222 @@
+import type { SpotifyTrack } from '@/types/quiz';
+import type { PlaybackPlayRequest } from '@/types/spotify';
+
+/**
+ * Track players
+ * The quiz plays question tracks through one interface, whichever way the
+ * audio gets to the player:
+ * - remote: the full track on the user's Spotify device (Premium only)
+ * - preview: the track's 30 second preview clip, in the browser
+ */
+
+export type PlaybackStrategy = 'remote' | 'preview' | 'none';
+
+export interface TrackPlayer {
+  readonly strategy: Exclude<PlaybackStrategy, 'none'>;
+  /** Whether this player has audio for a track */
+  canPlay: (track: SpotifyTrack) => boolean;
+  /** Start a track from a position */
+  play: (track: SpotifyTrack, positionMs?: number) => Promise<void>;
+  pause: () => Promise<void>;
+  /** Set the volume, 0-1, relative to the volume the user chose */
+  setVolume?: (gain: number) => void;
+  /** Stop and let go of any resources */
+  dispose: () => void;
+  /** Called when a track plays to its end, where the player can tell */
+  onEnded: (() => void) | null;
+}
+
+export interface PlaybackStrategyOptions {
+  hasPremium: boolean;
+  /** The user's enableAudioPreview setting */
+  enableAudioPreview: boolean;
+  /** Device picked for the quiz, if any */
+  deviceId?: string;
+  /** A device command was refused for lack of Premium */
+  premiumRequired?: boolean;
+}
+
+/**
+ * How a quiz's tracks should be played
+ * Premium users play on their device; everyone else (and Premium users
+ * playing without a device) gets preview clips unless they turned them off.
+ */
+export function choosePlaybackStrategy({
+  hasPremium,
+  enableAudioPreview,
+  deviceId,
+  premiumRequired = false,
+}: PlaybackStrategyOptions): PlaybackStrategy {
+  if (hasPremium && deviceId && !premiumRequired) return 'remote';
+  if (enableAudioPreview) return 'preview';
+  return 'none';
+}
+
+// Volume commands are rate limited (contracts/playback-api.md), so fades on
+// a device move in coarse steps
+export const REMOTE_VOLUME_INTERVAL_MS = 500;
+
+/**
+ * Commands a remote player sends; the playback store's actions fit
+ */
+export interface RemotePlaybackControls {
+  play: (request?: Omit<PlaybackPlayRequest, 'deviceId'>) => Promise<void>;
+  pause: () => Promise<void>;
+  /** Set the device's volume, 0-100; without it nothing fades */
+  setVolume?: (volumePercent: number) => Promise<void>;
+  /** The device's volume, 0-100; null when unknown or it cannot be changed */
+  getVolume?: () => number | null;
+}
+
+/**
+ * Plays full tracks on the selected Spotify device
+ * Volume changes scale the device's own volume and are sent at most every
+ * REMOTE_VOLUME_INTERVAL_MS, the latest one last. Pausing puts the device
+ * back at its own volume.
+ */
+export class RemoteTrackPlayer implements TrackPlayer {
+  readonly strategy = 'remote' as const;
+  onEnded: (() => void) | null = null;
+  /** The device's own volume, which fades scale */
+  private deviceVolume: number | null = null;
+  /** The device is, or is about to be, away from its own volume */
+  private isFaded = false;
+  private sentVolume: number | null = null;
+  private queuedVolume: number | null = null;
+  private lastVolumeAt = -Infinity;
+  private volumeTimer: ReturnType<typeof setTimeout> | null = null;
+  private volumeCommandsInFlight = 0;
+  // The device refused a volume command, e.g. because it has no volume control
+  private volumeFailed = false;
+
+  constructor(private controls: RemotePlaybackControls) {}
+
+  canPlay(track: SpotifyTrack): boolean {
+    return !!track.id;
+  }
+
+  play(track: SpotifyTrack, positionMs = 0): Promise<void> {
+    return this.controls.play({ trackId: track.id, positionMs: Math.round(positionMs) });
+  }
+
+  async pause(): Promise<void> {
+    try {
+      await this.controls.pause();
+    } finally {
+      this.restoreVolume();
+    }
+  }
+
+  setVolume(gain: number): void {
+    if (!this.controls.setVolume || this.volumeFailed) return;
+    if (!this.isFaded) {
+      // Already at the device's volume
+      if (gain >= 1) return;
+      // While volume commands are on their way the known volume is not settled
+      const isSettled = this.volumeTimer === null && this.volumeCommandsInFlight === 0;
+      const volume = isSettled ? (this.controls.getVolume?.() ?? null) : this.deviceVolume;
+      if (volume === null) return;
+      this.deviceVolume = volume;
+      if (isSettled) this.sentVolume = volume;
+      this.isFaded = true;
+    }
+    if (this.deviceVolume === null) return;
+    this.queueVolume(Math.round(this.deviceVolume * Math.max(0, Math.min(1, gain))));
+  }
+
+  dispose(): void {
+    // Quiz tracks should not keep playing after the quiz moves on
+    this.pause().catch(() => {
+      // Nothing was playing
+    });
+  }
+
+  /** Go back to the device's own volume once a fade is over */
+  private restoreVolume(): void {
+    if (!this.isFaded || this.deviceVolume === null) return;
+    this.queueVolume(this.deviceVolume);
+    this.isFaded = false;
+  }
+
+  private queueVolume(volumePercent: number): void {
+    this.queuedVolume = volumePercent;
+    if (this.volumeTimer !== null) return;
+    const waitMs = this.lastVolumeAt + REMOTE_VOLUME_INTERVAL_MS - Date.now();
+    if (waitMs <= 0) {
+      this.sendVolume();
+    } else {
+      this.volumeTimer = setTimeout(() => {
+        this.volumeTimer = null;
+        this.sendVolume();
+      }, waitMs);
+    }
+  }
+
+  private sendVolume(): void {
+    const volumePercent = this.queuedVolume;
+    this.queuedVolume = null;
+    if (volumePercent === null || volumePercent === this.sentVolume || !this.controls.setVolume) {
+      return;
+    }
+    this.sentVolume = volumePercent;
+    this.lastVolumeAt = Date.now();
+    this.volumeCommandsInFlight++;
+    this.controls
+      .setVolume(volumePercent)
+      .catch(() => {
+        // Play on without fades rather than fade some steps and not others
+        this.volumeFailed = true;
+      })
+      .finally(() => this.volumeCommandsInFlight--);
+  }
+}
+
+/**
+ * Plays preview clips with an audio element
+ */
+export class PreviewTrackPlayer implements TrackPlayer {
+  readonly strategy = 'preview' as const;
+  onEnded: (() => void) | null = null;
+  private audio: HTMLAudioElement | null = null;
+
+  constructor(private createAudio: () => HTMLAudioElement = () => new Audio()) {}
+
+  canPlay(track: SpotifyTrack): boolean {
+    return !!track.previewUrl;
+  }
+
+  async play(track: SpotifyTrack, positionMs = 0): Promise<void> {
+    if (!track.previewUrl) {
+      throw new Error('No preview available for this track');
+    }
+    if (!this.audio) {
+      this.audio = this.createAudio();
+      this.audio.preload = 'auto';
+      this.audio.addEventListener('ended', () => this.onEnded?.());
+    }
+    if (this.audio.src !== track.previewUrl) {
+      this.audio.src = track.previewUrl;
+    }
+    this.audio.currentTime = positionMs / 1000;
+    await this.audio.play();
+  }
+
+  async pause(): Promise<void> {
+    this.audio?.pause();
+  }
+
+  setVolume(gain: number): void {
+    if (this.audio) {
+      this.audio.volume = Math.max(0, Math.min(1, gain));
+    }
+  }
+
+  dispose(): void {
+    if (!this.audio) return;
+    this.audio.pause();
+    // Stop downloading the clip
+    this.audio.removeAttribute('src');
+    this.audio.load();
+    this.audio = null;
+  }
+}
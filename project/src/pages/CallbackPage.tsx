@@ -1,13 +1,16 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
-import { parseOAuthError } from '@/utils/oauth';
+import { parseOAuthError, retrieveReturnPath } from '@/utils/oauth';
+import { getCorrelationId, getErrorMessage } from '@/utils/error-handling';
+import { CorrelationId } from '@/components/ui/correlation-id';
 
 type CallbackStatus = 'loading' | 'success' | 'error';
 
 /**
  * OAuth callback page that handles Spotify authentication response
- * Processes auth code and redirects to dashboard or shows errors
+ * Processes auth code and redirects to the page the user came from
+ * (or the dashboard) or shows errors
  */
 export default function CallbackPage() {
   const navigate = useNavigate();
@@ -16,8 +19,14 @@ export default function CallbackPage() {
   
   const [status, setStatus] = useState<CallbackStatus>('loading');
   const [error, setError] = useState<string | null>(null);
+  const [correlationId, setCorrelationId] = useState<string | null>(null);
+  // The code and state are single use - never process them twice (e.g. StrictMode)
+  const hasProcessed = useRef(false);
 
   useEffect(() => {
+    if (hasProcessed.current) return;
+    hasProcessed.current = true;
+
     const processCallback = async () => {
       try {
         // Check for OAuth errors first
@@ -44,29 +53,34 @@ export default function CallbackPage() {
           return;
         }
 
+        // Deep link the user started from, stored with the OAuth state
+        const returnTo = retrieveReturnPath(state);
+
         // Exchange code for tokens
         await handleCallback({ code, state });
         
         setStatus('success');
         
-        // Redirect to dashboard after a brief success message
+        // Redirect after a brief success message
         setTimeout(() => {
-          navigate('/dashboard', { replace: true });
+          navigate(returnTo || '/dashboard', { replace: true });
         }, 2000);
 
       } catch (err) {
         console.error('Callback processing failed:', err);
         setStatus('error');
-        setError(err instanceof Error ? err.message : 'Authentication failed');
+        setError(getErrorMessage(err, 'Authentication failed'));
+        setCorrelationId(getCorrelationId(err) ?? null);
       }
     };
 
     processCallback();
   }, [searchParams, handleCallback, navigate]);
 
-  // Auto-redirect to login on error after delay
+  // Auto-redirect to login on error after delay, unless there is a
+  // correlation ID the user may want to copy first
   useEffect(() => {
-    if (status === 'error') {
+    if (status === 'error' && !correlationId) {
       const timer = setTimeout(() => {
         navigate('/login', { 
           replace: true,
@@ -78,7 +92,7 @@ export default function CallbackPage() {
 
       return () => clearTimeout(timer);
     }
-  }, [status, error, navigate]);
+  }, [status, error, correlationId, navigate]);
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-spotify-green/20 via-background to-spotify-green/10 p-4">
@@ -93,7 +107,7 @@ export default function CallbackPage() {
           )}
           
           {status === 'error' && (
-            <ErrorState error={error} />
+            <ErrorState error={error} correlationId={correlationId} />
           )}
         </div>
       </div>
@@ -197,7 +211,13 @@ function SuccessState() {
 /**
  * Error state component
  */
-function ErrorState({ error }: { error: string | null }) {
+function ErrorState({
+  error,
+  correlationId,
+}: {
+  error: string | null;
+  correlationId: string | null;
+}) {
   return (
     <div className="space-y-6">
       {/* Error icon */}
@@ -229,12 +249,17 @@ function ErrorState({ error }: { error: string | null }) {
         </p>
       </div>
 
-      {/* Auto-redirect message */}
-      <div className="bg-muted/50 border border-border rounded-lg p-4">
-        <p className="text-sm text-muted-foreground">
-          You'll be redirected to the login page in a few seconds...
-        </p>
-      </div>
+      {/* Reference for support requests */}
+      {correlationId ? (
+        <CorrelationId id={correlationId} />
+      ) : (
+        /* Auto-redirect message */
+        <div className="bg-muted/50 border border-border rounded-lg p-4">
+          <p className="text-sm text-muted-foreground">
+            You'll be redirected to the login page in a few seconds...
+          </p>
+        </div>
+      )}
 
       {/* Manual redirect button */}
       <button
@@ -1,10 +1,13 @@
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { ResumeSessionBanner } from '@/components/quiz/ResumeSessionPrompt';
 
 /**
  * Dashboard/Home page for authenticated users
  * Shows user profile and navigation to main features
  */
 export default function HomePage() {
+  const navigate = useNavigate();
   const { user, logout, isLogoutLoading } = useAuth();
 
   return (
@@ -14,7 +17,7 @@ export default function HomePage() {
         <header className="flex items-center justify-between mb-8">
           <div>
             <h1 className="text-3xl font-bold text-foreground mb-2">
-              Welcome back{user?.display_name ? `, ${user.display_name}` : ''}!
+              Welcome back{user?.displayName ? `, ${user.displayName}` : ''}!
             </h1>
             <p className="text-muted-foreground">
               Ready to create some amazing music quizzes?
@@ -23,10 +26,10 @@ export default function HomePage() {
           
           <div className="flex items-center gap-4">
             {/* User avatar */}
-            {user?.images?.[0] && (
+            {user?.profileImageUrl && (
               <img
-                src={user.images[0].url}
-                alt={user.display_name || 'Profile'}
+                src={user.profileImageUrl}
+                alt={user.displayName || 'Profile'}
                 className="w-10 h-10 rounded-full border-2 border-spotify-green"
               />
             )}
@@ -42,6 +45,9 @@ export default function HomePage() {
           </div>
         </header>
 
+        {/* Unfinished quiz */}
+        <ResumeSessionBanner className="mb-8" />
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           <StatCard
@@ -72,10 +78,7 @@ export default function HomePage() {
             buttonText="Get Started"
             icon="🚀"
             primary
-            onClick={() => {
-              // TODO: Navigate to quiz creation
-              alert('Quiz creation coming soon!');
-            }}
+            onClick={() => navigate('/quiz/new')}
           />
           
           <ActionCard
@@ -83,10 +86,7 @@ export default function HomePage() {
             description="View and manage all your created quizzes. Share them with friends or play solo."
             buttonText="View Library"
             icon="📚"
-            onClick={() => {
-              // TODO: Navigate to quiz library
-              alert('Quiz library coming soon!');
-            }}
+            onClick={() => navigate('/library')}
           />
         </div>
 
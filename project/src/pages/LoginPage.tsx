@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
-import { useNavigate, useLocation } from 'react-router-dom';
+import { useNavigate, useLocation, type Location } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import LoginButton from '@/components/auth/LoginButton';
+import { sanitizeReturnPath } from '@/utils/oauth';
 
 /**
  * Login page for Spotify OAuth authentication
@@ -14,6 +15,12 @@ export default function LoginPage() {
   
   const [error, setError] = useState<string | null>(null);
 
+  // Where AuthGuard sent us from, including query string and hash
+  const from = (location.state as { from?: Location } | null)?.from;
+  const returnTo = from
+    ? sanitizeReturnPath(`${from.pathname}${from.search}${from.hash}`)
+    : null;
+
   // Parse URL parameters for OAuth errors
   useEffect(() => {
     const searchParams = new URLSearchParams(location.search);
@@ -31,16 +38,15 @@ export default function LoginPage() {
   // Redirect authenticated users
   useEffect(() => {
     if (isAuthenticated) {
-      const from = (location.state as any)?.from?.pathname || '/dashboard';
-      navigate(from, { replace: true });
+      navigate(returnTo || '/dashboard', { replace: true });
     }
-  }, [isAuthenticated, navigate, location.state]);
+  }, [isAuthenticated, navigate, returnTo]);
 
   const handleLogin = async () => {
     try {
       clearError();
       setError(null);
-      await login();
+      await login(returnTo || undefined);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Login failed';
       setError(errorMessage);
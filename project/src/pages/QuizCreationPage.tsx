@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useGenerateQuiz } from '@/hooks/useQuiz';
+import { GENERATE_MAX_RETRIES } from '@/services/quiz.service';
+import { useSettingsStore } from '@/stores/settings.store';
+import { QuizCreationForm } from '@/components/quiz/QuizCreationForm';
+import { ResumeSessionBanner } from '@/components/quiz/ResumeSessionPrompt';
+import { CorrelationId } from '@/components/ui/correlation-id';
+import { getCorrelationId, getErrorMessage } from '@/utils/error-handling';
+import type { QuizGenerationRequest } from '@/types/quiz';
+
+/**
+ * Quiz creation page
+ * Collects the generation parameters, shows progress while the quiz is
+ * generated and opens the new quiz once it is ready
+ */
+export default function QuizCreationPage() {
+  const navigate = useNavigate();
+  const settings = useSettingsStore((state) => state.settings);
+  const generateQuiz = useGenerateQuiz();
+  // Last submitted parameters, kept so the form is not reset after an error
+  const [params, setParams] = useState<QuizGenerationRequest>(() => ({
+    prompt: '',
+    questionCount: settings.defaultQuestionCount,
+    format: 'MultipleChoice',
+    difficulty: settings.defaultDifficulty,
+    includeAudio: settings.enableAudioPreview,
+  }));
+
+  const handleSubmit = (values: QuizGenerationRequest) => {
+    setParams(values);
+    generateQuiz.mutate(values, {
+      onSuccess: (quiz) => navigate(`/quiz/${quiz.id}`),
+    });
+  };
+
+  const correlationId = getCorrelationId(generateQuiz.error);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-spotify-green/20 via-background to-spotify-green/10">
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        {/* Header */}
+        <header className="mb-8">
+          <Link to="/dashboard" className="text-sm text-muted-foreground hover:text-foreground">
+            ← Back to dashboard
+          </Link>
+          <h1 className="text-3xl font-bold text-foreground mt-4 mb-2">Create New Quiz</h1>
+          <p className="text-muted-foreground">
+            Describe a theme and we'll generate questions around matching tracks
+          </p>
+        </header>
+
+        <ResumeSessionBanner className="mb-6" />
+
+        <div className="bg-card border border-border rounded-xl p-6 shadow-xl">
+          {generateQuiz.isPending ? (
+            <GenerationProgress
+              questionCount={params.questionCount}
+              retryCount={generateQuiz.retryCount}
+              onCancel={generateQuiz.cancel}
+            />
+          ) : (
+            <div className="space-y-6">
+              {generateQuiz.isError && (
+                <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4 space-y-3">
+                  <p className="text-sm text-destructive">
+                    {getErrorMessage(generateQuiz.error, 'Failed to generate quiz')}
+                  </p>
+                  {correlationId && <CorrelationId id={correlationId} />}
+                </div>
+              )}
+
+              <QuizCreationForm initialValues={params} onSubmit={handleSubmit} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Progress shown while the quiz is generated
+ * The API reports no progress, so the steps advance with elapsed time
+ */
+function GenerationProgress({
+  questionCount,
+  retryCount,
+  onCancel,
+}: {
+  questionCount: number;
+  retryCount: number;
+  onCancel: () => void;
+}) {
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+
+  useEffect(() => {
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      setElapsedSeconds(Math.floor((Date.now() - startedAt) / 1000));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Rough expectation: a few seconds of setup plus a second or two per question
+  const expectedSeconds = 5 + questionCount * 1.5;
+  const steps = [
+    { text: 'Understanding your prompt', doneAt: expectedSeconds * 0.2 },
+    { text: 'Finding matching tracks', doneAt: expectedSeconds * 0.5 },
+    { text: `Writing ${questionCount} questions`, doneAt: Infinity },
+  ];
+  // Approaches but never reaches 100% until the quiz arrives
+  const percent = Math.round(95 * (1 - Math.exp(-elapsedSeconds / expectedSeconds)));
+
+  return (
+    <div className="space-y-6 text-center" aria-live="polite">
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold text-card-foreground">Generating your quiz...</h2>
+        <p className="text-muted-foreground text-sm">
+          {retryCount > 0
+            ? `The server is busy - retrying (${retryCount} of ${GENERATE_MAX_RETRIES})`
+            : `This usually takes under a minute (${elapsedSeconds}s)`}
+        </p>
+      </div>
+
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        className="h-2 w-full overflow-hidden rounded-full bg-muted"
+      >
+        <div
+          className="h-full rounded-full bg-spotify-green transition-all duration-1000"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      <ul className="space-y-3 text-left text-sm">
+        {steps.map((step, index) => {
+          const previousDoneAt = index === 0 ? 0 : steps[index - 1].doneAt;
+          const done = elapsedSeconds >= step.doneAt;
+          const active = !done && elapsedSeconds >= previousDoneAt;
+          return (
+            <li key={step.text} className="flex items-center gap-3">
+              {done ? (
+                <span className="w-4 h-4 rounded-full bg-spotify-green" />
+              ) : active ? (
+                <span className="animate-spin rounded-full h-4 w-4 border-2 border-spotify-green/30 border-t-spotify-green" />
+              ) : (
+                <span className="w-4 h-4 rounded-full border-2 border-muted-foreground/30" />
+              )}
+              <span className={done || active ? 'text-foreground' : 'text-muted-foreground'}>
+                {step.text}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+
+      <button
+        type="button"
+        onClick={onCancel}
+        className="px-4 py-2 text-sm text-muted-foreground hover:text-foreground border border-border rounded-lg hover:bg-muted/50 transition-colors"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
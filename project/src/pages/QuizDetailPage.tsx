@@ -0,0 +1,334 @@
+import { useMemo, useState } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { useQuizDetails, useQuizResults, useUserQuizzes } from '@/hooks/useQuiz';
+import { useAuthStatus } from '@/hooks/useAuth';
+import { useEditableQuiz } from '@/hooks/useQuizEditor';
+import { downloadQuizFile } from '@/hooks/useQuizFile';
+import { ShareLink } from '@/components/quiz/ShareLink';
+import { CorrelationId } from '@/components/ui/correlation-id';
+import { USER_QUIZZES_MAX_LIMIT } from '@/services/quiz.service';
+import { formatDuration } from '@/utils/quiz';
+import { cn } from '@/lib/utils';
+import { DEFAULT_GAME_MODE, GAME_MODE_LABELS, SCORING_RULES, type GameMode } from '@/lib/scoring';
+import {
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  getCorrelationId,
+  getErrorMessage,
+} from '@/utils/error-handling';
+import type { QuizDetails } from '@/types/quiz';
+
+/**
+ * Quiz detail page
+ * Public quizzes can be viewed signed out; playing always requires signing
+ * in, and the login returns the player straight to the quiz in the game
+ * mode they picked.
+ */
+export default function QuizDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { isAuthenticated } = useAuthStatus();
+  const { data: quiz, error, isPending, isError, refetch } = useQuizDetails(id);
+  // Questions are only on this device if the quiz was generated or played here
+  const editableQuiz = useEditableQuiz(id);
+  const canEdit = !!editableQuiz && isAuthenticated;
+
+  const [gameMode, setGameMode] = useState<GameMode>(DEFAULT_GAME_MODE);
+
+  const playPath = `/quiz/${id}/play`;
+
+  const handlePlay = () => {
+    const search = `?mode=${gameMode}`;
+    if (isAuthenticated) {
+      navigate(`${playPath}${search}`);
+    } else {
+      // Same state AuthGuard passes, so login brings the player back here
+      navigate('/login', { state: { from: { pathname: playPath, search, hash: '' } } });
+    }
+  };
+
+  const handleSignIn = () => {
+    navigate('/login', { state: { from: location } });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-spotify-green/20 via-background to-spotify-green/10">
+      <div className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        <header>
+          <Link
+            to={isAuthenticated ? '/library' : '/login'}
+            className="text-sm text-muted-foreground hover:text-foreground"
+          >
+            {isAuthenticated ? '← Back to library' : 'VibeGuess'}
+          </Link>
+        </header>
+
+        {isPending && (
+          <div className="py-12 text-center">
+            <div className="animate-spin rounded-full h-10 w-10 border-4 border-spotify-green/30 border-t-spotify-green mx-auto" />
+          </div>
+        )}
+
+        {isError && (
+          <QuizErrorState
+            error={error}
+            isAuthenticated={isAuthenticated}
+            onRetry={() => refetch()}
+            onSignIn={handleSignIn}
+          />
+        )}
+
+        {quiz && (
+          <>
+            <QuizSummary
+              quiz={quiz}
+              gameMode={gameMode}
+              onGameModeChange={setGameMode}
+              onPlay={handlePlay}
+              isAuthenticated={isAuthenticated}
+            />
+
+            {canEdit && (
+              <div className="flex justify-center gap-6 text-sm">
+                <Link to={`/quiz/${quiz.id}/edit`} className="text-spotify-green hover:underline">
+                  Edit questions
+                </Link>
+                <button
+                  type="button"
+                  onClick={() => downloadQuizFile(editableQuiz)}
+                  className="text-spotify-green hover:underline"
+                >
+                  Export as file
+                </button>
+              </div>
+            )}
+
+            <section className="bg-card border border-border rounded-lg p-6 space-y-3">
+              <h2 className="font-semibold text-card-foreground">Share</h2>
+              <ShareLink url={`${window.location.origin}/quiz/${quiz.id}`} />
+              {!quiz.isPublic && (
+                <p className="text-xs text-muted-foreground">
+                  This quiz is private - only you can open the link.
+                </p>
+              )}
+            </section>
+
+            {isAuthenticated && <PastAttempts quizId={quiz.id} />}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Title, description and metadata with the game mode and play action
+ */
+function QuizSummary({
+  quiz,
+  gameMode,
+  onGameModeChange,
+  isAuthenticated,
+  onPlay,
+}: {
+  quiz: QuizDetails;
+  gameMode: GameMode;
+  onGameModeChange: (gameMode: GameMode) => void;
+  isAuthenticated: boolean;
+  onPlay: () => void;
+}) {
+  return (
+    <section className="bg-card border border-border rounded-xl p-6 shadow-xl space-y-4">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold text-card-foreground">{quiz.title}</h1>
+        {quiz.description && <p className="text-muted-foreground">{quiz.description}</p>}
+      </div>
+
+      <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+        <div>
+          <dt className="text-muted-foreground">Questions</dt>
+          <dd className="font-medium text-foreground">{quiz.questionCount}</dd>
+        </div>
+        <div>
+          <dt className="text-muted-foreground">Difficulty</dt>
+          <dd className="font-medium text-foreground">{quiz.difficulty}</dd>
+        </div>
+        <div>
+          <dt className="text-muted-foreground">Duration</dt>
+          <dd className="font-medium text-foreground">
+            About {formatDuration(quiz.estimatedDuration)}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-muted-foreground">Created by</dt>
+          <dd className="font-medium text-foreground truncate">{quiz.createdBy}</dd>
+        </div>
+      </dl>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+          {quiz.isPublic ? 'Public' : 'Private'}
+        </span>
+        {quiz.tags.map((tag) => (
+          <span key={tag} className="text-xs text-muted-foreground">
+            #{tag}
+          </span>
+        ))}
+      </div>
+
+      <fieldset className="space-y-2">
+        <legend className="block text-sm font-medium text-foreground mb-2">Game mode</legend>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {(Object.keys(SCORING_RULES) as GameMode[]).map((mode) => (
+            <label
+              key={mode}
+              className={cn(
+                'cursor-pointer rounded-lg border px-3 py-2 text-sm transition-colors',
+                gameMode === mode
+                  ? 'border-spotify-green bg-spotify-green/10 text-foreground'
+                  : 'border-border text-muted-foreground hover:text-foreground'
+              )}
+            >
+              <input
+                type="radio"
+                name="gameMode"
+                value={mode}
+                checked={gameMode === mode}
+                onChange={() => onGameModeChange(mode)}
+                className="sr-only"
+              />
+              <span className="block font-medium">{GAME_MODE_LABELS[mode].label}</span>
+              <span className="block text-xs text-muted-foreground">
+                {GAME_MODE_LABELS[mode].description}
+              </span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <button
+        type="button"
+        onClick={onPlay}
+        className="w-full px-4 py-3 rounded-lg font-medium bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors"
+      >
+        {isAuthenticated ? 'Play' : 'Sign in with Spotify to play'}
+      </button>
+    </section>
+  );
+}
+
+/**
+ * The user's completed sessions of this quiz
+ */
+function PastAttempts({ quizId }: { quizId: string }) {
+  // The history has no quiz filter - look through the most recent page
+  const { data, isPending } = useUserQuizzes({
+    page: 1,
+    limit: USER_QUIZZES_MAX_LIMIT,
+    status: 'completed',
+  });
+  const localResults = useQuizResults(quizId);
+  const attempts = useMemo(
+    () => (data?.quizzes ?? []).filter((item) => item.id === quizId && item.completedAt),
+    [data, quizId]
+  );
+  const latestResult = localResults[0];
+
+  return (
+    <section className="bg-card border border-border rounded-lg p-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-card-foreground">Your attempts</h2>
+        {latestResult && (
+          <Link
+            to={`/sessions/${latestResult.sessionId}/results`}
+            className="text-sm text-spotify-green hover:underline"
+          >
+            View latest results
+          </Link>
+        )}
+      </div>
+
+      {isPending ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : attempts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">You haven't played this quiz yet.</p>
+      ) : (
+        <ul className="divide-y divide-border">
+          {attempts.map((attempt) => (
+            <li key={attempt.completedAt} className="flex justify-between py-2 text-sm">
+              <span className="text-muted-foreground">
+                {new Date(attempt.completedAt!).toLocaleString()}
+              </span>
+              <span className="font-medium text-foreground">
+                {attempt.score ?? '-'}/{attempt.totalQuestions}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Quiz could not be loaded - private quizzes need signing in first
+ */
+function QuizErrorState({
+  error,
+  isAuthenticated,
+  onRetry,
+  onSignIn,
+}: {
+  error: Error | null;
+  isAuthenticated: boolean;
+  onRetry: () => void;
+  onSignIn: () => void;
+}) {
+  const correlationId = getCorrelationId(error);
+  const needsSignIn =
+    !isAuthenticated && (error instanceof UnauthorizedError || error instanceof ForbiddenError);
+
+  let title = "Couldn't load the quiz";
+  let message = getErrorMessage(error, 'Failed to load quiz');
+  if (error instanceof NotFoundError) {
+    title = 'Quiz not found';
+    message = 'This quiz does not exist or has been deleted.';
+  } else if (needsSignIn) {
+    title = 'This quiz is private';
+    message = 'Sign in to see whether you have access to it.';
+  } else if (error instanceof ForbiddenError) {
+    title = 'This quiz is private';
+    message = "You don't have access to this quiz.";
+  }
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6 shadow-xl text-center space-y-4">
+      <h1 className="text-xl font-semibold text-card-foreground">{title}</h1>
+      <p className="text-muted-foreground">{message}</p>
+      {correlationId && <CorrelationId id={correlationId} />}
+      <div className="flex justify-center gap-3">
+        {needsSignIn ? (
+          <button
+            type="button"
+            onClick={onSignIn}
+            className="px-4 py-2 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors"
+          >
+            Sign in with Spotify
+          </button>
+        ) : (
+          !(error instanceof NotFoundError) && (
+            <button
+              type="button"
+              onClick={onRetry}
+              className="px-4 py-2 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors"
+            >
+              Try again
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useEditableQuiz, useQuizEditor } from '@/hooks/useQuizEditor';
+import { useUnsavedChangesGuard } from '@/hooks/useUnsavedChangesGuard';
+import { QuestionEditor } from '@/components/quiz/QuestionEditor';
+import { SnippetFields } from '@/components/quiz/SnippetFields';
+import type { Quiz } from '@/types/quiz';
+
+/**
+ * Quiz editor page
+ * Review and fix the questions of a generated quiz. The API cannot update a
+ * quiz, so saved edits are kept on this device.
+ */
+export default function QuizEditorPage() {
+  const { id } = useParams<{ id: string }>();
+  const quiz = useEditableQuiz(id);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-spotify-green/20 via-background to-spotify-green/10">
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        {quiz ? (
+          // Remount when switching quizzes so history starts over
+          <QuizEditor key={quiz.id} quiz={quiz} />
+        ) : (
+          <>
+            <header>
+              <Link to={`/quiz/${id}`} className="text-sm text-muted-foreground hover:text-foreground">
+                ← Back to quiz
+              </Link>
+            </header>
+            <div className="bg-card border border-border rounded-xl p-6 shadow-xl text-center space-y-4">
+              <h1 className="text-xl font-semibold text-card-foreground">
+                Questions not available
+              </h1>
+              <p className="text-muted-foreground">
+                Questions can only be edited on the device the quiz was generated or played on.
+              </p>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function QuizEditor({ quiz: initialQuiz }: { quiz: Quiz }) {
+  const { quiz, dispatch, validation, isDirty, canUndo, canRedo, save, discard } =
+    useQuizEditor(initialQuiz);
+
+  useUnsavedChangesGuard(isDirty);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        // The editor's history covers typing too, so it replaces the browser's undo
+        event.preventDefault();
+        dispatch({ type: key === 'y' || event.shiftKey ? 'REDO' : 'UNDO' });
+      } else if (key === 's') {
+        event.preventDefault();
+        save();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [dispatch, save]);
+
+  const handleDiscard = () => {
+    if (window.confirm('Discard your unsaved changes?')) {
+      discard();
+    }
+  };
+
+  const errorCount = Object.keys(validation.questions).length;
+
+  return (
+    <>
+      <header className="space-y-2">
+        <Link to={`/quiz/${quiz.id}`} className="text-sm text-muted-foreground hover:text-foreground">
+          ← Back to quiz
+        </Link>
+        <h1 className="text-3xl font-bold text-foreground">Edit questions</h1>
+        <p className="text-muted-foreground">{quiz.title}</p>
+      </header>
+
+      <div className="sticky top-0 z-10 bg-card border border-border rounded-lg p-3 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => dispatch({ type: 'UNDO' })}
+          disabled={!canUndo}
+          title="Undo (Ctrl+Z)"
+          className="px-3 py-1.5 text-sm border border-border rounded-lg hover:bg-muted/50 disabled:opacity-50 disabled:pointer-events-none"
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={() => dispatch({ type: 'REDO' })}
+          disabled={!canRedo}
+          title="Redo (Ctrl+Shift+Z)"
+          className="px-3 py-1.5 text-sm border border-border rounded-lg hover:bg-muted/50 disabled:opacity-50 disabled:pointer-events-none"
+        >
+          Redo
+        </button>
+
+        <p className="flex-1 text-sm text-muted-foreground" aria-live="polite">
+          {validation.quiz ??
+            validation.snippet ??
+            (errorCount > 0
+              ? `${errorCount} question${errorCount === 1 ? ' needs' : 's need'} fixing`
+              : isDirty
+                ? 'Unsaved changes'
+                : 'All changes saved')}
+        </p>
+
+        <button
+          type="button"
+          onClick={handleDiscard}
+          disabled={!isDirty}
+          className="px-3 py-1.5 text-sm text-muted-foreground hover:text-foreground disabled:opacity-50 disabled:pointer-events-none"
+        >
+          Discard
+        </button>
+        <button
+          type="button"
+          onClick={save}
+          disabled={!isDirty || !validation.isValid}
+          className="px-4 py-1.5 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+        >
+          Save
+        </button>
+      </div>
+
+      <section className="bg-card border border-border rounded-lg p-4 space-y-2">
+        <SnippetFields
+          id="quiz-snippet"
+          snippet={quiz.snippet}
+          error={validation.snippet}
+          onChange={(snippet) => dispatch({ type: 'SET_QUIZ_SNIPPET', snippet })}
+        />
+        <p className="text-xs text-muted-foreground">
+          Applies to every question; questions can set their own.
+        </p>
+      </section>
+
+      <ol className="space-y-4" aria-label="Questions">
+        {quiz.questions.map((question, index) => (
+          <QuestionEditor
+            key={question.id}
+            question={question}
+            index={index}
+            questionCount={quiz.questions.length}
+            errors={validation.questions[question.id]}
+            quizSnippet={quiz.snippet}
+            dispatch={dispatch}
+          />
+        ))}
+      </ol>
+
+      <button
+        type="button"
+        onClick={() => dispatch({ type: 'ADD_QUESTION', id: crypto.randomUUID() })}
+        className="w-full px-4 py-3 rounded-lg border border-dashed border-border text-sm text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+      >
+        + Add question
+      </button>
+
+      <p className="text-xs text-muted-foreground text-center">
+        Edits are saved on this device only.
+      </p>
+    </>
+  );
+}
@@ -0,0 +1,351 @@
+import { useMemo } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useUserQuizzes } from '@/hooks/useQuiz';
+import { useQuizImport } from '@/hooks/useQuizFile';
+import { CorrelationId } from '@/components/ui/correlation-id';
+import { ResumeSessionBanner } from '@/components/quiz/ResumeSessionPrompt';
+import { QuizFileDropzone } from '@/components/quiz/QuizFileDropzone';
+import { QuizImportPreview } from '@/components/quiz/QuizImportPreview';
+import {
+  LIBRARY_PAGE_SIZE,
+  LIBRARY_SORTS,
+  LIBRARY_STATUSES,
+  applyLibraryFilters,
+  collectTags,
+  parseLibraryFilters,
+  toLibrarySearchParams,
+  type LibraryFilters,
+  type LibrarySort,
+} from '@/utils/library';
+import { DIFFICULTIES } from '@/utils/settings';
+import { getCorrelationId, getErrorMessage } from '@/utils/error-handling';
+import type { Pagination, QuizHistoryItem, QuizHistoryStatus } from '@/types/quiz';
+import type { Difficulty } from '@/types/user';
+import { cn } from '@/lib/utils';
+
+const STATUS_LABELS: Record<QuizHistoryStatus, string> = {
+  all: 'All',
+  active: 'In progress',
+  completed: 'Completed',
+};
+
+const SORT_LABELS: Record<LibrarySort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  'score-desc': 'Highest score',
+  'score-asc': 'Lowest score',
+};
+
+/**
+ * Quiz library page
+ * The user's quizzes from GET /quiz/my-quizzes, a page at a time, with
+ * filters kept in the URL. Quiz files can be imported by dropping them here.
+ */
+export default function QuizLibraryPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseLibraryFilters(searchParams), [searchParams]);
+  const { data, error, isPending, isError, isPlaceholderData, refetch } = useUserQuizzes({
+    page: filters.page,
+    limit: LIBRARY_PAGE_SIZE,
+    status: filters.status,
+  });
+
+  const correlationId = getCorrelationId(error);
+  const items = useMemo(() => data?.quizzes ?? [], [data]);
+  const visibleItems = useMemo(() => applyLibraryFilters(items, filters), [items, filters]);
+  const tags = useMemo(() => collectTags(items), [items]);
+
+  const updateFilters = (changes: Partial<LibraryFilters>, options?: { replace?: boolean }) => {
+    // Any filter change starts over at the first page
+    setSearchParams(toLibrarySearchParams({ ...filters, page: 1, ...changes }), options);
+  };
+
+  const toggleTag = (tag: string) => {
+    updateFilters({
+      tags: filters.tags.includes(tag)
+        ? filters.tags.filter((selected) => selected !== tag)
+        : [...filters.tags, tag],
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-spotify-green/20 via-background to-spotify-green/10">
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        <header className="flex items-center justify-between">
+          <div>
+            <Link to="/dashboard" className="text-sm text-muted-foreground hover:text-foreground">
+              ← Back to dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-foreground mt-2">Quiz Library</h1>
+          </div>
+          <Link
+            to="/quiz/new"
+            className="px-4 py-2 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors"
+          >
+            Create quiz
+          </Link>
+        </header>
+
+        <ResumeSessionBanner />
+
+        <QuizImport />
+
+        <div className="bg-card border border-border rounded-lg p-4 space-y-4">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <input
+              type="search"
+              value={filters.search}
+              onChange={(event) => updateFilters({ search: event.target.value }, { replace: true })}
+              placeholder="Search by title"
+              aria-label="Search by title"
+              className="flex-1 rounded-lg border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-spotify-green"
+            />
+            <select
+              value={filters.difficulty ?? ''}
+              onChange={(event) =>
+                updateFilters({ difficulty: (event.target.value as Difficulty) || null })
+              }
+              aria-label="Difficulty"
+              className="rounded-lg border border-border bg-background px-3 py-2 text-sm"
+            >
+              <option value="">Any difficulty</option>
+              {DIFFICULTIES.map((difficulty) => (
+                <option key={difficulty} value={difficulty}>
+                  {difficulty}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.sort}
+              onChange={(event) => updateFilters({ sort: event.target.value as LibrarySort })}
+              aria-label="Sort by"
+              className="rounded-lg border border-border bg-background px-3 py-2 text-sm"
+            >
+              {LIBRARY_SORTS.map((sort) => (
+                <option key={sort} value={sort}>
+                  {SORT_LABELS[sort]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Status">
+            {LIBRARY_STATUSES.map((status) => (
+              <FilterChip
+                key={status}
+                label={STATUS_LABELS[status]}
+                selected={filters.status === status}
+                onClick={() => updateFilters({ status })}
+              />
+            ))}
+          </div>
+
+          {tags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Tags">
+              {tags.map((tag) => (
+                <FilterChip
+                  key={tag}
+                  label={`#${tag}`}
+                  selected={filters.tags.includes(tag)}
+                  onClick={() => toggleTag(tag)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {isPending && (
+          <div className="py-12 text-center">
+            <div className="animate-spin rounded-full h-10 w-10 border-4 border-spotify-green/30 border-t-spotify-green mx-auto" />
+          </div>
+        )}
+
+        {isError && (
+          <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4 space-y-3">
+            <p className="text-sm text-destructive">
+              {getErrorMessage(error, 'Failed to load your quizzes')}
+            </p>
+            {correlationId && <CorrelationId id={correlationId} />}
+            <button
+              type="button"
+              onClick={() => refetch()}
+              className="px-4 py-2 text-sm text-muted-foreground hover:text-foreground border border-border rounded-lg hover:bg-muted/50 transition-colors"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
+        {data && (
+          <div className={cn('space-y-6 transition-opacity', isPlaceholderData && 'opacity-60')}>
+            {visibleItems.length > 0 ? (
+              <ul className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {visibleItems.map((item) => (
+                  <LibraryItem
+                    key={`${item.id}:${item.sessionId ?? item.completedAt ?? ''}`}
+                    item={item}
+                  />
+                ))}
+              </ul>
+            ) : (
+              <div className="bg-card border border-border rounded-lg p-6 text-center">
+                <div className="text-4xl mb-2">📚</div>
+                <h3 className="font-semibold mb-2">No quizzes found</h3>
+                <p className="text-muted-foreground">
+                  {items.length > 0
+                    ? 'No quizzes on this page match your filters.'
+                    : 'Quizzes you create and play will appear here.'}
+                </p>
+              </div>
+            )}
+
+            <PageControls
+              pagination={data.pagination}
+              onPageChange={(page) => updateFilters({ page })}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Import a quiz file, previewing the changes before saving
+ */
+function QuizImport() {
+  const navigate = useNavigate();
+  const { mutate: importFile, preview, confirm, reset, error, isError, isPending } =
+    useQuizImport();
+
+  const handleSave = () => {
+    const quiz = confirm();
+    if (quiz) {
+      navigate(`/quiz/${quiz.id}/edit`);
+    }
+  };
+
+  if (preview) {
+    return <QuizImportPreview preview={preview} onSave={handleSave} onCancel={reset} />;
+  }
+
+  return (
+    <div className="space-y-2">
+      <QuizFileDropzone onFile={(file) => importFile(file)} disabled={isPending} />
+      {isPending && <p className="text-sm text-muted-foreground">Reading quiz file...</p>}
+      {isError && (
+        <p role="alert" className="text-sm text-destructive">
+          {getErrorMessage(error, 'Failed to import the quiz')}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Toggleable filter button
+ */
+function FilterChip({
+  label,
+  selected,
+  onClick,
+}: {
+  label: string;
+  selected: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={selected}
+      className={cn(
+        'rounded-full border px-3 py-1 text-sm transition-colors',
+        selected
+          ? 'border-spotify-green bg-spotify-green/10 text-foreground'
+          : 'border-border text-muted-foreground hover:bg-muted/50'
+      )}
+    >
+      {label}
+    </button>
+  );
+}
+
+/**
+ * A quiz (or session) in the library
+ */
+function LibraryItem({ item }: { item: QuizHistoryItem }) {
+  const date = new Date(item.completedAt ?? item.createdAt).toLocaleDateString();
+
+  return (
+    <li className="bg-card border border-border rounded-lg p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <h3 className="font-semibold text-card-foreground">
+          <Link to={`/quiz/${item.id}`} className="hover:underline">
+            {item.title}
+          </Link>
+        </h3>
+        <span className="flex-shrink-0 rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+          {item.difficulty}
+        </span>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {item.totalQuestions} questions ·{' '}
+        {item.completedAt
+          ? `Completed ${date}${item.score !== undefined ? ` · ${item.score}/${item.totalQuestions}` : ''}`
+          : item.isActive
+            ? 'In progress'
+            : `Created ${date}`}
+      </p>
+
+      {item.tags && item.tags.length > 0 && (
+        <p className="text-xs text-muted-foreground">{item.tags.map((tag) => `#${tag}`).join(' ')}</p>
+      )}
+
+      <Link
+        to={`/quiz/${item.id}/play`}
+        className="inline-block px-3 py-1.5 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors"
+      >
+        {item.isActive ? 'Continue' : 'Play'}
+      </Link>
+    </li>
+  );
+}
+
+/**
+ * Previous/next controls from the response's pagination block
+ */
+function PageControls({
+  pagination,
+  onPageChange,
+}: {
+  pagination: Pagination;
+  onPageChange: (page: number) => void;
+}) {
+  if (pagination.totalPages <= 1) return null;
+
+  return (
+    <nav className="flex items-center justify-between" aria-label="Pagination">
+      <button
+        type="button"
+        onClick={() => onPageChange(pagination.page - 1)}
+        disabled={!pagination.hasPrevious}
+        className="px-4 py-2 text-sm text-muted-foreground hover:text-foreground border border-border rounded-lg hover:bg-muted/50 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+      >
+        Previous
+      </button>
+      <p className="text-sm text-muted-foreground">
+        Page {pagination.page} of {pagination.totalPages} · {pagination.total} quizzes
+      </p>
+      <button
+        type="button"
+        onClick={() => onPageChange(pagination.page + 1)}
+        disabled={!pagination.hasNext}
+        className="px-4 py-2 text-sm text-muted-foreground hover:text-foreground border border-border rounded-lg hover:bg-muted/50 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+      >
+        Next
+      </button>
+    </nav>
+  );
+}
@@ -0,0 +1,331 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { useQuizSession, useResumableSession } from '@/hooks/useQuiz';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useTrackPlayback } from '@/hooks/useTrackPlayback';
+import { usePlaybackStore } from '@/stores/playback.store';
+import { getCurrentQuestion } from '@/lib/quiz-session';
+import { formatAnswer } from '@/lib/question-types';
+import {
+  DEFAULT_GAME_MODE,
+  SCORING_RULES,
+  isGameMode,
+  scoreQuiz,
+  type QuestionPoints,
+} from '@/lib/scoring';
+import { AnswerSyncStatus } from '@/components/quiz/AnswerSyncStatus';
+import { QuestionDisplay } from '@/components/quiz/QuestionDisplay';
+import { ResumeSessionPrompt } from '@/components/quiz/ResumeSessionPrompt';
+import { DevicePickerDialog } from '@/components/playback/DevicePickerDialog';
+import { TrackPlaybackControls } from '@/components/playback/TrackPlaybackControls';
+import { CorrelationId } from '@/components/ui/correlation-id';
+import { ConflictError, getCorrelationId, getErrorMessage } from '@/utils/error-handling';
+import type { ActiveSessionRecord, QuizSessionState } from '@/types/session';
+
+/**
+ * Quiz play page
+ * Starts a session for the quiz in the URL on the device from ?deviceId=,
+ * asking for one first, and walks the player through its questions. Tracks
+ * play on that device, or as preview clips without one or without Premium.
+ * An unfinished session saved locally is offered for resuming first.
+ * Answers given offline are queued and synced once the connection returns.
+ * Finishing the quiz leads to its results page.
+ */
+export default function QuizPlayPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const deviceId = searchParams.get('deviceId') || undefined;
+  const modeParam = searchParams.get('mode');
+  const gameMode = isGameMode(modeParam) ? modeParam : DEFAULT_GAME_MODE;
+  // Chose to play without Spotify playback
+  const [skipDevice, setSkipDevice] = useState(false);
+  const needsDevice = !deviceId && !skipDevice;
+  const { session: savedSession, discard } = useResumableSession();
+  const { state, start, resume, submitAnswer, nextQuestion } = useQuizSession(id, deviceId, gameMode);
+  const isOnline = useOnlineStatus();
+  // Saved session found on arrival, offered before starting a new one
+  const [offer, setOffer] = useState<ActiveSessionRecord | null>(() => savedSession);
+  const resumeRequested = (location.state as { resume?: boolean } | null)?.resume === true;
+
+  useEffect(() => {
+    if (!id || state.status !== 'idle') return;
+    if (!offer) {
+      if (!needsDevice) start();
+    } else if (resumeRequested && offer.quizId === id) {
+      // Arrived from a Resume button - no need to ask again
+      setOffer(null);
+      resume(offer);
+    }
+  }, [id, offer, needsDevice, resumeRequested, state.status, start, resume]);
+
+  // Results live on their own page
+  useEffect(() => {
+    if (state.status === 'completed' && state.sessionId) {
+      navigate(`/sessions/${state.sessionId}/results`, { replace: true });
+    }
+  }, [state.status, state.sessionId, navigate]);
+
+  const handleResume = (record: ActiveSessionRecord) => {
+    setOffer(null);
+    resume(record);
+    if (record.quizId !== id) {
+      navigate(`/quiz/${record.quizId}/play`, { replace: true });
+    }
+  };
+
+  const handleDiscard = () => {
+    discard();
+    setOffer(null);
+  };
+
+  // After a failed resume the saved session is kept if it is still valid
+  const handleRetry = () => {
+    if (savedSession?.quizId === id) {
+      resume(savedSession);
+    } else {
+      start();
+    }
+  };
+
+  const question = getCurrentQuestion(state);
+  // The server only counts correct answers; points come from the game mode
+  const points = useMemo(
+    () =>
+      state.quiz &&
+      scoreQuiz(
+        state.quiz.questions,
+        state.answers,
+        state.quiz.difficulty,
+        SCORING_RULES[state.gameMode]
+      ),
+    [state.quiz, state.answers, state.gameMode]
+  );
+  const playback = useTrackPlayback(question, deviceId, state.quiz?.snippet);
+  const deviceName = usePlaybackStore(
+    (store) => store.devices.find((device) => device.id === deviceId)?.name
+  );
+  const questionCount = state.quiz?.questions.length ?? 0;
+  const lastAnswer = state.answers[state.answers.length - 1];
+  const selectedAnswer =
+    state.pendingAnswer?.selectedAnswer ?? (state.feedback ? lastAnswer?.selectedAnswer : null) ?? null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-spotify-green/20 via-background to-spotify-green/10">
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <header className="flex items-center justify-between mb-8">
+          <Link to="/dashboard" className="text-sm text-muted-foreground hover:text-foreground">
+            ← Leave quiz
+          </Link>
+          {state.quiz && points && state.status !== 'completed' && (
+            <p className="text-sm font-medium text-foreground">
+              <span className="text-spotify-green">{points.total.toLocaleString()}</span> points
+              <span className="text-muted-foreground"> · {state.score} correct</span>
+            </p>
+          )}
+        </header>
+
+        {state.sessionId && (
+          <AnswerSyncStatus answers={state.answers} isOnline={isOnline} className="mb-4" />
+        )}
+
+        <div className="bg-card border border-border rounded-xl p-6 shadow-xl">
+          {state.status === 'idle' && offer && (
+            <ResumeSessionPrompt
+              session={offer}
+              className="border-0 p-0"
+              onResume={() => handleResume(offer)}
+              onDiscard={offer.quizId === id ? () => navigate('/dashboard') : handleDiscard}
+              discardText={offer.quizId === id ? 'Not now' : 'Discard and play this quiz'}
+            />
+          )}
+
+          {state.status === 'idle' && !offer && needsDevice && (
+            <DevicePickerDialog
+              onSelect={(device) =>
+                setSearchParams(
+                  (params) => {
+                    params.set('deviceId', device.id);
+                    return params;
+                  },
+                  { replace: true, state: location.state }
+                )
+              }
+              onSkip={() => setSkipDevice(true)}
+              onClose={() => navigate(`/quiz/${id}`)}
+            />
+          )}
+
+          {((state.status === 'idle' && !offer) || state.status === 'starting') && <StartingState />}
+
+          {state.status === 'error' && <StartErrorState error={state.error} onRetry={handleRetry} />}
+
+          {question && ['answering', 'submitting', 'feedback'].includes(state.status) && (
+            <div className="space-y-6">
+              <div>
+                <p className="text-sm text-muted-foreground mb-2">
+                  {state.quiz?.title} · Question {state.currentQuestionIndex + 1} of {questionCount}
+                </p>
+                <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                  <div
+                    className="h-full rounded-full bg-spotify-green transition-all"
+                    style={{ width: `${(state.currentQuestionIndex / Math.max(1, questionCount)) * 100}%` }}
+                  />
+                </div>
+              </div>
+
+              {question.spotifyTrack && (
+                <TrackPlaybackControls playback={playback} deviceName={deviceName} />
+              )}
+
+              <QuestionDisplay
+                question={question}
+                selectedAnswer={selectedAnswer}
+                feedback={state.feedback}
+                disabled={state.status !== 'answering'}
+                onSubmit={submitAnswer}
+              />
+
+              {state.status === 'answering' && state.error && (
+                <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4">
+                  <p className="text-sm text-destructive">
+                    {getErrorMessage(state.error, 'Failed to submit answer')} Answer again to retry.
+                  </p>
+                </div>
+              )}
+
+              {state.feedback && (
+                <FeedbackPanel
+                  state={state}
+                  points={points?.questions[state.currentQuestionIndex]}
+                  onNext={nextQuestion}
+                />
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Shown while the session is being started
+ */
+function StartingState() {
+  return (
+    <div className="py-12 text-center space-y-4">
+      <div className="animate-spin rounded-full h-10 w-10 border-4 border-spotify-green/30 border-t-spotify-green mx-auto" />
+      <p className="text-muted-foreground">Starting your quiz...</p>
+    </div>
+  );
+}
+
+/**
+ * Shown when the session could not be started
+ */
+function StartErrorState({ error, onRetry }: { error: Error | null; onRetry: () => void }) {
+  const correlationId = getCorrelationId(error);
+  const message =
+    error instanceof ConflictError
+      ? 'You already have an active session for this quiz.'
+      : getErrorMessage(error, 'Failed to start quiz');
+
+  return (
+    <div className="py-8 text-center space-y-6">
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold text-destructive">Couldn't start the quiz</h2>
+        <p className="text-muted-foreground">{message}</p>
+      </div>
+
+      {correlationId && <CorrelationId id={correlationId} />}
+
+      <div className="flex justify-center gap-3">
+        <button
+          type="button"
+          onClick={onRetry}
+          className="px-4 py-2 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors"
+        >
+          Try again
+        </button>
+        <Link
+          to="/dashboard"
+          className="px-4 py-2 text-sm text-muted-foreground hover:text-foreground border border-border rounded-lg hover:bg-muted/50 transition-colors"
+        >
+          Back to dashboard
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Outcome of the answer just given
+ */
+function FeedbackPanel({
+  state,
+  points,
+  onNext,
+}: {
+  state: QuizSessionState;
+  /** Points for the answer just given */
+  points?: QuestionPoints;
+  onNext: () => void;
+}) {
+  const feedback = state.feedback!;
+  const question = getCurrentQuestion(state);
+  const correctAnswer =
+    question && feedback.correctAnswer !== null
+      ? formatAnswer(question, feedback.correctAnswer)
+      : feedback.correctAnswer;
+
+  let title: string;
+  let tone: string;
+  if (feedback.alreadyAnswered) {
+    title = 'This question was already answered';
+    tone = 'bg-muted/50 border-border text-foreground';
+  } else if (feedback.isCorrect) {
+    title = 'Correct!';
+    tone = 'bg-green-500/10 border-green-500/20 text-green-500';
+  } else if (feedback.credit) {
+    title = `Close - ${Math.round(feedback.credit * 100)}% credit. The answer was ${correctAnswer}`;
+    tone = 'bg-yellow-500/10 border-yellow-500/20 text-yellow-600';
+  } else {
+    title = `Not quite - the answer was ${correctAnswer}`;
+    tone = 'bg-destructive/10 border-destructive/20 text-destructive';
+  }
+
+  return (
+    <div className="space-y-4" aria-live="polite">
+      <div className={`border rounded-lg p-4 ${tone}`}>
+        <p className="text-sm font-medium">{title}</p>
+        {feedback.explanation && (
+          <p className="text-sm text-muted-foreground mt-1">{feedback.explanation}</p>
+        )}
+        {points && !feedback.alreadyAnswered && (
+          <p className="text-sm text-foreground mt-1">
+            +{points.total.toLocaleString()} points
+            {points.streak > 1 && ` · ${points.streak} in a row`}
+          </p>
+        )}
+        {feedback.queued && (
+          <p className="text-xs text-muted-foreground mt-2">
+            Saved on this device - it will be sent when you're back online.
+          </p>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={onNext}
+          autoFocus
+          className="px-4 py-2 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors"
+        >
+          {state.isComplete ? 'See results' : 'Next question'}
+        </button>
+      </div>
+    </div>
+  );
+}
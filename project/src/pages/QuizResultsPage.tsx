@@ -0,0 +1,180 @@
+import { useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuizResult } from '@/hooks/useQuiz';
+import { QuestionResultRow } from '@/components/quiz/QuestionResultRow';
+import { QuizReview } from '@/components/quiz/QuizReview';
+import { formatElapsed } from '@/utils/quiz';
+import {
+  DEFAULT_GAME_MODE,
+  GAME_MODE_LABELS,
+  SCORING_RULES,
+  scoreQuiz,
+  type ScoreBreakdown,
+} from '@/lib/scoring';
+import type { QuizResult } from '@/types/session';
+
+/**
+ * Quiz results page
+ * Score and per-question breakdown of a session completed on this device,
+ * with points scored by the session's game mode and a review mode that
+ * steps through the questions read-only.
+ */
+export default function QuizResultsPage() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const result = useQuizResult(sessionId);
+  // Question shown in review mode; null shows the summary
+  const [reviewIndex, setReviewIndex] = useState<number | null>(null);
+  const points = useMemo(
+    () =>
+      result &&
+      scoreQuiz(
+        result.quiz.questions,
+        result.answers,
+        result.quiz.difficulty,
+        SCORING_RULES[result.gameMode ?? DEFAULT_GAME_MODE]
+      ),
+    [result]
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-spotify-green/20 via-background to-spotify-green/10">
+      <div className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        <header>
+          <Link to="/dashboard" className="text-sm text-muted-foreground hover:text-foreground">
+            ← Back to dashboard
+          </Link>
+        </header>
+
+        {!result && <MissingResult />}
+
+        {result && reviewIndex !== null && (
+          <QuizReview
+            result={result}
+            index={reviewIndex}
+            onIndexChange={setReviewIndex}
+            onClose={() => setReviewIndex(null)}
+          />
+        )}
+
+        {result && points && reviewIndex === null && (
+          <>
+            <ResultSummary result={result} points={points} onReview={() => setReviewIndex(0)} />
+
+            <ol className="space-y-3" aria-label="Questions">
+              {result.quiz.questions.map((question, index) => (
+                <QuestionResultRow
+                  key={question.id}
+                  question={question}
+                  number={index + 1}
+                  answer={result.answers.find((answer) => answer.questionId === question.id)}
+                  points={points.questions[index]}
+                  onReview={() => setReviewIndex(index)}
+                />
+              ))}
+            </ol>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Score, percentage, total time and points
+ */
+function ResultSummary({
+  result,
+  points,
+  onReview,
+}: {
+  result: QuizResult;
+  points: ScoreBreakdown;
+  onReview: () => void;
+}) {
+  const pendingCount = result.answers.filter((answer) => answer.syncStatus === 'pending').length;
+  const gameMode = result.gameMode ?? DEFAULT_GAME_MODE;
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6 shadow-xl text-center space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-bold text-card-foreground">Quiz complete!</h1>
+        <p className="text-muted-foreground">{result.quiz.title}</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <div className="text-3xl font-bold text-spotify-green">{Math.round(result.percentage)}%</div>
+          <p className="text-sm text-muted-foreground">Percentage</p>
+        </div>
+        <div>
+          <div className="text-3xl font-bold text-foreground">
+            {result.score}/{result.totalQuestions}
+          </div>
+          <p className="text-sm text-muted-foreground">Score</p>
+        </div>
+        <div>
+          <div className="text-3xl font-bold text-foreground">{formatElapsed(result.timeSpent)}</div>
+          <p className="text-sm text-muted-foreground">Total time</p>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-2xl font-bold text-foreground">
+          {points.total.toLocaleString()} points
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {GAME_MODE_LABELS[gameMode].label} mode · of {points.maxTotal.toLocaleString()} possible
+          {points.bestStreak > 1 && ` · best streak ${points.bestStreak} in a row`}
+        </p>
+      </div>
+
+      {pendingCount > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Score and points are provisional until your offline answers are synced.
+        </p>
+      )}
+
+      <div className="flex flex-wrap justify-center gap-3">
+        <button
+          type="button"
+          onClick={onReview}
+          className="px-4 py-2 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors"
+        >
+          Review questions
+        </button>
+        <Link
+          to={`/quiz/${result.quizId}/play?mode=${gameMode}`}
+          className="px-4 py-2 text-sm text-muted-foreground hover:text-foreground border border-border rounded-lg hover:bg-muted/50 transition-colors"
+        >
+          Play again
+        </Link>
+        <Link
+          to="/quiz/new"
+          className="px-4 py-2 text-sm text-muted-foreground hover:text-foreground border border-border rounded-lg hover:bg-muted/50 transition-colors"
+        >
+          Create another quiz
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Results are only kept on the device the quiz was played on
+ */
+function MissingResult() {
+  return (
+    <div className="bg-card border border-border rounded-xl p-6 shadow-xl text-center space-y-4">
+      <h1 className="text-xl font-semibold text-card-foreground">Results not available</h1>
+      <p className="text-muted-foreground">
+        Results are only kept on the device the quiz was played on, for your most recent quizzes.
+      </p>
+      <Link
+        to="/dashboard"
+        className="inline-block px-4 py-2 rounded-lg font-medium text-sm bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors"
+      >
+        Back to dashboard
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { s } from '@/lib/schema';
+import { backendUserSchema, userSettingsSchema } from './user';
+
+/**
+ * Auth contract schemas (specs/001-frontend-application/contracts/auth-api.md)
+ */
+
+export const spotifyLoginResponseSchema = s.object({
+  authorizationUrl: s.string({ nonEmpty: true }),
+  codeVerifier: s.string().optional(),
+  state: s.string({ nonEmpty: true }),
+});
+
+export const spotifyCallbackResponseSchema = s.object({
+  accessToken: s.string({ nonEmpty: true }),
+  // Absent when the backend keeps the refresh token in an HttpOnly cookie
+  refreshToken: s.string().optional(),
+  expiresIn: s.number({ min: 0 }),
+  tokenType: s.literal('Bearer'),
+  scope: s.string().optional(),
+  user: backendUserSchema,
+});
+
+export const refreshTokenResponseSchema = s.object({
+  accessToken: s.string({ nonEmpty: true }),
+  refreshToken: s.string().optional(),
+  expiresIn: s.number({ min: 0 }),
+  tokenType: s.literal('Bearer'),
+  scope: s.string().optional(),
+});
+
+export const userProfileResponseSchema = s.object({
+  user: backendUserSchema,
+  settings: userSettingsSchema.optional(),
+});
+
+export const updateSettingsResponseSchema = s.object({
+  settings: userSettingsSchema,
+});
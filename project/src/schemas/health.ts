@@ -0,0 +1,19 @@
+import { s } from '@/lib/schema';
+
+/**
+ * Health check schemas (.api-urls/API-Reference.md, "Health Check Endpoints")
+ */
+
+export const healthResponseSchema = s.object({
+  status: s.string(),
+  timestamp: s.string(),
+  version: s.string(),
+  environment: s.string(),
+});
+
+export const serviceHealthResponseSchema = s.object({
+  service: s.string(),
+  status: s.string(),
+  responseTime: s.number({ min: 0 }),
+  lastChecked: s.string(),
+});
@@ -0,0 +1,80 @@
+import { s } from '@/lib/schema';
+
+/**
+ * Playback contract schemas (specs/001-frontend-application/contracts/playback-api.md)
+ */
+
+export const deviceTypeSchema = s.oneOf([
+  'Computer',
+  'Smartphone',
+  'Speaker',
+  'TV',
+  'AVR',
+  'STB',
+  'AudioDongle',
+  'GameConsole',
+  'CastVideo',
+  'CastAudio',
+  'Automobile',
+  'Unknown',
+]);
+
+export const repeatModeSchema = s.oneOf(['off', 'context', 'track']);
+
+export const spotifyDeviceSchema = s.object({
+  id: s.string({ nonEmpty: true }),
+  name: s.string(),
+  type: deviceTypeSchema,
+  isActive: s.boolean(),
+  isPrivateSession: s.boolean(),
+  isRestricted: s.boolean(),
+  volumePercent: s.number({ min: 0, max: 100 }),
+  supportsVolume: s.boolean(),
+});
+
+export const playbackDevicesResponseSchema = s.object({
+  devices: s.array(spotifyDeviceSchema),
+});
+
+/**
+ * Shared by play, pause, seek and volume; each fills in a subset
+ */
+export const playbackControlResponseSchema = s.object({
+  success: s.boolean(),
+  message: s.string(),
+  playbackState: s
+    .object({
+      isPlaying: s.boolean(),
+      trackId: s.string().optional(),
+      positionMs: s.number({ min: 0 }),
+      device: s
+        .object({
+          id: s.string(),
+          name: s.string(),
+        })
+        .optional(),
+    })
+    .optional(),
+  volumePercent: s.number({ min: 0, max: 100 }).optional(),
+});
+
+export const playbackStatusResponseSchema = s.object({
+  isPlaying: s.boolean(),
+  trackId: s.string().optional(),
+  trackName: s.string().optional(),
+  artistName: s.string().optional(),
+  albumName: s.string().optional(),
+  progressMs: s.number({ min: 0 }),
+  durationMs: s.number({ min: 0 }),
+  device: s
+    .object({
+      id: s.string(),
+      name: s.string(),
+      type: deviceTypeSchema,
+      volumePercent: s.number({ min: 0, max: 100 }),
+    })
+    .optional(),
+  shuffleState: s.boolean(),
+  repeatState: repeatModeSchema,
+  timestamp: s.string(),
+});
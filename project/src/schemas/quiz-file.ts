@@ -0,0 +1,81 @@
+import { s } from '@/lib/schema';
+import { difficultySchema } from './user';
+import { questionTypeSchema, snippetSettingsSchema } from './quiz';
+
+/**
+ * VibeGuess quiz file schemas
+ * (specs/001-frontend-application/contracts/quiz-file-format.md)
+ */
+
+export const QUIZ_FILE_FORMAT = 'vibeguess-quiz';
+
+/**
+ * Fields every version shares, read first to pick the version's schema
+ */
+export const quizFileHeaderSchema = s.object({
+  format: s.literal(QUIZ_FILE_FORMAT),
+  version: s.number({ integer: true, min: 1 }),
+});
+
+/**
+ * Version 1 - questions without IDs or types, tracks by ID only
+ */
+export const quizFileV1Schema = s.object({
+  format: s.literal(QUIZ_FILE_FORMAT),
+  version: s.literal(1),
+  quiz: s.object({
+    id: s.string({ nonEmpty: true }),
+    title: s.string({ nonEmpty: true }),
+    description: s.string().optional(),
+    difficulty: difficultySchema,
+    tags: s.array(s.string()).optional(),
+    questions: s.array(
+      s.object({
+        text: s.string(),
+        options: s.array(s.string()),
+        correctAnswer: s.string(),
+        explanation: s.string().optional(),
+        spotifyTrackId: s.string({ nonEmpty: true }).optional(),
+      })
+    ),
+  }),
+});
+
+export const quizFileTrackSchema = s.object({
+  spotifyId: s.string({ nonEmpty: true }),
+  // Not used on import - only there to make the file readable
+  name: s.string().optional(),
+  artist: s.string().optional(),
+});
+
+export const quizFileQuestionSchema = s.object({
+  id: s.string({ nonEmpty: true }),
+  type: questionTypeSchema,
+  text: s.string(),
+  options: s.array(s.string()),
+  correctAnswer: s.string(),
+  explanation: s.string().optional(),
+  track: quizFileTrackSchema.optional(),
+  snippet: snippetSettingsSchema.optional(),
+});
+
+/**
+ * Version 2 (current)
+ */
+export const quizFileV2Schema = s.object({
+  format: s.literal(QUIZ_FILE_FORMAT),
+  version: s.literal(2),
+  exportedAt: s.string(),
+  quiz: s.object({
+    id: s.string({ nonEmpty: true }),
+    title: s.string({ nonEmpty: true }),
+    description: s.string(),
+    difficulty: difficultySchema,
+    estimatedDuration: s.number({ min: 0 }),
+    createdAt: s.string(),
+    isPublic: s.boolean().optional(),
+    tags: s.array(s.string()),
+    snippet: snippetSettingsSchema.optional(),
+    questions: s.array(quizFileQuestionSchema),
+  }),
+});
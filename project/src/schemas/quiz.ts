@@ -0,0 +1,145 @@
+import { s } from '@/lib/schema';
+import { difficultySchema } from './user';
+
+/**
+ * Quiz contract schemas (specs/001-frontend-application/contracts/quiz-api.md)
+ */
+
+// How each type uses options and correctAnswer: @/lib/question-types
+export const questionTypeSchema = s.oneOf(['MultipleChoice', 'FreeText', 'YearGuess', 'Ordering']);
+
+export const spotifyTrackSchema = s.object({
+  id: s.string({ nonEmpty: true }),
+  name: s.string(),
+  artist: s.string(),
+  album: s.string().optional(),
+  // Spotify has no preview for some tracks
+  previewUrl: s.string().nullable().optional(),
+  durationMs: s.number({ min: 0 }),
+  imageUrl: s.string().optional(),
+});
+
+/**
+ * Part of a track to play, set for a quiz and overridden per question
+ * (@/lib/snippet)
+ */
+export const snippetSettingsSchema = s.object({
+  /** Clip start, ms into the track; the earliest start with randomStart */
+  startMs: s.number({ min: 0, integer: true }).optional(),
+  /** Start at a random point between startMs and maxStartMs */
+  randomStart: s.boolean().optional(),
+  /** Latest random start; as late as the clip fits when missing */
+  maxStartMs: s.number({ min: 0, integer: true }).optional(),
+  /** Clip length; plays to the end when missing */
+  durationMs: s.number({ min: 1000, integer: true }).optional(),
+});
+
+export const questionSchema = s.object({
+  id: s.string({ nonEmpty: true }),
+  text: s.string(),
+  type: questionTypeSchema,
+  options: s.array(s.string()),
+  correctAnswer: s.string(),
+  spotifyTrack: spotifyTrackSchema.optional(),
+  explanation: s.string().optional(),
+  snippet: snippetSettingsSchema.optional(),
+});
+
+/**
+ * POST /quiz/generate (201) - a quiz with its questions
+ */
+export const quizSchema = s.object({
+  id: s.string({ nonEmpty: true }),
+  title: s.string(),
+  description: s.string(),
+  questionCount: s.number({ integer: true, min: 0 }),
+  difficulty: difficultySchema,
+  estimatedDuration: s.number({ min: 0 }),
+  createdAt: s.string(),
+  createdBy: s.string().optional(),
+  isPublic: s.boolean().optional(),
+  tags: s.array(s.string()).optional(),
+  snippet: snippetSettingsSchema.optional(),
+  questions: s.array(questionSchema),
+});
+
+/**
+ * GET /quiz/{id} - quiz metadata without questions
+ */
+export const quizDetailsSchema = s.object({
+  id: s.string({ nonEmpty: true }),
+  title: s.string(),
+  description: s.string(),
+  questionCount: s.number({ integer: true, min: 0 }),
+  difficulty: difficultySchema,
+  createdBy: s.string(),
+  isPublic: s.boolean(),
+  tags: s.array(s.string()),
+  createdAt: s.string(),
+  estimatedDuration: s.number({ min: 0 }),
+});
+
+export const startSessionResponseSchema = s.object({
+  sessionId: s.string({ nonEmpty: true }),
+  quizId: s.string({ nonEmpty: true }),
+  currentQuestionIndex: s.number({ integer: true, min: 0 }),
+  score: s.number(),
+  startedAt: s.string(),
+  isActive: s.boolean(),
+  timeLimit: s.number({ min: 0 }).optional(),
+  quiz: quizSchema,
+});
+
+export const paginationSchema = s.object({
+  page: s.number({ integer: true, min: 1 }),
+  limit: s.number({ integer: true, min: 1 }),
+  total: s.number({ integer: true, min: 0 }),
+  totalPages: s.number({ integer: true, min: 0 }),
+  hasNext: s.boolean(),
+  hasPrevious: s.boolean(),
+});
+
+export const quizHistoryItemSchema = s.object({
+  id: s.string({ nonEmpty: true }),
+  title: s.string(),
+  completedAt: s.string().optional(),
+  score: s.number().optional(),
+  totalQuestions: s.number({ integer: true, min: 0 }),
+  difficulty: difficultySchema,
+  sessionId: s.string().optional(),
+  isActive: s.boolean(),
+  createdAt: s.string(),
+  // Not in the contract yet - the library only filters by tag when present
+  tags: s.array(s.string()).optional(),
+});
+
+export const userQuizzesResponseSchema = s.object({
+  quizzes: s.array(quizHistoryItemSchema),
+  pagination: paginationSchema,
+});
+
+export const sessionResultSchema = s.object({
+  finalScore: s.number(),
+  totalQuestions: s.number({ integer: true, min: 0 }),
+  percentage: s.number({ min: 0, max: 100 }),
+  completedAt: s.string(),
+});
+
+export const submitAnswerResponseSchema = s.object({
+  isCorrect: s.boolean(),
+  correctAnswer: s.string(),
+  explanation: s.string().optional(),
+  currentScore: s.number(),
+  nextQuestionIndex: s.number({ integer: true, min: 0 }).optional(),
+  isSessionComplete: s.boolean(),
+  sessionResult: sessionResultSchema.optional(),
+});
+
+export const quizSessionStatusSchema = s.object({
+  sessionId: s.string({ nonEmpty: true }),
+  isActive: s.boolean(),
+  currentQuestionIndex: s.number({ integer: true, min: 0 }),
+  score: s.number(),
+  questionsRemaining: s.number({ integer: true, min: 0 }),
+  timeElapsed: s.number({ min: 0 }),
+});
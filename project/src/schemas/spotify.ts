@@ -0,0 +1,39 @@
+import { s } from '@/lib/schema';
+
+/**
+ * Raw Spotify Web API schemas (https://developer.spotify.com/documentation/web-api)
+ */
+
+export const spotifyImageSchema = s.object({
+  url: s.string(),
+  height: s.number().nullable(),
+  width: s.number().nullable(),
+});
+
+export const spotifyApiTrackSchema = s.object({
+  id: s.string({ nonEmpty: true }),
+  name: s.string(),
+  artists: s.array(s.object({ name: s.string() })),
+  album: s.object({
+    name: s.string(),
+    images: s.array(spotifyImageSchema),
+  }),
+  preview_url: s.string().nullable(),
+  duration_ms: s.number({ min: 0 }),
+});
+
+/**
+ * GET https://api.spotify.com/v1/search?type=track
+ */
+export const spotifyTrackSearchResponseSchema = s.object({
+  tracks: s.object({
+    items: s.array(spotifyApiTrackSchema),
+  }),
+});
+
+/**
+ * GET https://api.spotify.com/v1/tracks - null for IDs that were not found
+ */
+export const spotifyTracksResponseSchema = s.object({
+  tracks: s.array(spotifyApiTrackSchema.nullable()),
+});
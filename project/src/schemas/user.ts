@@ -0,0 +1,51 @@
+import { s } from '@/lib/schema';
+
+/**
+ * User and settings schemas (specs/001-frontend-application/contracts/auth-api.md)
+ */
+
+export const difficultySchema = s.oneOf(['Easy', 'Medium', 'Hard']);
+
+/**
+ * User payload returned by the backend (/auth/spotify/callback, /auth/me)
+ */
+export const backendUserSchema = s.object({
+  id: s.string({ nonEmpty: true }),
+  // Spotify allows users without a display name
+  displayName: s.string().nullable(),
+  email: s.string(),
+  country: s.string(),
+  hasSpotifyPremium: s.boolean(),
+  profileImageUrl: s.string().nullable().optional(),
+  createdAt: s.string().optional(),
+  lastLoginAt: s.string().optional(),
+});
+
+export const userSettingsSchema = s.object({
+  preferredLanguage: s.string(),
+  enableAudioPreview: s.boolean(),
+  defaultQuestionCount: s.number({ integer: true }),
+  defaultDifficulty: difficultySchema,
+  rememberDeviceSelection: s.boolean(),
+});
+
+/**
+ * Raw Spotify Web API user profile (GET https://api.spotify.com/v1/me)
+ */
+export const spotifyUserSchema = s.object({
+  id: s.string({ nonEmpty: true }),
+  display_name: s.string().nullable(),
+  email: s.string(),
+  images: s.array(
+    s.object({
+      url: s.string(),
+      height: s.number().nullable(),
+      width: s.number().nullable(),
+    })
+  ),
+  product: s.oneOf(['free', 'premium', 'open']),
+  country: s.string(),
+  followers: s.object({
+    total: s.number(),
+  }),
+});
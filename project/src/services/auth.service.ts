@@ -1,15 +1,57 @@
 import type { 
   AuthTokens, 
-  SpotifyUser, 
   LoginResponse, 
   CallbackRequest,
   TokenRefreshRequest
 } from '@/types/auth';
 
 import { SPOTIFY_SCOPES } from '@/types/auth';
+import type { User, UserProfile, UserSettings } from '@/types/user';
+import { normalizeUser } from '@/utils/user-mapper';
+
+import {
+  MemoryTokenStorage,
+  migrateLegacyTokenStorage,
+  type StoredAuthTokens,
+  type TokenStorage,
+} from '@/utils/token-storage';
+
+import { SessionBus, createSessionChannel, type SessionEnvelope } from '@/lib/session-bus';
+import { TOKEN_REFRESH_SKEW_MS } from '@/lib/token-lifecycle';
+import { HttpClient, type HttpRequestOptions, type TokenSource } from '@/lib/http-client';
+import {
+  ApiError,
+  NetworkError,
+  createApiErrorForStatus,
+  toRequestError,
+} from '@/utils/error-handling';
+import {
+  refreshTokenResponseSchema,
+  spotifyCallbackResponseSchema,
+  spotifyLoginResponseSchema,
+  updateSettingsResponseSchema,
+  userProfileResponseSchema,
+} from '@/schemas/auth';
+
+export type { StoredAuthTokens } from '@/utils/token-storage';
+
+/**
+ * Session change made by another tab, or a refresh made by this one,
+ * mirrored into this tab's store
+ */
+export type SessionChangeEvent =
+  | { type: 'tokens'; tokens: StoredAuthTokens }
+  /** This tab refreshed its tokens */
+  | { type: 'refreshed'; tokens: StoredAuthTokens }
+  | { type: 'logout' };
+
+// How long a follower waits for the leader tab before refreshing itself
+const REFRESH_DELEGATE_TIMEOUT_MS = 5000;
+// How long a new tab waits for peers to share an existing session
+const SESSION_REQUEST_TIMEOUT_MS = 300;
+
+const SPOTIFY_API_BASE_URL = 'https://api.spotify.com/v1';
 
-// StoredAuthTokens extends AuthTokens with an absolute expiry timestamp
-export type StoredAuthTokens = AuthTokens & { expires_at?: number };
 
 import { 
   generateCodeChallenge, 
@@ -19,6 +61,7 @@ import {
   storeOAuthState,
   retrievePKCEVerifier,
   retrieveOAuthState,
+  storeReturnPath,
   validateState
 } from '@/utils/oauth';
 
@@ -26,55 +69,88 @@ import {
  * Authentication service for Spotify OAuth 2.0 PKCE flow
  * Handles login, callback, token refresh, and user profile
  */
-class AuthService {
+export class AuthService {
   private baseURL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
   private clientId = import.meta.env.VITE_SPOTIFY_CLIENT_ID;
   private redirectUri = import.meta.env.VITE_SPOTIFY_REDIRECT_URI || `${window.location.origin}/callback`;
   // Promise used to dedupe concurrent refresh requests
   private refreshInFlight: Promise<AuthTokens> | null = null;
-
-  constructor() {
+  // Listeners for session changes made by other tabs
+  private sessionListeners = new Set<(event: SessionChangeEvent) => void>();
+  // Backend API client, authenticated with this service's tokens
+  readonly api: HttpClient;
+  // Spotify Web API client
+  readonly spotify: HttpClient;
+
+  constructor(
+    private tokenStorage: TokenStorage = new MemoryTokenStorage(),
+    private sessionBus: SessionBus = new SessionBus(createSessionChannel())
+  ) {
     if (!this.clientId) {
       console.warn('VITE_SPOTIFY_CLIENT_ID is not configured');
     }
+
+    const tokenSource: TokenSource = {
+      getAccessToken: () => this.getStoredTokens()?.access_token,
+      refreshAccessToken: async () => (await this.refreshToken()).access_token,
+    };
+    this.api = new HttpClient({ baseURL: this.baseURL, tokenSource });
+    // Spotify's CORS policy does not allow our correlation header
+    this.spotify = new HttpClient({
+      baseURL: SPOTIFY_API_BASE_URL,
+      tokenSource,
+      sendCorrelationId: false,
+    });
+
+    // Earlier releases persisted tokens to localStorage - wipe them
+    if (migrateLegacyTokenStorage()) {
+      console.info('Removed legacy tokens from localStorage');
+    }
+
+    this.sessionBus.subscribe((message) => this.handleSessionMessage(message));
+    this.sessionBus.start();
   }
 
   /**
    * Initiate Spotify OAuth login flow
    * Generates PKCE parameters and redirects to Spotify
+   * @param returnTo Path to restore after login (validated as same-origin)
    */
-  async initiateSpotifyLogin(): Promise<LoginResponse> {
+  async initiateSpotifyLogin(returnTo?: string): Promise<LoginResponse> {
     try {
       // In development with MSW enabled, use mock flow
       if (import.meta.env.DEV && import.meta.env.VITE_ENABLE_MSW === 'true') {
-        return this.mockSpotifyLogin();
+        return this.mockSpotifyLogin(returnTo);
       }
 
       // Ask backend to initiate login. Backend will generate PKCE params and return authorization URL
-      const response = await fetch(`${this.baseURL}/auth/spotify/login`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ redirectUri: this.redirectUri }),
-      });
-
-      if (!response.ok) {
-        const err = await response.json().catch(() => ({}));
-        throw new Error(err.message || `Failed to initiate login: ${response.status}`);
-      }
-
       // Backend returns { authorizationUrl, codeVerifier, state } (see API-Reference)
-      const data = await response.json();
+      const data = await this.api.post(
+        '/auth/spotify/login',
+        { redirectUri: this.redirectUri },
+        {
+          auth: false,
+          errorMessage: 'Failed to initiate login',
+          schema: spotifyLoginResponseSchema,
+        }
+      );
 
       // Persist PKCE verifier and state locally for callback validation
       if (data.codeVerifier) storePKCEVerifier(data.codeVerifier);
       if (data.state) storeOAuthState(data.state);
+      if (data.state && returnTo) storeReturnPath(data.state, returnTo);
 
       return {
-        authorization_url: data.authorizationUrl || data.authorization_url,
+        authorization_url: data.authorizationUrl,
         state: data.state,
       };
     } catch (error) {
       console.error('Failed to initiate Spotify login:', error);
+      const requestError = toRequestError(error);
+      // Keep typed errors so the UI can show their correlation ID
+      if (requestError instanceof ApiError || requestError instanceof NetworkError) {
+        throw requestError;
+      }
       throw new Error('Failed to initiate login process');
     }
   }
@@ -82,7 +158,7 @@ class AuthService {
   /**
    * Mock Spotify login for development testing
    */
-  private async mockSpotifyLogin(): Promise<LoginResponse> {
+  private async mockSpotifyLogin(returnTo?: string): Promise<LoginResponse> {
     // Generate mock PKCE parameters
     const { codeVerifier } = await generateCodeChallenge();
     const state = generateState();
@@ -90,6 +166,7 @@ class AuthService {
     // Store for callback validation
     storePKCEVerifier(codeVerifier);
     storeOAuthState(state);
+    if (returnTo) storeReturnPath(state, returnTo);
 
     // Return mock callback URL instead of Spotify URL
     const mockCallbackURL = `${window.location.origin}/callback?code=mock_auth_code&state=${state}`;
@@ -119,10 +196,13 @@ class AuthService {
       refresh_token: 'mock_refresh_token_' + Date.now(),
     };
 
+    // Emulate the backend's HttpOnly refresh cookie so silent refresh works after reload
+    document.cookie = `refresh_token=${mockTokens.refresh_token}; Path=/; SameSite=Strict`;
+
     // Store tokens
     this.storeTokens(mockTokens);
 
-    return mockTokens;
+    return this.getStoredTokens() ?? mockTokens;
   }
 
   /**
@@ -145,48 +225,40 @@ class AuthService {
       // Retrieve PKCE verifier stored earlier (if backend didn't persist it)
       const codeVerifier = retrievePKCEVerifier();
 
-      // Send code + verifier to backend for token exchange
-      const response = await fetch(`${this.baseURL}/auth/spotify/callback`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      // Send code + verifier to backend for token exchange. The backend sets the
+      // refresh token as an HttpOnly cookie on this response.
+      // Backend returns { accessToken, refreshToken, expiresIn, tokenType, user }
+      const data = await this.api.post(
+        '/auth/spotify/callback',
+        {
           code,
           codeVerifier: codeVerifier || undefined,
           redirectUri: this.redirectUri,
           state,
-        }),
-      });
-
-      console.log('Callback response : ', response);
-
-      if (!response.ok) {
-        const err = await response.json().catch(() => ({}));
-        throw new Error(err.message || `Token exchange failed: ${response.status}`);
-      }
-
-      // Backend returns { accessToken, refreshToken, expiresIn, tokenType, user }
-      const data = await response.json();
-
-      console.log('Callback data : ', data);
+        },
+        {
+          auth: false,
+          credentials: 'include',
+          errorMessage: 'Token exchange failed',
+          schema: spotifyCallbackResponseSchema,
+        }
+      );
 
       const tokens: AuthTokens = {
-        access_token: data.accessToken || data.access_token,
-        refresh_token: data.refreshToken || data.refresh_token,
-        expires_in: data.expiresIn || data.expires_in || 3600,
-        token_type: (data.tokenType || data.token_type || 'Bearer') as 'Bearer',
+        access_token: data.accessToken,
+        refresh_token: data.refreshToken,
+        expires_in: data.expiresIn,
+        token_type: data.tokenType,
         scope: data.scope || SPOTIFY_SCOPES.join(' '),
       };
 
-      console.log('Exchanged tokens : ', tokens);
-
       // Persist tokens
       this.storeTokens(tokens);
 
-      // Optionally persist user in localStorage for quick access
-      if (data.user){
-          localStorage.setItem('auth_user', JSON.stringify(data.user));
-          console.log('Stored user : ', data.user);
-      }
+      // Persist user in localStorage for quick access
+      const user = normalizeUser(data.user);
+      localStorage.setItem('auth_user', JSON.stringify(user));
+      console.log('Stored user : ', user);
 
       // Attempt to fetch current user from backend to validate tokens. If this fails,
       // clear tokens and surface an error so the caller can redirect to login.
@@ -198,116 +270,278 @@ class AuthService {
         throw new Error('Failed to validate user after token exchange');
       }
 
-      return tokens;
+      return this.getStoredTokens() ?? tokens;
     } catch (error) {
       console.error('OAuth callback failed:', error);
-      throw error;
+      throw toRequestError(error);
     }
   }
 
   /**
-   * Refresh expired access token using refresh token
+   * Refresh expired access token using the HttpOnly refresh cookie.
+   * Only the leader tab calls the backend; other tabs wait for its broadcast.
    */
   async refreshToken(): Promise<AuthTokens> {
-    try {
-      const currentTokens = this.getStoredTokens();
-      if (!currentTokens?.refresh_token) {
-        throw new Error('No refresh token available');
-      }
-      // If a refresh is already in-flight, reuse it
-      if (this.refreshInFlight) {
-        return this.refreshInFlight;
-      }
+    // If a refresh is already in-flight, reuse it
+    if (this.refreshInFlight) {
+      return this.refreshInFlight;
+    }
 
-      this.refreshInFlight = (async () => {
-        const response = await fetch(`${this.baseURL}/auth/refresh`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ refreshToken: currentTokens.refresh_token }),
-        });
+    const refresh = this.sessionBus.isLeader()
+      ? this.performRefresh()
+      : this.requestRefreshFromLeader();
 
-        if (!response.ok) {
-          const err = await response.json().catch(() => ({}));
-          throw new Error(err.message || `Token refresh failed: ${response.status}`);
-        }
+    this.refreshInFlight = refresh.finally(() => {
+      // clear in-flight ref
+      this.refreshInFlight = null;
+    });
 
-        const data = await response.json();
+    return this.refreshInFlight;
+  }
 
-        const newTokens: AuthTokens = {
-          access_token: data.accessToken || data.access_token,
-          refresh_token: data.refreshToken || data.refresh_token || currentTokens.refresh_token,
-          expires_in: data.expiresIn || data.expires_in || 3600,
-          token_type: (data.tokenType || data.token_type || 'Bearer') as 'Bearer',
-          scope: data.scope || currentTokens.scope || SPOTIFY_SCOPES.join(' '),
-        };
+  /**
+   * Restore the session on page load: reuse tokens held by another open tab,
+   * otherwise refresh silently from the HttpOnly cookie
+   */
+  async restoreSession(): Promise<AuthTokens> {
+    const peerTokens = await this.requestSessionFromPeers();
+    if (peerTokens) {
+      return peerTokens;
+    }
+    return this.refreshToken();
+  }
 
-        // Store new tokens
-        this.storeTokens(newTokens);
+  /**
+   * Subscribe to session changes made by other tabs and to this tab's
+   * refreshes, whether proactive or after a 401
+   * @returns Unsubscribe function
+   */
+  onSessionChange(listener: (event: SessionChangeEvent) => void): () => void {
+    this.sessionListeners.add(listener);
+    return () => {
+      this.sessionListeners.delete(listener);
+    };
+  }
 
-        // clear in-flight ref
-        this.refreshInFlight = null;
-        return newTokens;
-      })();
+  /**
+   * Call the backend refresh endpoint and broadcast the result
+   */
+  private async performRefresh(): Promise<AuthTokens> {
+    const currentTokens = this.getStoredTokens();
 
-      return this.refreshInFlight;
+    try {
+      // No refresh token in the body - the browser sends the cookie
+      const data = await this.api.post(
+        '/auth/refresh',
+        {},
+        {
+          auth: false,
+          credentials: 'include',
+          errorMessage: 'Token refresh failed',
+          schema: refreshTokenResponseSchema,
+        }
+      );
+
+      const newTokens: AuthTokens = {
+        access_token: data.accessToken,
+        expires_in: data.expiresIn,
+        token_type: data.tokenType,
+        scope: data.scope || currentTokens?.scope || SPOTIFY_SCOPES.join(' '),
+      };
+
+      // Store new tokens
+      this.storeTokens(newTokens);
+      const stored = this.getStoredTokens() ?? newTokens;
+      // Other tabs hear about it from the broadcast; this tab's store from here
+      this.emitSessionChange({ type: 'refreshed', tokens: stored });
+      return stored;
     } catch (error) {
       console.error('Token refresh failed:', error);
       // Clear invalid tokens
       this.clearTokens();
-      throw error;
+      // Release followers waiting on this refresh, with the same error
+      const requestError = toRequestError(error);
+      this.sessionBus.publish(
+        requestError instanceof ApiError
+          ? {
+              type: 'refresh-failed',
+              status: requestError.status,
+              code: requestError.code,
+              message: requestError.message,
+            }
+          : { type: 'refresh-failed' }
+      );
+      throw requestError;
     }
   }
 
   /**
-   * Get current user profile from Spotify API
+   * Ask the leader tab to refresh and wait for the new tokens.
+   * Falls back to refreshing locally if the leader does not answer.
    */
+  private requestRefreshFromLeader(): Promise<AuthTokens> {
+    return new Promise<AuthTokens>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        this.performRefresh().then(resolve, reject);
+      }, REFRESH_DELEGATE_TIMEOUT_MS);
+
+      const unsubscribe = this.sessionBus.subscribe((message) => {
+        if (message.type === 'tokens') {
+          clearTimeout(timer);
+          unsubscribe();
+          resolve(message.tokens);
+        } else if (message.type === 'refresh-failed' && message.status !== undefined) {
+          // A rejected refresh is final here too, so the lifecycle stops retrying
+          clearTimeout(timer);
+          unsubscribe();
+          reject(
+            createApiErrorForStatus(
+              message.status,
+              message.code ?? 'internal_error',
+              message.message ?? 'Token refresh failed in another tab'
+            )
+          );
+        } else if (message.type === 'refresh-failed' || message.type === 'logout') {
+          clearTimeout(timer);
+          unsubscribe();
+          reject(new Error('Token refresh failed in another tab'));
+        }
+      });
+
+      this.sessionBus.publish({ type: 'refresh-request' });
+    });
+  }
+
   /**
-   * Get current user profile from backend. Will attempt a single refresh on 401 and will not loop.
-   * @param attemptRefresh whether to attempt a refresh when receiving 401 (default true)
+   * Ask other open tabs for their current tokens
+   * @returns Tokens shared by a peer, or null if no tab answered in time
    */
-  async getCurrentUser(attemptRefresh = true): Promise<SpotifyUser> {
-    try {
+  private requestSessionFromPeers(): Promise<StoredAuthTokens | null> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        resolve(null);
+      }, SESSION_REQUEST_TIMEOUT_MS);
+
+      const unsubscribe = this.sessionBus.subscribe((message) => {
+        if (message.type === 'tokens') {
+          clearTimeout(timer);
+          unsubscribe();
+          resolve(message.tokens);
+        }
+      });
+
+      this.sessionBus.publish({ type: 'session-request' });
+    });
+  }
+
+  /**
+   * Apply session messages from other tabs
+   */
+  private handleSessionMessage(message: SessionEnvelope): void {
+    switch (message.type) {
+      case 'tokens':
+        this.tokenStorage.write(message.tokens);
+        this.emitSessionChange({ type: 'tokens', tokens: message.tokens });
+        break;
+
+      case 'logout':
+        this.clearTokens();
+        this.emitSessionChange({ type: 'logout' });
+        break;
+
+      case 'refresh-request': {
+        if (!this.sessionBus.isLeader()) break;
+
+        // A refresh that just completed already covers this request
         const tokens = this.getStoredTokens();
-        console.log('Getting current user with tokens: ', tokens);
-      if (!tokens?.access_token) {
-        throw new Error('No access token available');
-      }
+        if (tokens?.expires_at && tokens.expires_at > Date.now() + TOKEN_REFRESH_SKEW_MS) {
+          this.sessionBus.publish({ type: 'tokens', tokens });
+          break;
+        }
 
-      const response = await fetch(`${this.baseURL}/auth/me`, {
-        headers: {
-          Authorization: `Bearer ${tokens.access_token}`,
-        },
-      });
+        // Result (or failure) is broadcast by performRefresh
+        this.refreshToken().catch(() => {});
+        break;
+      }
 
-      if (response.status === 401) {
-        if (attemptRefresh) {
-          try {
-            await this.refreshToken();
-            // Retry once but do not attempt further refreshes to avoid loops
-            return this.getCurrentUser(false);
-          } catch (refreshErr) {
-            // Refresh failed - propagate original 401
-            throw new Error('Unauthorized and refresh failed');
-          }
+      case 'session-request': {
+        const tokens = this.getStoredTokens();
+        if (tokens?.expires_at && tokens.expires_at > Date.now()) {
+          this.sessionBus.publish({ type: 'tokens', tokens });
         }
+        break;
+      }
+    }
+  }
 
-        throw new Error('Unauthorized');
+  private emitSessionChange(event: SessionChangeEvent): void {
+    this.sessionListeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Session change listener failed:', error);
       }
+    });
+  }
+
+  /**
+   * Get current user profile from backend
+   * @param attemptRefresh whether to attempt a refresh when receiving 401 (default true)
+   */
+  async getCurrentUser(attemptRefresh = true): Promise<User> {
+    const { user } = await this.getProfile(attemptRefresh);
+    return user;
+  }
 
-      if (!response.ok) {
-        const err = await response.json().catch(() => ({}));
-        throw new Error(err.message || `Failed to get user profile: ${response.status}`);
+  /**
+   * Get current user profile and settings from backend. Will attempt a single refresh on 401 and will not loop.
+   * @param attemptRefresh whether to attempt a refresh when receiving 401 (default true)
+   */
+  async getProfile(attemptRefresh = true): Promise<UserProfile> {
+    try {
+        const tokens = this.getStoredTokens();
+        console.log('Getting current user with tokens: ', tokens);
+      if (!tokens?.access_token) {
+        throw new Error('No access token available');
       }
 
-      const result = await response.json();
-      const user: SpotifyUser = result.user || result;
-      return user;
+      // The client refreshes and replays once on 401; a failed refresh surfaces the 401
+      const result = await this.api.get('/auth/me', {
+        refreshOnUnauthorized: attemptRefresh,
+        errorMessage: 'Failed to get user profile',
+        schema: userProfileResponseSchema,
+      });
+      return {
+        user: normalizeUser(result.user),
+        settings: result.settings ?? null,
+      };
     } catch (error) {
       console.error('Failed to get current user:', error);
-      throw error;
+      throw toRequestError(error);
     }
   }
 
+  /**
+   * Save changed user settings to the backend
+   * @param changes Settings to update; omitted fields are left unchanged
+   * @returns The full settings as stored by the backend
+   */
+  async updateSettings(changes: Partial<UserSettings>, attemptRefresh = true): Promise<UserSettings> {
+    const tokens = this.getStoredTokens();
+    if (!tokens?.access_token) {
+      throw new Error('No access token available');
+    }
+
+    const result = await this.api.patch('/auth/me/settings', changes, {
+      refreshOnUnauthorized: attemptRefresh,
+      errorMessage: 'Failed to update settings',
+      schema: updateSettingsResponseSchema,
+    });
+    return result.settings;
+  }
+
   /**
    * Logout user and clear all stored data
    */
@@ -315,13 +549,24 @@ class AuthService {
     try {
       // Clear tokens
       this.clearTokens();
+
+      // Log out every other open tab
+      this.sessionBus.publish({ type: 'logout' });
       
       // Clear any OAuth state
       sessionStorage.removeItem('oauth_code_verifier');
       sessionStorage.removeItem('oauth_state');
+      sessionStorage.removeItem('oauth_return_to');
       
       // Clear any other auth-related data
       localStorage.removeItem('auth_user');
+
+      // Ask the backend to expire the HttpOnly refresh cookie (best effort)
+      this.api
+        .send('/auth/logout', { method: 'POST', auth: false, credentials: 'include' })
+        .catch((error) => {
+          console.warn('Failed to clear refresh cookie:', error);
+        });
       
       console.log('User logged out successfully');
     } catch (error) {
@@ -340,21 +585,18 @@ class AuthService {
   /**
    * Get stored authentication tokens
    */
-  getStoredTokens(): AuthTokens | null {
+  getStoredTokens(): StoredAuthTokens | null {
     try {
-      const tokensStr = localStorage.getItem('auth_tokens');
-      if (!tokensStr) return null;
-      const parsed = JSON.parse(tokensStr) as StoredAuthTokens;
-      return parsed;
+      return this.tokenStorage.read();
     } catch (error) {
-      console.error('Failed to parse stored tokens:', error);
+      console.error('Failed to read stored tokens:', error);
       this.clearTokens();
       return null;
     }
   }
 
   /**
-   * Store authentication tokens securely
+   * Store authentication tokens in memory
    * @param tokens Tokens to store
    */
   private storeTokens(tokens: AuthTokens): void {
@@ -370,8 +612,13 @@ class AuthService {
         expires_at,
       };
 
-      // In production, consider encrypting tokens before storage
-      localStorage.setItem('auth_tokens', JSON.stringify(stored));
+      this.tokenStorage.write(stored);
+
+      // Share the new tokens with other open tabs
+      const shared = this.tokenStorage.read();
+      if (shared) {
+        this.sessionBus.publish({ type: 'tokens', tokens: shared });
+      }
     } catch (error) {
       console.error('Failed to store tokens:', error);
       throw new Error('Failed to store authentication tokens');
@@ -383,7 +630,7 @@ class AuthService {
    */
   private clearTokens(): void {
     try {
-      localStorage.removeItem('auth_tokens');
+      this.tokenStorage.clear();
     } catch (error) {
       console.error('Failed to clear tokens:', error);
     }
@@ -392,36 +639,19 @@ class AuthService {
   /**
    * Make authenticated API request to Spotify
    * @param endpoint Spotify API endpoint
-   * @param options Fetch options
+   * @param options Request options
    */
-  async spotifyApiRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  async spotifyApiRequest<T>(endpoint: string, options: HttpRequestOptions<T> = {}): Promise<T> {
     const tokens = this.getStoredTokens();
     if (!tokens?.access_token) {
       throw new Error('No access token available');
     }
 
-    const response = await fetch(`https://api.spotify.com/v1${endpoint}`, {
+    // An expired token is refreshed and the request replayed once
+    return this.spotify.request<T>(endpoint, {
+      errorMessage: 'API request failed',
       ...options,
-      headers: {
-        'Authorization': `Bearer ${tokens.access_token}`,
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
     });
-
-    if (response.status === 401) {
-      // Token expired, try to refresh
-      await this.refreshToken();
-      // Retry request with new token
-      return this.spotifyApiRequest<T>(endpoint, options);
-    }
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({}));
-      throw new Error(error.error?.message || `API request failed: ${response.status}`);
-    }
-
-    return response.json();
   }
 }
 
@@ -0,0 +1,107 @@
+import type { HttpClient } from '@/lib/http-client';
+import { apiClient } from '@/lib/api-client';
+import {
+  playbackControlResponseSchema,
+  playbackDevicesResponseSchema,
+  playbackStatusResponseSchema,
+} from '@/schemas/playback';
+import type {
+  PlaybackControlResponse,
+  PlaybackPlayRequest,
+  PlaybackStatusResponse,
+  SpotifyDevice,
+} from '@/types/spotify';
+
+/**
+ * Playback service
+ * Controls Spotify playback on the user's devices through the backend
+ * (specs/001-frontend-application/contracts/playback-api.md). Commands need
+ * Spotify Premium; without it they fail with a PremiumRequiredError.
+ */
+export class PlaybackService {
+  constructor(private client: HttpClient = apiClient) {}
+
+  /**
+   * Devices the user can play on
+   */
+  async getDevices(): Promise<SpotifyDevice[]> {
+    const response = await this.client.get('/playback/devices', {
+      errorMessage: 'Failed to load devices',
+      schema: playbackDevicesResponseSchema,
+    });
+    return response.devices;
+  }
+
+  /**
+   * Start a track, or resume when no track is given
+   * @throws PremiumRequiredError if the user does not have Spotify Premium
+   */
+  async play(request: PlaybackPlayRequest): Promise<PlaybackControlResponse> {
+    return this.client.post('/playback/play', request, {
+      errorMessage: 'Failed to start playback',
+      schema: playbackControlResponseSchema,
+    });
+  }
+
+  /**
+   * @throws PremiumRequiredError if the user does not have Spotify Premium
+   */
+  async pause(deviceId: string): Promise<PlaybackControlResponse> {
+    return this.client.post(
+      '/playback/pause',
+      { deviceId },
+      {
+        errorMessage: 'Failed to pause playback',
+        schema: playbackControlResponseSchema,
+      }
+    );
+  }
+
+  /**
+   * Jump to a position in the current track
+   * @param deviceId Device to seek on; the active device when omitted
+   * @throws PremiumRequiredError if the user does not have Spotify Premium
+   */
+  async seek(positionMs: number, deviceId?: string): Promise<PlaybackControlResponse> {
+    return this.client.post(
+      '/playback/seek',
+      { positionMs: Math.max(0, Math.round(positionMs)), ...(deviceId && { deviceId }) },
+      {
+        errorMessage: 'Failed to seek',
+        schema: playbackControlResponseSchema,
+      }
+    );
+  }
+
+  /**
+   * Set the volume of a device
+   * @throws PremiumRequiredError if the user does not have Spotify Premium
+   */
+  async setVolume(volumePercent: number, deviceId: string): Promise<PlaybackControlResponse> {
+    return this.client.post(
+      '/playback/volume',
+      { volumePercent: Math.max(0, Math.min(100, Math.round(volumePercent))), deviceId },
+      {
+        errorMessage: 'Failed to change the volume',
+        schema: playbackControlResponseSchema,
+      }
+    );
+  }
+
+  /**
+   * What is playing right now, on any of the user's devices
+   * @returns null when nothing is playing (204)
+   */
+  async getStatus(): Promise<PlaybackStatusResponse | null> {
+    const status = await this.client.get('/playback/status', {
+      errorMessage: 'Failed to load playback status',
+      // 204 has no body
+      schema: playbackStatusResponseSchema.optional(),
+    });
+    return status ?? null;
+  }
+}
+
+// Export singleton instance
+export const playbackService = new PlaybackService();
+export default playbackService;
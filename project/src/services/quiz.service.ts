@@ -0,0 +1,160 @@
+import type {
+  Quiz,
+  QuizDetails,
+  QuizGenerationRequest,
+  QuizSessionStatus,
+  StartSessionResponse,
+  SubmitAnswerRequest,
+  SubmitAnswerResponse,
+  UserQuizzesParams,
+  UserQuizzesResponse,
+} from '@/types/quiz';
+import type { HttpClient } from '@/lib/http-client';
+import { apiClient } from '@/lib/api-client';
+import { AnswerOutbox } from '@/lib/answer-outbox';
+import {
+  quizDetailsSchema,
+  quizSchema,
+  quizSessionStatusSchema,
+  startSessionResponseSchema,
+  submitAnswerResponseSchema,
+  userQuizzesResponseSchema,
+} from '@/schemas/quiz';
+import { validateQuizParams } from '@/utils/quiz';
+
+// The contract asks for up to 3 retries with exponential backoff
+export const GENERATE_MAX_RETRIES = 3;
+// AI generation is much slower than a regular request
+const GENERATE_TIMEOUT_MS = 120000;
+// Largest page the API serves for /quiz/my-quizzes
+export const USER_QUIZZES_MAX_LIMIT = 50;
+
+export interface GenerateQuizOptions {
+  /** Abort the generation, including pending retries */
+  signal?: AbortSignal;
+  /** Called before each retry with the 1-based retry number */
+  onRetry?: (retry: number, error: Error) => void;
+}
+
+/**
+ * Quiz service
+ * Quiz generation and retrieval (specs/001-frontend-application/contracts/quiz-api.md)
+ */
+export class QuizService {
+  constructor(private client: HttpClient = apiClient) {}
+
+  /**
+   * Generate a quiz from a prompt
+   * Retried on network, rate-limit and server errors; the server's 4xx
+   * responses are final.
+   * @throws Error if the parameters are invalid
+   */
+  async generateQuiz(
+    params: QuizGenerationRequest,
+    { signal, onRetry }: GenerateQuizOptions = {}
+  ): Promise<Quiz> {
+    const { isValid, errors } = validateQuizParams(params);
+    if (!isValid) {
+      throw new Error(Object.values(errors)[0]);
+    }
+
+    return this.client.post(
+      '/quiz/generate',
+      { ...params, prompt: params.prompt.trim() },
+      {
+        retries: GENERATE_MAX_RETRIES,
+        timeoutMs: GENERATE_TIMEOUT_MS,
+        signal,
+        onRetry,
+        errorMessage: 'Failed to generate quiz',
+        schema: quizSchema,
+      }
+    );
+  }
+
+  /**
+   * Start a session for a quiz; the response includes the full quiz
+   * An expired token is refreshed and the request replayed once.
+   * @param deviceId Spotify device for playback
+   * @throws ConflictError if the user already has an active session for the quiz
+   */
+  async startSession(quizId: string, deviceId?: string): Promise<StartSessionResponse> {
+    return this.client.post(
+      `/quiz/${encodeURIComponent(quizId)}/start-session`,
+      deviceId ? { deviceId } : {},
+      {
+        errorMessage: 'Failed to start quiz',
+        schema: startSessionResponseSchema,
+      }
+    );
+  }
+
+  /**
+   * Submit the answer to the current question
+   * Never retried automatically - the player re-submits.
+   * @throws ConflictError if the question was already answered
+   */
+  async submitAnswer(
+    sessionId: string,
+    answer: SubmitAnswerRequest
+  ): Promise<SubmitAnswerResponse> {
+    return this.client.post(`/quiz/${encodeURIComponent(sessionId)}/answer`, answer, {
+      retries: 0,
+      errorMessage: 'Failed to submit answer',
+      schema: submitAnswerResponseSchema,
+    });
+  }
+
+  /**
+   * Quiz metadata, without its questions
+   * Public quizzes can be read without signing in.
+   * @param options.auth Send the user's token (default true); false for
+   *   signed-out viewers so a 401 does not trigger a token refresh
+   */
+  async getQuiz(id: string, { auth = true }: { auth?: boolean } = {}): Promise<QuizDetails> {
+    return this.client.get(`/quiz/${encodeURIComponent(id)}`, {
+      auth,
+      errorMessage: 'Failed to load quiz',
+      schema: quizDetailsSchema,
+    });
+  }
+
+  /**
+   * The user's quizzes and sessions, a page at a time
+   */
+  async getUserQuizzes({
+    page,
+    limit,
+    status,
+  }: UserQuizzesParams = {}): Promise<UserQuizzesResponse> {
+    return this.client.get('/quiz/my-quizzes', {
+      query: {
+        page,
+        limit: limit === undefined ? undefined : Math.min(limit, USER_QUIZZES_MAX_LIMIT),
+        // 'all' is the server's default
+        status: status === 'all' ? undefined : status,
+      },
+      errorMessage: 'Failed to load your quizzes',
+      schema: userQuizzesResponseSchema,
+    });
+  }
+
+  /**
+   * Current progress of a session
+   */
+  async getSessionStatus(sessionId: string): Promise<QuizSessionStatus> {
+    return this.client.get(`/quiz/${encodeURIComponent(sessionId)}/status`, {
+      errorMessage: 'Failed to load quiz session',
+      schema: quizSessionStatusSchema,
+    });
+  }
+}
+
+// Export singleton instance
+export const quizService = new QuizService();
+export default quizService;
+
+// Answers given while offline, replayed through the service once back online
+export const answerOutbox = new AnswerOutbox({
+  submit: (sessionId, answer) => quizService.submitAnswer(sessionId, answer),
+});
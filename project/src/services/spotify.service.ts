@@ -0,0 +1,78 @@
+import type { HttpClient } from '@/lib/http-client';
+import { spotifyClient } from '@/lib/api-client';
+import { spotifyTrackSearchResponseSchema, spotifyTracksResponseSchema } from '@/schemas/spotify';
+import type { SpotifyTrack } from '@/types/quiz';
+import type { SpotifyApiTrack } from '@/types/spotify';
+
+// Most IDs GET /tracks accepts per request
+export const TRACKS_BATCH_SIZE = 50;
+
+export interface SearchTracksOptions {
+  /** Number of results, 1-50 (default 10) */
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Convert a Spotify Web API track to the track shape used by quizzes
+ */
+function toSpotifyTrack(track: SpotifyApiTrack): SpotifyTrack {
+  return {
+    id: track.id,
+    name: track.name,
+    artist: track.artists.map(artist => artist.name).join(', '),
+    album: track.album.name,
+    previewUrl: track.preview_url,
+    durationMs: track.duration_ms,
+    imageUrl: track.album.images[0]?.url,
+  };
+}
+
+/**
+ * Spotify Web API service
+ * Calls Spotify directly with the user's access token.
+ */
+export class SpotifyService {
+  constructor(private client: HttpClient = spotifyClient) {}
+
+  /**
+   * Search Spotify's catalogue for tracks
+   */
+  async searchTracks(
+    query: string,
+    { limit = 10, signal }: SearchTracksOptions = {}
+  ): Promise<SpotifyTrack[]> {
+    const response = await this.client.get('/search', {
+      query: { q: query.trim(), type: 'track', limit },
+      signal,
+      errorMessage: 'Failed to search tracks',
+      schema: spotifyTrackSearchResponseSchema,
+    });
+    return response.tracks.items.map(toSpotifyTrack);
+  }
+
+  /**
+   * Look up tracks by Spotify ID
+   * @returns Tracks by ID; IDs Spotify does not know are left out
+   */
+  async getTracks(ids: string[]): Promise<Map<string, SpotifyTrack>> {
+    const tracks = new Map<string, SpotifyTrack>();
+    const uniqueIds = [...new Set(ids)];
+
+    for (let start = 0; start < uniqueIds.length; start += TRACKS_BATCH_SIZE) {
+      const response = await this.client.get('/tracks', {
+        query: { ids: uniqueIds.slice(start, start + TRACKS_BATCH_SIZE).join(',') },
+        errorMessage: 'Failed to load tracks',
+        schema: spotifyTracksResponseSchema,
+      });
+      response.tracks.forEach(track => {
+        if (track) tracks.set(track.id, toSpotifyTrack(track));
+      });
+    }
+    return tracks;
+  }
+}
+
+// Export singleton instance
+export const spotifyService = new SpotifyService();
+export default spotifyService;
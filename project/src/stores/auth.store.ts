@@ -1,8 +1,21 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
-import type { AuthTokens, SpotifyUser, AuthState } from '@/types/auth';
+import type { AuthTokens, AuthState } from '@/types/auth';
+import type { User } from '@/types/user';
 import type { StoredAuthTokens } from '@/services/auth.service';
 import authService from '@/services/auth.service';
+import { tryNormalizeUser } from '@/utils/user-mapper';
+import { useSettingsStore } from '@/stores/settings.store';
+import { useSessionStore } from '@/stores/session.store';
+import { useResultsStore } from '@/stores/results.store';
+import { useEditedQuizzesStore } from '@/stores/edited-quizzes.store';
+import { usePlaybackStore } from '@/stores/playback.store';
+import { answerOutbox } from '@/services/quiz.service';
+import {
+  TokenLifecycleManager,
+  TOKEN_REFRESH_SKEW_MS,
+  initialTokenRefreshState,
+} from '@/lib/token-lifecycle';
 
 /**
  * Authentication store using Zustand
@@ -11,12 +24,12 @@ import authService from '@/services/auth.service';
 interface AuthStore extends AuthState {
   // Actions
   setTokens: (tokens: AuthTokens) => void;
-  setUser: (user: SpotifyUser | null) => void;
+  setUser: (user: User | null) => void;
   setLoading: (isLoading: boolean) => void;
   setError: (error: string | null) => void;
   clearError: () => void;
   logout: () => void;
-  initialize: () => Promise<{ success: boolean; reason?: string; error?: unknown; user?: SpotifyUser }>;
+  initialize: () => Promise<{ success: boolean; reason?: string; error?: unknown; user?: User }>;
   
   // Computed properties
   isTokenExpired: () => boolean;
@@ -24,21 +37,71 @@ interface AuthStore extends AuthState {
 }
 
 /**
- * Check if token is expired or will expire within 5 minutes
+ * Check if token is expired or will expire within the refresh margin (5 minutes)
  */
 function isTokenExpired(tokens: AuthTokens | null): boolean {
   if (!tokens) return true;
   // If tokens is actually StoredAuthTokens and has expires_at, compare against it
   const maybeStored = tokens as StoredAuthTokens;
   if (maybeStored.expires_at && typeof maybeStored.expires_at === 'number') {
-    const fiveMinutesFromNow = Date.now() + 5 * 60 * 1000;
-    return maybeStored.expires_at <= fiveMinutesFromNow;
+    return maybeStored.expires_at <= Date.now() + TOKEN_REFRESH_SKEW_MS;
   }
 
   // If we don't have an absolute expiry, conservatively treat as expired to trigger refresh flow
   return true;
 }
 
+/**
+ * Fetch the user profile and hydrate the settings store from the same response
+ */
+async function loadProfile(): Promise<User> {
+  const { user, settings } = await authService.getProfile();
+  if (settings) {
+    useSettingsStore.getState().hydrate(settings);
+  }
+  return user;
+}
+
+/**
+ * Drop answers queued offline so they are never sent with the next user's session
+ */
+function clearAnswerOutbox(): void {
+  answerOutbox.clear().catch((error) => {
+    console.warn('Failed to clear queued answers:', error);
+  });
+}
+
+// Single proactive refresh scheduler shared by every consumer of the store
+const tokenLifecycle = new TokenLifecycleManager({
+  refresh: () => authService.refreshToken(),
+  onExpired: (error) => {
+    console.warn('Token refresh retries exhausted, logging out:', error);
+    useAuthStore.getState().logout();
+  },
+  onStateChange: (tokenRefresh) => useAuthStore.setState({ tokenRefresh }),
+});
+
+/**
+ * Stop the refresh timer and reset every store holding the user's data, so
+ * nothing carries over to the next user - both on logout here and in another tab
+ */
+function clearUserState(): void {
+  tokenLifecycle.stop();
+  useSettingsStore.getState().reset();
+  useSessionStore.getState().clearSession();
+  useResultsStore.getState().clearResults();
+  useEditedQuizzesStore.getState().clearQuizzes();
+  usePlaybackStore.getState().reset();
+  clearAnswerOutbox();
+  useAuthStore.setState({
+    isAuthenticated: false,
+    user: null,
+    tokens: null,
+    isLoading: false,
+    error: null,
+  });
+}
+
 export const useAuthStore = create<AuthStore>()(
   devtools(
     persist(
@@ -49,6 +112,7 @@ export const useAuthStore = create<AuthStore>()(
         tokens: null,
         isLoading: false,
         error: null,
+        tokenRefresh: initialTokenRefreshState,
 
         // Actions
         setTokens: (tokens: AuthTokens) => {
@@ -58,9 +122,12 @@ export const useAuthStore = create<AuthStore>()(
             isAuthenticated: true,
             error: null,
           }));
+
+          // Re-arm the proactive refresh for the new expiry
+          tokenLifecycle.schedule(tokens);
         },
 
-        setUser: (user: SpotifyUser | null) => {
+        setUser: (user: User | null) => {
           set((state) => ({
             ...state,
             user,
@@ -93,15 +160,7 @@ export const useAuthStore = create<AuthStore>()(
         logout: () => {
           // Clear auth service data
           authService.logout();
-          
-          // Reset store state
-          set({
-            isAuthenticated: false,
-            user: null,
-            tokens: null,
-            isLoading: false,
-            error: null,
-          });
+          clearUserState();
         },
 
         initialize: async () => {
@@ -111,27 +170,33 @@ export const useAuthStore = create<AuthStore>()(
             setLoading(true);
             setError(null);
 
-            // Check if we have stored tokens
+            // Access tokens are kept in memory only, so after a page load the
+            // session is restored from another open tab or silently from the
+            // HttpOnly refresh cookie
             const storedTokens = authService.getStoredTokens();
-            
-            if (!storedTokens) {
-              // No tokens, user is not authenticated
-              setLoading(false);
-              return { success: false, reason: 'no_tokens' };
-            }
 
-            // Check if token is expired
-            if (isTokenExpired(storedTokens)) {
+            if (!storedTokens || isTokenExpired(storedTokens)) {
               try {
-                // Try to refresh the token
-                const newTokens = await authService.refreshToken();
+                const newTokens = await authService.restoreSession();
                 setTokens(newTokens);
               } catch (refreshError) {
-                // Refresh failed, clear tokens and logout
-                console.warn('Token refresh failed during initialization:', refreshError);
-                authService.logout();
-                setLoading(false);
-                return { success: false, reason: 'refresh_failed', error: refreshError };
+                // No valid refresh cookie, user is not authenticated
+                console.warn('Silent token refresh failed during initialization:', refreshError);
+                if (storedTokens) {
+                  authService.logout();
+                }
+                tokenLifecycle.stop();
+                set({
+                  isAuthenticated: false,
+                  user: null,
+                  tokens: null,
+                  isLoading: false,
+                });
+                return {
+                  success: false,
+                  reason: storedTokens ? 'refresh_failed' : 'no_session',
+                  error: refreshError,
+                };
               }
             } else {
               // Tokens are valid, set them in store
@@ -140,7 +205,7 @@ export const useAuthStore = create<AuthStore>()(
 
             // Get user profile
             try {
-              const user = await authService.getCurrentUser();
+              const user = await loadProfile();
               setUser(user);
               setLoading(false);
               return { success: true, user };
@@ -186,6 +251,16 @@ export const useAuthStore = create<AuthStore>()(
       }),
       {
         name: 'vibeguess-auth',
+        // v1: user is the normalized User model instead of the raw Spotify profile
+        version: 1,
+        migrate: (persistedState, version) => {
+          const state = persistedState as Pick<AuthState, 'isAuthenticated' | 'user'>;
+          if (version < 1) {
+            const user = tryNormalizeUser(state.user);
+            return { user, isAuthenticated: !!user && !!state.isAuthenticated };
+          }
+          return state;
+        },
         // Only persist essential data, not sensitive tokens
         partialize: (state) => ({
           isAuthenticated: state.isAuthenticated,
@@ -200,17 +275,40 @@ export const useAuthStore = create<AuthStore>()(
   )
 );
 
+// Mirror logins, refreshes and logouts made in other tabs - and this tab's
+// own refreshes - into this tab's store
+authService.onSessionChange((event) => {
+  const { user, setTokens, setUser } = useAuthStore.getState();
+
+  if (event.type === 'logout') {
+    clearUserState();
+    return;
+  }
+
+  setTokens(event.tokens);
+  if (event.type === 'refreshed') return;
+
+  // Another tab logged in - load the profile for this tab too
+  if (!user) {
+    loadProfile()
+      .then(setUser)
+      .catch((error) => {
+        console.warn('Failed to load user after cross-tab login:', error);
+      });
+  }
+});
+
 // Helper hook for common auth operations
 export const useAuthActions = () => {
   const store = useAuthStore();
   
   return {
-    login: async () => {
+    login: async (returnTo?: string) => {
       try {
         store.setLoading(true);
         store.clearError();
         
-        const { authorization_url } = await authService.initiateSpotifyLogin();
+        const { authorization_url } = await authService.initiateSpotifyLogin(returnTo);
         
         // Redirect to Spotify
         window.location.href = authorization_url;
@@ -230,7 +328,7 @@ export const useAuthActions = () => {
         store.setTokens(tokens);
 
         // Get user profile
-        const user = await authService.getCurrentUser();
+        const user = await loadProfile();
         store.setUser(user);
 
         return { tokens, user };
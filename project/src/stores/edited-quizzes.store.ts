@@ -0,0 +1,62 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import type { Quiz } from '@/types/quiz';
+
+/**
+ * Edited quizzes store using Zustand
+ * The API cannot update a quiz, so quizzes fixed in the editor are kept
+ * on this device.
+ */
+interface EditedQuizzesStore {
+  /** Edited quizzes by ID */
+  quizzes: Record<string, Quiz>;
+
+  // Actions
+  saveQuiz: (quiz: Quiz) => void;
+  /** Drop the edits to a quiz */
+  removeQuiz: (id: string) => void;
+  clearQuizzes: () => void;
+}
+
+export const useEditedQuizzesStore = create<EditedQuizzesStore>()(
+  devtools(
+    persist(
+      set => ({
+        // Initial state
+        quizzes: {},
+
+        // Actions
+        saveQuiz: (quiz: Quiz) => {
+          set(state => ({
+            ...state,
+            quizzes: { ...state.quizzes, [quiz.id]: quiz },
+          }));
+        },
+
+        removeQuiz: (id: string) => {
+          set(state => {
+            const quizzes = { ...state.quizzes };
+            delete quizzes[id];
+            return { ...state, quizzes };
+          });
+        },
+
+        clearQuizzes: () => {
+          set(state => ({
+            ...state,
+            quizzes: {},
+          }));
+        },
+      }),
+      {
+        name: 'vibeguess-edited-quizzes',
+        partialize: state => ({
+          quizzes: state.quizzes,
+        }),
+      }
+    ),
+    {
+      name: 'edited-quizzes-store',
+    }
+  )
+);
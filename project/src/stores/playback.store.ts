@@ -0,0 +1,214 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import type {
+  PlaybackControlResponse,
+  PlaybackPlayRequest,
+  PlaybackState,
+  SpotifyDevice,
+} from '@/types/spotify';
+import playbackService from '@/services/playback.service';
+import { useSettingsStore } from '@/stores/settings.store';
+import { applyControlResponse, toPlaybackState } from '@/lib/playback-state';
+import { measureClockOffset, smoothClockOffset } from '@/lib/playback-sync';
+import { PremiumRequiredError, getErrorMessage } from '@/utils/error-handling';
+
+export type PlaybackCommand = 'play' | 'pause' | 'seek' | 'volume';
+
+/**
+ * Playback store using Zustand
+ * Tracks the user's Spotify devices, the selected device and what is
+ * playing, and sends playback commands through the playback service.
+ * Commands update the state from their responses; failures are kept as an
+ * error message and rethrown. Playback times are on the server's clock,
+ * whether they come from a status or a command response.
+ */
+interface PlaybackStore {
+  devices: SpotifyDevice[];
+  /** Device commands are sent to */
+  selectedDeviceId: string | null;
+  /** Current playback; null when nothing is playing or it is not known yet */
+  playback: PlaybackState | null;
+  isLoadingDevices: boolean;
+  /** Command waiting for a response */
+  pendingCommand: PlaybackCommand | null;
+  /** Server clock minus the local clock, smoothed over status polls; null until measured */
+  clockOffsetMs: number | null;
+  error: string | null;
+  /** The last command failed because the user does not have Spotify Premium */
+  premiumRequired: boolean;
+
+  // Actions
+  loadDevices: () => Promise<SpotifyDevice[]>;
+  selectDevice: (deviceId: string | null) => void;
+  /** Start a track (or resume) on the selected device */
+  play: (request?: Omit<PlaybackPlayRequest, 'deviceId'>) => Promise<void>;
+  pause: () => Promise<void>;
+  seek: (positionMs: number) => Promise<void>;
+  /** Set the selected device's volume, 0-100 */
+  setVolume: (volumePercent: number) => Promise<void>;
+  refreshStatus: () => Promise<PlaybackState | null>;
+  clearError: () => void;
+  reset: () => void;
+}
+
+const initialState = {
+  devices: [],
+  selectedDeviceId: null,
+  playback: null,
+  isLoadingDevices: false,
+  pendingCommand: null,
+  clockOffsetMs: null,
+  error: null,
+  premiumRequired: false,
+};
+
+export const usePlaybackStore = create<PlaybackStore>()(
+  devtools(
+    persist(
+      (set, get) => {
+        /**
+         * Send a command and merge its response into the playback state
+         */
+        const runCommand = async (
+          command: PlaybackCommand,
+          send: (deviceId: string) => Promise<PlaybackControlResponse>
+        ) => {
+          const { selectedDeviceId } = get();
+          if (!selectedDeviceId) {
+            const message = 'Choose a device to play on first';
+            set((state) => ({ ...state, error: message }));
+            throw new Error(message);
+          }
+
+          set((state) => ({ ...state, pendingCommand: command, error: null }));
+          try {
+            const response = await send(selectedDeviceId);
+            set((state) => ({
+              ...state,
+              playback: applyControlResponse(
+                state.playback,
+                response,
+                Date.now() + (state.clockOffsetMs ?? 0)
+              ),
+              pendingCommand: null,
+              premiumRequired: false,
+            }));
+          } catch (error) {
+            set((state) => ({
+              ...state,
+              pendingCommand: null,
+              error: getErrorMessage(
+                error,
+                command === 'volume' ? 'Failed to change the volume' : `Failed to ${command}`
+              ),
+              premiumRequired: error instanceof PremiumRequiredError,
+            }));
+            throw error;
+          }
+        };
+
+        return {
+          // Initial state
+          ...initialState,
+
+          // Actions
+          loadDevices: async () => {
+            set((state) => ({ ...state, isLoadingDevices: true, error: null }));
+            try {
+              const devices = await playbackService.getDevices();
+              set((state) => ({
+                ...state,
+                devices,
+                isLoadingDevices: false,
+                premiumRequired: false,
+              }));
+              return devices;
+            } catch (error) {
+              set((state) => ({
+                ...state,
+                isLoadingDevices: false,
+                error: getErrorMessage(error, 'Failed to load devices'),
+                premiumRequired: error instanceof PremiumRequiredError,
+              }));
+              throw error;
+            }
+          },
+
+          selectDevice: (deviceId: string | null) => {
+            set((state) => ({
+              ...state,
+              selectedDeviceId: deviceId,
+            }));
+          },
+
+          play: (request = {}) =>
+            runCommand('play', (deviceId) => playbackService.play({ ...request, deviceId })),
+
+          pause: () => runCommand('pause', (deviceId) => playbackService.pause(deviceId)),
+
+          seek: (positionMs: number) =>
+            runCommand('seek', (deviceId) => playbackService.seek(positionMs, deviceId)),
+
+          setVolume: (volumePercent: number) =>
+            runCommand('volume', (deviceId) => playbackService.setVolume(volumePercent, deviceId)),
+
+          refreshStatus: async () => {
+            try {
+              const requestedAt = Date.now();
+              const status = await playbackService.getStatus();
+              const receivedAt = Date.now();
+
+              let { clockOffsetMs } = get();
+              const measuredAt = status ? Date.parse(status.timestamp) : NaN;
+              if (!Number.isNaN(measuredAt)) {
+                const sample = measureClockOffset(measuredAt, requestedAt, receivedAt);
+                clockOffsetMs = smoothClockOffset(clockOffsetMs, sample);
+              }
+              const playback = status && toPlaybackState(status, receivedAt + (clockOffsetMs ?? 0));
+              set((state) => ({ ...state, playback, clockOffsetMs }));
+              return playback;
+            } catch (error) {
+              set((state) => ({
+                ...state,
+                error: getErrorMessage(error, 'Failed to load playback status'),
+              }));
+              throw error;
+            }
+          },
+
+          clearError: () => {
+            set((state) => ({
+              ...state,
+              error: null,
+              premiumRequired: false,
+            }));
+          },
+
+          reset: () => {
+            set(initialState);
+          },
+        };
+      },
+      {
+        name: 'vibeguess-playback',
+        // Devices and playback go stale; only the chosen device is kept, and
+        // only while the user wants it remembered
+        partialize: (state) => ({
+          selectedDeviceId: useSettingsStore.getState().settings.rememberDeviceSelection
+            ? state.selectedDeviceId
+            : null,
+        }),
+      }
+    ),
+    {
+      name: 'playback-store',
+    }
+  )
+);
+
+// Forget the remembered device as soon as remembering is turned off
+useSettingsStore.subscribe((state, previous) => {
+  if (previous.settings.rememberDeviceSelection && !state.settings.rememberDeviceSelection) {
+    usePlaybackStore.persist.clearStorage();
+  }
+});
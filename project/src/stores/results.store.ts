@@ -0,0 +1,84 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import type { QuizResult } from '@/types/session';
+import type { SubmitAnswerResponse } from '@/types/quiz';
+import { syncResultAnswer } from '@/lib/quiz-session';
+
+// Oldest results are forgotten beyond this many
+export const MAX_SAVED_RESULTS = 20;
+
+/**
+ * Quiz results store using Zustand
+ * Keeps the results of recently completed sessions for the results page;
+ * the API has no endpoint to fetch them again.
+ */
+interface ResultsStore {
+  /** Results by session ID */
+  results: Record<string, QuizResult>;
+
+  // Actions
+  /** Save or update the result of a session */
+  saveResult: (result: QuizResult) => void;
+  /** Record that an answer given offline reached the server or was rejected */
+  syncAnswer: (
+    sessionId: string,
+    questionId: string,
+    syncStatus: 'synced' | 'failed',
+    response?: SubmitAnswerResponse
+  ) => void;
+  clearResults: () => void;
+}
+
+export const useResultsStore = create<ResultsStore>()(
+  devtools(
+    persist(
+      set => ({
+        // Initial state
+        results: {},
+
+        // Actions
+        saveResult: (result: QuizResult) => {
+          set(state => {
+            const results = Object.values({ ...state.results, [result.sessionId]: result })
+              .sort((a, b) => b.completedAt.localeCompare(a.completedAt))
+              .slice(0, MAX_SAVED_RESULTS);
+            return {
+              ...state,
+              results: Object.fromEntries(results.map(saved => [saved.sessionId, saved])),
+            };
+          });
+        },
+
+        syncAnswer: (sessionId, questionId, syncStatus, response) => {
+          set(state => {
+            const result = state.results[sessionId];
+            if (!result) return state;
+            return {
+              ...state,
+              results: {
+                ...state.results,
+                [sessionId]: syncResultAnswer(result, questionId, syncStatus, response),
+              },
+            };
+          });
+        },
+
+        clearResults: () => {
+          set(state => ({
+            ...state,
+            results: {},
+          }));
+        },
+      }),
+      {
+        name: 'vibeguess-quiz-results',
+        partialize: state => ({
+          results: state.results,
+        }),
+      }
+    ),
+    {
+      name: 'results-store',
+    }
+  )
+);
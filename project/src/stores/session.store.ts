@@ -0,0 +1,62 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import type { ActiveSessionRecord } from '@/types/session';
+
+/**
+ * Active quiz session store using Zustand
+ * Persists the session being played so it can be resumed after a reload
+ */
+interface SessionStore {
+  activeSession: ActiveSessionRecord | null;
+
+  // Actions
+  saveSession: (record: ActiveSessionRecord) => void;
+  /** Record that the player is still in the session */
+  touchSession: (sessionId: string, at: number) => void;
+  /** Forget the saved session; with an ID, only if it is still the saved one */
+  clearSession: (sessionId?: string) => void;
+}
+
+export const useSessionStore = create<SessionStore>()(
+  devtools(
+    persist(
+      set => ({
+        // Initial state
+        activeSession: null,
+
+        // Actions
+        saveSession: (record: ActiveSessionRecord) => {
+          set(state => ({
+            ...state,
+            activeSession: record,
+          }));
+        },
+
+        touchSession: (sessionId: string, at: number) => {
+          set(state =>
+            state.activeSession?.sessionId === sessionId
+              ? { ...state, activeSession: { ...state.activeSession, lastActiveAt: at } }
+              : state
+          );
+        },
+
+        clearSession: (sessionId?: string) => {
+          set(state =>
+            !sessionId || state.activeSession?.sessionId === sessionId
+              ? { ...state, activeSession: null }
+              : state
+          );
+        },
+      }),
+      {
+        name: 'vibeguess-active-session',
+        partialize: state => ({
+          activeSession: state.activeSession,
+        }),
+      }
+    ),
+    {
+      name: 'session-store',
+    }
+  )
+);
@@ -0,0 +1,125 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import type { UserSettings } from '@/types/user';
+import authService from '@/services/auth.service';
+import { DEFAULT_USER_SETTINGS, normalizeSettings, validateSettings } from '@/utils/settings';
+
+/**
+ * User settings store using Zustand
+ * Hydrated from /auth/me and updated optimistically with rollback on failure
+ */
+interface SettingsStore {
+  settings: UserSettings;
+  /** Whether settings have been loaded from the backend this session */
+  isHydrated: boolean;
+  /** Number of updates currently being saved */
+  pendingUpdates: number;
+  error: string | null;
+
+  // Actions
+  hydrate: (settings: unknown) => void;
+  updateSettings: (changes: Partial<UserSettings>) => Promise<UserSettings>;
+  clearError: () => void;
+  reset: () => void;
+}
+
+export const useSettingsStore = create<SettingsStore>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        // Initial state
+        settings: DEFAULT_USER_SETTINGS,
+        isHydrated: false,
+        pendingUpdates: 0,
+        error: null,
+
+        // Actions
+        hydrate: (settings: unknown) => {
+          set((state) => ({
+            ...state,
+            settings: normalizeSettings(settings),
+            isHydrated: true,
+          }));
+        },
+
+        updateSettings: async (changes: Partial<UserSettings>) => {
+          const errors = validateSettings(changes);
+          const firstError = Object.values(errors)[0];
+          if (firstError) {
+            set((state) => ({ ...state, error: firstError }));
+            throw new Error(firstError);
+          }
+
+          const previous = get().settings;
+
+          // Optimistic update
+          set((state) => ({
+            ...state,
+            settings: { ...state.settings, ...changes },
+            pendingUpdates: state.pendingUpdates + 1,
+            error: null,
+          }));
+
+          try {
+            const saved = await authService.updateSettings(changes);
+            set((state) => ({
+              ...state,
+              // Keep optimistic values of updates that are still in flight
+              settings: state.pendingUpdates > 1 ? { ...saved, ...state.settings } : saved,
+              pendingUpdates: state.pendingUpdates - 1,
+            }));
+            return saved;
+          } catch (error) {
+            set((state) => {
+              // Roll back only fields no later update has changed since
+              const rolledBack = { ...state.settings };
+              (Object.keys(changes) as Array<keyof UserSettings>).forEach((key) => {
+                if (rolledBack[key] === changes[key]) {
+                  (rolledBack as Record<keyof UserSettings, unknown>)[key] = previous[key];
+                }
+              });
+
+              return {
+                ...state,
+                settings: rolledBack,
+                pendingUpdates: state.pendingUpdates - 1,
+                error: error instanceof Error ? error.message : 'Failed to save settings',
+              };
+            });
+            throw error;
+          }
+        },
+
+        clearError: () => {
+          set((state) => ({
+            ...state,
+            error: null,
+          }));
+        },
+
+        reset: () => {
+          set({
+            settings: DEFAULT_USER_SETTINGS,
+            isHydrated: false,
+            pendingUpdates: 0,
+            error: null,
+          });
+        },
+      }),
+      {
+        name: 'vibeguess-settings',
+        // Persist settings so defaults are available before /auth/me resolves
+        partialize: (state) => ({
+          settings: state.settings,
+        }),
+        merge: (persisted, current) => ({
+          ...current,
+          settings: normalizeSettings((persisted as Partial<SettingsStore> | undefined)?.settings),
+        }),
+      }
+    ),
+    {
+      name: 'settings-store',
+    }
+  )
+);
@@ -1,5 +1,6 @@
 import { http, HttpResponse } from 'msw';
-import type { AuthTokens, LoginResponse, CallbackRequest, SpotifyUser } from '@/types/auth';
+import type { AuthTokens, CallbackRequest, SpotifyLoginResponse, SpotifyUser } from '@/types/auth';
+import type { BackendUserPayload, UserSettings } from '@/types/user';
 
 /**
  * MSW handlers for mocking OAuth API responses
@@ -25,6 +26,27 @@ const mockSpotifyUser: SpotifyUser = {
   },
 };
 
+// Mock backend user data (camelCase shape returned by /auth/*)
+const mockBackendUser: BackendUserPayload = {
+  id: 'test_user_123',
+  displayName: 'Test User',
+  email: 'test@example.com',
+  country: 'US',
+  hasSpotifyPremium: true,
+  profileImageUrl: 'https://via.placeholder.com/300x300?text=User',
+  createdAt: '2025-09-15T10:00:00Z',
+  lastLoginAt: '2025-09-21T14:30:00Z',
+};
+
+// Mock user settings, updated in place by the settings handler
+let mockSettings: UserSettings = {
+  preferredLanguage: 'en',
+  enableAudioPreview: true,
+  defaultQuestionCount: 10,
+  defaultDifficulty: 'Medium',
+  rememberDeviceSelection: false,
+};
+
 // Mock tokens
 const mockTokens: AuthTokens = {
   access_token: 'BQC4WK3cEY0fJnMockAccessToken123456789',
@@ -37,8 +59,9 @@ const mockTokens: AuthTokens = {
 export const authHandlers = [
   // Mock login initiation
   http.post('http://localhost:3001/api/auth/spotify/login', () => {
-    const response: LoginResponse = {
-      authorization_url: 'http://localhost:5173/callback?code=mock_auth_code&state=mock_state_12345678901234567890',
+    const response: SpotifyLoginResponse = {
+      authorizationUrl: 'http://localhost:5173/callback?code=mock_auth_code&state=mock_state_12345678901234567890',
+      codeVerifier: 'mock_code_verifier_1234567890123456789012345678901234',
       state: 'mock_state_12345678901234567890',
     };
     
@@ -60,41 +83,94 @@ export const authHandlers = [
           error: 'invalid_request',
           error_description: 'Missing required parameters: code or state'
         },
-        { status: 400 }
+        { status: 400, headers: { 'X-Correlation-ID': crypto.randomUUID() } }
       );
     }
 
     // Simulate token exchange delay
     await new Promise(resolve => setTimeout(resolve, 1000));
     
-    return HttpResponse.json(mockTokens);
+    return HttpResponse.json({
+      accessToken: mockTokens.access_token,
+      refreshToken: mockTokens.refresh_token,
+      expiresIn: mockTokens.expires_in,
+      tokenType: mockTokens.token_type,
+      user: mockBackendUser,
+    });
   }),
 
-  // Mock token refresh
-  http.post('http://localhost:3001/api/auth/spotify/refresh', async ({ request }) => {
-    const body = await request.json() as { refresh_token: string; client_id: string };
-    
-    if (!body.refresh_token) {
+  // Mock backend user profile
+  http.get('http://localhost:3001/api/auth/me', ({ request }) => {
+    const authHeader = request.headers.get('authorization');
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
       return HttpResponse.json(
-        { 
-          error: 'invalid_grant',
-          error_description: 'Refresh token is required'
+        {
+          error: 'invalid_token',
+          message: 'Invalid or expired access token'
+        },
+        { status: 401 }
+      );
+    }
+
+    return HttpResponse.json({
+      user: mockBackendUser,
+      settings: mockSettings,
+    });
+  }),
+
+  // Mock user settings update
+  http.patch('http://localhost:3001/api/auth/me/settings', async ({ request }) => {
+    const changes = await request.json() as Partial<UserSettings>;
+
+    if (
+      changes.defaultQuestionCount !== undefined &&
+      (changes.defaultQuestionCount < 5 || changes.defaultQuestionCount > 20)
+    ) {
+      return HttpResponse.json(
+        {
+          error: 'invalid_request',
+          message: 'defaultQuestionCount must be between 5 and 20'
         },
         { status: 400 }
       );
     }
 
+    mockSettings = { ...mockSettings, ...changes };
+    return HttpResponse.json({ settings: mockSettings });
+  }),
+
+  // Mock token refresh - the refresh token arrives as an HttpOnly cookie
+  http.post('http://localhost:3001/api/auth/refresh', async ({ cookies }) => {
+    if (!cookies.refresh_token) {
+      return HttpResponse.json(
+        { 
+          error: 'invalid_token',
+          message: 'Refresh token cookie is missing'
+        },
+        { status: 401 }
+      );
+    }
+
     // Simulate refresh delay
     await new Promise(resolve => setTimeout(resolve, 500));
     
-    // Return new tokens (with same refresh token for simplicity)
-    const refreshedTokens: AuthTokens = {
-      ...mockTokens,
-      access_token: 'BQC4WK3cEY0fJnRefreshedToken123456789',
-      expires_in: 3600,
-    };
-    
-    return HttpResponse.json(refreshedTokens);
+    // Return new tokens; the refresh token stays in the cookie
+    return HttpResponse.json({
+      accessToken: 'BQC4WK3cEY0fJnRefreshedToken123456789',
+      expiresIn: 3600,
+      tokenType: 'Bearer',
+    });
+  }),
+
+  // Mock logout - expire the refresh cookie
+  http.post('http://localhost:3001/api/auth/logout', () => {
+    return new HttpResponse(null, {
+      status: 204,
+      headers: {
+        'Set-Cookie': 'refresh_token=; Max-Age=0; Path=/',
+      },
+    });
   }),
 
   // Mock Spotify API - Get current user
@@ -1,13 +1,15 @@
 import { setupWorker } from 'msw/browser';
 import { authHandlers } from './auth.handlers';
+import { quizHandlers } from './quiz.handlers';
+import { playbackHandlers } from './playback.handlers';
 
 /**
  * Setup MSW (Mock Service Worker) for browser environment
  * This allows us to intercept and mock API requests during development
  */
 
-// Create MSW worker with auth handlers
-export const worker = setupWorker(...authHandlers);
+// Create MSW worker with auth, quiz and playback handlers
+export const worker = setupWorker(...authHandlers, ...quizHandlers, ...playbackHandlers);
 
 /**
  * Start MSW in development mode
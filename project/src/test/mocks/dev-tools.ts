@@ -52,8 +52,8 @@ if (import.meta.env.DEV) {
     
     // Clear auth data
     clearAuth: () => {
-      localStorage.removeItem('auth_tokens');
       localStorage.removeItem('auth_user');
+      document.cookie = 'refresh_token=; Max-Age=0; Path=/';
       sessionStorage.clear();
       console.log('🧹 Auth data cleared');
       window.location.reload();
@@ -0,0 +1,189 @@
+import { http, HttpResponse } from 'msw';
+import type {
+  PlaybackControlResponse,
+  PlaybackPlayRequest,
+  PlaybackSeekRequest,
+  PlaybackStatusResponse,
+  PlaybackVolumeRequest,
+  SpotifyDevice,
+} from '@/types/spotify';
+
+/**
+ * MSW handlers for mocking playback API responses
+ */
+
+const API_BASE_URL = 'http://localhost:3001/api';
+
+// Length of every mock track
+const MOCK_TRACK_DURATION_MS = 30000;
+
+export const mockDevices: SpotifyDevice[] = [
+  {
+    id: 'device-computer',
+    name: 'Web Player (Chrome)',
+    type: 'Computer',
+    isActive: true,
+    isPrivateSession: false,
+    isRestricted: false,
+    volumePercent: 65,
+    supportsVolume: true,
+  },
+  {
+    id: 'device-phone',
+    name: 'iPhone',
+    type: 'Smartphone',
+    isActive: false,
+    isPrivateSession: false,
+    isRestricted: false,
+    volumePercent: 100,
+    supportsVolume: false,
+  },
+];
+
+interface MockPlayback {
+  deviceId: string;
+  trackId?: string;
+  isPlaying: boolean;
+  positionMs: number;
+  // When positionMs was last set
+  since: number;
+}
+
+// Nothing plays until the first play command
+let mockPlayback: MockPlayback | null = null;
+// Volumes set with volume commands, by device
+const mockVolumes = new Map<string, number>();
+
+function getPosition(playback: MockPlayback): number {
+  const elapsed = playback.isPlaying ? Date.now() - playback.since : 0;
+  return Math.min(MOCK_TRACK_DURATION_MS, playback.positionMs + elapsed);
+}
+
+function findDevice(deviceId: string | undefined): SpotifyDevice | undefined {
+  return mockDevices.find(device => device.id === deviceId);
+}
+
+function deviceNotFound() {
+  return HttpResponse.json({ error: 'not_found', message: 'Device not found' }, { status: 404 });
+}
+
+function noActivePlayback() {
+  return HttpResponse.json(
+    { error: 'invalid_request', message: 'No active playback' },
+    { status: 400 }
+  );
+}
+
+function controlResponse(message: string, playback: MockPlayback): PlaybackControlResponse {
+  const device = findDevice(playback.deviceId)!;
+  return {
+    success: true,
+    message,
+    playbackState: {
+      isPlaying: playback.isPlaying,
+      ...(playback.trackId && { trackId: playback.trackId }),
+      positionMs: playback.positionMs,
+      device: { id: device.id, name: device.name },
+    },
+  };
+}
+
+export const playbackHandlers = [
+  http.get(`${API_BASE_URL}/playback/devices`, () => HttpResponse.json({ devices: mockDevices })),
+
+  http.post(`${API_BASE_URL}/playback/play`, async ({ request }) => {
+    const body = (await request.json()) as PlaybackPlayRequest;
+    if (!findDevice(body.deviceId)) return deviceNotFound();
+
+    const resuming = !body.trackId && mockPlayback?.deviceId === body.deviceId;
+    mockPlayback = {
+      deviceId: body.deviceId,
+      trackId: body.trackId ?? mockPlayback?.trackId,
+      isPlaying: true,
+      positionMs: body.positionMs ?? (resuming && mockPlayback ? getPosition(mockPlayback) : 0),
+      since: Date.now(),
+    };
+    return HttpResponse.json(controlResponse('Playback started', mockPlayback));
+  }),
+
+  http.post(`${API_BASE_URL}/playback/pause`, async ({ request }) => {
+    const body = (await request.json()) as { deviceId: string };
+    if (!findDevice(body.deviceId)) return deviceNotFound();
+    if (!mockPlayback) return noActivePlayback();
+
+    mockPlayback = {
+      ...mockPlayback,
+      isPlaying: false,
+      positionMs: getPosition(mockPlayback),
+      since: Date.now(),
+    };
+    return HttpResponse.json(controlResponse('Playback paused', mockPlayback));
+  }),
+
+  http.post(`${API_BASE_URL}/playback/seek`, async ({ request }) => {
+    const body = (await request.json()) as PlaybackSeekRequest;
+    if (!mockPlayback) return noActivePlayback();
+
+    mockPlayback = {
+      ...mockPlayback,
+      positionMs: Math.min(MOCK_TRACK_DURATION_MS, body.positionMs),
+      since: Date.now(),
+    };
+    return HttpResponse.json({
+      success: true,
+      message: 'Seeked',
+      playbackState: { isPlaying: mockPlayback.isPlaying, positionMs: mockPlayback.positionMs },
+    } satisfies PlaybackControlResponse);
+  }),
+
+  http.post(`${API_BASE_URL}/playback/volume`, async ({ request }) => {
+    const body = (await request.json()) as PlaybackVolumeRequest;
+    const device = findDevice(body.deviceId);
+    if (!device) return deviceNotFound();
+    if (!device.supportsVolume) {
+      return HttpResponse.json(
+        { error: 'invalid_request', message: 'Device does not support volume control' },
+        { status: 400 }
+      );
+    }
+
+    mockVolumes.set(device.id, body.volumePercent);
+    return HttpResponse.json({
+      success: true,
+      message: 'Volume set',
+      volumePercent: body.volumePercent,
+    } satisfies PlaybackControlResponse);
+  }),
+
+  http.get(`${API_BASE_URL}/playback/status`, () => {
+    if (!mockPlayback) {
+      return new HttpResponse(null, { status: 204 });
+    }
+
+    const device = findDevice(mockPlayback.deviceId)!;
+    const status: PlaybackStatusResponse = {
+      isPlaying: mockPlayback.isPlaying,
+      ...(mockPlayback.trackId && { trackId: mockPlayback.trackId }),
+      progressMs: getPosition(mockPlayback),
+      durationMs: MOCK_TRACK_DURATION_MS,
+      device: {
+        id: device.id,
+        name: device.name,
+        type: device.type,
+        volumePercent: mockVolumes.get(device.id) ?? device.volumePercent,
+      },
+      shuffleState: false,
+      repeatState: 'off',
+      timestamp: new Date().toISOString(),
+    };
+    return HttpResponse.json(status);
+  }),
+];
+
+/**
+ * Forget the mock playback and volumes, so the next status is 204 again
+ */
+export function resetMockPlayback() {
+  mockPlayback = null;
+  mockVolumes.clear();
+}
@@ -0,0 +1,317 @@
+import { http, HttpResponse, delay } from 'msw';
+import { scoreAnswer } from '@/lib/question-types';
+import type {
+  Question,
+  QuestionType,
+  Quiz,
+  QuizDetails,
+  QuizGenerationRequest,
+  QuizHistoryItem,
+  QuizSessionStatus,
+  StartSessionResponse,
+  SubmitAnswerRequest,
+  SubmitAnswerResponse,
+  UserQuizzesResponse,
+} from '@/types/quiz';
+import { estimateQuizDuration } from '@/utils/quiz';
+
+/**
+ * MSW handlers for mocking quiz API responses
+ */
+
+const API_BASE_URL = 'http://localhost:3001/api';
+
+interface MockSession {
+  quiz: Quiz;
+  currentQuestionIndex: number;
+  score: number;
+  answered: Set<string>;
+  startedAt: number;
+}
+
+// Quizzes generated during this page load, by ID
+const mockQuizzes = new Map<string, Quiz>();
+// Active and finished sessions, by session ID
+const mockSessions = new Map<string, MockSession>();
+
+// Artists used to build mock questions
+const mockArtists = [
+  'Nirvana',
+  'Pearl Jam',
+  'Soundgarden',
+  'Alice in Chains',
+  'Radiohead',
+  'Oasis',
+];
+
+/**
+ * Text, options and answer of a mock question of the given type
+ */
+function buildMockAnswer(
+  index: number,
+  type: QuestionType
+): Pick<Question, 'text' | 'type' | 'options' | 'correctAnswer'> {
+  const artist = mockArtists[index % mockArtists.length];
+  const artists = [0, 1, 2, 3].map(offset => mockArtists[(index + offset) % mockArtists.length]);
+
+  switch (type) {
+    case 'FreeText':
+      return {
+        text: `Which artist recorded track #${index + 1}?`,
+        type,
+        options: [],
+        correctAnswer: artist,
+      };
+    case 'YearGuess':
+      return {
+        text: `In which year was track #${index + 1} released?`,
+        type,
+        options: [],
+        correctAnswer: String(1990 + index),
+      };
+    case 'Ordering':
+      return {
+        text: 'Put these debut albums in release order',
+        type,
+        options: artists,
+        correctAnswer: JSON.stringify([...artists].sort()),
+      };
+    default:
+      return {
+        text: `Which artist recorded track #${index + 1}?`,
+        type: 'MultipleChoice',
+        options: artists,
+        correctAnswer: artist,
+      };
+  }
+}
+
+function buildMockQuestion(
+  index: number,
+  includeAudio: boolean,
+  type: QuestionType = 'MultipleChoice'
+): Question {
+  const artist = mockArtists[index % mockArtists.length];
+
+  return {
+    id: `question_${index + 1}`,
+    ...buildMockAnswer(index, type),
+    ...(includeAudio && {
+      spotifyTrack: {
+        id: `track_${index + 1}`,
+        name: `Track ${index + 1}`,
+        artist,
+        previewUrl: null,
+        durationMs: 210000,
+      },
+    }),
+  };
+}
+
+// Quiz history for the library, newest first
+const mockHistory: QuizHistoryItem[] = Array.from({ length: 27 }, (_, index) => {
+  const difficulty = (['Easy', 'Medium', 'Hard'] as const)[index % 3];
+  const createdAt = new Date(Date.UTC(2025, 8, 30 - index, 18)).toISOString();
+  const isActive = index % 5 === 0;
+  const totalQuestions = 5 + (index % 4) * 5;
+
+  return {
+    id: `quiz_history_${index + 1}`,
+    title: `${mockArtists[index % mockArtists.length]} deep cuts #${index + 1}`,
+    totalQuestions,
+    difficulty,
+    isActive,
+    createdAt,
+    tags: [['grunge', '90s'], ['britpop', '90s'], ['alternative']][index % 3],
+    ...(isActive
+      ? { sessionId: `session_history_${index + 1}` }
+      : {
+          completedAt: new Date(Date.parse(createdAt) + 15 * 60 * 1000).toISOString(),
+          score: (index * 7) % (totalQuestions + 1),
+        }),
+  };
+});
+
+function buildMockQuiz(id: string): Quiz {
+  const questionCount = 5;
+  return {
+    id,
+    title: '90s Rock Legends',
+    description: 'How well do you know the bands that defined the decade?',
+    questionCount,
+    difficulty: 'Medium',
+    estimatedDuration: estimateQuizDuration(questionCount, 'Medium'),
+    createdAt: new Date().toISOString(),
+    questions: Array.from({ length: questionCount }, (_, index) => buildMockQuestion(index, true)),
+  };
+}
+
+export const quizHandlers = [
+  // The user's quiz history
+  http.get(`${API_BASE_URL}/quiz/my-quizzes`, ({ request }) => {
+    const url = new URL(request.url);
+    const page = Math.max(1, Number(url.searchParams.get('page')) || 1);
+    const limit = Math.min(50, Math.max(1, Number(url.searchParams.get('limit')) || 10));
+    const status = url.searchParams.get('status') ?? 'all';
+
+    const quizzes = mockHistory.filter(item =>
+      status === 'active' ? item.isActive : status === 'completed' ? !item.isActive : true
+    );
+    const totalPages = Math.ceil(quizzes.length / limit);
+    const response: UserQuizzesResponse = {
+      quizzes: quizzes.slice((page - 1) * limit, page * limit),
+      pagination: {
+        page,
+        limit,
+        total: quizzes.length,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrevious: page > 1,
+      },
+    };
+    return HttpResponse.json(response);
+  }),
+
+  // Generate a quiz from a prompt
+  http.post(`${API_BASE_URL}/quiz/generate`, async ({ request }) => {
+    const params = (await request.json()) as QuizGenerationRequest;
+
+    // Generation takes a while on the real backend
+    await delay(1500);
+
+    const quiz: Quiz = {
+      id: `quiz_${Date.now()}`,
+      title: `Quiz: ${params.prompt}`,
+      description: `${params.questionCount} questions about ${params.prompt}`,
+      questionCount: params.questionCount,
+      difficulty: params.difficulty,
+      estimatedDuration: estimateQuizDuration(params.questionCount, params.difficulty),
+      createdAt: new Date().toISOString(),
+      questions: Array.from({ length: params.questionCount }, (_, index) =>
+        buildMockQuestion(index, params.includeAudio, params.format)
+      ),
+    };
+    mockQuizzes.set(quiz.id, quiz);
+
+    return HttpResponse.json(quiz, { status: 201 });
+  }),
+
+  // Quiz metadata - unknown quiz IDs get a default quiz
+  http.get(`${API_BASE_URL}/quiz/:id`, ({ params }) => {
+    const quizId = String(params.id);
+    const quiz = mockQuizzes.get(quizId) ?? buildMockQuiz(quizId);
+    const details: QuizDetails = {
+      id: quiz.id,
+      title: quiz.title,
+      description: quiz.description,
+      questionCount: quiz.questionCount,
+      difficulty: quiz.difficulty,
+      createdBy: quiz.createdBy ?? 'mock_user',
+      isPublic: quiz.isPublic ?? true,
+      tags: quiz.tags ?? ['90s', 'rock'],
+      createdAt: quiz.createdAt,
+      estimatedDuration: quiz.estimatedDuration,
+    };
+    return HttpResponse.json(details);
+  }),
+
+  // Start a session - unknown quiz IDs get a default quiz
+  http.post(`${API_BASE_URL}/quiz/:id/start-session`, ({ params }) => {
+    const quizId = String(params.id);
+    const quiz = mockQuizzes.get(quizId) ?? buildMockQuiz(quizId);
+    const sessionId = `session_${Date.now()}`;
+    mockSessions.set(sessionId, {
+      quiz,
+      currentQuestionIndex: 0,
+      score: 0,
+      answered: new Set(),
+      startedAt: Date.now(),
+    });
+
+    const response: StartSessionResponse = {
+      sessionId,
+      quizId,
+      currentQuestionIndex: 0,
+      score: 0,
+      startedAt: new Date().toISOString(),
+      isActive: true,
+      quiz,
+    };
+    return HttpResponse.json(response, { status: 201 });
+  }),
+
+  // Submit an answer
+  http.post(`${API_BASE_URL}/quiz/:sessionId/answer`, async ({ params, request }) => {
+    const session = mockSessions.get(String(params.sessionId));
+    if (!session) {
+      return HttpResponse.json(
+        { error: 'not_found', message: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const answer = (await request.json()) as SubmitAnswerRequest;
+    if (session.answered.has(answer.questionId)) {
+      return HttpResponse.json(
+        { error: 'conflict', message: 'Question already answered' },
+        { status: 409 }
+      );
+    }
+
+    const question = session.quiz.questions.find(item => item.id === answer.questionId);
+    if (!question) {
+      return HttpResponse.json(
+        { error: 'invalid_request', message: 'Invalid question ID' },
+        { status: 400 }
+      );
+    }
+
+    const { isCorrect } = scoreAnswer(question, answer.selectedAnswer);
+    session.answered.add(question.id);
+    session.score += isCorrect ? 1 : 0;
+    session.currentQuestionIndex += 1;
+
+    const totalQuestions = session.quiz.questions.length;
+    const isSessionComplete = session.currentQuestionIndex >= totalQuestions;
+    const response: SubmitAnswerResponse = {
+      isCorrect,
+      correctAnswer: question.correctAnswer,
+      currentScore: session.score,
+      isSessionComplete,
+      ...(isSessionComplete
+        ? {
+            sessionResult: {
+              finalScore: session.score,
+              totalQuestions,
+              percentage: Math.round((session.score / totalQuestions) * 100),
+              completedAt: new Date().toISOString(),
+            },
+          }
+        : { nextQuestionIndex: session.currentQuestionIndex }),
+    };
+    return HttpResponse.json(response);
+  }),
+
+  // Session progress
+  http.get(`${API_BASE_URL}/quiz/:sessionId/status`, ({ params }) => {
+    const sessionId = String(params.sessionId);
+    const session = mockSessions.get(sessionId);
+    if (!session) {
+      return HttpResponse.json(
+        { error: 'not_found', message: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const questionsRemaining = session.quiz.questions.length - session.currentQuestionIndex;
+    const status: QuizSessionStatus = {
+      sessionId,
+      isActive: questionsRemaining > 0,
+      currentQuestionIndex: session.currentQuestionIndex,
+      score: session.score,
+      questionsRemaining,
+      timeElapsed: Date.now() - session.startedAt,
+    };
+    return HttpResponse.json(status);
+  }),
+];
@@ -0,0 +1,13 @@
+/**
+ * Shared API types
+ * Derived from the runtime schemas in @/schemas
+ */
+
+import type { Infer } from '@/lib/schema';
+import type { healthResponseSchema, serviceHealthResponseSchema } from '@/schemas/health';
+
+/** GET /health response */
+export type HealthResponse = Infer<typeof healthResponseSchema>;
+
+/** POST /health/test/{service} response */
+export type ServiceHealthResponse = Infer<typeof serviceHealthResponseSchema>;
@@ -3,11 +3,21 @@
  * Following OAuth 2.0 PKCE flow for secure authentication
  */
 
+import type { Infer } from '@/lib/schema';
+import type {
+  refreshTokenResponseSchema,
+  spotifyCallbackResponseSchema,
+  spotifyLoginResponseSchema,
+  userProfileResponseSchema,
+} from '@/schemas/auth';
+import type { spotifyUserSchema } from '@/schemas/user';
+import type { User } from './user';
+
 export interface AuthTokens {
   /** Spotify access token for API requests */
   access_token: string;
-  /** Refresh token for getting new access tokens */
-  refresh_token: string;
+  /** Refresh token for getting new access tokens (absent when held in an HttpOnly cookie) */
+  refresh_token?: string;
   /** Token expiry time in seconds */
   expires_in: number;
   /** Always 'Bearer' for Spotify tokens */
@@ -16,40 +26,50 @@ export interface AuthTokens {
   scope: string;
 }
 
-export interface SpotifyUser {
-  /** Spotify user ID */
-  id: string;
-  /** Display name (can be null) */
-  display_name: string | null;
-  /** User email */
-  email: string;
-  /** Profile images array */
-  images: Array<{
-    url: string;
-    height: number | null;
-    width: number | null;
-  }>;
-  /** Subscription type */
-  product: 'free' | 'premium';
-  /** User's country code */
-  country: string;
-  /** Total followers */
-  followers: {
-    total: number;
-  };
-}
+/**
+ * Raw Spotify Web API user profile (GET https://api.spotify.com/v1/me)
+ * Normalize with normalizeUser() before use in the app
+ */
+export type SpotifyUser = Infer<typeof spotifyUserSchema>;
+
+/** POST /auth/spotify/login response */
+export type SpotifyLoginResponse = Infer<typeof spotifyLoginResponseSchema>;
+
+/** POST /auth/spotify/callback response */
+export type SpotifyCallbackResponse = Infer<typeof spotifyCallbackResponseSchema>;
+
+/** POST /auth/refresh response */
+export type RefreshTokenResponse = Infer<typeof refreshTokenResponseSchema>;
+
+/** GET /auth/me response */
+export type UserProfileResponse = Infer<typeof userProfileResponseSchema>;
 
 export interface AuthState {
   /** Whether user is authenticated */
   isAuthenticated: boolean;
   /** Current user data */
-  user: SpotifyUser | null;
+  user: User | null;
   /** Authentication tokens */
   tokens: AuthTokens | null;
   /** Loading state for auth operations */
   isLoading: boolean;
   /** Error message if auth fails */
   error: string | null;
+  /** Proactive token refresh scheduler state */
+  tokenRefresh: TokenRefreshState;
+}
+
+export interface TokenRefreshState {
+  /** Scheduler status */
+  status: 'idle' | 'scheduled' | 'refreshing' | 'paused';
+  /** When the next refresh (or retry) is due, in ms since epoch */
+  nextRefreshAt: number | null;
+  /** When the last successful refresh completed, in ms since epoch */
+  lastRefreshAt: number | null;
+  /** Most recent refresh failure */
+  lastFailure: { message: string; at: number } | null;
+  /** Retries made since the last success */
+  retryCount: number;
 }
 
 export interface AuthURLParams {
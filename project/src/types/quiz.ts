@@ -0,0 +1,93 @@
+/**
+ * Quiz types
+ * Response types are derived from the runtime schemas in @/schemas/quiz
+ * (see specs/001-frontend-application/contracts/quiz-api.md)
+ */
+
+import type { Infer } from '@/lib/schema';
+import type {
+  paginationSchema,
+  questionSchema,
+  questionTypeSchema,
+  quizDetailsSchema,
+  quizHistoryItemSchema,
+  quizSchema,
+  quizSessionStatusSchema,
+  sessionResultSchema,
+  snippetSettingsSchema,
+  spotifyTrackSchema,
+  startSessionResponseSchema,
+  submitAnswerResponseSchema,
+  userQuizzesResponseSchema,
+} from '@/schemas/quiz';
+import type { Difficulty } from './user';
+
+export type QuestionType = Infer<typeof questionTypeSchema>;
+
+/** Track attached to a question */
+export type SpotifyTrack = Infer<typeof spotifyTrackSchema>;
+
+/** Part of a track to play for a quiz or question */
+export type SnippetSettings = Infer<typeof snippetSettingsSchema>;
+
+export type Question = Infer<typeof questionSchema>;
+
+/** Quiz with its questions (POST /quiz/generate, start-session) */
+export type Quiz = Infer<typeof quizSchema>;
+
+/** Quiz metadata without questions (GET /quiz/{id}) */
+export type QuizDetails = Infer<typeof quizDetailsSchema>;
+
+export interface QuizGenerationRequest {
+  /** User's creative prompt (e.g. "90s rock bands") */
+  prompt: string;
+  /** Number of questions, 5-20 */
+  questionCount: number;
+  /** Question format (extensible) */
+  format: QuestionType;
+  difficulty: Difficulty;
+  /** Include Spotify track previews */
+  includeAudio: boolean;
+}
+
+export interface StartSessionRequest {
+  /** Spotify device for playback */
+  deviceId?: string;
+}
+
+/** POST /quiz/{id}/start-session response */
+export type StartSessionResponse = Infer<typeof startSessionResponseSchema>;
+
+export type Pagination = Infer<typeof paginationSchema>;
+
+/** Entry of GET /quiz/my-quizzes */
+export type QuizHistoryItem = Infer<typeof quizHistoryItemSchema>;
+
+/** GET /quiz/my-quizzes response */
+export type UserQuizzesResponse = Infer<typeof userQuizzesResponseSchema>;
+
+export type QuizHistoryStatus = 'completed' | 'active' | 'all';
+
+/** GET /quiz/my-quizzes query parameters */
+export interface UserQuizzesParams {
+  /** Page number, starting at 1 */
+  page?: number;
+  /** Items per page, 1-50 */
+  limit?: number;
+  status?: QuizHistoryStatus;
+}
+
+export interface SubmitAnswerRequest {
+  questionId: string;
+  selectedAnswer: string;
+  /** Time taken to answer in milliseconds */
+  timeToAnswer: number;
+}
+
+/** Final result included with the answer that completes a session */
+export type SessionResult = Infer<typeof sessionResultSchema>;
+
+/** POST /quiz/{sessionId}/answer response */
+export type SubmitAnswerResponse = Infer<typeof submitAnswerResponseSchema>;
+
+export type QuizSessionStatus = Infer<typeof quizSessionStatusSchema>;
@@ -0,0 +1,133 @@
+/**
+ * Quiz session types
+ * (see specs/001-frontend-application/data-model.md)
+ */
+
+import type { Quiz, SessionResult } from './quiz';
+import type { GameMode } from '@/lib/scoring';
+
+/**
+ * Whether the server has an answer: 'pending' answers wait in the offline
+ * outbox, 'failed' ones were rejected when they were replayed
+ */
+export type AnswerSyncStatus = 'pending' | 'synced' | 'failed';
+
+/**
+ * An answer given during a session
+ */
+export interface QuizAnswer {
+  questionId: string;
+  selectedAnswer: string;
+  /** Unknown when the server reported the question as already answered */
+  isCorrect: boolean | null;
+  /** Share of the question's points earned, 0-1, for types with partial credit */
+  credit?: number;
+  /** Time taken to answer in milliseconds */
+  timeToAnswer: number;
+  /** ISO timestamp of the answer */
+  answeredAt: string;
+  syncStatus: AnswerSyncStatus;
+}
+
+/**
+ * Answer being submitted (or to re-submit after a failure)
+ */
+export interface PendingAnswer {
+  questionId: string;
+  selectedAnswer: string;
+  timeToAnswer: number;
+}
+
+/**
+ * Outcome of the current question shown to the player
+ */
+export interface AnswerFeedback {
+  /** Null when the server reported the question as already answered */
+  isCorrect: boolean | null;
+  /** Share of the question's points earned, 0-1, for types with partial credit */
+  credit?: number;
+  correctAnswer: string | null;
+  explanation?: string;
+  /** The server had already recorded an answer for this question (409) */
+  alreadyAnswered: boolean;
+  /** Saved offline and checked locally; synced when back online */
+  queued?: boolean;
+}
+
+export type QuizSessionStatusName =
+  | 'idle'
+  | 'starting'
+  | 'answering'
+  | 'submitting'
+  | 'feedback'
+  | 'completed'
+  | 'error';
+
+/**
+ * State of the quiz session state machine (@/lib/quiz-session)
+ */
+export interface QuizSessionState {
+  status: QuizSessionStatusName;
+  sessionId: string | null;
+  quiz: Quiz | null;
+  /** Scoring rules for the points shown to the player */
+  gameMode: GameMode;
+  currentQuestionIndex: number;
+  score: number;
+  /** Time limit per question in seconds, if the session has one */
+  timeLimit: number | null;
+  /** When the current question was shown, in ms since epoch */
+  questionShownAt: number | null;
+  pendingAnswer: PendingAnswer | null;
+  feedback: AnswerFeedback | null;
+  /** Index of the question to show after the feedback */
+  nextQuestionIndex: number | null;
+  /** Whether the answer just given completed the session */
+  isComplete: boolean;
+  answers: QuizAnswer[];
+  result: SessionResult | null;
+  /** Last error; fatal in the 'error' status, retryable while answering */
+  error: Error | null;
+}
+
+/**
+ * Session saved locally so it can be resumed after a reload or crash
+ */
+export interface ActiveSessionRecord {
+  sessionId: string;
+  quizId: string;
+  /** Quiz with its questions - the API only returns them on start-session */
+  quiz: Quiz;
+  /** Missing in sessions saved before game modes, which played classic */
+  gameMode?: GameMode;
+  currentQuestionIndex: number;
+  score: number;
+  answers: QuizAnswer[];
+  /** When the current question was shown, in ms since epoch */
+  questionShownAt: number | null;
+  /** Last time the player was seen in the session, in ms since epoch */
+  lastActiveAt: number;
+}
+
+/**
+ * Outcome of a completed session, kept locally for the results page
+ */
+export interface QuizResult {
+  sessionId: string;
+  quizId: string;
+  /** Quiz with its questions, for the per-question breakdown */
+  quiz: Quiz;
+  /** Missing in results saved before game modes, which played classic */
+  gameMode?: GameMode;
+  totalQuestions: number;
+  correctAnswers: number;
+  /** Final score as reported by the server when available */
+  score: number;
+  /** Score as a percentage, 0-100 */
+  percentage: number;
+  /** Total time spent answering in milliseconds */
+  timeSpent: number;
+  /** ISO timestamp of completion */
+  completedAt: string;
+  answers: QuizAnswer[];
+}
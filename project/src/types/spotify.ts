@@ -0,0 +1,83 @@
+/**
+ * Spotify playback types
+ * Response types are derived from the runtime schemas in @/schemas/playback
+ * (see specs/001-frontend-application/contracts/playback-api.md)
+ */
+
+import type { Infer } from '@/lib/schema';
+import type {
+  deviceTypeSchema,
+  playbackControlResponseSchema,
+  playbackDevicesResponseSchema,
+  playbackStatusResponseSchema,
+  repeatModeSchema,
+  spotifyDeviceSchema,
+} from '@/schemas/playback';
+import type { spotifyApiTrackSchema } from '@/schemas/spotify';
+
+export type DeviceType = Infer<typeof deviceTypeSchema>;
+
+export type RepeatMode = Infer<typeof repeatModeSchema>;
+
+export type SpotifyDevice = Infer<typeof spotifyDeviceSchema>;
+
+/** GET /playback/devices response */
+export type PlaybackDevicesResponse = Infer<typeof playbackDevicesResponseSchema>;
+
+/** Response of play, pause, seek and volume commands */
+export type PlaybackControlResponse = Infer<typeof playbackControlResponseSchema>;
+
+/** GET /playback/status response (204 means no active playback) */
+export type PlaybackStatusResponse = Infer<typeof playbackStatusResponseSchema>;
+
+/** Active device as reported with the playback status */
+export type PlaybackStatusDevice = NonNullable<PlaybackStatusResponse['device']>;
+
+/**
+ * Playback as tracked by the client
+ * Built from GET /playback/status and updated by the responses to commands.
+ */
+export interface PlaybackState {
+  isPlaying: boolean;
+  trackId?: string;
+  trackName?: string;
+  artistName?: string;
+  albumName?: string;
+  progressMs: number;
+  durationMs: number;
+  device?: PlaybackStatusDevice;
+  /** Volume 0-100 */
+  volume: number;
+  shuffleState: boolean;
+  repeatState: RepeatMode;
+  /** When `progressMs` was measured, in ms since epoch on the server's clock */
+  updatedAt: number;
+}
+
+export interface PlaybackPlayRequest {
+  /** Track to play; resumes when omitted */
+  trackId?: string;
+  deviceId: string;
+  /** Start position in milliseconds */
+  positionMs?: number;
+  /** Volume 0-100 */
+  volume?: number;
+}
+
+export interface PlaybackPauseRequest {
+  deviceId: string;
+}
+
+export interface PlaybackSeekRequest {
+  positionMs: number;
+  deviceId?: string;
+}
+
+export interface PlaybackVolumeRequest {
+  /** Volume 0-100 */
+  volumePercent: number;
+  deviceId: string;
+}
+
+/** Raw track from the Spotify Web API */
+export type SpotifyApiTrack = Infer<typeof spotifyApiTrackSchema>;
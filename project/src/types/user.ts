@@ -0,0 +1,53 @@
+/**
+ * User domain types
+ * Backend and Spotify user payloads are normalized into these shapes
+ * (see specs/001-frontend-application/data-model.md)
+ */
+
+import type { Infer } from '@/lib/schema';
+import type { backendUserSchema, difficultySchema, userSettingsSchema } from '@/schemas/user';
+
+export interface User {
+  /** Spotify user ID */
+  id: string;
+  /** User's display name from Spotify */
+  displayName: string;
+  /** User's email address */
+  email: string;
+  /** User's country code (e.g. "US") */
+  country: string;
+  /** Premium status affects playback capabilities */
+  hasSpotifyPremium: boolean;
+  /** Optional profile image from Spotify */
+  profileImageUrl?: string;
+  /** ISO timestamp of account creation (only returned by /auth/me) */
+  createdAt?: string;
+  /** ISO timestamp of last login (only returned by /auth/me) */
+  lastLoginAt?: string;
+}
+
+/**
+ * User payload returned by the backend (/auth/spotify/callback, /auth/me)
+ */
+export type BackendUserPayload = Infer<typeof backendUserSchema>;
+
+export type Difficulty = Infer<typeof difficultySchema>;
+
+/**
+ * User preferences
+ * - preferredLanguage: UI language, default "en"
+ * - enableAudioPreview: play audio previews, default true
+ * - defaultQuestionCount: default quiz length, default 10, range 5-20
+ * - defaultDifficulty: default quiz difficulty, default "Medium"
+ * - rememberDeviceSelection: preselect the last used playback device, default false
+ */
+export type UserSettings = Infer<typeof userSettingsSchema>;
+
+/**
+ * Normalized /auth/me response
+ */
+export interface UserProfile {
+  user: User;
+  /** Null when the backend did not return a settings block */
+  settings: UserSettings | null;
+}
@@ -0,0 +1,45 @@
+import type { DeviceType, SpotifyDevice } from '@/types/spotify';
+
+/**
+ * Playback device helpers
+ */
+
+export const DEVICE_TYPE_ICONS: Record<DeviceType, string> = {
+  Computer: '💻',
+  Smartphone: '📱',
+  Speaker: '🔊',
+  TV: '📺',
+  AVR: '📻',
+  STB: '📦',
+  AudioDongle: '🔌',
+  GameConsole: '🎮',
+  CastVideo: '📺',
+  CastAudio: '🔊',
+  Automobile: '🚗',
+  Unknown: '🎧',
+};
+
+/**
+ * Restricted devices do not accept playback commands
+ */
+export function isDeviceSelectable(device: SpotifyDevice): boolean {
+  return !device.isRestricted;
+}
+
+/**
+ * Device to preselect from the current list
+ * Preferred devices that are gone or restricted are skipped, falling back
+ * to the active device.
+ * @param preferredIds Device IDs to try first, in order
+ */
+export function pickDevice(
+  devices: SpotifyDevice[],
+  preferredIds: Array<string | null | undefined>
+): SpotifyDevice | null {
+  const selectable = devices.filter(isDeviceSelectable);
+  for (const id of preferredIds) {
+    const preferred = id && selectable.find(device => device.id === id);
+    if (preferred) return preferred;
+  }
+  return selectable.find(device => device.isActive) ?? null;
+}
@@ -0,0 +1,330 @@
+/**
+ * API error taxonomy
+ * Typed errors built from the contract's ApiError body
+ * ({ error, message, correlationId, details }) plus the HTTP status and
+ * the X-Correlation-ID / rate-limit response headers.
+ */
+
+export interface ApiErrorBody {
+  /** Error code identifier, e.g. "invalid_token" */
+  error: string;
+  /** Human-readable error message */
+  message: string;
+  /** Request tracking ID for debugging */
+  correlationId?: string;
+  /** Additional error context */
+  details?: Record<string, unknown>;
+}
+
+export interface RateLimitInfo {
+  /** API calls remaining in the current window */
+  remaining?: number;
+  /** When the window resets, in ms since epoch */
+  resetAt?: number;
+  /** Server-requested wait before retrying, in ms */
+  retryAfterMs?: number;
+}
+
+interface ApiErrorInit {
+  status: number;
+  code: string;
+  message: string;
+  correlationId?: string;
+  details?: Record<string, unknown>;
+  rateLimit?: RateLimitInfo;
+}
+
+/**
+ * Base class for every error returned by the backend
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly correlationId?: string;
+  readonly details?: Record<string, unknown>;
+  readonly rateLimit?: RateLimitInfo;
+
+  constructor({ status, code, message, correlationId, details, rateLimit }: ApiErrorInit) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+    this.code = code;
+    this.correlationId = correlationId;
+    this.details = details;
+    this.rateLimit = rateLimit;
+  }
+}
+
+/** 400 - malformed request or invalid parameters */
+export class BadRequestError extends ApiError {}
+
+/** 401 - missing, invalid or expired access token */
+export class UnauthorizedError extends ApiError {}
+
+/** 403 - token lacks scope, or the action requires Spotify Premium */
+export class ForbiddenError extends ApiError {}
+
+/** 403 - playback control needs a Spotify Premium subscription */
+export class PremiumRequiredError extends ForbiddenError {}
+
+/** 404 - resource does not exist or is private */
+export class NotFoundError extends ApiError {}
+
+/** 409 - conflicting state, e.g. question already answered */
+export class ConflictError extends ApiError {}
+
+/** 429 - rate limit exceeded */
+export class RateLimitError extends ApiError {}
+
+/** 5xx - server-side failure */
+export class ServerError extends ApiError {}
+
+/**
+ * The request never produced a response (offline, DNS, CORS, aborted)
+ */
+export class NetworkError extends Error {
+  readonly cause?: unknown;
+
+  constructor(
+    message = 'Unable to reach the server. Check your connection and try again.',
+    cause?: unknown
+  ) {
+    super(message);
+    this.name = 'NetworkError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * The request was aborted because it exceeded its timeout
+ */
+export class TimeoutError extends NetworkError {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Whether an error comes from an AbortSignal the caller aborted
+ */
+export function isAbortError(error: unknown): boolean {
+  // DOMException is not an Error subclass in every environment
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { name?: unknown }).name === 'AbortError'
+  );
+}
+
+/**
+ * Pick the error class for an HTTP status
+ */
+function errorClassForStatus(status: number): typeof ApiError {
+  switch (status) {
+    case 400:
+      return BadRequestError;
+    case 401:
+      return UnauthorizedError;
+    case 403:
+      return ForbiddenError;
+    case 404:
+      return NotFoundError;
+    case 409:
+      return ConflictError;
+    case 429:
+      return RateLimitError;
+    default:
+      return status >= 500 ? ServerError : ApiError;
+  }
+}
+
+/**
+ * Whether a 403 says the user needs Spotify Premium rather than lacking access
+ * The backend uses a "premium_required" code; Spotify itself sends a
+ * PREMIUM_REQUIRED reason.
+ */
+function isPremiumRequired(
+  status: number,
+  code: string,
+  reason: unknown,
+  message: string
+): boolean {
+  if (status !== 403) return false;
+  return (
+    code === 'premium_required' || reason === 'PREMIUM_REQUIRED' || /\bpremium\b/i.test(message)
+  );
+}
+
+/**
+ * Default error code for a status, per the API reference
+ */
+function defaultCodeForStatus(status: number): string {
+  switch (status) {
+    case 400:
+      return 'invalid_request';
+    case 401:
+      return 'invalid_token';
+    case 403:
+      return 'insufficient_scope';
+    case 404:
+      return 'not_found';
+    case 409:
+      return 'conflict';
+    case 429:
+      return 'rate_limit_exceeded';
+    default:
+      return 'internal_error';
+  }
+}
+
+/**
+ * Read rate-limit headers (X-RateLimit-Remaining, X-RateLimit-Reset, Retry-After)
+ */
+export function parseRateLimitHeaders(headers: Headers): RateLimitInfo | undefined {
+  const info: RateLimitInfo = {};
+
+  const remaining = headers.get('X-RateLimit-Remaining');
+  if (remaining !== null && !Number.isNaN(Number(remaining))) {
+    info.remaining = Number(remaining);
+  }
+
+  // Reset is a Unix timestamp in seconds
+  const reset = headers.get('X-RateLimit-Reset');
+  if (reset !== null && !Number.isNaN(Number(reset))) {
+    info.resetAt = Number(reset) * 1000;
+  }
+
+  // Retry-After is either delay-seconds or an HTTP date
+  const retryAfter = headers.get('Retry-After');
+  if (retryAfter !== null) {
+    const seconds = Number(retryAfter);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      info.retryAfterMs = seconds * 1000;
+    } else if (!Number.isNaN(date)) {
+      info.retryAfterMs = Math.max(0, date - Date.now());
+    }
+  }
+
+  return Object.keys(info).length > 0 ? info : undefined;
+}
+
+/**
+ * Build a typed error from a failed response
+ * Understands the contract's ApiError body, OAuth-style `error_description`
+ * bodies and Spotify's `{ error: { status, message } }` bodies.
+ * @param response Non-ok fetch response
+ * @param fallbackMessage Message used when the body has none
+ */
+export async function createApiError(
+  response: Response,
+  fallbackMessage: string
+): Promise<ApiError> {
+  const body = await response.json().catch(() => ({}));
+  const spotifyError = typeof body?.error === 'object' && body.error !== null ? body.error : null;
+
+  const code =
+    (!spotifyError && typeof body?.error === 'string' && body.error) ||
+    defaultCodeForStatus(response.status);
+  const message =
+    spotifyError?.message ||
+    body?.message ||
+    body?.error_description ||
+    `${fallbackMessage}: ${response.status}`;
+
+  const ErrorClass = isPremiumRequired(response.status, code, spotifyError?.reason, message)
+    ? PremiumRequiredError
+    : errorClassForStatus(response.status);
+  return new ErrorClass({
+    status: response.status,
+    code,
+    message,
+    correlationId: response.headers.get('X-Correlation-ID') || body?.correlationId || undefined,
+    details: body?.details,
+    rateLimit: parseRateLimitHeaders(response.headers),
+  });
+}
+
+/**
+ * Rebuild an API error from its status, e.g. one reported by another tab
+ */
+export function createApiErrorForStatus(status: number, code: string, message: string): ApiError {
+  const ErrorClass = errorClassForStatus(status);
+  return new ErrorClass({ status, code, message });
+}
+
+/**
+ * Normalize anything thrown around a fetch into a typed error
+ * fetch rejects with a TypeError when no response was received.
+ */
+export function toRequestError(error: unknown): Error {
+  if (error instanceof ApiError || error instanceof NetworkError) {
+    return error;
+  }
+  if (error instanceof TypeError) {
+    return new NetworkError(undefined, error);
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Whether an error is worth retrying automatically
+ * Client errors will fail the same way again; rate limits, server errors
+ * and network failures may not.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (
+    error instanceof NetworkError ||
+    error instanceof RateLimitError ||
+    error instanceof ServerError
+  ) {
+    return true;
+  }
+  // Unknown (non-API) errors keep the previous lenient behaviour
+  return !(error instanceof ApiError);
+}
+
+/**
+ * Delay before retrying, honoring Retry-After / X-RateLimit-Reset when present
+ * @param error Error that caused the retry
+ * @param fallbackMs Delay to use when the server gave no hint
+ */
+export function getRetryDelay(error: unknown, fallbackMs: number): number {
+  if (error instanceof ApiError && error.rateLimit) {
+    const { retryAfterMs, resetAt } = error.rateLimit;
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs;
+    }
+    if (resetAt !== undefined) {
+      return Math.max(0, resetAt - Date.now());
+    }
+  }
+  return fallbackMs;
+}
+
+/**
+ * User-facing message for any error
+ */
+export function getErrorMessage(error: unknown, fallback = 'Something went wrong'): string {
+  if (error instanceof RateLimitError) {
+    return 'Too many requests. Please wait a moment and try again.';
+  }
+  if (error instanceof ServerError) {
+    return 'The server ran into a problem. Please try again later.';
+  }
+  if (error instanceof PremiumRequiredError) {
+    return 'Controlling playback requires Spotify Premium.';
+  }
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return fallback;
+}
+
+/**
+ * Correlation ID to quote in support requests, if the error has one
+ */
+export function getCorrelationId(error: unknown): string | undefined {
+  return error instanceof ApiError ? error.correlationId : undefined;
+}
@@ -0,0 +1,122 @@
+import type { Difficulty } from '@/types/user';
+import type { QuizHistoryItem, QuizHistoryStatus } from '@/types/quiz';
+import { DIFFICULTIES } from '@/utils/settings';
+
+/**
+ * Quiz library filters
+ * Status and page are applied by GET /quiz/my-quizzes; difficulty, tags,
+ * search and sorting are applied to the loaded page. All of them live in
+ * the URL so a filtered view can be bookmarked or shared.
+ */
+
+export const LIBRARY_STATUSES: readonly QuizHistoryStatus[] = ['all', 'active', 'completed'];
+
+export const LIBRARY_SORTS = ['newest', 'oldest', 'score-desc', 'score-asc'] as const;
+
+export type LibrarySort = (typeof LIBRARY_SORTS)[number];
+
+export const LIBRARY_PAGE_SIZE = 12;
+
+export interface LibraryFilters {
+  page: number;
+  status: QuizHistoryStatus;
+  difficulty: Difficulty | null;
+  /** Quizzes must have all of these tags */
+  tags: string[];
+  search: string;
+  sort: LibrarySort;
+}
+
+export const DEFAULT_LIBRARY_FILTERS: LibraryFilters = {
+  page: 1,
+  status: 'all',
+  difficulty: null,
+  tags: [],
+  search: '',
+  sort: 'newest',
+};
+
+/**
+ * Read filters from the URL, ignoring values that are not valid
+ */
+export function parseLibraryFilters(searchParams: URLSearchParams): LibraryFilters {
+  const page = Number(searchParams.get('page'));
+  const status = searchParams.get('status') as QuizHistoryStatus;
+  const difficulty = searchParams.get('difficulty') as Difficulty;
+  const sort = searchParams.get('sort') as LibrarySort;
+
+  return {
+    page: Number.isInteger(page) && page > 0 ? page : DEFAULT_LIBRARY_FILTERS.page,
+    status: LIBRARY_STATUSES.includes(status) ? status : DEFAULT_LIBRARY_FILTERS.status,
+    difficulty: DIFFICULTIES.includes(difficulty) ? difficulty : null,
+    tags: (searchParams.get('tags') ?? '')
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(Boolean),
+    search: searchParams.get('q') ?? '',
+    sort: LIBRARY_SORTS.includes(sort) ? sort : DEFAULT_LIBRARY_FILTERS.sort,
+  };
+}
+
+/**
+ * Write filters to the URL, leaving out defaults to keep links short
+ */
+export function toLibrarySearchParams(filters: LibraryFilters): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  if (filters.page !== DEFAULT_LIBRARY_FILTERS.page) searchParams.set('page', String(filters.page));
+  if (filters.status !== DEFAULT_LIBRARY_FILTERS.status) searchParams.set('status', filters.status);
+  if (filters.difficulty) searchParams.set('difficulty', filters.difficulty);
+  if (filters.tags.length > 0) searchParams.set('tags', filters.tags.join(','));
+  if (filters.search) searchParams.set('q', filters.search);
+  if (filters.sort !== DEFAULT_LIBRARY_FILTERS.sort) searchParams.set('sort', filters.sort);
+  return searchParams;
+}
+
+/**
+ * When the quiz was last played, or created if never completed
+ */
+function getActivityDate(item: QuizHistoryItem): string {
+  return item.completedAt ?? item.createdAt;
+}
+
+/**
+ * Apply the client-side filters and sorting to a page of quizzes
+ */
+export function applyLibraryFilters(
+  items: QuizHistoryItem[],
+  filters: LibraryFilters
+): QuizHistoryItem[] {
+  const search = filters.search.trim().toLowerCase();
+
+  const matching = items.filter(
+    item =>
+      (!filters.difficulty || item.difficulty === filters.difficulty) &&
+      filters.tags.every(tag => item.tags?.includes(tag)) &&
+      (!search || item.title.toLowerCase().includes(search))
+  );
+
+  return matching.sort((a, b) => {
+    switch (filters.sort) {
+      case 'oldest':
+        return getActivityDate(a).localeCompare(getActivityDate(b));
+      case 'score-desc':
+      case 'score-asc': {
+        // Unscored (unfinished) quizzes go last either way
+        if (a.score === undefined || b.score === undefined) {
+          return (a.score === undefined ? 1 : 0) - (b.score === undefined ? 1 : 0);
+        }
+        const difference = a.score / (a.totalQuestions || 1) - b.score / (b.totalQuestions || 1);
+        return filters.sort === 'score-desc' ? -difference : difference;
+      }
+      default:
+        return getActivityDate(b).localeCompare(getActivityDate(a));
+    }
+  });
+}
+
+/**
+ * Tags used by any of the given quizzes, alphabetically
+ */
+export function collectTags(items: QuizHistoryItem[]): string[] {
+  return [...new Set(items.flatMap(item => item.tags ?? []))].sort((a, b) => a.localeCompare(b));
+}
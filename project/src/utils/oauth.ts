@@ -175,4 +175,72 @@ export function retrieveOAuthState(): string | null {
     sessionStorage.removeItem('oauth_state');
   }
   return state;
-}
\ No newline at end of file
+}
+
+// Auth routes that must never be used as a post-login destination
+const AUTH_ROUTES = ['/login', '/callback'];
+
+/**
+ * Validate a post-login return path to prevent open redirects
+ * Only same-origin relative paths are accepted.
+ * @param path Candidate path, e.g. "/quiz/123?ref=share#top"
+ * @returns Normalized path with query and hash, or null if unsafe
+ */
+export function sanitizeReturnPath(path: unknown): string | null {
+  if (typeof path !== 'string' || !path.startsWith('/')) {
+    return null;
+  }
+
+  // Reject protocol-relative URLs, backslash tricks and control characters
+  // eslint-disable-next-line no-control-regex
+  if (path.startsWith('//') || path.includes('\\') || /[\u0000-\u001f]/.test(path)) {
+    return null;
+  }
+
+  try {
+    const url = new URL(path, window.location.origin);
+    if (url.origin !== window.location.origin || AUTH_ROUTES.includes(url.pathname)) {
+      return null;
+    }
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store the post-login return path alongside the OAuth state
+ * @param state State parameter the path belongs to
+ * @param path Path to return to after login
+ */
+export function storeReturnPath(state: string, path: string): void {
+  const safePath = sanitizeReturnPath(path);
+  if (!safePath) {
+    sessionStorage.removeItem('oauth_return_to');
+    return;
+  }
+  sessionStorage.setItem('oauth_return_to', JSON.stringify({ state, path: safePath }));
+}
+
+/**
+ * Retrieve and remove the return path stored for an OAuth state
+ * @param state State parameter from the callback URL
+ * @returns Validated return path or null if none matches the state
+ */
+export function retrieveReturnPath(state: string): string | null {
+  const stored = sessionStorage.getItem('oauth_return_to');
+  if (!stored) {
+    return null;
+  }
+  sessionStorage.removeItem('oauth_return_to');
+
+  try {
+    const parsed = JSON.parse(stored) as { state?: string; path?: string };
+    if (!parsed.state || !validateState(state, parsed.state)) {
+      return null;
+    }
+    return sanitizeReturnPath(parsed.path);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,103 @@
+import type { Difficulty } from '@/types/user';
+import type { QuizGenerationRequest } from '@/types/quiz';
+import { DIFFICULTIES, QUESTION_COUNT_RANGE } from '@/utils/settings';
+import { QUESTION_TYPES } from '@/lib/question-types';
+
+/**
+ * Quiz generation parameter validation and estimates
+ * Rules follow specs/001-frontend-application/contracts/quiz-api.md
+ */
+
+export const PROMPT_LENGTH_RANGE = { min: 3, max: 500 } as const;
+
+export const QUESTION_FORMATS: readonly QuizGenerationRequest['format'][] = QUESTION_TYPES;
+
+// Average time a player spends on one question, in seconds
+const SECONDS_PER_QUESTION: Record<Difficulty, number> = {
+  Easy: 20,
+  Medium: 30,
+  Hard: 45,
+};
+
+export type QuizParamErrors = Partial<Record<keyof QuizGenerationRequest, string>>;
+
+export interface ValidationResult {
+  isValid: boolean;
+  /** Map of field to error message; empty when valid */
+  errors: QuizParamErrors;
+}
+
+/**
+ * Validate quiz generation parameters before sending them
+ */
+export function validateQuizParams(
+  params: Partial<Record<keyof QuizGenerationRequest, unknown>>
+): ValidationResult {
+  const errors: QuizParamErrors = {};
+
+  const prompt = typeof params.prompt === 'string' ? params.prompt.trim() : '';
+  if (!prompt) {
+    errors.prompt = 'Describe what the quiz should be about';
+  } else if (prompt.length < PROMPT_LENGTH_RANGE.min) {
+    errors.prompt = `Prompt must be at least ${PROMPT_LENGTH_RANGE.min} characters`;
+  } else if (prompt.length > PROMPT_LENGTH_RANGE.max) {
+    errors.prompt = `Prompt must be at most ${PROMPT_LENGTH_RANGE.max} characters`;
+  }
+
+  const { questionCount } = params;
+  if (
+    typeof questionCount !== 'number' ||
+    !Number.isInteger(questionCount) ||
+    questionCount < QUESTION_COUNT_RANGE.min ||
+    questionCount > QUESTION_COUNT_RANGE.max
+  ) {
+    errors.questionCount = `Question count must be a whole number between ${QUESTION_COUNT_RANGE.min} and ${QUESTION_COUNT_RANGE.max}`;
+  }
+
+  if (!QUESTION_FORMATS.includes(params.format as QuizGenerationRequest['format'])) {
+    errors.format = `Format must be one of ${QUESTION_FORMATS.join(', ')}`;
+  }
+
+  if (!DIFFICULTIES.includes(params.difficulty as Difficulty)) {
+    errors.difficulty = `Difficulty must be one of ${DIFFICULTIES.join(', ')}`;
+  }
+
+  if (typeof params.includeAudio !== 'boolean') {
+    errors.includeAudio = 'Audio previews must be on or off';
+  }
+
+  return { isValid: Object.keys(errors).length === 0, errors };
+}
+
+/**
+ * Estimate how long a quiz takes to play
+ * @param difficulty Unknown difficulties are treated as Medium
+ * @returns Duration in seconds
+ */
+export function estimateQuizDuration(questionCount: number, difficulty: string): number {
+  const perQuestion = SECONDS_PER_QUESTION[difficulty as Difficulty] ?? SECONDS_PER_QUESTION.Medium;
+  return Math.max(0, Math.round(questionCount)) * perQuestion;
+}
+
+/**
+ * Format a duration in seconds as "45 sec" / "5 min"
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} sec`;
+  }
+  return `${Math.round(seconds / 60)} min`;
+}
+
+/**
+ * Format time spent playing as "4.2s" / "2m 05s"
+ * @param ms Duration in milliseconds
+ */
+export function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, ms) / 1000;
+  if (seconds < 60) {
+    return `${seconds.toFixed(1)}s`;
+  }
+  const wholeSeconds = Math.round(seconds);
+  return `${Math.floor(wholeSeconds / 60)}m ${String(wholeSeconds % 60).padStart(2, '0')}s`;
+}
@@ -0,0 +1,12 @@
+/**
+ * Pseudo-random numbers that repeat for the same seed, so a question
+ * shuffles and clips the same way every time it is shown
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = [...seed].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Retry utilities with exponential backoff
+ */
+
+export interface BackoffOptions {
+  /** Delay for the first retry in milliseconds */
+  baseDelayMs?: number;
+  /** Upper bound for any single delay in milliseconds */
+  maxDelayMs?: number;
+  /** Randomize delays so many clients don't retry in lockstep */
+  jitter?: boolean;
+}
+
+/**
+ * Compute the delay before a retry
+ * @param attempt Zero-based retry attempt
+ * @returns Delay in milliseconds
+ */
+export function getBackoffDelay(
+  attempt: number,
+  { baseDelayMs = 1000, maxDelayMs = 30000, jitter = true }: BackoffOptions = {}
+): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+  if (!jitter) {
+    return exponential;
+  }
+
+  // Equal jitter: keep half the delay, randomize the other half
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
@@ -0,0 +1,88 @@
+import type { Difficulty, UserSettings } from '@/types/user';
+
+/**
+ * UserSettings defaults and validation
+ * Defaults and ranges follow specs/001-frontend-application/data-model.md
+ */
+
+export const DIFFICULTIES: readonly Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+export const QUESTION_COUNT_RANGE = { min: 5, max: 20 } as const;
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  preferredLanguage: 'en',
+  enableAudioPreview: true,
+  defaultQuestionCount: 10,
+  defaultDifficulty: 'Medium',
+  rememberDeviceSelection: false,
+};
+
+type SettingsErrors = Partial<Record<keyof UserSettings, string>>;
+
+/**
+ * Validate a (partial) settings object
+ * @returns Map of field to error message; empty when valid
+ */
+export function validateSettings(settings: Partial<Record<keyof UserSettings, unknown>>): SettingsErrors {
+  const errors: SettingsErrors = {};
+
+  if ('preferredLanguage' in settings) {
+    const value = settings.preferredLanguage;
+    if (typeof value !== 'string' || !/^[a-z]{2}(-[A-Z]{2})?$/.test(value)) {
+      errors.preferredLanguage = 'Language must be a language code such as "en" or "en-US"';
+    }
+  }
+
+  if ('enableAudioPreview' in settings && typeof settings.enableAudioPreview !== 'boolean') {
+    errors.enableAudioPreview = 'Audio preview must be on or off';
+  }
+
+  if ('defaultQuestionCount' in settings) {
+    const value = settings.defaultQuestionCount;
+    if (
+      typeof value !== 'number' ||
+      !Number.isInteger(value) ||
+      value < QUESTION_COUNT_RANGE.min ||
+      value > QUESTION_COUNT_RANGE.max
+    ) {
+      errors.defaultQuestionCount = `Question count must be a whole number between ${QUESTION_COUNT_RANGE.min} and ${QUESTION_COUNT_RANGE.max}`;
+    }
+  }
+
+  if ('defaultDifficulty' in settings && !DIFFICULTIES.includes(settings.defaultDifficulty as Difficulty)) {
+    errors.defaultDifficulty = `Difficulty must be one of ${DIFFICULTIES.join(', ')}`;
+  }
+
+  if ('rememberDeviceSelection' in settings && typeof settings.rememberDeviceSelection !== 'boolean') {
+    errors.rememberDeviceSelection = 'Remember device selection must be on or off';
+  }
+
+  return errors;
+}
+
+/**
+ * Normalize a settings payload from the backend
+ * Missing or invalid fields fall back to their defaults instead of failing,
+ * so one bad value never blocks the rest of the app.
+ */
+export function normalizeSettings(payload: unknown): UserSettings {
+  if (typeof payload !== 'object' || payload === null) {
+    return { ...DEFAULT_USER_SETTINGS };
+  }
+
+  const raw = payload as Partial<Record<keyof UserSettings, unknown>>;
+  const settings = { ...DEFAULT_USER_SETTINGS };
+
+  (Object.keys(DEFAULT_USER_SETTINGS) as Array<keyof UserSettings>).forEach((key) => {
+    if (raw[key] === undefined) return;
+
+    const error = validateSettings({ [key]: raw[key] })[key];
+    if (error) {
+      console.warn(`Ignoring invalid setting "${key}":`, error);
+      return;
+    }
+    (settings as Record<keyof UserSettings, unknown>)[key] = raw[key];
+  });
+
+  return settings;
+}
@@ -0,0 +1,60 @@
+/**
+ * Forgiving comparison of typed answers
+ * Guesses match when they are close to the answer after ignoring case,
+ * diacritics, punctuation and a leading "the", so "Bjork" matches "Björk"
+ * and "beatles" matches "The Beatles". Letters of every script count, so
+ * "Мумий Тролль" and "坂本九" work too.
+ */
+
+// Allowed typos: one per this many characters of the answer
+const CHARACTERS_PER_TYPO = 5;
+
+/**
+ * Reduce text to lowercase letters and digits of any script, and single spaces
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .replace(/^the /, '');
+}
+
+/**
+ * Number of single-character insertions, deletions, substitutions and
+ * swaps of neighbouring characters needed to turn one string into the other
+ */
+export function editDistance(a: string, b: string): number {
+  const distances = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      distances[i][j] = Math.min(
+        distances[i - 1][j] + 1,
+        distances[i][j - 1] + 1,
+        distances[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return distances[a.length][b.length];
+}
+
+/**
+ * Whether a typed guess is close enough to the answer
+ */
+export function isFuzzyMatch(guess: string, answer: string): boolean {
+  const normalizedGuess = normalizeAnswer(guess);
+  const normalizedAnswer = normalizeAnswer(answer);
+  if (!normalizedGuess || !normalizedAnswer) return false;
+
+  const allowedTypos = Math.floor(normalizedAnswer.length / CHARACTERS_PER_TYPO);
+  return editDistance(normalizedGuess, normalizedAnswer) <= allowedTypos;
+}
@@ -0,0 +1,66 @@
+import type { AuthTokens } from '@/types/auth';
+
+/**
+ * Token storage strategies for the auth service
+ * Access tokens live in memory only; refresh tokens are held by the backend
+ * in an HttpOnly cookie and never reach JavaScript (see contracts/auth-api.md)
+ */
+
+// StoredAuthTokens extends AuthTokens with an absolute expiry timestamp
+export type StoredAuthTokens = AuthTokens & { expires_at?: number };
+
+/**
+ * Storage strategy used behind getStoredTokens/storeTokens/clearTokens
+ */
+export interface TokenStorage {
+  /** Read the current tokens, or null when none are held */
+  read(): StoredAuthTokens | null;
+  /** Replace the current tokens */
+  write(tokens: StoredAuthTokens): void;
+  /** Drop any held tokens */
+  clear(): void;
+}
+
+/**
+ * In-memory storage paired with an HttpOnly refresh cookie.
+ * Tokens are lost on reload; the session is restored with a silent
+ * cookie-based refresh instead.
+ */
+export class MemoryTokenStorage implements TokenStorage {
+  private tokens: StoredAuthTokens | null = null;
+
+  read(): StoredAuthTokens | null {
+    return this.tokens;
+  }
+
+  write(tokens: StoredAuthTokens): void {
+    // The refresh token is owned by the cookie, never keep a JS-readable copy
+    const stored: StoredAuthTokens = { ...tokens };
+    delete stored.refresh_token;
+    this.tokens = stored;
+  }
+
+  clear(): void {
+    this.tokens = null;
+  }
+}
+
+// Key used by earlier releases that persisted the full token set
+const LEGACY_TOKENS_KEY = 'auth_tokens';
+
+/**
+ * Remove tokens persisted to localStorage by earlier releases
+ * @returns True if legacy tokens were found and wiped
+ */
+export function migrateLegacyTokenStorage(): boolean {
+  try {
+    if (localStorage.getItem(LEGACY_TOKENS_KEY) === null) {
+      return false;
+    }
+    localStorage.removeItem(LEGACY_TOKENS_KEY);
+    return true;
+  } catch (error) {
+    console.error('Failed to migrate legacy token storage:', error);
+    return false;
+  }
+}
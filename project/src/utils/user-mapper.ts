@@ -0,0 +1,96 @@
+import type { SpotifyUser } from '@/types/auth';
+import type { BackendUserPayload, User } from '@/types/user';
+
+/**
+ * Mapping layer from raw user payloads to the domain User model
+ * Accepts the backend shape (camelCase) and the raw Spotify shape (snake_case)
+ */
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid user payload: "${field}" must be a string`);
+  }
+  return value;
+}
+
+function requiredString(value: unknown, field: string): string {
+  const result = optionalString(value, field);
+  if (!result) {
+    throw new Error(`Invalid user payload: "${field}" is required`);
+  }
+  return result;
+}
+
+/**
+ * Whether a payload has the raw Spotify Web API shape
+ */
+export function isSpotifyUserPayload(payload: unknown): payload is SpotifyUser {
+  return isRecord(payload) && ('display_name' in payload || 'product' in payload);
+}
+
+function fromSpotifyUser(payload: UnknownRecord): User {
+  const images = Array.isArray(payload.images) ? payload.images : [];
+  const image = images.find(isRecord);
+
+  return {
+    id: requiredString(payload.id, 'id'),
+    displayName: optionalString(payload.display_name, 'display_name') ?? '',
+    email: optionalString(payload.email, 'email') ?? '',
+    country: optionalString(payload.country, 'country') ?? '',
+    hasSpotifyPremium: payload.product === 'premium',
+    profileImageUrl: image ? optionalString(image.url, 'images[0].url') : undefined,
+  };
+}
+
+function fromBackendUser(payload: UnknownRecord): User {
+  const raw = payload as Partial<Record<keyof BackendUserPayload, unknown>>;
+
+  if (raw.hasSpotifyPremium !== undefined && typeof raw.hasSpotifyPremium !== 'boolean') {
+    throw new Error('Invalid user payload: "hasSpotifyPremium" must be a boolean');
+  }
+
+  return {
+    id: requiredString(raw.id, 'id'),
+    displayName: optionalString(raw.displayName, 'displayName') ?? '',
+    email: optionalString(raw.email, 'email') ?? '',
+    country: optionalString(raw.country, 'country') ?? '',
+    hasSpotifyPremium: raw.hasSpotifyPremium === true,
+    profileImageUrl: optionalString(raw.profileImageUrl, 'profileImageUrl'),
+    createdAt: optionalString(raw.createdAt, 'createdAt'),
+    lastLoginAt: optionalString(raw.lastLoginAt, 'lastLoginAt'),
+  };
+}
+
+/**
+ * Normalize any supported user payload into a User
+ * Unwraps the `{ user, settings }` envelope returned by /auth/me.
+ * @throws Error naming the offending field if the payload is malformed
+ */
+export function normalizeUser(payload: unknown): User {
+  const raw = isRecord(payload) && isRecord(payload.user) ? payload.user : payload;
+
+  if (!isRecord(raw)) {
+    throw new Error('Invalid user payload: expected an object');
+  }
+
+  return isSpotifyUserPayload(raw) ? fromSpotifyUser(raw) : fromBackendUser(raw);
+}
+
+/**
+ * Normalize a payload, returning null instead of throwing
+ * Useful for data of unknown provenance such as persisted state.
+ */
+export function tryNormalizeUser(payload: unknown): User | null {
+  try {
+    return normalizeUser(payload);
+  } catch {
+    return null;
+  }
+}
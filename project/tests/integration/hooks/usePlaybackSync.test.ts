@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { setupServer } from 'msw/node';
+import { usePlaybackSync } from '../../../src/hooks/usePlaybackSync';
+import { usePlaybackStore } from '../../../src/stores/playback.store';
+import playbackService from '../../../src/services/playback.service';
+import { PLAYBACK_POLL_MS } from '../../../src/lib/playback-sync';
+import { playbackHandlers, resetMockPlayback } from '../../../src/test/mocks/playback.handlers';
+
+/**
+ * Playback sync hook tests
+ * Polls the mock playback API on fake timers
+ */
+
+const server = setupServer(...playbackHandlers);
+
+let isHidden = false;
+
+function setHidden(hidden: boolean) {
+  isHidden = hidden;
+  act(() => {
+    document.dispatchEvent(new Event('visibilitychange'));
+  });
+}
+
+/** Run the fake timers, and the polls they start, up to ms from now */
+function advance(ms: number) {
+  return act(() => vi.advanceTimersByTimeAsync(ms));
+}
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+  Object.defineProperty(document, 'hidden', { configurable: true, get: () => isHidden });
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.restoreAllMocks();
+  resetMockPlayback();
+  usePlaybackStore.getState().reset();
+  usePlaybackStore.getState().selectDevice('device-computer');
+  isHidden = false;
+});
+
+afterEach(() => {
+  server.resetHandlers();
+  vi.useRealTimers();
+});
+
+afterAll(() => {
+  server.close();
+  Reflect.deleteProperty(document, 'hidden');
+});
+
+describe('usePlaybackSync', () => {
+  it('should stop polling in hidden tabs and catch up when shown again', async () => {
+    const getStatus = vi.spyOn(playbackService, 'getStatus');
+    renderHook(() => usePlaybackSync({ enabled: true }));
+    await advance(0);
+    expect(getStatus).toHaveBeenCalledTimes(1);
+
+    setHidden(true);
+    await advance(PLAYBACK_POLL_MS.idle * 4);
+    expect(getStatus).toHaveBeenCalledTimes(1);
+
+    setHidden(false);
+    await advance(0);
+    expect(getStatus).toHaveBeenCalledTimes(2);
+  });
+
+  it('should poll every second as soon as a clip starts', async () => {
+    const getStatus = vi.spyOn(playbackService, 'getStatus');
+    const { rerender } = renderHook(
+      ({ isClipPlaying }) => usePlaybackSync({ enabled: true, isClipPlaying }),
+      { initialProps: { isClipPlaying: false } }
+    );
+    await advance(0);
+    expect(getStatus).toHaveBeenCalledTimes(1);
+
+    // Nothing plays yet, so the next poll would be a while off
+    act(() => rerender({ isClipPlaying: true }));
+    await advance(PLAYBACK_POLL_MS.clip);
+    expect(getStatus).toHaveBeenCalledTimes(2);
+
+    await advance(PLAYBACK_POLL_MS.clip);
+    expect(getStatus).toHaveBeenCalledTimes(3);
+  });
+
+  it('should report changes made outside the quiz', async () => {
+    await usePlaybackStore.getState().play({ trackId: 'track-1' });
+    const onChange = vi.fn();
+    renderHook(() => usePlaybackSync({ enabled: true, onChange }));
+    await advance(0);
+
+    // Paused in the Spotify app
+    await playbackService.pause('device-computer');
+    await advance(PLAYBACK_POLL_MS.playing);
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith(
+      { type: 'paused' },
+      expect.objectContaining({ isPlaying: false })
+    );
+  });
+
+  it('should not report changes while a command is waiting for its response', async () => {
+    await usePlaybackStore.getState().play({ trackId: 'track-1' });
+    const onChange = vi.fn();
+    renderHook(() => usePlaybackSync({ enabled: true, onChange }));
+    await advance(0);
+
+    // The quiz's own pause, polled before its response arrived
+    act(() => usePlaybackStore.setState({ pendingCommand: 'pause' }));
+    await playbackService.pause('device-computer');
+    await advance(PLAYBACK_POLL_MS.playing);
+    act(() => usePlaybackStore.setState({ pendingCommand: null }));
+    await advance(PLAYBACK_POLL_MS.idle);
+
+    expect(usePlaybackStore.getState().playback?.isPlaying).toBe(false);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
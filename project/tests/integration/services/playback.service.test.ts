@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from 'vitest';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { HttpClient } from '../../../src/lib/http-client';
+import { PlaybackService } from '../../../src/services/playback.service';
+import {
+  mockDevices,
+  playbackHandlers,
+  resetMockPlayback,
+} from '../../../src/test/mocks/playback.handlers';
+import {
+  ForbiddenError,
+  NotFoundError,
+  PremiumRequiredError,
+} from '../../../src/utils/error-handling';
+
+/**
+ * Playback service integration tests
+ */
+
+const BASE_URL = 'http://localhost:3001/api';
+const server = setupServer(...playbackHandlers);
+
+function createService() {
+  const client = new HttpClient({
+    baseURL: BASE_URL,
+    retryBaseDelayMs: 1,
+    tokenSource: {
+      getAccessToken: () => 'access-token',
+      refreshAccessToken: async () => 'access-token',
+    },
+  });
+  return new PlaybackService(client);
+}
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+beforeEach(() => {
+  resetMockPlayback();
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe('PlaybackService', () => {
+  it('should list devices', async () => {
+    const devices = await createService().getDevices();
+
+    expect(devices).toEqual(mockDevices);
+  });
+
+  it('should report no playback when the status is 204', async () => {
+    expect(await createService().getStatus()).toBeNull();
+  });
+
+  it('should play, seek and pause on a device', async () => {
+    const service = createService();
+
+    const played = await service.play({
+      trackId: 'track-1',
+      deviceId: 'device-computer',
+      positionMs: 5000,
+    });
+    expect(played.playbackState).toMatchObject({
+      isPlaying: true,
+      trackId: 'track-1',
+      positionMs: 5000,
+      device: { id: 'device-computer' },
+    });
+
+    const seeked = await service.seek(12000.4, 'device-computer');
+    expect(seeked.playbackState).toEqual({ isPlaying: true, positionMs: 12000 });
+
+    const paused = await service.pause('device-computer');
+    expect(paused.playbackState?.isPlaying).toBe(false);
+
+    const status = await service.getStatus();
+    expect(status).toMatchObject({
+      isPlaying: false,
+      trackId: 'track-1',
+      device: { id: 'device-computer', type: 'Computer' },
+    });
+    expect(status!.progressMs).toBeGreaterThanOrEqual(12000);
+  });
+
+  it('should set the volume of devices with volume control', async () => {
+    const service = createService();
+    await service.play({ trackId: 'track-1', deviceId: 'device-computer' });
+
+    const response = await service.setVolume(32.6, 'device-computer');
+    expect(response.volumePercent).toBe(33);
+    expect((await service.getStatus())?.device?.volumePercent).toBe(33);
+
+    await expect(service.setVolume(50, 'device-phone')).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('should send only the fields a command uses', async () => {
+    let body: unknown;
+    server.use(
+      http.post(`${BASE_URL}/playback/seek`, async ({ request }) => {
+        body = await request.json();
+        return HttpResponse.json({ success: true, message: 'Seeked' });
+      })
+    );
+
+    await createService().seek(-20);
+
+    expect(body).toEqual({ positionMs: 0 });
+  });
+
+  it('should raise PremiumRequiredError for Premium-only commands', async () => {
+    server.use(
+      http.post(`${BASE_URL}/playback/play`, () =>
+        HttpResponse.json(
+          { error: 'premium_required', message: 'Spotify Premium is required' },
+          { status: 403 }
+        )
+      )
+    );
+
+    const error = await createService()
+      .play({ deviceId: 'device-computer' })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(PremiumRequiredError);
+    expect(error).toBeInstanceOf(ForbiddenError);
+  });
+
+  it('should keep other 403s and 404s as they are', async () => {
+    server.use(
+      http.post(`${BASE_URL}/playback/pause`, () =>
+        HttpResponse.json(
+          { error: 'device_restricted', message: 'Device is restricted' },
+          { status: 403 }
+        )
+      )
+    );
+    const service = createService();
+
+    const restricted = await service.pause('device-computer').catch((caught: unknown) => caught);
+    expect(restricted).toBeInstanceOf(ForbiddenError);
+    expect(restricted).not.toBeInstanceOf(PremiumRequiredError);
+
+    await expect(service.play({ deviceId: 'missing' })).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
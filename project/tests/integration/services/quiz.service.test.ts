@@ -0,0 +1,277 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll, vi } from 'vitest';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { HttpClient } from '../../../src/lib/http-client';
+import { QuizService } from '../../../src/services/quiz.service';
+import { quizHandlers } from '../../../src/test/mocks/quiz.handlers';
+import {
+  BadRequestError,
+  ConflictError,
+  ServerError,
+  UnauthorizedError,
+} from '../../../src/utils/error-handling';
+import type { QuizGenerationRequest } from '../../../src/types/quiz';
+
+/**
+ * Quiz service integration tests
+ */
+
+const BASE_URL = 'http://localhost:3001/api';
+const server = setupServer();
+
+const params: QuizGenerationRequest = {
+  prompt: '  90s rock bands ',
+  questionCount: 5,
+  format: 'MultipleChoice',
+  difficulty: 'Easy',
+  includeAudio: true,
+};
+
+function createService() {
+  const client = new HttpClient({
+    baseURL: BASE_URL,
+    retryBaseDelayMs: 1,
+    tokenSource: {
+      getAccessToken: () => 'access-token',
+      refreshAccessToken: async () => 'access-token',
+    },
+  });
+  return new QuizService(client);
+}
+
+function serverError() {
+  return HttpResponse.json(
+    { error: 'internal_error', message: 'AI generation failed' },
+    { status: 500 }
+  );
+}
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe('QuizService.generateQuiz', () => {
+  it('should send the trimmed parameters and return the generated quiz', async () => {
+    let body: unknown;
+    server.use(
+      http.post(`${BASE_URL}/quiz/generate`, async ({ request }) => {
+        body = await request.clone().json();
+        return undefined;
+      }),
+      ...quizHandlers
+    );
+
+    const quiz = await createService().generateQuiz(params);
+
+    expect(body).toEqual({ ...params, prompt: '90s rock bands' });
+    expect(quiz.questionCount).toBe(5);
+    expect(quiz.questions).toHaveLength(5);
+    expect(quiz.questions[0].spotifyTrack).toBeDefined();
+  });
+
+  it('should retry server errors up to 3 times', async () => {
+    let calls = 0;
+    server.use(
+      http.post(`${BASE_URL}/quiz/generate`, () => {
+        calls++;
+        return calls < 4 ? serverError() : undefined;
+      }),
+      ...quizHandlers
+    );
+    const onRetry = vi.fn();
+
+    await expect(createService().generateQuiz(params, { onRetry })).resolves.toMatchObject({
+      questionCount: 5,
+    });
+    expect(calls).toBe(4);
+    expect(onRetry).toHaveBeenCalledTimes(3);
+  });
+
+  it('should give up after the third retry', async () => {
+    let calls = 0;
+    server.use(
+      http.post(`${BASE_URL}/quiz/generate`, () => {
+        calls++;
+        return serverError();
+      })
+    );
+
+    await expect(createService().generateQuiz(params)).rejects.toBeInstanceOf(ServerError);
+    expect(calls).toBe(4);
+  });
+
+  it('should not retry rejected parameters', async () => {
+    let calls = 0;
+    server.use(
+      http.post(`${BASE_URL}/quiz/generate`, () => {
+        calls++;
+        return HttpResponse.json(
+          { error: 'invalid_request', message: 'Prompt is not allowed' },
+          { status: 400 }
+        );
+      })
+    );
+
+    await expect(createService().generateQuiz(params)).rejects.toBeInstanceOf(BadRequestError);
+    expect(calls).toBe(1);
+  });
+
+  it('should validate parameters before sending them', async () => {
+    await expect(createService().generateQuiz({ ...params, questionCount: 50 })).rejects.toThrow(
+      /between 5 and 20/
+    );
+  });
+
+  it('should stop when cancelled', async () => {
+    server.use(http.post(`${BASE_URL}/quiz/generate`, () => serverError()));
+    const controller = new AbortController();
+
+    const promise = createService().generateQuiz(params, {
+      signal: controller.signal,
+      onRetry: () => controller.abort(),
+    });
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('QuizService sessions', () => {
+  it('should start a session on the selected device and answer its questions', async () => {
+    let startBody: unknown;
+    server.use(
+      http.post(`${BASE_URL}/quiz/:id/start-session`, async ({ request }) => {
+        startBody = await request.clone().json();
+        return undefined;
+      }),
+      ...quizHandlers
+    );
+    const service = createService();
+
+    const session = await service.startSession('quiz-1', 'device-1');
+    expect(startBody).toEqual({ deviceId: 'device-1' });
+    expect(session.quiz.id).toBe('quiz-1');
+
+    const question = session.quiz.questions[0];
+    const answer = {
+      questionId: question.id,
+      selectedAnswer: question.correctAnswer,
+      timeToAnswer: 1200,
+    };
+    await expect(service.submitAnswer(session.sessionId, answer)).resolves.toMatchObject({
+      isCorrect: true,
+      currentScore: 1,
+      nextQuestionIndex: 1,
+    });
+    await expect(service.submitAnswer(session.sessionId, answer)).rejects.toBeInstanceOf(
+      ConflictError
+    );
+    await expect(service.getSessionStatus(session.sessionId)).resolves.toMatchObject({
+      currentQuestionIndex: 1,
+      score: 1,
+      isActive: true,
+    });
+  });
+
+  it('should never retry answer submissions', async () => {
+    let calls = 0;
+    server.use(
+      http.post(`${BASE_URL}/quiz/:sessionId/answer`, () => {
+        calls++;
+        return HttpResponse.json(
+          { error: 'rate_limit_exceeded', message: 'Slow down' },
+          { status: 429, headers: { 'Retry-After': '0' } }
+        );
+      })
+    );
+
+    await expect(
+      createService().submitAnswer('session-1', {
+        questionId: 'q1',
+        selectedAnswer: 'A',
+        timeToAnswer: 10,
+      })
+    ).rejects.toMatchObject({ status: 429 });
+    expect(calls).toBe(1);
+  });
+});
+
+describe('QuizService.getUserQuizzes', () => {
+  it('should request a page with the status filter', async () => {
+    let search = '';
+    server.use(
+      http.get(`${BASE_URL}/quiz/my-quizzes`, ({ request }) => {
+        search = new URL(request.url).search;
+        return undefined;
+      }),
+      ...quizHandlers
+    );
+
+    const response = await createService().getUserQuizzes({
+      page: 2,
+      limit: 100,
+      status: 'completed',
+    });
+
+    expect(search).toBe('?page=2&limit=50&status=completed');
+    expect(response.pagination).toMatchObject({ page: 2, limit: 50, hasPrevious: true });
+    expect(response.quizzes.every(item => !item.isActive)).toBe(true);
+  });
+
+  it('should leave the status out for all quizzes', async () => {
+    let search = '';
+    server.use(
+      http.get(`${BASE_URL}/quiz/my-quizzes`, ({ request }) => {
+        search = new URL(request.url).search;
+        return undefined;
+      }),
+      ...quizHandlers
+    );
+
+    await createService().getUserQuizzes({ status: 'all' });
+
+    expect(search).toBe('');
+  });
+});
+
+describe('QuizService.getQuiz', () => {
+  it('should return the quiz metadata', async () => {
+    server.use(...quizHandlers);
+
+    const quiz = await createService().getQuiz('quiz-1');
+
+    expect(quiz).toMatchObject({ id: 'quiz-1', isPublic: true, createdBy: 'mock_user' });
+    expect(quiz).not.toHaveProperty('questions');
+  });
+
+  it('should load public quizzes anonymously without refreshing on a 401', async () => {
+    const refreshAccessToken = vi.fn(async () => 'access-token');
+    const client = new HttpClient({
+      baseURL: BASE_URL,
+      tokenSource: { getAccessToken: () => 'stale-token', refreshAccessToken },
+    });
+    let authorization: string | null = 'not called';
+    server.use(
+      http.get(`${BASE_URL}/quiz/:id`, ({ request }) => {
+        authorization = request.headers.get('Authorization');
+        return HttpResponse.json(
+          { error: 'unauthorized', message: 'Sign in to view this quiz' },
+          { status: 401 }
+        );
+      })
+    );
+
+    await expect(
+      new QuizService(client).getQuiz('private', { auth: false })
+    ).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(authorization).toBeNull();
+    expect(refreshAccessToken).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useAuthActions, useAuthStore } from '../../../src/stores/auth.store';
+import authService from '../../../src/services/auth.service';
+import { answerOutbox } from '../../../src/services/quiz.service';
+import { storeOAuthState } from '../../../src/utils/oauth';
+import type { AuthTokens } from '../../../src/types/auth';
+import type { User } from '../../../src/types/user';
+
+/**
+ * Auth store bootstrap and refresh tests
+ * Tokens are not persisted, so a page load restores the session silently
+ * from the HttpOnly refresh cookie
+ */
+
+const user: User = {
+  id: 'user-1',
+  displayName: 'Test User',
+  email: 'test@example.com',
+  country: 'US',
+  hasSpotifyPremium: true,
+};
+
+describe('useAuthStore.initialize', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    localStorage.clear();
+    useAuthStore.setState({ isAuthenticated: false, user: null, tokens: null, error: null });
+  });
+
+  it('should restore the session silently from the refresh cookie', async () => {
+    vi.spyOn(authService, 'getStoredTokens').mockReturnValue(null);
+    const restore = vi.spyOn(authService, 'restoreSession').mockResolvedValue({
+      access_token: 'restored_access',
+      expires_in: 3600,
+      token_type: 'Bearer',
+      scope: '',
+    });
+    vi.spyOn(authService, 'getProfile').mockResolvedValue({ user, settings: null });
+
+    const result = await useAuthStore.getState().initialize();
+
+    expect(restore).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ success: true, user });
+    expect(useAuthStore.getState().getAccessToken()).toBe('restored_access');
+    // Only the user is persisted, never tokens
+    expect(localStorage.getItem('vibeguess-auth')).not.toContain('restored_access');
+
+    // Stop the refresh timer without calling the API
+    vi.spyOn(authService, 'logout').mockImplementation(() => {});
+    useAuthStore.getState().logout();
+  });
+
+  it('should stay logged out without a refresh cookie', async () => {
+    vi.spyOn(authService, 'getStoredTokens').mockReturnValue(null);
+    vi.spyOn(authService, 'restoreSession').mockRejectedValue(new Error('No refresh cookie'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await useAuthStore.getState().initialize();
+
+    expect(result).toMatchObject({ success: false, reason: 'no_session' });
+    expect(useAuthStore.getState()).toMatchObject({ isAuthenticated: false, tokens: null });
+  });
+});
+
+describe('useAuthActions.handleCallback', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(fetch).mockReset();
+    localStorage.clear();
+    useAuthStore.setState({ isAuthenticated: false, user: null, tokens: null, error: null });
+  });
+
+  afterEach(() => {
+    vi.spyOn(authService, 'logout').mockImplementation(() => {});
+    useAuthStore.getState().logout();
+  });
+
+  it('should keep the refresh token out of the store', async () => {
+    vi.mocked(fetch).mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          accessToken: 'callback_access',
+          refreshToken: 'callback_refresh',
+          expiresIn: 3600,
+          tokenType: 'Bearer',
+          user,
+        }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      )
+    );
+    vi.spyOn(authService, 'getProfile').mockResolvedValue({ user, settings: null });
+    storeOAuthState('oauth-state');
+
+    const { result } = renderHook(() => useAuthActions());
+    await result.current.handleCallback('auth-code', 'oauth-state');
+
+    const { tokens } = useAuthStore.getState();
+    expect(tokens?.access_token).toBe('callback_access');
+    expect(tokens).not.toHaveProperty('refresh_token');
+    expect(tokens?.expires_at).toBeGreaterThan(Date.now());
+  });
+});
+
+describe('useAuthStore token refresh', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(fetch).mockReset();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.spyOn(authService, 'logout').mockImplementation(() => {});
+    useAuthStore.getState().logout();
+    vi.useRealTimers();
+  });
+
+  it("should keep the store's tokens current after a scheduled refresh", async () => {
+    vi.mocked(fetch).mockResolvedValue(
+      new Response(
+        JSON.stringify({ accessToken: 'refreshed_access', expiresIn: 3600, tokenType: 'Bearer' }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      )
+    );
+    // Inside the refresh margin, so the refresh is due straight away
+    useAuthStore.getState().setTokens({
+      access_token: 'expiring_access',
+      expires_in: 60,
+      expires_at: Date.now() + 60_000,
+      token_type: 'Bearer',
+      scope: '',
+    } as AuthTokens);
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(useAuthStore.getState().getAccessToken()).toBe('refreshed_access');
+    expect(useAuthStore.getState().isTokenExpired()).toBe(false);
+  });
+});
+
+describe('useAuthStore.logout', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(authService, 'logout').mockImplementation(() => {});
+  });
+
+  it('should drop answers queued offline', () => {
+    const clear = vi.spyOn(answerOutbox, 'clear').mockResolvedValue();
+
+    useAuthStore.getState().logout();
+
+    expect(clear).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { usePlaybackStore } from '../../../src/stores/playback.store';
+import { useSettingsStore } from '../../../src/stores/settings.store';
+import playbackService from '../../../src/services/playback.service';
+import { PremiumRequiredError } from '../../../src/utils/error-handling';
+import { detectPlaybackChanges } from '../../../src/lib/playback-sync';
+import type { PlaybackStatusResponse } from '../../../src/types/spotify';
+
+/**
+ * Playback store command and status tests
+ */
+
+const status: PlaybackStatusResponse = {
+  isPlaying: true,
+  trackId: 'track-1',
+  trackName: 'Smells Like Teen Spirit',
+  artistName: 'Nirvana',
+  progressMs: 4000,
+  durationMs: 30000,
+  device: { id: 'device-1', name: 'Laptop', type: 'Computer', volumePercent: 70 },
+  shuffleState: false,
+  repeatState: 'off',
+  timestamp: '2024-05-01T12:00:00.000Z',
+};
+
+describe('usePlaybackStore', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    usePlaybackStore.getState().reset();
+  });
+
+  it('should turn the status into playback state', async () => {
+    vi.spyOn(playbackService, 'getStatus').mockResolvedValue(status);
+
+    await usePlaybackStore.getState().refreshStatus();
+
+    expect(usePlaybackStore.getState().playback).toEqual({
+      isPlaying: true,
+      trackId: 'track-1',
+      trackName: 'Smells Like Teen Spirit',
+      artistName: 'Nirvana',
+      progressMs: 4000,
+      durationMs: 30000,
+      device: status.device,
+      volume: 70,
+      shuffleState: false,
+      repeatState: 'off',
+      updatedAt: Date.parse(status.timestamp),
+    });
+  });
+
+  it('should clear playback when nothing is playing', async () => {
+    vi.spyOn(playbackService, 'getStatus').mockResolvedValueOnce(status).mockResolvedValueOnce(null);
+
+    await usePlaybackStore.getState().refreshStatus();
+    await usePlaybackStore.getState().refreshStatus();
+
+    expect(usePlaybackStore.getState().playback).toBeNull();
+  });
+
+  it('should send commands to the selected device and merge the responses', async () => {
+    vi.spyOn(playbackService, 'getStatus').mockResolvedValue(status);
+    const play = vi.spyOn(playbackService, 'play').mockResolvedValue({
+      success: true,
+      message: 'Playback started',
+      playbackState: {
+        isPlaying: true,
+        trackId: 'track-2',
+        positionMs: 0,
+        device: { id: 'device-1', name: 'Laptop' },
+      },
+    });
+    const pause = vi.spyOn(playbackService, 'pause').mockResolvedValue({
+      success: true,
+      message: 'Playback paused',
+      playbackState: { isPlaying: false, positionMs: 2500 },
+    });
+
+    const store = usePlaybackStore.getState();
+    store.selectDevice('device-1');
+    await store.refreshStatus();
+    await store.play({ trackId: 'track-2' });
+
+    expect(play).toHaveBeenCalledWith({ trackId: 'track-2', deviceId: 'device-1' });
+    const playing = usePlaybackStore.getState().playback!;
+    expect(playing).toMatchObject({ isPlaying: true, trackId: 'track-2', progressMs: 0 });
+    // Details of the previous track are dropped, the device is kept
+    expect(playing.trackName).toBeUndefined();
+    expect(playing.device).toEqual(status.device);
+
+    await store.pause();
+
+    expect(pause).toHaveBeenCalledWith('device-1');
+    expect(usePlaybackStore.getState().playback).toMatchObject({
+      isPlaying: false,
+      trackId: 'track-2',
+      progressMs: 2500,
+    });
+    expect(usePlaybackStore.getState().pendingCommand).toBeNull();
+  });
+
+  it("should keep command times on the server's clock", async () => {
+    // The server's clock is 10 seconds ahead of ours
+    vi.spyOn(playbackService, 'getStatus').mockImplementation(async () => ({
+      ...status,
+      timestamp: new Date(Date.now() + 10000).toISOString(),
+    }));
+    vi.spyOn(playbackService, 'play').mockResolvedValue({
+      success: true,
+      message: 'Playing',
+      playbackState: { isPlaying: true, trackId: 'track-1', positionMs: 4000 },
+    });
+
+    usePlaybackStore.getState().selectDevice('device-1');
+    await usePlaybackStore.getState().refreshStatus();
+    await usePlaybackStore.getState().play({ trackId: 'track-1', positionMs: 4000 });
+    const afterCommand = usePlaybackStore.getState().playback;
+    const polled = await usePlaybackStore.getState().refreshStatus();
+
+    expect(usePlaybackStore.getState().clockOffsetMs).toBeGreaterThan(9000);
+    // Mixing clocks would make this look like a 10 second seek
+    expect(detectPlaybackChanges(afterCommand, polled)).toEqual([]);
+  });
+
+  it('should refuse commands until a device is selected', async () => {
+    const play = vi.spyOn(playbackService, 'play');
+
+    await expect(usePlaybackStore.getState().play()).rejects.toThrow('Choose a device');
+    expect(play).not.toHaveBeenCalled();
+  });
+
+  it('should flag commands that need Spotify Premium', async () => {
+    vi.spyOn(playbackService, 'seek').mockRejectedValue(
+      new PremiumRequiredError({
+        status: 403,
+        code: 'premium_required',
+        message: 'Spotify Premium is required',
+      })
+    );
+
+    usePlaybackStore.getState().selectDevice('device-1');
+    await expect(usePlaybackStore.getState().seek(1000)).rejects.toBeInstanceOf(
+      PremiumRequiredError
+    );
+
+    const { premiumRequired, error, pendingCommand } = usePlaybackStore.getState();
+    expect(premiumRequired).toBe(true);
+    expect(error).toBe('Controlling playback requires Spotify Premium.');
+    expect(pendingCommand).toBeNull();
+
+    usePlaybackStore.getState().clearError();
+    expect(usePlaybackStore.getState().premiumRequired).toBe(false);
+  });
+
+  it('should keep the loaded devices', async () => {
+    const devices = [
+      {
+        id: 'device-1',
+        name: 'Laptop',
+        type: 'Computer' as const,
+        isActive: true,
+        isPrivateSession: false,
+        isRestricted: false,
+        volumePercent: 70,
+        supportsVolume: true,
+      },
+    ];
+    vi.spyOn(playbackService, 'getDevices').mockResolvedValue(devices);
+
+    await usePlaybackStore.getState().loadDevices();
+
+    expect(usePlaybackStore.getState().devices).toEqual(devices);
+    expect(usePlaybackStore.getState().isLoadingDevices).toBe(false);
+  });
+});
+
+describe('usePlaybackStore persistence', () => {
+  const rememberDevice = (rememberDeviceSelection: boolean) =>
+    useSettingsStore.setState(state => ({
+      settings: { ...state.settings, rememberDeviceSelection },
+    }));
+
+  beforeEach(() => {
+    localStorage.clear();
+    usePlaybackStore.getState().reset();
+  });
+
+  it('should only remember the device while the setting is on', () => {
+    rememberDevice(false);
+    usePlaybackStore.getState().selectDevice('device-1');
+    expect(localStorage.getItem('vibeguess-playback')).not.toContain('device-1');
+
+    rememberDevice(true);
+    usePlaybackStore.getState().selectDevice('device-2');
+    expect(localStorage.getItem('vibeguess-playback')).toContain('device-2');
+  });
+
+  it('should forget the device when remembering is turned off', () => {
+    rememberDevice(true);
+    usePlaybackStore.getState().selectDevice('device-1');
+
+    rememberDevice(false);
+
+    expect(localStorage.getItem('vibeguess-playback')).toBeNull();
+  });
+});
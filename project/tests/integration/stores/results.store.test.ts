@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MAX_SAVED_RESULTS, useResultsStore } from '../../../src/stores/results.store';
+import type { QuizResult } from '../../../src/types/session';
+
+/**
+ * Quiz results persistence tests
+ */
+
+function result(sessionId: string, completedAt: string): QuizResult {
+  return {
+    sessionId,
+    quizId: 'quiz-1',
+    quiz: {
+      id: 'quiz-1',
+      title: '90s Rock',
+      description: '',
+      questionCount: 0,
+      difficulty: 'Easy',
+      estimatedDuration: 0,
+      createdAt: '2025-09-21T14:30:00Z',
+      questions: [],
+    },
+    totalQuestions: 0,
+    correctAnswers: 0,
+    score: 0,
+    percentage: 0,
+    timeSpent: 0,
+    completedAt,
+    answers: [],
+  };
+}
+
+describe('useResultsStore', () => {
+  beforeEach(() => {
+    useResultsStore.getState().clearResults();
+    localStorage.clear();
+  });
+
+  it('should persist results to localStorage by session', () => {
+    useResultsStore.getState().saveResult(result('session-1', '2025-09-21T14:31:00Z'));
+
+    const persisted = JSON.parse(localStorage.getItem('vibeguess-quiz-results') || '{}');
+    expect(Object.keys(persisted.state.results)).toEqual(['session-1']);
+  });
+
+  it('should only keep the most recent results', () => {
+    const { saveResult } = useResultsStore.getState();
+    for (let i = 0; i <= MAX_SAVED_RESULTS; i++) {
+      saveResult(result(`session-${i}`, new Date(Date.UTC(2025, 0, 1, 0, i)).toISOString()));
+    }
+
+    const { results } = useResultsStore.getState();
+    expect(Object.keys(results)).toHaveLength(MAX_SAVED_RESULTS);
+    expect(results['session-0']).toBeUndefined();
+    expect(results[`session-${MAX_SAVED_RESULTS}`]).toBeDefined();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useSessionStore } from '../../../src/stores/session.store';
+import type { ActiveSessionRecord } from '../../../src/types/session';
+
+/**
+ * Active session persistence tests
+ */
+
+const record: ActiveSessionRecord = {
+  sessionId: 'session-1',
+  quizId: 'quiz-1',
+  quiz: {
+    id: 'quiz-1',
+    title: '90s Rock',
+    description: '',
+    questionCount: 0,
+    difficulty: 'Easy',
+    estimatedDuration: 0,
+    createdAt: '2025-09-21T14:30:00Z',
+    questions: [],
+  },
+  currentQuestionIndex: 0,
+  score: 0,
+  answers: [],
+  questionShownAt: 1000,
+  lastActiveAt: 1000,
+};
+
+describe('useSessionStore', () => {
+  beforeEach(() => {
+    useSessionStore.getState().clearSession();
+    localStorage.clear();
+  });
+
+  it('should persist the saved session to localStorage', () => {
+    useSessionStore.getState().saveSession(record);
+
+    const persisted = JSON.parse(localStorage.getItem('vibeguess-active-session') || '{}');
+    expect(persisted.state.activeSession.sessionId).toBe('session-1');
+  });
+
+  it('should only touch and clear the session it is asked about', () => {
+    const { saveSession, touchSession, clearSession } = useSessionStore.getState();
+    saveSession(record);
+
+    touchSession('other-session', 5000);
+    clearSession('other-session');
+    expect(useSessionStore.getState().activeSession?.lastActiveAt).toBe(1000);
+
+    touchSession('session-1', 5000);
+    expect(useSessionStore.getState().activeSession?.lastActiveAt).toBe(5000);
+
+    clearSession('session-1');
+    expect(useSessionStore.getState().activeSession).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useSettingsStore } from '../../../src/stores/settings.store';
+import authService from '../../../src/services/auth.service';
+import { DEFAULT_USER_SETTINGS } from '../../../src/utils/settings';
+
+/**
+ * Settings store hydration and optimistic update tests
+ */
+
+describe('useSettingsStore', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    useSettingsStore.getState().reset();
+  });
+
+  it('should hydrate from /auth/me settings with defaults for invalid fields', () => {
+    useSettingsStore.getState().hydrate({
+      preferredLanguage: 'sv',
+      defaultQuestionCount: 42,
+      defaultDifficulty: 'Hard',
+    });
+
+    const { settings, isHydrated } = useSettingsStore.getState();
+    expect(isHydrated).toBe(true);
+    expect(settings).toEqual({
+      ...DEFAULT_USER_SETTINGS,
+      preferredLanguage: 'sv',
+      defaultDifficulty: 'Hard',
+    });
+  });
+
+  it('should apply updates optimistically and keep the saved result', async () => {
+    let resolveSave: (settings: typeof DEFAULT_USER_SETTINGS) => void = () => {};
+    vi.spyOn(authService, 'updateSettings').mockReturnValue(
+      new Promise((resolve) => {
+        resolveSave = resolve;
+      })
+    );
+
+    const pending = useSettingsStore.getState().updateSettings({ defaultQuestionCount: 15 });
+    expect(useSettingsStore.getState().settings.defaultQuestionCount).toBe(15);
+
+    resolveSave({ ...DEFAULT_USER_SETTINGS, defaultQuestionCount: 15 });
+    await pending;
+
+    expect(useSettingsStore.getState().settings.defaultQuestionCount).toBe(15);
+    expect(useSettingsStore.getState().pendingUpdates).toBe(0);
+  });
+
+  it('should roll back when saving fails', async () => {
+    vi.spyOn(authService, 'updateSettings').mockRejectedValue(new Error('Failed to update settings: 500'));
+
+    await expect(
+      useSettingsStore.getState().updateSettings({ defaultDifficulty: 'Easy' })
+    ).rejects.toThrow('500');
+
+    const { settings, error } = useSettingsStore.getState();
+    expect(settings.defaultDifficulty).toBe('Medium');
+    expect(error).toBe('Failed to update settings: 500');
+  });
+
+  it('should reject out-of-range question counts without calling the backend', async () => {
+    const update = vi.spyOn(authService, 'updateSettings');
+
+    await expect(
+      useSettingsStore.getState().updateSettings({ defaultQuestionCount: 4 })
+    ).rejects.toThrow('between 5 and 20');
+    expect(update).not.toHaveBeenCalled();
+  });
+});
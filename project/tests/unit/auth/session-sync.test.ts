@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AuthService } from '../../../src/services/auth.service';
+import { SessionBus, type SessionChannel, type SessionEnvelope } from '../../../src/lib/session-bus';
+import { MemoryTokenStorage } from '../../../src/utils/token-storage';
+import { UnauthorizedError } from '../../../src/utils/error-handling';
+
+/**
+ * Cross-tab session synchronization tests
+ * Each "tab" is an AuthService wired to a fake in-process channel
+ */
+
+// In-process stand-in for BroadcastChannel: async delivery, never to the sender
+function createFakeHub() {
+  const endpoints = new Set<(message: SessionEnvelope) => void>();
+
+  const connect = (): SessionChannel => {
+    let listeners: Array<(message: SessionEnvelope) => void> = [];
+    const deliver = (message: SessionEnvelope) => listeners.forEach((listener) => listener(message));
+
+    return {
+      postMessage: (message) => {
+        endpoints.forEach((endpoint) => {
+          if (endpoint !== deliver) {
+            queueMicrotask(() => endpoint(structuredClone(message)));
+          }
+        });
+      },
+      subscribe: (listener) => {
+        listeners.push(listener);
+        endpoints.add(deliver);
+        return () => {
+          listeners = listeners.filter((l) => l !== listener);
+        };
+      },
+      close: () => {
+        endpoints.delete(deliver);
+      },
+    };
+  };
+
+  return { connect };
+}
+
+function mockRefreshResponse(accessToken: string) {
+  vi.mocked(fetch).mockResolvedValue(
+    new Response(JSON.stringify({ accessToken, expiresIn: 3600, tokenType: 'Bearer' }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  );
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Cross-tab session sync', () => {
+  let hub: ReturnType<typeof createFakeHub>;
+  let buses: SessionBus[];
+
+  const openTab = () => {
+    const bus = new SessionBus(hub.connect());
+    buses.push(bus);
+    return { bus, service: new AuthService(new MemoryTokenStorage(), bus) };
+  };
+
+  beforeEach(() => {
+    hub = createFakeHub();
+    buses = [];
+    vi.mocked(fetch).mockReset();
+  });
+
+  afterEach(() => {
+    buses.forEach((bus) => bus.stop());
+  });
+
+  it('should elect exactly one leader among open tabs', async () => {
+    const tabA = openTab();
+    const tabB = openTab();
+    await flush();
+
+    expect([tabA.bus.isLeader(), tabB.bus.isLeader()].filter(Boolean)).toHaveLength(1);
+  });
+
+  it('should let only the leader call the refresh endpoint', async () => {
+    const tabA = openTab();
+    const tabB = openTab();
+    await flush();
+
+    const follower = tabA.bus.isLeader() ? tabB : tabA;
+    const leader = follower === tabA ? tabB : tabA;
+    mockRefreshResponse('rotated_access_token');
+
+    const tokens = await follower.service.refreshToken();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(tokens.access_token).toBe('rotated_access_token');
+    expect(leader.service.getStoredTokens()?.access_token).toBe('rotated_access_token');
+    expect(follower.service.getStoredTokens()?.access_token).toBe('rotated_access_token');
+  });
+
+  it("should reject followers with the leader's error when the refresh is rejected", async () => {
+    const tabA = openTab();
+    const tabB = openTab();
+    await flush();
+
+    const follower = tabA.bus.isLeader() ? tabB : tabA;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(fetch).mockResolvedValue(
+      new Response(JSON.stringify({ error: 'invalid_token', message: 'Refresh cookie expired' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+
+    const error = await follower.service.refreshToken().catch((e: unknown) => e);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(error).toBeInstanceOf(UnauthorizedError);
+    // A 401, so the follower's lifecycle logs out instead of retrying
+    expect(error).toMatchObject({ status: 401, code: 'invalid_token' });
+  });
+
+  it('should broadcast new tokens to other tabs', async () => {
+    const tabA = openTab();
+    const tabB = openTab();
+    await flush();
+
+    const leader = tabA.bus.isLeader() ? tabA : tabB;
+    const other = leader === tabA ? tabB : tabA;
+    const onChange = vi.fn();
+    other.service.onSessionChange(onChange);
+    mockRefreshResponse('fresh_access_token');
+
+    await leader.service.refreshToken();
+    await flush();
+
+    expect(onChange).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'tokens',
+        tokens: expect.objectContaining({ access_token: 'fresh_access_token' }),
+      })
+    );
+  });
+
+  it('should propagate logout to every tab', async () => {
+    const tabA = openTab();
+    const tabB = openTab();
+    await flush();
+
+    mockRefreshResponse('shared_access_token');
+    await tabA.service.refreshToken();
+    await flush();
+    expect(tabB.service.isAuthenticated()).toBe(true);
+
+    const onChange = vi.fn();
+    tabB.service.onSessionChange(onChange);
+    tabA.service.logout();
+    await flush();
+
+    expect(onChange).toHaveBeenCalledWith({ type: 'logout' });
+    expect(tabB.service.isAuthenticated()).toBe(false);
+  });
+
+  it('should restore a new tab from a peer without refreshing', async () => {
+    const tabA = openTab();
+    await flush();
+
+    mockRefreshResponse('existing_access_token');
+    await tabA.service.refreshToken();
+    vi.mocked(fetch).mockClear();
+
+    const tabB = openTab();
+    const tokens = await tabB.service.restoreSession();
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(tokens.access_token).toBe('existing_access_token');
+  });
+});
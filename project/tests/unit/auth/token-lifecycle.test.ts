@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TokenLifecycleManager } from '../../../src/lib/token-lifecycle';
+import { UnauthorizedError } from '../../../src/utils/error-handling';
+import type { StoredAuthTokens } from '../../../src/utils/token-storage';
+
+/**
+ * Proactive token refresh scheduler tests
+ */
+
+const SKEW_MS = 60 * 1000;
+
+function tokensExpiringIn(ms: number): StoredAuthTokens {
+  return {
+    access_token: `token_${Date.now()}`,
+    expires_in: Math.round(ms / 1000),
+    expires_at: Date.now() + ms,
+    token_type: 'Bearer',
+    scope: 'user-read-private',
+  };
+}
+
+function setHidden(hidden: boolean) {
+  Object.defineProperty(document, 'hidden', { configurable: true, get: () => hidden });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+describe('TokenLifecycleManager', () => {
+  let manager: TokenLifecycleManager;
+  const refresh = vi.fn();
+  const onExpired = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    refresh.mockReset();
+    onExpired.mockReset();
+    manager = new TokenLifecycleManager({
+      refresh,
+      onExpired,
+      skewMs: SKEW_MS,
+      maxRetries: 2,
+      retryBaseDelayMs: 1000,
+    });
+  });
+
+  afterEach(() => {
+    manager.stop();
+    setHidden(false);
+    vi.useRealTimers();
+  });
+
+  it('should refresh at expiry minus the skew margin and re-arm', async () => {
+    refresh.mockImplementation(async () => tokensExpiringIn(10 * 60 * 1000));
+    manager.schedule(tokensExpiringIn(5 * 60 * 1000));
+
+    expect(manager.getState().nextRefreshAt).toBe(Date.now() + 4 * 60 * 1000);
+
+    await vi.advanceTimersByTimeAsync(4 * 60 * 1000 - 1);
+    expect(refresh).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(manager.getState()).toMatchObject({
+      status: 'scheduled',
+      nextRefreshAt: Date.now() + 9 * 60 * 1000,
+    });
+  });
+
+  it('should pause while hidden and catch up when visible', async () => {
+    refresh.mockImplementation(async () => tokensExpiringIn(10 * 60 * 1000));
+    manager.schedule(tokensExpiringIn(2 * 60 * 1000));
+    setHidden(true);
+
+    await vi.advanceTimersByTimeAsync(2 * 60 * 1000);
+    expect(refresh).not.toHaveBeenCalled();
+    expect(manager.getState().status).toBe('paused');
+
+    setHidden(false);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry with backoff and give up after max retries', async () => {
+    refresh.mockRejectedValue(new Error('Token refresh failed: 500'));
+    manager.schedule(tokensExpiringIn(SKEW_MS));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(manager.getState()).toMatchObject({
+      retryCount: 1,
+      lastFailure: { message: 'Token refresh failed: 500' },
+    });
+
+    // Jittered delays stay within [base/2, base] * 2^attempt
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(refresh).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(refresh).toHaveBeenCalledTimes(3);
+
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(manager.getState().status).toBe('idle');
+  });
+
+  it('should expire at once when the backend rejects the refresh', async () => {
+    refresh.mockRejectedValue(
+      new UnauthorizedError({ status: 401, code: 'unauthorized', message: 'Refresh token revoked' })
+    );
+    manager.schedule(tokensExpiringIn(SKEW_MS));
+
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(manager.getState()).toMatchObject({
+      status: 'idle',
+      lastFailure: { message: 'Refresh token revoked' },
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AuthService } from '../../../src/services/auth.service';
+import { SessionBus, type SessionChannel } from '../../../src/lib/session-bus';
+import { MemoryTokenStorage, migrateLegacyTokenStorage } from '../../../src/utils/token-storage';
+
+/**
+ * Token storage tests
+ * Access tokens stay in memory; the refresh token only ever lives in the
+ * backend's HttpOnly cookie
+ */
+
+// A tab with no peers
+function createLonelyChannel(): SessionChannel {
+  return {
+    postMessage: () => {},
+    subscribe: () => () => {},
+    close: () => {},
+  };
+}
+
+function mockRefreshResponse(body: Record<string, unknown>) {
+  vi.mocked(fetch).mockResolvedValue(
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  );
+}
+
+/** Everything in Web Storage, as one string */
+function dumpWebStorage(): string {
+  const dump = (storage: Storage) =>
+    Array.from({ length: storage.length }, (_, index) => {
+      const key = storage.key(index)!;
+      return `${key}=${storage.getItem(key)}`;
+    }).join('\n');
+  return `${dump(localStorage)}\n${dump(sessionStorage)}`;
+}
+
+describe('MemoryTokenStorage', () => {
+  it('should never keep the refresh token', () => {
+    const storage = new MemoryTokenStorage();
+    storage.write({
+      access_token: 'access',
+      refresh_token: 'refresh',
+      expires_in: 3600,
+      token_type: 'Bearer',
+      scope: 'user-read-email',
+    });
+
+    expect(storage.read()).toEqual({
+      access_token: 'access',
+      expires_in: 3600,
+      token_type: 'Bearer',
+      scope: 'user-read-email',
+    });
+    expect(dumpWebStorage()).not.toContain('refresh');
+  });
+
+  it('should forget tokens on clear', () => {
+    const storage = new MemoryTokenStorage();
+    storage.write({ access_token: 'access', expires_in: 3600, token_type: 'Bearer', scope: '' });
+    storage.clear();
+
+    expect(storage.read()).toBeNull();
+  });
+});
+
+describe('migrateLegacyTokenStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should delete tokens earlier releases kept in localStorage', () => {
+    localStorage.setItem(
+      'auth_tokens',
+      JSON.stringify({ access_token: 'old_access', refresh_token: 'old_refresh' })
+    );
+
+    expect(migrateLegacyTokenStorage()).toBe(true);
+    expect(localStorage.getItem('auth_tokens')).toBeNull();
+  });
+
+  it('should leave storage alone when there is nothing to migrate', () => {
+    localStorage.setItem('vibeguess-settings', '{}');
+
+    expect(migrateLegacyTokenStorage()).toBe(false);
+    expect(localStorage.getItem('vibeguess-settings')).toBe('{}');
+  });
+
+  it('should run when the auth service starts', () => {
+    localStorage.setItem('auth_tokens', JSON.stringify({ refresh_token: 'old_refresh' }));
+    const bus = new SessionBus(createLonelyChannel());
+
+    new AuthService(new MemoryTokenStorage(), bus);
+    bus.stop();
+
+    expect(localStorage.getItem('auth_tokens')).toBeNull();
+  });
+});
+
+describe('AuthService token refresh', () => {
+  let bus: SessionBus;
+  let service: AuthService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    vi.mocked(fetch).mockReset();
+    bus = new SessionBus(createLonelyChannel());
+    service = new AuthService(new MemoryTokenStorage(), bus);
+  });
+
+  afterEach(() => {
+    bus.stop();
+  });
+
+  it('should refresh with the cookie, not a refresh token in the body', async () => {
+    mockRefreshResponse({ accessToken: 'new_access', expiresIn: 3600, tokenType: 'Bearer' });
+
+    await service.refreshToken();
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(String(url)).toMatch(/\/auth\/refresh$/);
+    expect(init?.credentials).toBe('include');
+    expect(init?.body ?? '{}').toBe('{}');
+  });
+
+  it('should keep refreshed tokens out of Web Storage', async () => {
+    mockRefreshResponse({
+      accessToken: 'new_access',
+      refreshToken: 'rotated_refresh',
+      expiresIn: 3600,
+      tokenType: 'Bearer',
+    });
+
+    const tokens = await service.refreshToken();
+
+    expect(tokens.access_token).toBe('new_access');
+    expect(service.getStoredTokens()).not.toHaveProperty('refresh_token');
+    expect(dumpWebStorage()).not.toContain('new_access');
+    expect(dumpWebStorage()).not.toContain('rotated_refresh');
+  });
+});
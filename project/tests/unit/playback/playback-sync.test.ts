@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PLAYBACK_POLL_MS,
+  detectPlaybackChanges,
+  getPollInterval,
+  interpolateProgress,
+  measureClockOffset,
+  smoothClockOffset,
+} from '../../../src/lib/playback-sync';
+import type { PlaybackState } from '../../../src/types/spotify';
+
+/**
+ * Playback sync tests
+ */
+
+const measuredAt = Date.parse('2025-09-22T10:00:00Z');
+
+const playback: PlaybackState = {
+  isPlaying: true,
+  trackId: 'track-1',
+  progressMs: 60000,
+  durationMs: 200000,
+  device: { id: 'device-computer', name: 'My Computer', type: 'Computer', volumePercent: 50 },
+  volume: 50,
+  shuffleState: false,
+  repeatState: 'off',
+  updatedAt: measuredAt,
+};
+
+/** The same playback measured later, with changes */
+function later(ms: number, changes: Partial<PlaybackState> = {}): PlaybackState {
+  return {
+    ...playback,
+    progressMs: playback.progressMs + ms,
+    updatedAt: measuredAt + ms,
+    ...changes,
+  };
+}
+
+describe('getPollInterval', () => {
+  it('should poll fastest while a clip plays and slowest when idle', () => {
+    expect(getPollInterval(true, null)).toBe(PLAYBACK_POLL_MS.clip);
+    expect(getPollInterval(false, playback)).toBe(PLAYBACK_POLL_MS.playing);
+    expect(getPollInterval(false, { ...playback, isPlaying: false })).toBe(PLAYBACK_POLL_MS.idle);
+    expect(getPollInterval(false, null)).toBe(PLAYBACK_POLL_MS.idle);
+  });
+});
+
+describe('clock offset', () => {
+  it('should take the middle of the request as the local measuring time', () => {
+    expect(measureClockOffset(measuredAt, measuredAt - 2100, measuredAt - 1900)).toBe(2000);
+  });
+
+  it('should smooth out jitter between samples', () => {
+    expect(smoothClockOffset(null, 2000)).toBe(2000);
+    expect(smoothClockOffset(2000, 2400)).toBe(2100);
+  });
+});
+
+describe('interpolateProgress', () => {
+  it('should run progress on while playing', () => {
+    expect(interpolateProgress(playback, measuredAt + 1500)).toBe(61500);
+  });
+
+  it('should correct for the clock offset', () => {
+    // The local clock is 2 seconds behind the server's
+    expect(interpolateProgress(playback, measuredAt - 2000 + 1500, 2000)).toBe(61500);
+  });
+
+  it('should hold progress while paused', () => {
+    expect(interpolateProgress({ ...playback, isPlaying: false }, measuredAt + 5000)).toBe(60000);
+  });
+
+  it('should stay within the track', () => {
+    expect(interpolateProgress(playback, measuredAt + 500000)).toBe(200000);
+    expect(interpolateProgress(playback, measuredAt - 5000)).toBe(60000);
+  });
+});
+
+describe('detectPlaybackChanges', () => {
+  it('should report nothing when playback carries on as expected', () => {
+    expect(detectPlaybackChanges(playback, later(5000))).toEqual([]);
+    // Small drift is not a seek
+    expect(detectPlaybackChanges(playback, later(5000, { progressMs: 66000 }))).toEqual([]);
+  });
+
+  it('should report nothing before anything was known', () => {
+    expect(detectPlaybackChanges(null, playback)).toEqual([]);
+  });
+
+  it('should report another track', () => {
+    expect(
+      detectPlaybackChanges(playback, later(5000, { trackId: 'track-2', progressMs: 1000 }))
+    ).toEqual([{ type: 'track-changed', previousTrackId: 'track-1', trackId: 'track-2' }]);
+  });
+
+  it('should report pauses and resumes', () => {
+    const paused = later(5000, { isPlaying: false, progressMs: 62000 });
+
+    expect(detectPlaybackChanges(playback, paused)).toEqual([{ type: 'paused' }]);
+    expect(detectPlaybackChanges(paused, later(20000))).toEqual([{ type: 'resumed' }]);
+  });
+
+  it('should report seeks', () => {
+    expect(detectPlaybackChanges(playback, later(5000, { progressMs: 120000 }))).toEqual([
+      { type: 'seeked', expectedMs: 65000, progressMs: 120000 },
+    ]);
+  });
+
+  it('should report another device', () => {
+    const device = { id: 'device-phone', name: 'My Phone', type: 'Smartphone', volumePercent: 80 };
+
+    expect(detectPlaybackChanges(playback, later(5000, { device }))).toEqual([
+      { type: 'device-changed', previousDeviceId: 'device-computer', deviceId: 'device-phone' },
+    ]);
+  });
+
+  it('should report playback that stopped', () => {
+    expect(detectPlaybackChanges(playback, null)).toEqual([{ type: 'stopped' }]);
+    expect(detectPlaybackChanges({ ...playback, isPlaying: false }, null)).toEqual([]);
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ClipPlayer,
+  PREVIEW_CLIP_MS,
+  getClipGain,
+  getClipWindow,
+  getPlayableMs,
+  getQuestionClip,
+  resolveSnippet,
+  validateSnippet,
+} from '../../../src/lib/snippet';
+import type { TrackPlayer } from '../../../src/lib/track-player';
+import type { SpotifyTrack } from '../../../src/types/quiz';
+
+/**
+ * Snippet mode tests
+ */
+
+const track: SpotifyTrack = {
+  id: 'track-1',
+  name: 'Song',
+  artist: 'Artist',
+  previewUrl: 'https://p.scdn.co/mp3-preview/track-1',
+  durationMs: 200000,
+};
+
+function createFakePlayer(): TrackPlayer & { volumes: number[] } {
+  const volumes: number[] = [];
+  return {
+    strategy: 'preview',
+    onEnded: null,
+    volumes,
+    canPlay: () => true,
+    play: vi.fn().mockResolvedValue(undefined),
+    pause: vi.fn().mockResolvedValue(undefined),
+    setVolume: (gain: number) => {
+      volumes.push(gain);
+    },
+    dispose: vi.fn(),
+  };
+}
+
+describe('resolveSnippet', () => {
+  it('should play whole tracks without settings', () => {
+    expect(resolveSnippet(undefined, undefined)).toEqual({
+      startMs: 0,
+      randomStart: false,
+      durationMs: null,
+    });
+  });
+
+  it('should let questions override the quiz field by field', () => {
+    expect(
+      resolveSnippet({ startMs: 30000, durationMs: 10000 }, { durationMs: 5000, randomStart: true })
+    ).toEqual({ startMs: 30000, randomStart: true, durationMs: 5000 });
+  });
+});
+
+describe('getClipWindow', () => {
+  const snippet = resolveSnippet({ startMs: 60000, durationMs: 10000 }, undefined);
+
+  it('should start fixed clips where they are set', () => {
+    expect(getClipWindow(snippet, 200000, 0.9)).toEqual({ startMs: 60000, durationMs: 10000 });
+  });
+
+  it('should move clips back so they fit in the track', () => {
+    expect(getClipWindow(snippet, PREVIEW_CLIP_MS, 0)).toEqual({
+      startMs: 20000,
+      durationMs: 10000,
+    });
+  });
+
+  it('should shorten clips longer than the track', () => {
+    expect(getClipWindow({ ...snippet, durationMs: 60000 }, PREVIEW_CLIP_MS, 0)).toEqual({
+      startMs: 0,
+      durationMs: PREVIEW_CLIP_MS,
+    });
+  });
+
+  it('should pick random starts within the bounds', () => {
+    const random = { ...snippet, randomStart: true, maxStartMs: 100000 };
+
+    expect(getClipWindow(random, 200000, 0).startMs).toBe(60000);
+    expect(getClipWindow(random, 200000, 0.5).startMs).toBe(80000);
+    // Without a latest start, as late as the clip fits
+    expect(getClipWindow({ ...random, maxStartMs: undefined }, 200000, 0.999).startMs).toBe(189870);
+  });
+
+  it('should give the same clip every time for a question', () => {
+    const random = resolveSnippet({ randomStart: true, durationMs: 5000 }, undefined);
+    const first = getQuestionClip('q1', track, random, 'remote');
+
+    expect(getQuestionClip('q1', track, random, 'remote')).toEqual(first);
+    expect(first.startMs).toBeGreaterThanOrEqual(0);
+    expect(first.startMs).toBeLessThanOrEqual(195000);
+  });
+});
+
+describe('getPlayableMs', () => {
+  it('should only play the preview clip of previews', () => {
+    expect(getPlayableMs(track, 'remote')).toBe(200000);
+    expect(getPlayableMs(track, 'preview')).toBe(PREVIEW_CLIP_MS);
+    expect(getPlayableMs({ ...track, durationMs: 12000 }, 'preview')).toBe(12000);
+  });
+});
+
+describe('getClipGain', () => {
+  it('should fade in at the start and out before the end', () => {
+    expect(getClipGain(0, 10000, 1000)).toBe(0);
+    expect(getClipGain(500, 10000, 1000)).toBe(0.5);
+    expect(getClipGain(5000, 10000, 1000)).toBe(1);
+    expect(getClipGain(9750, 10000, 1000)).toBe(0.25);
+    expect(getClipGain(10000, 10000, 1000)).toBe(0);
+  });
+
+  it('should not fade out tracks played to the end', () => {
+    expect(getClipGain(150000, null, 1000)).toBe(1);
+  });
+});
+
+describe('validateSnippet', () => {
+  it('should accept missing and sensible settings', () => {
+    expect(validateSnippet(undefined)).toBeUndefined();
+    expect(validateSnippet({ startMs: 0, randomStart: true, maxStartMs: 5000 })).toBeUndefined();
+  });
+
+  it('should reject short clips and backwards bounds', () => {
+    expect(validateSnippet({ durationMs: 500 })).toBeDefined();
+    expect(validateSnippet({ startMs: 5000, randomStart: true, maxStartMs: 1000 })).toBeDefined();
+  });
+});
+
+describe('ClipPlayer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start at the clip start and pause at its end', async () => {
+    const player = createFakePlayer();
+    const clips = new ClipPlayer(player, { fadeMs: 0 });
+    const onEnded = vi.fn();
+    clips.onEnded = onEnded;
+
+    await clips.play(track, { startMs: 45000, durationMs: 5000 });
+    expect(player.play).toHaveBeenCalledWith(track, 45000);
+
+    vi.advanceTimersByTime(4900);
+    expect(player.pause).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(200);
+    expect(player.pause).toHaveBeenCalledTimes(1);
+    expect(onEnded).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fade the clip in and out', async () => {
+    const player = createFakePlayer();
+    const clips = new ClipPlayer(player, { fadeMs: 1000 });
+
+    await clips.play(track, { startMs: 0, durationMs: 4000 });
+    expect(player.volumes[0]).toBe(0);
+
+    vi.advanceTimersByTime(2000);
+    expect(player.volumes[player.volumes.length - 1]).toBe(1);
+
+    vi.advanceTimersByTime(1500);
+    expect(player.volumes[player.volumes.length - 1]).toBeCloseTo(0.5);
+  });
+
+  it('should replay the clip from its start', async () => {
+    const player = createFakePlayer();
+    const clips = new ClipPlayer(player, { fadeMs: 0 });
+    const clip = { startMs: 45000, durationMs: 5000 };
+
+    await clips.play(track, clip);
+    vi.advanceTimersByTime(6000);
+    await clips.play(track, clip);
+
+    expect(player.play).toHaveBeenNthCalledWith(2, track, 45000);
+    vi.advanceTimersByTime(4000);
+    expect(player.pause).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only follow the last of overlapping plays', async () => {
+    const player = createFakePlayer();
+    let startFirst = () => {};
+    vi.mocked(player.play).mockImplementationOnce(
+      () => new Promise<void>(resolve => (startFirst = resolve))
+    );
+    const clips = new ClipPlayer(player, { fadeMs: 0 });
+    const onEnded = vi.fn();
+    clips.onEnded = onEnded;
+
+    const first = clips.play(track, { startMs: 0, durationMs: 2000 });
+    await clips.play(track, { startMs: 45000, durationMs: 5000 });
+    // The first play only starts once the second is under way
+    startFirst();
+    await first;
+
+    vi.advanceTimersByTime(4900);
+    expect(player.pause).not.toHaveBeenCalled();
+    expect(onEnded).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(200);
+    expect(player.pause).toHaveBeenCalledTimes(1);
+    expect(onEnded).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not start the clip timer when paused while starting', async () => {
+    const player = createFakePlayer();
+    const clips = new ClipPlayer(player, { fadeMs: 0 });
+    const onEnded = vi.fn();
+    clips.onEnded = onEnded;
+
+    const playing = clips.play(track, { startMs: 0, durationMs: 5000 });
+    await clips.pause();
+    await playing;
+    vi.advanceTimersByTime(10000);
+
+    expect(player.pause).toHaveBeenCalledTimes(1);
+    expect(onEnded).not.toHaveBeenCalled();
+  });
+
+  it('should stop the clip timer when paused', async () => {
+    const player = createFakePlayer();
+    const clips = new ClipPlayer(player, { fadeMs: 0 });
+    const onEnded = vi.fn();
+    clips.onEnded = onEnded;
+
+    await clips.play(track, { startMs: 0, durationMs: 5000 });
+    await clips.pause();
+    vi.advanceTimersByTime(10000);
+
+    expect(onEnded).not.toHaveBeenCalled();
+  });
+
+  it('should end the clip when the track runs out first', async () => {
+    const player = createFakePlayer();
+    const clips = new ClipPlayer(player, { fadeMs: 0 });
+    const onEnded = vi.fn();
+    clips.onEnded = onEnded;
+
+    await clips.play(track, { startMs: 25000, durationMs: null });
+    player.onEnded?.();
+
+    expect(onEnded).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  PreviewTrackPlayer,
+  REMOTE_VOLUME_INTERVAL_MS,
+  RemoteTrackPlayer,
+  choosePlaybackStrategy,
+} from '../../../src/lib/track-player';
+import type { SpotifyTrack } from '../../../src/types/quiz';
+
+/**
+ * Track player tests
+ */
+
+const track: SpotifyTrack = {
+  id: 'track-1',
+  name: 'Song',
+  artist: 'Artist',
+  previewUrl: 'https://p.scdn.co/mp3-preview/track-1',
+  durationMs: 200000,
+};
+
+/**
+ * Enough of an audio element for the preview player
+ */
+function createFakeAudio() {
+  const listeners: Record<string, () => void> = {};
+  return {
+    src: '',
+    preload: '',
+    currentTime: 0,
+    play: vi.fn().mockResolvedValue(undefined),
+    pause: vi.fn(),
+    load: vi.fn(),
+    removeAttribute: vi.fn(),
+    addEventListener: (type: string, listener: () => void) => {
+      listeners[type] = listener;
+    },
+    emit: (type: string) => listeners[type]?.(),
+  };
+}
+
+describe('choosePlaybackStrategy', () => {
+  it('should play on the device for Premium users who picked one', () => {
+    expect(
+      choosePlaybackStrategy({ hasPremium: true, enableAudioPreview: true, deviceId: 'device-1' })
+    ).toBe('remote');
+  });
+
+  it('should fall back to previews without Premium or a device', () => {
+    expect(
+      choosePlaybackStrategy({ hasPremium: false, enableAudioPreview: true, deviceId: 'device-1' })
+    ).toBe('preview');
+    expect(choosePlaybackStrategy({ hasPremium: true, enableAudioPreview: true })).toBe('preview');
+  });
+
+  it('should fall back to previews when the device asks for Premium', () => {
+    expect(
+      choosePlaybackStrategy({
+        hasPremium: true,
+        enableAudioPreview: true,
+        deviceId: 'device-1',
+        premiumRequired: true,
+      })
+    ).toBe('preview');
+  });
+
+  it('should play nothing when previews are turned off', () => {
+    expect(choosePlaybackStrategy({ hasPremium: false, enableAudioPreview: false })).toBe('none');
+  });
+});
+
+describe('RemoteTrackPlayer', () => {
+  it('should send the track and start position to the device', async () => {
+    const controls = {
+      play: vi.fn().mockResolvedValue(undefined),
+      pause: vi.fn().mockResolvedValue(undefined),
+    };
+    const player = new RemoteTrackPlayer(controls);
+
+    await player.play(track, 1500.6);
+    await player.pause();
+
+    expect(controls.play).toHaveBeenCalledWith({ trackId: 'track-1', positionMs: 1501 });
+    expect(controls.pause).toHaveBeenCalledTimes(1);
+    expect(player.canPlay({ ...track, previewUrl: undefined })).toBe(true);
+  });
+});
+
+describe('RemoteTrackPlayer fades', () => {
+  function createControls(volume: number | null = 80) {
+    return {
+      play: vi.fn().mockResolvedValue(undefined),
+      pause: vi.fn().mockResolvedValue(undefined),
+      setVolume: vi.fn().mockResolvedValue(undefined),
+      getVolume: () => volume,
+    };
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should scale the device's volume at a limited rate, sending the latest last", async () => {
+    vi.useFakeTimers();
+    const controls = createControls();
+    const player = new RemoteTrackPlayer(controls);
+
+    player.setVolume(0);
+    player.setVolume(0.25);
+    player.setVolume(0.5);
+    expect(controls.setVolume.mock.calls).toEqual([[0]]);
+
+    await vi.advanceTimersByTimeAsync(REMOTE_VOLUME_INTERVAL_MS);
+    expect(controls.setVolume.mock.calls).toEqual([[0], [40]]);
+
+    player.setVolume(1);
+    await vi.advanceTimersByTimeAsync(REMOTE_VOLUME_INTERVAL_MS);
+    expect(controls.setVolume.mock.calls).toEqual([[0], [40], [80]]);
+  });
+
+  it('should put the device back at its own volume when paused', async () => {
+    vi.useFakeTimers();
+    const controls = createControls();
+    const player = new RemoteTrackPlayer(controls);
+
+    player.setVolume(0.5);
+    await player.pause();
+    await vi.advanceTimersByTimeAsync(REMOTE_VOLUME_INTERVAL_MS);
+
+    expect(controls.pause).toHaveBeenCalledTimes(1);
+    expect(controls.setVolume.mock.calls).toEqual([[40], [80]]);
+  });
+
+  it('should not fade devices without a known volume or volume control', async () => {
+    const controls = createControls(null);
+    const player = new RemoteTrackPlayer(controls);
+
+    player.setVolume(0);
+    await player.pause();
+
+    expect(controls.setVolume).not.toHaveBeenCalled();
+  });
+
+  it('should stop fading once the device refuses a volume command', async () => {
+    vi.useFakeTimers();
+    const controls = createControls();
+    controls.setVolume.mockRejectedValueOnce(new Error('Device does not support volume control'));
+    const player = new RemoteTrackPlayer(controls);
+
+    player.setVolume(0);
+    await vi.advanceTimersByTimeAsync(REMOTE_VOLUME_INTERVAL_MS);
+    player.setVolume(0.5);
+    await vi.advanceTimersByTimeAsync(REMOTE_VOLUME_INTERVAL_MS);
+
+    expect(controls.setVolume).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('PreviewTrackPlayer', () => {
+  it('should play the preview clip from a position', async () => {
+    const audio = createFakeAudio();
+    const player = new PreviewTrackPlayer(() => audio as unknown as HTMLAudioElement);
+
+    await player.play(track, 5000);
+
+    expect(audio.src).toBe(track.previewUrl);
+    expect(audio.currentTime).toBe(5);
+    expect(audio.play).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not play tracks without a preview', async () => {
+    const audio = createFakeAudio();
+    const player = new PreviewTrackPlayer(() => audio as unknown as HTMLAudioElement);
+    const withoutPreview = { ...track, previewUrl: undefined };
+
+    expect(player.canPlay(withoutPreview)).toBe(false);
+    await expect(player.play(withoutPreview)).rejects.toThrow('No preview');
+    expect(audio.play).not.toHaveBeenCalled();
+  });
+
+  it('should report the end of a clip', async () => {
+    const audio = createFakeAudio();
+    const player = new PreviewTrackPlayer(() => audio as unknown as HTMLAudioElement);
+    const onEnded = vi.fn();
+    player.onEnded = onEnded;
+
+    await player.play(track);
+    audio.emit('ended');
+
+    expect(onEnded).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop the clip when disposed', async () => {
+    const audio = createFakeAudio();
+    const player = new PreviewTrackPlayer(() => audio as unknown as HTMLAudioElement);
+
+    await player.play(track);
+    player.dispose();
+
+    expect(audio.pause).toHaveBeenCalled();
+    expect(audio.removeAttribute).toHaveBeenCalledWith('src');
+  });
+});
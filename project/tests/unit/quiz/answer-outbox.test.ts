@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { AnswerOutbox, type OutboxEvent } from '../../../src/lib/answer-outbox';
+import {
+  ApiError,
+  BadRequestError,
+  ConflictError,
+  NetworkError,
+} from '../../../src/utils/error-handling';
+import type { SubmitAnswerRequest, SubmitAnswerResponse } from '../../../src/types/quiz';
+
+/**
+ * Offline answer outbox tests
+ */
+
+function answer(questionId: string, selectedAnswer = 'Pearl Jam'): SubmitAnswerRequest {
+  return { questionId, selectedAnswer, timeToAnswer: 1000 };
+}
+
+function response(currentScore: number): SubmitAnswerResponse {
+  return {
+    isCorrect: true,
+    correctAnswer: 'Pearl Jam',
+    currentScore,
+    nextQuestionIndex: currentScore,
+    isSessionComplete: false,
+  };
+}
+
+function apiError(Type: typeof ApiError, status: number) {
+  return new Type({ status, code: 'error', message: `HTTP ${status}` });
+}
+
+describe('AnswerOutbox', () => {
+  let submit: ReturnType<typeof vi.fn>;
+  let outbox: AnswerOutbox;
+  let events: OutboxEvent[];
+  let now: number;
+
+  beforeEach(() => {
+    // Distinct queue times so flush order is deterministic
+    now = 1000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now++);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    submit = vi.fn();
+    outbox = new AnswerOutbox({ submit, indexedDB: new IDBFactory() });
+    events = [];
+    outbox.subscribe(event => events.push(event));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should keep answers queued per session and question', async () => {
+    await outbox.enqueue('session-1', answer('q1'));
+    await outbox.enqueue('session-2', answer('q1'));
+    await outbox.enqueue('session-1', answer('q2'));
+
+    expect(await outbox.count()).toBe(3);
+    expect((await outbox.list('session-1')).map(entry => entry.questionId)).toEqual(['q1', 'q2']);
+    expect(events.map(event => event.type)).toEqual(['queued', 'queued', 'queued']);
+  });
+
+  it('should replace an earlier answer to the same question', async () => {
+    await outbox.enqueue('session-1', answer('q1', 'Nirvana'));
+    await outbox.enqueue('session-1', answer('q1', 'Pearl Jam'));
+
+    const entries = await outbox.list();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].answer.selectedAnswer).toBe('Pearl Jam');
+  });
+
+  it('should submit queued answers in the order they were given', async () => {
+    submit.mockResolvedValueOnce(response(1)).mockResolvedValueOnce(response(2));
+    await outbox.enqueue('session-1', answer('q2'));
+    await outbox.enqueue('session-1', answer('q1'));
+
+    const result = await outbox.flush();
+
+    expect(result).toEqual({ synced: 2, dropped: 0, remaining: 0 });
+    expect(submit.mock.calls.map(([, sent]) => sent.questionId)).toEqual(['q2', 'q1']);
+    expect(events.filter(event => event.type === 'synced')).toEqual([
+      expect.objectContaining({ response: response(1) }),
+      expect.objectContaining({ response: response(2) }),
+    ]);
+    expect(await outbox.count()).toBe(0);
+  });
+
+  it('should count a 409 as synced', async () => {
+    submit.mockRejectedValueOnce(apiError(ConflictError, 409));
+    await outbox.enqueue('session-1', answer('q1'));
+
+    expect(await outbox.flush()).toEqual({ synced: 1, dropped: 0, remaining: 0 });
+    const synced = events[events.length - 1];
+    expect(synced.type).toBe('synced');
+    expect(synced).not.toHaveProperty('response');
+  });
+
+  it('should stop at a network error and keep the rest for later', async () => {
+    submit.mockResolvedValueOnce(response(1)).mockRejectedValueOnce(new NetworkError());
+    await outbox.enqueue('session-1', answer('q1'));
+    await outbox.enqueue('session-1', answer('q2'));
+    await outbox.enqueue('session-1', answer('q3'));
+
+    expect(await outbox.flush()).toEqual({ synced: 1, dropped: 0, remaining: 2 });
+    expect(submit).toHaveBeenCalledTimes(2);
+    expect((await outbox.list()).map(entry => entry.questionId)).toEqual(['q2', 'q3']);
+
+    submit.mockResolvedValue(response(2));
+    expect(await outbox.flush()).toEqual({ synced: 2, dropped: 0, remaining: 0 });
+  });
+
+  it('should drop answers the server rejects and carry on', async () => {
+    submit.mockRejectedValueOnce(apiError(BadRequestError, 400)).mockResolvedValueOnce(response(1));
+    await outbox.enqueue('session-1', answer('q1'));
+    await outbox.enqueue('session-1', answer('q2'));
+
+    expect(await outbox.flush()).toEqual({ synced: 1, dropped: 1, remaining: 0 });
+    expect(events.find(event => event.type === 'dropped')).toMatchObject({
+      entry: { questionId: 'q1' },
+      error: expect.any(BadRequestError),
+    });
+  });
+
+  it('should share one flush between concurrent callers', async () => {
+    submit.mockResolvedValue(response(1));
+    await outbox.enqueue('session-1', answer('q1'));
+
+    const [first, second] = await Promise.all([outbox.flush(), outbox.flush()]);
+
+    expect(first).toBe(second);
+    expect(submit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should flush when the browser comes back online', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    submit.mockResolvedValue(response(1));
+    await outbox.enqueue('session-1', answer('q1'));
+
+    const stop = outbox.start();
+    expect(submit).not.toHaveBeenCalled();
+
+    window.dispatchEvent(new Event('online'));
+    await vi.waitFor(() => expect(events.some(event => event.type === 'synced')).toBe(true));
+    stop();
+  });
+});
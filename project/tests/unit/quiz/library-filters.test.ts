@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_LIBRARY_FILTERS,
+  applyLibraryFilters,
+  collectTags,
+  parseLibraryFilters,
+  toLibrarySearchParams,
+} from '../../../src/utils/library';
+import type { QuizHistoryItem } from '../../../src/types/quiz';
+
+/**
+ * Quiz library filter tests
+ */
+
+function item(overrides: Partial<QuizHistoryItem>): QuizHistoryItem {
+  return {
+    id: 'quiz-1',
+    title: '90s Rock',
+    totalQuestions: 10,
+    difficulty: 'Easy',
+    isActive: false,
+    createdAt: '2025-09-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const items = [
+  item({ id: 'grunge', title: 'Grunge Legends', tags: ['90s', 'grunge'], score: 5 }),
+  item({
+    id: 'britpop',
+    title: 'Britpop',
+    difficulty: 'Hard',
+    tags: ['90s'],
+    score: 9,
+    completedAt: '2025-09-03T00:00:00Z',
+  }),
+  item({ id: 'active', title: 'Disco Night', isActive: true, createdAt: '2025-09-02T00:00:00Z' }),
+];
+
+describe('library filters in the URL', () => {
+  it('should round-trip filters through search params', () => {
+    const filters = {
+      page: 3,
+      status: 'completed' as const,
+      difficulty: 'Hard' as const,
+      tags: ['90s', 'grunge'],
+      search: 'rock',
+      sort: 'score-desc' as const,
+    };
+
+    const searchParams = toLibrarySearchParams(filters);
+
+    expect(searchParams.toString()).toBe(
+      'page=3&status=completed&difficulty=Hard&tags=90s%2Cgrunge&q=rock&sort=score-desc'
+    );
+    expect(parseLibraryFilters(searchParams)).toEqual(filters);
+  });
+
+  it('should leave defaults out of the URL', () => {
+    expect(toLibrarySearchParams(DEFAULT_LIBRARY_FILTERS).toString()).toBe('');
+  });
+
+  it('should fall back to defaults for invalid values', () => {
+    const searchParams = new URLSearchParams('page=-1&status=deleted&difficulty=Insane&sort=name');
+    expect(parseLibraryFilters(searchParams)).toEqual(DEFAULT_LIBRARY_FILTERS);
+  });
+});
+
+describe('applyLibraryFilters', () => {
+  it('should filter by difficulty, all selected tags and title', () => {
+    const ids = (filters: Partial<typeof DEFAULT_LIBRARY_FILTERS>) =>
+      applyLibraryFilters(items, { ...DEFAULT_LIBRARY_FILTERS, ...filters }).map(
+        result => result.id
+      );
+
+    expect(ids({ difficulty: 'Hard' })).toEqual(['britpop']);
+    expect(ids({ tags: ['90s', 'grunge'] })).toEqual(['grunge']);
+    expect(ids({ search: ' DISCO ' })).toEqual(['active']);
+  });
+
+  it('should sort by most recent activity', () => {
+    const sorted = applyLibraryFilters(items, DEFAULT_LIBRARY_FILTERS).map(result => result.id);
+    expect(sorted).toEqual(['britpop', 'active', 'grunge']);
+
+    const oldest = applyLibraryFilters(items, { ...DEFAULT_LIBRARY_FILTERS, sort: 'oldest' });
+    expect(oldest.map(result => result.id)).toEqual(['grunge', 'active', 'britpop']);
+  });
+
+  it('should sort by score with unscored quizzes last', () => {
+    const best = applyLibraryFilters(items, { ...DEFAULT_LIBRARY_FILTERS, sort: 'score-desc' });
+    expect(best.map(result => result.id)).toEqual(['britpop', 'grunge', 'active']);
+
+    const worst = applyLibraryFilters(items, { ...DEFAULT_LIBRARY_FILTERS, sort: 'score-asc' });
+    expect(worst.map(result => result.id)).toEqual(['grunge', 'britpop', 'active']);
+  });
+
+  it('should not reorder the loaded page in place', () => {
+    const page = [...items];
+    applyLibraryFilters(page, { ...DEFAULT_LIBRARY_FILTERS, sort: 'oldest' });
+    expect(page).toEqual(items);
+  });
+});
+
+describe('collectTags', () => {
+  it('should list each tag once, alphabetically', () => {
+    expect(collectTags(items)).toEqual(['90s', 'grunge']);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import {
+  QUESTION_TYPES,
+  formatAnswer,
+  getQuestionType,
+  questionTypes,
+  scoreAnswer,
+} from '../../../src/lib/question-types';
+import { editDistance, isFuzzyMatch, normalizeAnswer } from '../../../src/utils/text-match';
+import type { Question } from '../../../src/types/quiz';
+
+/**
+ * Question type registry tests
+ */
+
+function question(overrides: Partial<Question>): Question {
+  return {
+    id: 'q1',
+    text: 'Question',
+    type: 'MultipleChoice',
+    options: [],
+    correctAnswer: '',
+    ...overrides,
+  };
+}
+
+describe('text matching', () => {
+  it('ignores case, accents, punctuation and a leading "the"', () => {
+    expect(normalizeAnswer('  The Beatles! ')).toBe('beatles');
+    expect(normalizeAnswer('Björk')).toBe('bjork');
+    expect(normalizeAnswer('Simon & Garfunkel')).toBe('simon and garfunkel');
+  });
+
+  it('keeps letters of non-Latin scripts', () => {
+    expect(normalizeAnswer('Мумий Тролль!')).toBe('мумии тролль');
+    expect(normalizeAnswer('坂本九')).toBe('坂本九');
+    expect(isFuzzyMatch('мумий тролль', 'Мумий Тролль')).toBe(true);
+    expect(isFuzzyMatch('Мумий Тропль', 'Мумий Тролль')).toBe(true);
+    expect(isFuzzyMatch('坂本九', '坂本九')).toBe(true);
+    expect(isFuzzyMatch('坂本龍一', '坂本九')).toBe(false);
+  });
+
+  it('counts single-character edits', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'abc')).toBe(3);
+    expect(editDistance('same', 'same')).toBe(0);
+    expect(editDistance('ros', 'rso')).toBe(1);
+  });
+
+  it('allows one typo per five characters', () => {
+    expect(isFuzzyMatch('Radiohed', 'Radiohead')).toBe(true);
+    expect(isFuzzyMatch('Radoihed', 'Radiohead')).toBe(false);
+    expect(isFuzzyMatch('Abba', 'ABBA')).toBe(true);
+    expect(isFuzzyMatch('Abbz', 'ABBA')).toBe(false);
+  });
+
+  it('never matches empty guesses', () => {
+    expect(isFuzzyMatch('', 'Oasis')).toBe(false);
+    expect(isFuzzyMatch('!!!', 'Oasis')).toBe(false);
+  });
+});
+
+describe('question types', () => {
+  it('registers a definition for every question type', () => {
+    expect(QUESTION_TYPES).toEqual(['MultipleChoice', 'FreeText', 'YearGuess', 'Ordering']);
+    QUESTION_TYPES.forEach(type => expect(getQuestionType(type).type).toBe(type));
+  });
+
+  describe('MultipleChoice', () => {
+    const multipleChoice = question({ options: ['Oasis', 'Blur'], correctAnswer: 'Oasis' });
+
+    it('only accepts the exact option', () => {
+      expect(scoreAnswer(multipleChoice, 'Oasis')).toEqual({ credit: 1, isCorrect: true });
+      expect(scoreAnswer(multipleChoice, 'oasis')).toEqual({ credit: 0, isCorrect: false });
+    });
+
+    it('requires the correct answer among the options', () => {
+      expect(questionTypes.MultipleChoice.validate(multipleChoice)).toEqual({});
+      expect(
+        questionTypes.MultipleChoice.validate({ ...multipleChoice, correctAnswer: 'Pulp' })
+      ).toHaveProperty('correctAnswer');
+    });
+  });
+
+  describe('FreeText', () => {
+    const freeText = question({
+      type: 'FreeText',
+      correctAnswer: 'Sigur Rós',
+      options: ['Sigur Ros Band'],
+    });
+
+    it('accepts close, diacritic-insensitive guesses', () => {
+      expect(scoreAnswer(freeText, 'sigur ros').isCorrect).toBe(true);
+      expect(scoreAnswer(freeText, 'Sigur Rso').isCorrect).toBe(true);
+      expect(scoreAnswer(freeText, 'Mogwai').isCorrect).toBe(false);
+    });
+
+    it('accepts alternative answers', () => {
+      expect(scoreAnswer(freeText, 'sigur ros band').isCorrect).toBe(true);
+    });
+
+    it('trims typed answers', () => {
+      expect(questionTypes.FreeText.serializeAnswer('  Mogwai ')).toBe('Mogwai');
+    });
+
+    it('accepts answers in non-Latin scripts', () => {
+      const cyrillic = { ...freeText, correctAnswer: 'Мумий Тролль', options: [] };
+
+      expect(questionTypes.FreeText.validate(cyrillic)).toEqual({});
+      expect(scoreAnswer(cyrillic, 'мумий тролль').isCorrect).toBe(true);
+      expect(scoreAnswer({ ...freeText, correctAnswer: '坂本九' }, '坂本九').isCorrect).toBe(true);
+    });
+
+    it('requires a correct answer', () => {
+      expect(questionTypes.FreeText.validate({ ...freeText, correctAnswer: ' ' })).toHaveProperty(
+        'correctAnswer'
+      );
+    });
+  });
+
+  describe('YearGuess', () => {
+    const yearGuess = question({ type: 'YearGuess', correctAnswer: '1991' });
+
+    it('gives partial credit that falls with the distance', () => {
+      expect(scoreAnswer(yearGuess, '1991')).toEqual({ credit: 1, isCorrect: true });
+      expect(scoreAnswer(yearGuess, '1993').credit).toBeCloseTo(0.8);
+      expect(scoreAnswer(yearGuess, '1986').credit).toBeCloseTo(0.5);
+      expect(scoreAnswer(yearGuess, '1970').credit).toBe(0);
+      expect(scoreAnswer(yearGuess, '1993').isCorrect).toBe(false);
+    });
+
+    it('gives no credit for answers that are not years', () => {
+      expect(scoreAnswer(yearGuess, 'nineties').credit).toBe(0);
+      expect(scoreAnswer(yearGuess, '').credit).toBe(0);
+    });
+
+    it('writes and reads years', () => {
+      expect(questionTypes.YearGuess.serializeAnswer(1991.4)).toBe('1991');
+      expect(questionTypes.YearGuess.parseAnswer('1991')).toBe(1991);
+      expect(questionTypes.YearGuess.parseAnswer('19.5')).toBeNull();
+    });
+
+    it('requires a plausible year', () => {
+      expect(questionTypes.YearGuess.validate(yearGuess)).toEqual({});
+      expect(
+        questionTypes.YearGuess.validate({ ...yearGuess, correctAnswer: '1066' })
+      ).toHaveProperty('correctAnswer');
+    });
+  });
+
+  describe('Ordering', () => {
+    const order = ['Pablo Honey', 'The Bends', 'OK Computer'];
+    const ordering = question({
+      type: 'Ordering',
+      options: ['OK Computer', 'Pablo Honey', 'The Bends'],
+      correctAnswer: JSON.stringify(order),
+    });
+
+    it('gives credit for each item in its place', () => {
+      expect(scoreAnswer(ordering, JSON.stringify(order))).toEqual({ credit: 1, isCorrect: true });
+      expect(
+        scoreAnswer(ordering, JSON.stringify(['Pablo Honey', 'OK Computer', 'The Bends'])).credit
+      ).toBeCloseTo(1 / 3);
+      expect(scoreAnswer(ordering, 'not json').credit).toBe(0);
+    });
+
+    it('round-trips answers', () => {
+      const { parseAnswer, serializeAnswer } = questionTypes.Ordering;
+      expect(parseAnswer(serializeAnswer(order))).toEqual(order);
+      expect(parseAnswer('[1, 2]')).toBeNull();
+    });
+
+    it('formats the order for display', () => {
+      expect(formatAnswer(ordering, ordering.correctAnswer)).toBe(
+        'Pablo Honey → The Bends → OK Computer'
+      );
+    });
+
+    it('requires the correct order to list every item once', () => {
+      expect(questionTypes.Ordering.validate(ordering)).toEqual({});
+      expect(
+        questionTypes.Ordering.validate({ ...ordering, correctAnswer: '["Pablo Honey"]' })
+      ).toHaveProperty('correctAnswer');
+    });
+
+    it('takes the correct order from the options when edited', () => {
+      expect(questionTypes.Ordering.normalize!(ordering).correctAnswer).toBe(
+        JSON.stringify(ordering.options)
+      );
+    });
+  });
+});
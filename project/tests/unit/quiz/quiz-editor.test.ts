@@ -0,0 +1,318 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EDITOR_HISTORY_LIMIT,
+  createEditorState,
+  isEditorDirty,
+  quizEditorReducer,
+  validateQuestion,
+  validateQuiz,
+  type QuizEditorEvent,
+  type QuizEditorState,
+} from '../../../src/lib/quiz-editor';
+import type { Question, Quiz } from '../../../src/types/quiz';
+
+/**
+ * Quiz editor state machine tests
+ */
+
+const quiz: Quiz = {
+  id: 'quiz-1',
+  title: '90s Rock',
+  questionCount: 2,
+  difficulty: 'Easy',
+  estimatedDuration: 40,
+  createdAt: '2025-09-21T14:30:00Z',
+  questions: [
+    {
+      id: 'q1',
+      text: 'Who recorded "Black"?',
+      type: 'MultipleChoice',
+      options: ['Pearl Jam', 'Nirvana'],
+      correctAnswer: 'Pearl Jam',
+      spotifyTrack: {
+        id: 'track-1',
+        name: 'Black',
+        artist: 'Pearl Jam',
+        album: 'Ten',
+        durationMs: 343000,
+      },
+    },
+    {
+      id: 'q2',
+      text: 'Who recorded "Lithium"?',
+      type: 'MultipleChoice',
+      options: ['Pearl Jam', 'Nirvana'],
+      correctAnswer: 'Nirvana',
+    },
+  ],
+};
+
+function run(events: QuizEditorEvent[], state = createEditorState(quiz)): QuizEditorState {
+  return events.reduce(quizEditorReducer, state);
+}
+
+function typeText(index: number, text: string): QuizEditorEvent[] {
+  return [...text].map((_, length) => ({
+    type: 'UPDATE_QUESTION',
+    index,
+    changes: { text: text.slice(0, length + 1) },
+  }));
+}
+
+describe('quizEditorReducer', () => {
+  it('starts clean with nothing to undo', () => {
+    const state = createEditorState(quiz);
+
+    expect(isEditorDirty(state)).toBe(false);
+    expect(state.past).toEqual([]);
+    expect(state.future).toEqual([]);
+  });
+
+  it('merges typing in one field into a single undo step', () => {
+    const state = run(typeText(0, 'Who sang?'));
+
+    expect(state.present.questions[0].text).toBe('Who sang?');
+    expect(state.past).toHaveLength(1);
+
+    const undone = quizEditorReducer(state, { type: 'UNDO' });
+    expect(undone.present).toBe(quiz);
+  });
+
+  it('starts a new undo step when another field is edited', () => {
+    const state = run([
+      ...typeText(0, 'A'),
+      ...typeText(1, 'B'),
+      { type: 'UPDATE_QUESTION', index: 0, changes: { text: 'AB' } },
+    ]);
+
+    expect(state.past).toHaveLength(3);
+  });
+
+  it('starts a new undo step after undoing', () => {
+    const state = run([
+      ...typeText(0, 'A'),
+      { type: 'UNDO' },
+      { type: 'REDO' },
+      { type: 'UPDATE_QUESTION', index: 0, changes: { text: 'AB' } },
+    ]);
+
+    expect(state.past).toHaveLength(2);
+  });
+
+  it('redoes undone edits and drops them on a new edit', () => {
+    const edited = run([{ type: 'DELETE_QUESTION', index: 1 }]);
+    const undone = quizEditorReducer(edited, { type: 'UNDO' });
+    const redone = quizEditorReducer(undone, { type: 'REDO' });
+
+    expect(undone.present.questions).toHaveLength(2);
+    expect(redone.present).toBe(edited.present);
+
+    const branched = quizEditorReducer(undone, { type: 'ADD_QUESTION', id: 'q3' });
+    expect(branched.future).toEqual([]);
+  });
+
+  it('ignores undo and redo with no history', () => {
+    const state = createEditorState(quiz);
+
+    expect(quizEditorReducer(state, { type: 'UNDO' })).toBe(state);
+    expect(quizEditorReducer(state, { type: 'REDO' })).toBe(state);
+  });
+
+  it('limits the undo history', () => {
+    const events: QuizEditorEvent[] = Array.from({ length: EDITOR_HISTORY_LIMIT + 5 }, (_, i) => ({
+      type: 'ADD_QUESTION',
+      id: `new-${i}`,
+    }));
+
+    expect(run(events).past).toHaveLength(EDITOR_HISTORY_LIMIT);
+  });
+
+  it('moves questions and keeps the question count current', () => {
+    const moved = run([{ type: 'MOVE_QUESTION', from: 1, to: 0 }]);
+    expect(moved.present.questions.map(question => question.id)).toEqual(['q2', 'q1']);
+
+    const added = run([{ type: 'ADD_QUESTION', id: 'q3' }]);
+    expect(added.present.questionCount).toBe(3);
+
+    const deleted = run([{ type: 'DELETE_QUESTION', index: 0 }]);
+    expect(deleted.present.questions.map(question => question.id)).toEqual(['q2']);
+    expect(deleted.present.questionCount).toBe(1);
+  });
+
+  it('ignores edits that do not apply', () => {
+    const state = createEditorState(quiz);
+
+    expect(quizEditorReducer(state, { type: 'MOVE_QUESTION', from: 0, to: 2 })).toBe(state);
+    expect(quizEditorReducer(state, { type: 'DELETE_QUESTION', index: 5 })).toBe(state);
+    expect(
+      quizEditorReducer(state, { type: 'UPDATE_QUESTION', index: 5, changes: { text: 'x' } })
+    ).toBe(state);
+  });
+
+  it('keeps the correct answer when its option is renamed', () => {
+    const state = run([{ type: 'SET_OPTION', index: 0, optionIndex: 0, value: 'Pearl Jam!' }]);
+
+    expect(state.present.questions[0].options).toEqual(['Pearl Jam!', 'Nirvana']);
+    expect(state.present.questions[0].correctAnswer).toBe('Pearl Jam!');
+  });
+
+  it('adds and removes options', () => {
+    const state = run([
+      { type: 'ADD_OPTION', index: 0 },
+      { type: 'SET_OPTION', index: 0, optionIndex: 2, value: 'Soundgarden' },
+      { type: 'REMOVE_OPTION', index: 0, optionIndex: 1 },
+    ]);
+
+    expect(state.present.questions[0].options).toEqual(['Pearl Jam', 'Soundgarden']);
+  });
+
+  it('keeps what still applies when the question type changes', () => {
+    const freeText = run([{ type: 'SET_TYPE', index: 0, questionType: 'FreeText' }]);
+    expect(freeText.present.questions[0]).toMatchObject({
+      type: 'FreeText',
+      options: [],
+      correctAnswer: '',
+    });
+
+    const ordering = run([{ type: 'SET_TYPE', index: 0, questionType: 'Ordering' }]);
+    expect(ordering.present.questions[0]).toMatchObject({
+      type: 'Ordering',
+      options: ['Pearl Jam', 'Nirvana'],
+      correctAnswer: JSON.stringify(['Pearl Jam', 'Nirvana']),
+    });
+
+    const state = createEditorState(quiz);
+    expect(
+      quizEditorReducer(state, { type: 'SET_TYPE', index: 0, questionType: 'MultipleChoice' })
+    ).toBe(state);
+  });
+
+  it('keeps the order of ordering questions in sync with their items', () => {
+    const state = run([
+      { type: 'SET_TYPE', index: 0, questionType: 'Ordering' },
+      { type: 'SET_OPTION', index: 0, optionIndex: 1, value: 'Soundgarden' },
+    ]);
+
+    expect(state.present.questions[0].correctAnswer).toBe(
+      JSON.stringify(['Pearl Jam', 'Soundgarden'])
+    );
+    expect(validateQuestion(state.present.questions[0])).toEqual({});
+  });
+
+  it('swaps and removes the track', () => {
+    const track = { id: 'track-2', name: 'Even Flow', artist: 'Pearl Jam', durationMs: 293000 };
+    const swapped = run([{ type: 'SET_TRACK', index: 0, track }]);
+    expect(swapped.present.questions[0].spotifyTrack).toEqual(track);
+
+    const removed = run([{ type: 'SET_TRACK', index: 0, track: null }]);
+    expect(removed.present.questions[0]).not.toHaveProperty('spotifyTrack');
+  });
+
+  it('sets clip settings as one undo step and clears empty ones', () => {
+    const state = run([
+      { type: 'SET_SNIPPET', index: 0, snippet: { startMs: 3000 } },
+      { type: 'SET_SNIPPET', index: 0, snippet: { startMs: 30000 } },
+      { type: 'SET_QUIZ_SNIPPET', snippet: { durationMs: 10000 } },
+    ]);
+    expect(state.present.questions[0].snippet).toEqual({ startMs: 30000 });
+    expect(state.present.snippet).toEqual({ durationMs: 10000 });
+    expect(state.past).toHaveLength(2);
+
+    const cleared = run(
+      [
+        { type: 'SET_SNIPPET', index: 0, snippet: { startMs: undefined } },
+        { type: 'SET_QUIZ_SNIPPET', snippet: null },
+      ],
+      state
+    );
+    expect(cleared.present.questions[0]).not.toHaveProperty('snippet');
+    expect(cleared.present).not.toHaveProperty('snippet');
+  });
+
+  it('is dirty until saved or undone back to the saved quiz', () => {
+    const edited = run(typeText(0, 'A'));
+    expect(isEditorDirty(edited)).toBe(true);
+
+    const saved = quizEditorReducer(edited, { type: 'SAVED' });
+    expect(isEditorDirty(saved)).toBe(false);
+    expect(isEditorDirty(quizEditorReducer(saved, { type: 'UNDO' }))).toBe(true);
+
+    expect(isEditorDirty(quizEditorReducer(edited, { type: 'UNDO' }))).toBe(false);
+  });
+
+  it('starts over on load', () => {
+    const state = run([...typeText(0, 'A'), { type: 'LOAD', quiz }]);
+
+    expect(state).toEqual(createEditorState(quiz));
+  });
+});
+
+describe('validateQuestion', () => {
+  const question: Question = quiz.questions[1];
+
+  it('accepts a complete question', () => {
+    expect(validateQuestion(question)).toEqual({});
+  });
+
+  it('requires question text', () => {
+    expect(validateQuestion({ ...question, text: '  ' }).text).toBeDefined();
+  });
+
+  it('requires at least two non-empty, different options', () => {
+    expect(validateQuestion({ ...question, options: ['Nirvana'] }).options).toBeDefined();
+    expect(validateQuestion({ ...question, options: ['Nirvana', ' '] }).options).toBeDefined();
+    expect(
+      validateQuestion({ ...question, options: ['Nirvana', 'nirvana'] }).options
+    ).toBeDefined();
+  });
+
+  it('checks answers by question type', () => {
+    const yearGuess: Question = {
+      ...question,
+      type: 'YearGuess',
+      options: [],
+      correctAnswer: 'soon',
+    };
+    expect(validateQuestion(yearGuess).correctAnswer).toBeDefined();
+    expect(validateQuestion({ ...yearGuess, correctAnswer: '1991' })).toEqual({});
+  });
+
+  it('requires the correct answer to be one of the options', () => {
+    expect(validateQuestion({ ...question, correctAnswer: 'Hole' }).correctAnswer).toBeDefined();
+    expect(validateQuestion({ ...question, correctAnswer: '' }).correctAnswer).toBeDefined();
+  });
+});
+
+describe('validateQuiz', () => {
+  it('reports errors by question ID', () => {
+    const validation = validateQuiz({
+      ...quiz,
+      questions: [quiz.questions[0], { ...quiz.questions[1], text: '' }],
+    });
+
+    expect(validation.isValid).toBe(false);
+    expect(Object.keys(validation.questions)).toEqual(['q2']);
+  });
+
+  it('requires at least one question', () => {
+    const validation = validateQuiz({ ...quiz, questions: [] });
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.quiz).toBeDefined();
+  });
+
+  it('checks clip settings', () => {
+    const validation = validateQuiz({
+      ...quiz,
+      snippet: { durationMs: 500 },
+      questions: [
+        { ...quiz.questions[0], snippet: { startMs: 5000, randomStart: true, maxStartMs: 0 } },
+        quiz.questions[1],
+      ],
+    });
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.snippet).toBeDefined();
+    expect(validation.questions.q1.snippet).toBeDefined();
+  });
+});
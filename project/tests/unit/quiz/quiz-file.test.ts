@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import {
+  QUIZ_FILE_VERSION,
+  QuizFileError,
+  diffQuizzes,
+  fromQuizFile,
+  getQuizFileName,
+  getQuizFileTrackIds,
+  parseQuizFile,
+  serializeQuizFile,
+} from '../../../src/lib/quiz-file';
+import type { Quiz, SpotifyTrack } from '../../../src/types/quiz';
+
+/**
+ * Quiz file format tests
+ */
+
+const now = new Date('2025-09-22T10:00:00Z');
+
+const track: SpotifyTrack = {
+  id: 'track-1',
+  name: 'Black',
+  artist: 'Pearl Jam',
+  album: 'Ten',
+  previewUrl: null,
+  durationMs: 343000,
+};
+
+const quiz: Quiz = {
+  id: 'quiz-1',
+  title: '90s Rock!',
+  description: 'Grunge and more',
+  questionCount: 2,
+  difficulty: 'Easy',
+  estimatedDuration: 40,
+  createdAt: '2025-09-21T14:30:00Z',
+  tags: ['rock'],
+  questions: [
+    {
+      id: 'q1',
+      text: 'Who recorded "Black"?',
+      type: 'MultipleChoice',
+      options: ['Pearl Jam', 'Nirvana'],
+      correctAnswer: 'Pearl Jam',
+      spotifyTrack: track,
+    },
+    {
+      id: 'q2',
+      text: 'Who recorded "Lithium"?',
+      type: 'MultipleChoice',
+      options: ['Pearl Jam', 'Nirvana'],
+      correctAnswer: 'Nirvana',
+      explanation: 'From Nevermind',
+    },
+  ],
+};
+
+describe('quiz files', () => {
+  it('round-trips a quiz through the current format', () => {
+    const { file, migratedFrom } = parseQuizFile(serializeQuizFile(quiz, now));
+
+    expect(file.version).toBe(QUIZ_FILE_VERSION);
+    expect(file.exportedAt).toBe(now.toISOString());
+    expect(migratedFrom).toBeUndefined();
+    expect(fromQuizFile(file, new Map([[track.id, track]]))).toEqual(quiz);
+  });
+
+  it('keeps clip settings', () => {
+    const withClips: Quiz = {
+      ...quiz,
+      snippet: { randomStart: true, durationMs: 10000 },
+      questions: [{ ...quiz.questions[0], snippet: { startMs: 60000 } }, quiz.questions[1]],
+    };
+    const { file } = parseQuizFile(serializeQuizFile(withClips, now));
+
+    expect(fromQuizFile(file, new Map([[track.id, track]]))).toEqual(withClips);
+  });
+
+  it('references tracks by Spotify ID', () => {
+    const { file } = parseQuizFile(serializeQuizFile(quiz, now));
+
+    expect(file.quiz.questions[0].track).toEqual({
+      spotifyId: 'track-1',
+      name: 'Black',
+      artist: 'Pearl Jam',
+    });
+    expect(getQuizFileTrackIds(file)).toEqual(['track-1']);
+  });
+
+  it('imports questions without tracks Spotify no longer has', () => {
+    const { file } = parseQuizFile(serializeQuizFile(quiz, now));
+
+    expect(fromQuizFile(file, new Map()).questions[0]).not.toHaveProperty('spotifyTrack');
+  });
+
+  it('migrates version 1 files', () => {
+    const v1 = {
+      format: 'vibeguess-quiz',
+      version: 1,
+      quiz: {
+        id: 'quiz-1',
+        title: '90s Rock',
+        difficulty: 'Hard',
+        questions: [
+          {
+            text: 'Who recorded "Black"?',
+            options: ['Pearl Jam', 'Nirvana'],
+            correctAnswer: 'Pearl Jam',
+            spotifyTrackId: 'track-1',
+          },
+        ],
+      },
+    };
+
+    const { file, migratedFrom } = parseQuizFile(JSON.stringify(v1), now);
+
+    expect(migratedFrom).toBe(1);
+    expect(file.version).toBe(2);
+    expect(file.quiz).toMatchObject({
+      description: '',
+      tags: [],
+      createdAt: now.toISOString(),
+      questions: [
+        {
+          id: 'quiz-1-q1',
+          type: 'MultipleChoice',
+          track: { spotifyId: 'track-1' },
+        },
+      ],
+    });
+    expect(file.quiz.estimatedDuration).toBeGreaterThan(0);
+  });
+
+  it.each([
+    ['not JSON', '{', 'not valid JSON'],
+    ['another format', '{"format":"other","version":1}', 'not a VibeGuess quiz file'],
+    ['a newer version', '{"format":"vibeguess-quiz","version":99}', 'version 99'],
+  ])('rejects %s', (_, text, message) => {
+    expect(() => parseQuizFile(text)).toThrow(QuizFileError);
+    expect(() => parseQuizFile(text)).toThrow(message);
+  });
+
+  it('names the invalid field', () => {
+    const file = JSON.parse(serializeQuizFile(quiz, now));
+    file.quiz.questions[1].options = 'Nirvana';
+
+    expect(() => parseQuizFile(JSON.stringify(file))).toThrow('quiz.questions[1].options');
+  });
+
+  it('names files after the quiz title', () => {
+    expect(getQuizFileName(quiz)).toBe('90s-rock.vibeguess.json');
+    expect(getQuizFileName({ ...quiz, title: '!!!' })).toBe('quiz-1.vibeguess.json');
+  });
+});
+
+describe('diffQuizzes', () => {
+  it('finds no changes between identical quizzes', () => {
+    expect(diffQuizzes(quiz, { ...quiz }).hasChanges).toBe(false);
+  });
+
+  it('lists added, removed and changed questions', () => {
+    const [first, second] = quiz.questions;
+    const updated: Quiz = {
+      ...quiz,
+      title: '90s Rock',
+      questions: [
+        { ...first, correctAnswer: 'Nirvana', spotifyTrack: undefined },
+        { ...second, id: 'q3' },
+      ],
+    };
+
+    const diff = diffQuizzes(quiz, updated);
+
+    expect(diff.fields).toEqual(['title']);
+    expect(diff.added.map(question => question.id)).toEqual(['q3']);
+    expect(diff.removed.map(question => question.id)).toEqual(['q2']);
+    expect(diff.changed).toEqual([
+      { before: first, after: updated.questions[0], fields: ['correctAnswer', 'track'] },
+    ]);
+    expect(diff.reordered).toBe(false);
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('detects reordered questions', () => {
+    const diff = diffQuizzes(quiz, { ...quiz, questions: [...quiz.questions].reverse() });
+
+    expect(diff.reordered).toBe(true);
+    expect(diff.changed).toEqual([]);
+  });
+});
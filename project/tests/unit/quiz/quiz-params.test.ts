@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateQuizDuration,
+  formatDuration,
+  formatElapsed,
+  validateQuizParams,
+} from '../../../src/utils/quiz';
+import type { QuizGenerationRequest } from '../../../src/types/quiz';
+
+/**
+ * Quiz generation parameter tests
+ */
+
+const validParams: QuizGenerationRequest = {
+  prompt: '90s rock bands',
+  questionCount: 10,
+  format: 'MultipleChoice',
+  difficulty: 'Medium',
+  includeAudio: true,
+};
+
+describe('validateQuizParams', () => {
+  it('should accept valid parameters', () => {
+    expect(validateQuizParams(validParams)).toEqual({ isValid: true, errors: {} });
+  });
+
+  it('should reject empty, whitespace-only and too short prompts', () => {
+    expect(validateQuizParams({ ...validParams, prompt: '' }).errors.prompt).toBeDefined();
+    expect(validateQuizParams({ ...validParams, prompt: '    ' }).errors.prompt).toBeDefined();
+    expect(validateQuizParams({ ...validParams, prompt: ' ab ' }).errors.prompt).toMatch(
+      /at least 3/
+    );
+  });
+
+  it('should reject prompts over the maximum length', () => {
+    const result = validateQuizParams({ ...validParams, prompt: 'a'.repeat(501) });
+    expect(result.isValid).toBe(false);
+    expect(result.errors.prompt).toMatch(/at most 500/);
+  });
+
+  it('should enforce the 5-20 whole question count range', () => {
+    expect(validateQuizParams({ ...validParams, questionCount: 5 }).isValid).toBe(true);
+    expect(validateQuizParams({ ...validParams, questionCount: 20 }).isValid).toBe(true);
+    expect(
+      validateQuizParams({ ...validParams, questionCount: 4 }).errors.questionCount
+    ).toBeDefined();
+    expect(
+      validateQuizParams({ ...validParams, questionCount: 21 }).errors.questionCount
+    ).toBeDefined();
+    expect(
+      validateQuizParams({ ...validParams, questionCount: 7.5 }).errors.questionCount
+    ).toBeDefined();
+    expect(
+      validateQuizParams({ ...validParams, questionCount: '10' }).errors.questionCount
+    ).toBeDefined();
+  });
+
+  it('should reject unknown difficulties, formats and non-boolean includeAudio', () => {
+    const result = validateQuizParams({
+      ...validParams,
+      difficulty: 'Extreme',
+      format: 'Essay',
+      includeAudio: 'yes',
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(Object.keys(result.errors).sort()).toEqual(['difficulty', 'format', 'includeAudio']);
+  });
+});
+
+describe('estimateQuizDuration', () => {
+  it('should scale with question count and difficulty', () => {
+    expect(estimateQuizDuration(10, 'Easy')).toBe(200);
+    expect(estimateQuizDuration(10, 'Medium')).toBe(300);
+    expect(estimateQuizDuration(10, 'Hard')).toBe(450);
+  });
+
+  it('should treat unknown difficulties as Medium and never go negative', () => {
+    expect(estimateQuizDuration(10, 'Unknown')).toBe(300);
+    expect(estimateQuizDuration(-3, 'Easy')).toBe(0);
+  });
+});
+
+describe('formatDuration', () => {
+  it('should use seconds under a minute and minutes otherwise', () => {
+    expect(formatDuration(45)).toBe('45 sec');
+    expect(formatDuration(300)).toBe('5 min');
+  });
+});
+
+describe('formatElapsed', () => {
+  it('should show tenths of a second under a minute', () => {
+    expect(formatElapsed(4230)).toBe('4.2s');
+    expect(formatElapsed(-5)).toBe('0.0s');
+  });
+
+  it('should show minutes and padded seconds otherwise', () => {
+    expect(formatElapsed(125000)).toBe('2m 05s');
+    expect(formatElapsed(60000)).toBe('1m 00s');
+  });
+});
@@ -0,0 +1,602 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCurrentQuestion,
+  getTimeToAnswer,
+  initialQuizSessionState,
+  isSessionStale,
+  quizSessionReducer,
+  syncResultAnswer,
+  toActiveSessionRecord,
+  toQuizResult,
+  type QuizSessionEvent,
+} from '../../../src/lib/quiz-session';
+import { ApiError } from '../../../src/utils/error-handling';
+import type { Quiz, StartSessionResponse, SubmitAnswerResponse } from '../../../src/types/quiz';
+import type { ActiveSessionRecord, QuizSessionState } from '../../../src/types/session';
+
+/**
+ * Quiz session state machine tests
+ */
+
+const quiz: Quiz = {
+  id: 'quiz-1',
+  title: '90s Rock',
+  description: 'Grunge and more',
+  questionCount: 2,
+  difficulty: 'Easy',
+  estimatedDuration: 40,
+  createdAt: '2025-09-21T14:30:00Z',
+  questions: [
+    {
+      id: 'q1',
+      text: 'Who recorded "Black"?',
+      type: 'MultipleChoice',
+      options: ['Pearl Jam', 'Nirvana'],
+      correctAnswer: 'Pearl Jam',
+    },
+    {
+      id: 'q2',
+      text: 'Who recorded "Lithium"?',
+      type: 'MultipleChoice',
+      options: ['Pearl Jam', 'Nirvana'],
+      correctAnswer: 'Nirvana',
+    },
+  ],
+};
+
+const session: StartSessionResponse = {
+  sessionId: 'session-1',
+  quizId: 'quiz-1',
+  currentQuestionIndex: 0,
+  score: 0,
+  startedAt: '2025-09-21T14:30:00Z',
+  isActive: true,
+  quiz,
+};
+
+function run(events: QuizSessionEvent[], state = initialQuizSessionState): QuizSessionState {
+  return events.reduce(quizSessionReducer, state);
+}
+
+const started = run([{ type: 'START' }, { type: 'STARTED', session, at: 1000 }]);
+
+function accepted(overrides: Partial<SubmitAnswerResponse> = {}): QuizSessionEvent {
+  return {
+    type: 'ANSWER_ACCEPTED',
+    at: 5000,
+    response: {
+      isCorrect: true,
+      correctAnswer: 'Pearl Jam',
+      currentScore: 1,
+      nextQuestionIndex: 1,
+      isSessionComplete: false,
+      ...overrides,
+    },
+  };
+}
+
+describe('quizSessionReducer', () => {
+  it('should show the first question once the session starts', () => {
+    expect(run([{ type: 'START' }]).status).toBe('starting');
+
+    expect(started.status).toBe('answering');
+    expect(started.sessionId).toBe('session-1');
+    expect(getCurrentQuestion(started)?.id).toBe('q1');
+    expect(started.questionShownAt).toBe(1000);
+  });
+
+  it('should play the game mode picked for the session', () => {
+    const speed = run([
+      { type: 'START', gameMode: 'speed' },
+      { type: 'STARTED', session, at: 1000 },
+    ]);
+
+    expect(started.gameMode).toBe('classic');
+    expect(speed.gameMode).toBe('speed');
+    expect(toActiveSessionRecord(speed, 2000)?.gameMode).toBe('speed');
+  });
+
+  it('should move to error when the session cannot start, and allow starting again', () => {
+    const error = new Error('nope');
+    const failed = run([{ type: 'START' }, { type: 'START_FAILED', error }]);
+
+    expect(failed.status).toBe('error');
+    expect(failed.error).toBe(error);
+    expect(quizSessionReducer(failed, { type: 'START' }).status).toBe('starting');
+  });
+
+  it('should time the answer from when the question was shown', () => {
+    const submitting = run([{ type: 'SUBMIT', answer: 'Pearl Jam', at: 4500 }], started);
+
+    expect(submitting.status).toBe('submitting');
+    expect(submitting.pendingAnswer).toEqual({
+      questionId: 'q1',
+      selectedAnswer: 'Pearl Jam',
+      timeToAnswer: 3500,
+    });
+    expect(getTimeToAnswer(started, 1750)).toBe(750);
+  });
+
+  it('should ignore answers while one is being submitted', () => {
+    const submitting = run([{ type: 'SUBMIT', answer: 'Pearl Jam', at: 4500 }], started);
+    expect(quizSessionReducer(submitting, { type: 'SUBMIT', answer: 'Nirvana', at: 4600 })).toBe(
+      submitting
+    );
+  });
+
+  it('should record accepted answers and advance on NEXT', () => {
+    const feedback = run([{ type: 'SUBMIT', answer: 'Pearl Jam', at: 4500 }, accepted()], started);
+
+    expect(feedback.status).toBe('feedback');
+    expect(feedback.score).toBe(1);
+    expect(feedback.feedback).toMatchObject({ isCorrect: true, alreadyAnswered: false });
+    expect(feedback.answers).toEqual([
+      {
+        questionId: 'q1',
+        selectedAnswer: 'Pearl Jam',
+        timeToAnswer: 3500,
+        isCorrect: true,
+        credit: 1,
+        answeredAt: new Date(5000).toISOString(),
+        syncStatus: 'synced',
+      },
+    ]);
+
+    const next = quizSessionReducer(feedback, { type: 'NEXT', at: 8000 });
+    expect(next.status).toBe('answering');
+    expect(getCurrentQuestion(next)?.id).toBe('q2');
+    expect(next.questionShownAt).toBe(8000);
+    expect(next.feedback).toBeNull();
+  });
+
+  it('should complete with the session result', () => {
+    const sessionResult = {
+      finalScore: 2,
+      totalQuestions: 2,
+      percentage: 100,
+      completedAt: '2025-09-21T14:31:00Z',
+    };
+    const completed = run(
+      [
+        { type: 'SUBMIT', answer: 'Pearl Jam', at: 2000 },
+        accepted(),
+        { type: 'NEXT', at: 3000 },
+        { type: 'SUBMIT', answer: 'Nirvana', at: 4000 },
+        accepted({
+          correctAnswer: 'Nirvana',
+          currentScore: 2,
+          nextQuestionIndex: undefined,
+          isSessionComplete: true,
+          sessionResult,
+        }),
+        { type: 'NEXT', at: 6000 },
+      ],
+      started
+    );
+
+    expect(completed.status).toBe('completed');
+    expect(completed.result).toEqual(sessionResult);
+    expect(completed.answers.map(answer => answer.timeToAnswer)).toEqual([1000, 1000]);
+  });
+
+  it('should keep the original answer time when re-submitting after a failure', () => {
+    const failed = run(
+      [
+        { type: 'SUBMIT', answer: 'Pearl Jam', at: 3000 },
+        { type: 'SUBMIT_FAILED', error: new Error('offline') },
+      ],
+      started
+    );
+    expect(failed.status).toBe('answering');
+    expect(failed.error?.message).toBe('offline');
+
+    const resubmitted = quizSessionReducer(failed, {
+      type: 'SUBMIT',
+      answer: 'Pearl Jam',
+      at: 9000,
+    });
+    expect(resubmitted.pendingAnswer?.timeToAnswer).toBe(2000);
+    expect(resubmitted.error).toBeNull();
+
+    const changed = quizSessionReducer(failed, { type: 'SUBMIT', answer: 'Nirvana', at: 9000 });
+    expect(changed.pendingAnswer?.timeToAnswer).toBe(8000);
+  });
+
+  it('should treat a 409 as already answered and move on', () => {
+    const conflict = run(
+      [
+        { type: 'SUBMIT', answer: 'Pearl Jam', at: 2000 },
+        { type: 'ANSWER_CONFLICT', at: 2500 },
+      ],
+      started
+    );
+
+    expect(conflict.status).toBe('feedback');
+    expect(conflict.error).toBeNull();
+    expect(conflict.feedback).toEqual({
+      isCorrect: null,
+      correctAnswer: null,
+      alreadyAnswered: true,
+    });
+    expect(conflict.answers[0].isCorrect).toBeNull();
+    expect(getCurrentQuestion(quizSessionReducer(conflict, { type: 'NEXT', at: 3000 }))?.id).toBe(
+      'q2'
+    );
+  });
+
+  it('should reconcile with the server status after a 409', () => {
+    const conflict = run(
+      [
+        { type: 'SUBMIT', answer: 'Pearl Jam', at: 2000 },
+        {
+          type: 'ANSWER_CONFLICT',
+          at: 2500,
+          status: {
+            sessionId: 'session-1',
+            isActive: false,
+            currentQuestionIndex: 2,
+            score: 2,
+            questionsRemaining: 0,
+            timeElapsed: 60000,
+          },
+        },
+      ],
+      started
+    );
+
+    expect(conflict.score).toBe(2);
+    expect(conflict.isComplete).toBe(true);
+    expect(quizSessionReducer(conflict, { type: 'NEXT', at: 3000 }).status).toBe('completed');
+  });
+
+  it('should resume at the index the server reports', () => {
+    const resumed = run([
+      { type: 'START' },
+      { type: 'STARTED', session: { ...session, currentQuestionIndex: 1, score: 1 }, at: 0 },
+    ]);
+    expect(getCurrentQuestion(resumed)?.id).toBe('q2');
+    expect(resumed.score).toBe(1);
+  });
+
+  it('should ignore events that do not apply to the current status', () => {
+    const error = new ApiError({ status: 500, code: 'internal_error', message: 'x' });
+    expect(quizSessionReducer(initialQuizSessionState, { type: 'NEXT', at: 0 })).toBe(
+      initialQuizSessionState
+    );
+    expect(quizSessionReducer(started, { type: 'START_FAILED', error })).toBe(started);
+    expect(quizSessionReducer(started, accepted())).toBe(started);
+  });
+});
+
+describe('resuming a saved session', () => {
+  // Saved while on the second question, shown at 10s and last active at 14s
+  const record: ActiveSessionRecord = {
+    sessionId: 'session-1',
+    quizId: 'quiz-1',
+    quiz,
+    currentQuestionIndex: 1,
+    score: 1,
+    answers: [
+      {
+        questionId: 'q1',
+        selectedAnswer: 'Pearl Jam',
+        isCorrect: true,
+        timeToAnswer: 3000,
+        answeredAt: new Date(8000).toISOString(),
+        syncStatus: 'synced',
+      },
+    ],
+    questionShownAt: 10000,
+    lastActiveAt: 14000,
+  };
+
+  const status = {
+    sessionId: 'session-1',
+    isActive: true,
+    currentQuestionIndex: 1,
+    score: 1,
+    questionsRemaining: 1,
+    timeElapsed: 14000,
+  };
+
+  function resume(event: Partial<Extract<QuizSessionEvent, { type: 'RESUMED' }>> = {}) {
+    return run([{ type: 'START' }, { type: 'RESUMED', record, status, at: 60000, ...event }]);
+  }
+
+  it('should continue on the saved question without counting the time away', () => {
+    const resumed = resume();
+
+    expect(resumed.status).toBe('answering');
+    expect(getCurrentQuestion(resumed)?.id).toBe('q2');
+    expect(resumed.answers).toEqual(record.answers);
+    // 4s were spent before the interruption
+    expect(getTimeToAnswer(resumed, 61000)).toBe(5000);
+  });
+
+  it('should follow the server when it is ahead of the saved state', () => {
+    const resumed = resume({
+      record: { ...record, currentQuestionIndex: 0, score: 0 },
+    });
+
+    expect(resumed.currentQuestionIndex).toBe(1);
+    expect(resumed.score).toBe(1);
+    expect(getTimeToAnswer(resumed, 61000)).toBe(1000);
+  });
+
+  it('should complete when the server has no questions left', () => {
+    const resumed = resume({
+      status: { ...status, isActive: false, currentQuestionIndex: 2, questionsRemaining: 0 },
+    });
+    expect(resumed.status).toBe('completed');
+  });
+
+  it('should not go back to questions answered offline the server has not seen yet', () => {
+    const resumed = resume({
+      record: {
+        ...record,
+        currentQuestionIndex: 1,
+        score: 2,
+        answers: [
+          ...record.answers,
+          {
+            questionId: 'q2',
+            selectedAnswer: 'Nirvana',
+            isCorrect: true,
+            timeToAnswer: 2000,
+            answeredAt: new Date(12000).toISOString(),
+            syncStatus: 'pending',
+          },
+        ],
+      },
+    });
+
+    expect(resumed.status).toBe('completed');
+    expect(resumed.score).toBe(2);
+  });
+
+  it('should keep the saved game mode, or classic for sessions saved before modes', () => {
+    expect(resume({ record: { ...record, gameMode: 'relaxed' } }).gameMode).toBe('relaxed');
+    expect(resume().gameMode).toBe('classic');
+  });
+
+  it('should only resume from the starting status', () => {
+    expect(quizSessionReducer(started, { type: 'RESUMED', record, status, at: 0 })).toBe(started);
+  });
+
+  it('should treat sessions inactive for longer than the timeout as stale', () => {
+    expect(isSessionStale(record, 14000 + 1000, 1000)).toBe(false);
+    expect(isSessionStale(record, 14000 + 1001, 1000)).toBe(true);
+  });
+
+  it('should only snapshot sessions that are in play', () => {
+    expect(toActiveSessionRecord(initialQuizSessionState, 0)).toBeNull();
+    expect(toActiveSessionRecord(started, 2000)).toMatchObject({
+      sessionId: 'session-1',
+      quizId: 'quiz-1',
+      currentQuestionIndex: 0,
+      questionShownAt: 1000,
+      lastActiveAt: 2000,
+    });
+  });
+});
+
+describe('answers queued offline', () => {
+  const queued = run(
+    [
+      { type: 'SUBMIT', answer: 'Pearl Jam', at: 2000 },
+      { type: 'ANSWER_QUEUED', at: 2100 },
+    ],
+    started
+  );
+
+  it('should check the answer locally and move on', () => {
+    expect(queued.status).toBe('feedback');
+    expect(queued.score).toBe(1);
+    expect(queued.feedback).toEqual({
+      isCorrect: true,
+      credit: 1,
+      correctAnswer: 'Pearl Jam',
+      explanation: undefined,
+      alreadyAnswered: false,
+      queued: true,
+    });
+    expect(queued.answers[0]).toMatchObject({ questionId: 'q1', syncStatus: 'pending' });
+    expect(getCurrentQuestion(quizSessionReducer(queued, { type: 'NEXT', at: 3000 }))?.id).toBe(
+      'q2'
+    );
+  });
+
+  it('should complete locally after the last question', () => {
+    const last = run(
+      [
+        { type: 'NEXT', at: 3000 },
+        { type: 'SUBMIT', answer: 'Pearl Jam', at: 4000 },
+        { type: 'ANSWER_QUEUED', at: 4100 },
+      ],
+      queued
+    );
+
+    expect(last.isComplete).toBe(true);
+    expect(last.score).toBe(1);
+    expect(quizSessionReducer(last, { type: 'NEXT', at: 5000 }).status).toBe('completed');
+  });
+
+  it('should take the server score once an answer syncs', () => {
+    const second = run(
+      [
+        { type: 'NEXT', at: 3000 },
+        { type: 'SUBMIT', answer: 'Nirvana', at: 4000 },
+        { type: 'ANSWER_QUEUED', at: 4100 },
+      ],
+      queued
+    );
+    expect(second.score).toBe(2);
+
+    // Server disagrees on the first answer; the second is still queued
+    const synced = quizSessionReducer(second, {
+      type: 'ANSWER_SYNCED',
+      sessionId: 'session-1',
+      questionId: 'q1',
+      response: {
+        isCorrect: false,
+        correctAnswer: 'Nirvana',
+        currentScore: 0,
+        nextQuestionIndex: 1,
+        isSessionComplete: false,
+      },
+    });
+
+    expect(synced.answers.map(answer => answer.syncStatus)).toEqual(['synced', 'pending']);
+    expect(synced.answers[0].isCorrect).toBe(false);
+    expect(synced.score).toBe(1);
+  });
+
+  it('should keep the local result when the server already had the answer', () => {
+    const synced = quizSessionReducer(queued, {
+      type: 'ANSWER_SYNCED',
+      sessionId: 'session-1',
+      questionId: 'q1',
+    });
+
+    expect(synced.answers[0]).toMatchObject({ isCorrect: true, syncStatus: 'synced' });
+    expect(synced.score).toBe(1);
+  });
+
+  it('should take back the points of answers the server rejected', () => {
+    const dropped = quizSessionReducer(queued, {
+      type: 'ANSWER_DROPPED',
+      sessionId: 'session-1',
+      questionId: 'q1',
+    });
+
+    expect(dropped.answers[0].syncStatus).toBe('failed');
+    expect(dropped.score).toBe(0);
+  });
+
+  it('should ignore outbox events for other sessions', () => {
+    expect(
+      quizSessionReducer(queued, { type: 'ANSWER_SYNCED', sessionId: 'other', questionId: 'q1' })
+    ).toBe(queued);
+  });
+});
+
+describe('partial credit', () => {
+  const yearQuiz: Quiz = {
+    ...quiz,
+    questions: [
+      {
+        id: 'y1',
+        text: 'When was Ten released?',
+        type: 'YearGuess',
+        options: [],
+        correctAnswer: '1991',
+      },
+    ],
+  };
+  const yearStarted = run([
+    { type: 'START' },
+    { type: 'STARTED', session: { ...session, quiz: yearQuiz }, at: 1000 },
+  ]);
+
+  it('should give partial credit for close answers checked locally', () => {
+    const queued = run(
+      [
+        { type: 'SUBMIT', answer: '1993', at: 2000 },
+        { type: 'ANSWER_QUEUED', at: 2100 },
+      ],
+      yearStarted
+    );
+
+    expect(queued.feedback).toMatchObject({ isCorrect: false, correctAnswer: '1991' });
+    expect(queued.feedback?.credit).toBeCloseTo(0.8);
+    expect(queued.answers[0].credit).toBeCloseTo(0.8);
+    expect(queued.score).toBe(0);
+  });
+
+  it('should work out partial credit for answers the server marked wrong', () => {
+    const feedback = run(
+      [
+        { type: 'SUBMIT', answer: '1986', at: 2000 },
+        accepted({ isCorrect: false, correctAnswer: '1991', currentScore: 0 }),
+      ],
+      yearStarted
+    );
+
+    expect(feedback.feedback?.credit).toBeCloseTo(0.5);
+    expect(feedback.answers[0].credit).toBeCloseTo(0.5);
+  });
+
+  it('should give full credit when the server accepts the answer', () => {
+    const feedback = run([{ type: 'SUBMIT', answer: '1991', at: 2000 }, accepted()], yearStarted);
+
+    expect(feedback.feedback?.credit).toBe(1);
+  });
+});
+
+describe('quiz results', () => {
+  const offline = run(
+    [
+      { type: 'SUBMIT', answer: 'Pearl Jam', at: 2000 },
+      { type: 'ANSWER_QUEUED', at: 2100 },
+      { type: 'NEXT', at: 3000 },
+      { type: 'SUBMIT', answer: 'Pearl Jam', at: 5000 },
+      { type: 'ANSWER_QUEUED', at: 5100 },
+      { type: 'NEXT', at: 6000 },
+    ],
+    started
+  );
+
+  it('should only build a result once the session is complete', () => {
+    expect(toQuizResult(started, 0)).toBeNull();
+  });
+
+  it('should fall back to the local score and last answer time', () => {
+    expect(toQuizResult(offline, 9000)).toMatchObject({
+      sessionId: 'session-1',
+      quizId: 'quiz-1',
+      totalQuestions: 2,
+      correctAnswers: 1,
+      score: 1,
+      percentage: 50,
+      timeSpent: 3000,
+      completedAt: new Date(5100).toISOString(),
+      gameMode: 'classic',
+    });
+  });
+
+  it('should update the saved result as offline answers sync', () => {
+    const result = toQuizResult(offline, 9000)!;
+
+    const first = syncResultAnswer(result, 'q1', 'synced', {
+      isCorrect: true,
+      correctAnswer: 'Pearl Jam',
+      currentScore: 1,
+      nextQuestionIndex: 1,
+      isSessionComplete: false,
+    });
+    expect(first.answers[0].syncStatus).toBe('synced');
+    expect(first.score).toBe(1);
+
+    const dropped = syncResultAnswer(first, 'q1', 'failed');
+    expect(dropped.score).toBe(1);
+
+    const last = syncResultAnswer(first, 'q2', 'synced', {
+      isCorrect: false,
+      correctAnswer: 'Nirvana',
+      currentScore: 1,
+      isSessionComplete: true,
+      sessionResult: {
+        finalScore: 1,
+        totalQuestions: 2,
+        percentage: 50,
+        completedAt: '2025-09-21T14:31:00Z',
+      },
+    });
+    expect(last).toMatchObject({ score: 1, percentage: 50, completedAt: '2025-09-21T14:31:00Z' });
+  });
+
+  it('should take back the points of a rejected correct answer', () => {
+    const dropped = syncResultAnswer(toQuizResult(offline, 9000)!, 'q1', 'failed');
+    expect(dropped).toMatchObject({ score: 0, correctAnswers: 0, percentage: 0 });
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GAME_MODE_LABELS,
+  SCORING_RULES,
+  getAnswerCredit,
+  isGameMode,
+  scoreQuestion,
+  scoreQuiz,
+  type ScoringAnswer,
+  type ScoringRules,
+} from '../../../src/lib/scoring';
+
+/**
+ * Scoring engine tests
+ */
+
+const rules: ScoringRules = {
+  basePoints: 100,
+  timeBonus: { maxPoints: 50, windowMs: 10_000 },
+  streak: { minStreak: 2, bonusPerAnswer: 10, maxBonus: 30 },
+  difficultyMultipliers: { Easy: 1, Medium: 1.5, Hard: 2 },
+};
+
+function answer(questionId: string, overrides: Partial<ScoringAnswer> = {}): ScoringAnswer {
+  return { questionId, isCorrect: true, credit: 1, timeToAnswer: 10_000, ...overrides };
+}
+
+const questions = ['q1', 'q2', 'q3', 'q4', 'q5'].map(id => ({ id }));
+
+describe('getAnswerCredit', () => {
+  it('uses the credit recorded with the answer', () => {
+    expect(getAnswerCredit(answer('q1', { isCorrect: false, credit: 0.4 }))).toBe(0.4);
+  });
+
+  it('falls back to correctness for answers without credit', () => {
+    expect(getAnswerCredit(answer('q1', { credit: undefined }))).toBe(1);
+    expect(getAnswerCredit(answer('q1', { isCorrect: false, credit: undefined }))).toBe(0);
+  });
+
+  it('gives nothing for missing and unchecked answers', () => {
+    expect(getAnswerCredit(undefined)).toBe(0);
+    expect(getAnswerCredit(answer('q1', { isCorrect: null, credit: undefined }))).toBe(0);
+  });
+
+  it('keeps credit between 0 and 1', () => {
+    expect(getAnswerCredit(answer('q1', { credit: 3 }))).toBe(1);
+    expect(getAnswerCredit(answer('q1', { credit: -1 }))).toBe(0);
+  });
+});
+
+describe('scoreQuestion', () => {
+  it('gives base points for a correct answer at the end of the window', () => {
+    expect(scoreQuestion('q1', answer('q1'), 0, 'Easy', rules)).toEqual({
+      questionId: 'q1',
+      base: 100,
+      timeBonus: 0,
+      streakBonus: 0,
+      multiplier: 1,
+      streak: 1,
+      total: 100,
+    });
+  });
+
+  it('adds a time bonus that falls linearly over the window', () => {
+    expect(scoreQuestion('q1', answer('q1', { timeToAnswer: 0 }), 0, 'Easy', rules).timeBonus).toBe(
+      50
+    );
+    expect(
+      scoreQuestion('q1', answer('q1', { timeToAnswer: 2_500 }), 0, 'Easy', rules).timeBonus
+    ).toBe(38);
+    expect(
+      scoreQuestion('q1', answer('q1', { timeToAnswer: 30_000 }), 0, 'Easy', rules).timeBonus
+    ).toBe(0);
+  });
+
+  it('scales base points and time bonus by partial credit', () => {
+    const points = scoreQuestion(
+      'q1',
+      answer('q1', { isCorrect: false, credit: 0.5, timeToAnswer: 0 }),
+      3,
+      'Easy',
+      rules
+    );
+    expect(points).toMatchObject({ base: 50, timeBonus: 25, streakBonus: 0, streak: 0, total: 75 });
+  });
+
+  it('gives nothing for a wrong answer, however fast', () => {
+    const points = scoreQuestion(
+      'q1',
+      answer('q1', { isCorrect: false, credit: 0, timeToAnswer: 0 }),
+      4,
+      'Hard',
+      rules
+    );
+    expect(points).toMatchObject({ base: 0, timeBonus: 0, streakBonus: 0, streak: 0, total: 0 });
+  });
+
+  it('starts the streak bonus at the minimum streak and caps it', () => {
+    const bonusAt = (previousStreak: number) =>
+      scoreQuestion('q1', answer('q1'), previousStreak, 'Easy', rules).streakBonus;
+    expect(bonusAt(0)).toBe(0);
+    expect(bonusAt(1)).toBe(10);
+    expect(bonusAt(2)).toBe(20);
+    expect(bonusAt(3)).toBe(30);
+    expect(bonusAt(10)).toBe(30);
+  });
+
+  it('multiplies the whole question by difficulty', () => {
+    const points = scoreQuestion('q1', answer('q1', { timeToAnswer: 5_000 }), 1, 'Medium', rules);
+    // (100 + 25 + 10) × 1.5
+    expect(points).toMatchObject({ multiplier: 1.5, total: 203 });
+  });
+
+  it('leaves out bonuses the rules turn off', () => {
+    const points = scoreQuestion(
+      'q1',
+      answer('q1', { timeToAnswer: 0 }),
+      5,
+      'Easy',
+      SCORING_RULES.relaxed
+    );
+    expect(points).toMatchObject({ base: 100, timeBonus: 0, streakBonus: 0, total: 100 });
+  });
+});
+
+describe('scoreQuiz', () => {
+  it('scores questions in quiz order, whatever order the answers come in', () => {
+    const answers = [answer('q3'), answer('q1'), answer('q2')];
+    const breakdown = scoreQuiz(questions.slice(0, 3), answers, 'Easy', rules);
+
+    expect(breakdown.questions.map(points => points.questionId)).toEqual(['q1', 'q2', 'q3']);
+    expect(breakdown.questions.map(points => points.streak)).toEqual([1, 2, 3]);
+    expect(breakdown.total).toBe(100 + 110 + 120);
+  });
+
+  it('ends the streak on wrong, partial and missing answers', () => {
+    const answers = [
+      answer('q1'),
+      answer('q2', { isCorrect: false, credit: 0.5 }),
+      answer('q3'),
+      answer('q4'),
+      // q5 not answered
+    ];
+    const breakdown = scoreQuiz(questions, answers, 'Easy', rules);
+
+    expect(breakdown.questions.map(points => points.streak)).toEqual([1, 0, 1, 2, 0]);
+    expect(breakdown.questions.map(points => points.total)).toEqual([100, 50, 100, 110, 0]);
+    expect(breakdown.bestStreak).toBe(2);
+  });
+
+  it('works out the best possible total', () => {
+    const breakdown = scoreQuiz(questions.slice(0, 3), [], 'Hard', rules);
+
+    expect(breakdown.total).toBe(0);
+    // (150 + 160 + 170) × 2
+    expect(breakdown.maxTotal).toBe(960);
+  });
+
+  it('reaches the best possible total with instant correct answers', () => {
+    const answers = questions.map(question => answer(question.id, { timeToAnswer: 0 }));
+    const breakdown = scoreQuiz(questions, answers, 'Medium', rules);
+
+    expect(breakdown.total).toBe(breakdown.maxTotal);
+  });
+
+  it('gives the same points for the same answers every time', () => {
+    const answers = [
+      answer('q1', { timeToAnswer: 1_234 }),
+      answer('q2', { isCorrect: false, credit: 0.3, timeToAnswer: 7_777 }),
+      answer('q3', { timeToAnswer: 4_321 }),
+    ];
+    const first = scoreQuiz(questions.slice(0, 3), answers, 'Medium', SCORING_RULES.classic);
+    const second = scoreQuiz(
+      questions.slice(0, 3),
+      [...answers].reverse(),
+      'Medium',
+      SCORING_RULES.classic
+    );
+
+    expect(second).toEqual(first);
+    expect(first.questions.every(points => Number.isInteger(points.total))).toBe(true);
+  });
+
+  it('scores each player in a shared game independently of the others', () => {
+    const fast = questions.map(question => answer(question.id, { timeToAnswer: 1_000 }));
+    const slow = questions.map(question => answer(question.id, { timeToAnswer: 9_000 }));
+    const solo = scoreQuiz(questions, fast, 'Easy', SCORING_RULES.speed);
+
+    const players = [fast, slow].map(answers =>
+      scoreQuiz(questions, answers, 'Easy', SCORING_RULES.speed)
+    );
+    expect(players[0]).toEqual(solo);
+    expect(players[0].total).toBeGreaterThan(players[1].total);
+  });
+
+  it('defines rules for every game mode and difficulty', () => {
+    Object.values(SCORING_RULES).forEach(modeRules => {
+      expect(modeRules.basePoints).toBeGreaterThan(0);
+      expect(Object.keys(modeRules.difficultyMultipliers).sort()).toEqual([
+        'Easy',
+        'Hard',
+        'Medium',
+      ]);
+    });
+  });
+});
+
+describe('isGameMode', () => {
+  it('accepts the names of game modes only', () => {
+    expect(isGameMode('speed')).toBe(true);
+    expect(isGameMode('turbo')).toBe(false);
+    expect(isGameMode('toString')).toBe(false);
+    expect(isGameMode(null)).toBe(false);
+  });
+
+  it('labels every game mode', () => {
+    expect(Object.keys(GAME_MODE_LABELS).sort()).toEqual(Object.keys(SCORING_RULES).sort());
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { isDeviceSelectable, pickDevice } from '../../../src/utils/devices';
+import type { SpotifyDevice } from '../../../src/types/spotify';
+
+/**
+ * Device selection tests
+ */
+
+function device(id: string, overrides: Partial<SpotifyDevice> = {}): SpotifyDevice {
+  return {
+    id,
+    name: id,
+    type: 'Computer',
+    isActive: false,
+    isPrivateSession: false,
+    isRestricted: false,
+    volumePercent: 50,
+    supportsVolume: true,
+    ...overrides,
+  };
+}
+
+const devices = [
+  device('laptop'),
+  device('phone', { isActive: true }),
+  device('car', { isRestricted: true }),
+];
+
+describe('pickDevice', () => {
+  it('should prefer the first preferred device that is still available', () => {
+    expect(pickDevice(devices, [null, 'laptop'])?.id).toBe('laptop');
+    expect(pickDevice(devices, ['gone', 'laptop'])?.id).toBe('laptop');
+  });
+
+  it('should fall back to the active device when the remembered one is gone', () => {
+    expect(pickDevice(devices, ['gone'])?.id).toBe('phone');
+    expect(pickDevice(devices, [])?.id).toBe('phone');
+  });
+
+  it('should never pick a restricted device', () => {
+    expect(isDeviceSelectable(devices[2])).toBe(false);
+    expect(pickDevice(devices, ['car'])?.id).toBe('phone');
+    expect(pickDevice([device('car', { isActive: true, isRestricted: true })], [])).toBeNull();
+  });
+
+  it('should pick nothing when no device is active or preferred', () => {
+    expect(pickDevice([device('laptop')], [undefined])).toBeNull();
+    expect(pickDevice([], ['laptop'])).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ApiError,
+  ConflictError,
+  ForbiddenError,
+  NetworkError,
+  PremiumRequiredError,
+  RateLimitError,
+  ServerError,
+  UnauthorizedError,
+  createApiError,
+  getCorrelationId,
+  getErrorMessage,
+  getRetryDelay,
+  isRetryableError,
+  toRequestError,
+} from '../../../src/utils/error-handling';
+
+/**
+ * API error taxonomy tests
+ */
+
+function jsonResponse(body: unknown, status: number, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+describe('createApiError', () => {
+  it('should map the contract error body and correlation header', async () => {
+    const error = await createApiError(
+      jsonResponse(
+        { error: 'invalid_token', message: 'Token expired', details: { reason: 'expired' } },
+        401,
+        { 'X-Correlation-ID': 'corr-123' }
+      ),
+      'Request failed'
+    );
+
+    expect(error).toBeInstanceOf(UnauthorizedError);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(401);
+    expect(error.code).toBe('invalid_token');
+    expect(error.message).toBe('Token expired');
+    expect(error.correlationId).toBe('corr-123');
+    expect(error.details).toEqual({ reason: 'expired' });
+  });
+
+  it('should fall back to the body correlation ID and a default code', async () => {
+    const error = await createApiError(
+      jsonResponse({ message: 'Already answered', correlationId: 'corr-body' }, 409),
+      'Request failed'
+    );
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.code).toBe('conflict');
+    expect(getCorrelationId(error)).toBe('corr-body');
+  });
+
+  it('should read Spotify style error bodies', async () => {
+    const error = await createApiError(
+      jsonResponse({ error: { status: 502, message: 'Bad gateway' } }, 502),
+      'API request failed'
+    );
+
+    expect(error).toBeInstanceOf(ServerError);
+    expect(error.message).toBe('Bad gateway');
+    expect(error.code).toBe('internal_error');
+  });
+
+  it('should tell Premium-required 403s apart from other 403s', async () => {
+    const backend = await createApiError(
+      jsonResponse({ error: 'premium_required', message: 'Upgrade to control playback' }, 403),
+      'Failed to start playback'
+    );
+    const spotify = await createApiError(
+      jsonResponse(
+        { error: { status: 403, message: 'Player command failed', reason: 'PREMIUM_REQUIRED' } },
+        403
+      ),
+      'Request failed'
+    );
+    const restricted = await createApiError(
+      jsonResponse({ error: 'device_restricted', message: 'Device is restricted' }, 403),
+      'Failed to start playback'
+    );
+
+    expect(backend).toBeInstanceOf(PremiumRequiredError);
+    expect(backend).toBeInstanceOf(ForbiddenError);
+    expect(spotify).toBeInstanceOf(PremiumRequiredError);
+    expect(restricted).toBeInstanceOf(ForbiddenError);
+    expect(restricted).not.toBeInstanceOf(PremiumRequiredError);
+    expect(getErrorMessage(backend)).toBe('Controlling playback requires Spotify Premium.');
+  });
+
+  it('should use the fallback message when the body is not JSON', async () => {
+    const error = await createApiError(
+      new Response('oops', { status: 500 }),
+      'Token refresh failed'
+    );
+
+    expect(error.message).toBe('Token refresh failed: 500');
+  });
+
+  it('should parse rate limit headers', async () => {
+    const error = await createApiError(
+      jsonResponse({ error: 'rate_limit_exceeded', message: 'Slow down' }, 429, {
+        'Retry-After': '7',
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': '1700000000',
+      }),
+      'Request failed'
+    );
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.rateLimit).toEqual({
+      remaining: 0,
+      resetAt: 1700000000 * 1000,
+      retryAfterMs: 7000,
+    });
+  });
+});
+
+describe('retry policy', () => {
+  it('should not retry client errors', () => {
+    const error = new UnauthorizedError({ status: 401, code: 'invalid_token', message: 'x' });
+    expect(isRetryableError(error)).toBe(false);
+  });
+
+  it('should retry rate limits, server and network errors', () => {
+    expect(
+      isRetryableError(
+        new RateLimitError({ status: 429, code: 'rate_limit_exceeded', message: 'x' })
+      )
+    ).toBe(true);
+    expect(
+      isRetryableError(new ServerError({ status: 503, code: 'internal_error', message: 'x' }))
+    ).toBe(true);
+    expect(isRetryableError(new NetworkError())).toBe(true);
+  });
+
+  it('should honor Retry-After over the fallback delay', () => {
+    const error = new RateLimitError({
+      status: 429,
+      code: 'rate_limit_exceeded',
+      message: 'x',
+      rateLimit: { retryAfterMs: 5000 },
+    });
+
+    expect(getRetryDelay(error, 1000)).toBe(5000);
+    expect(getRetryDelay(new Error('x'), 1000)).toBe(1000);
+  });
+});
+
+describe('toRequestError', () => {
+  it('should turn fetch TypeErrors into NetworkErrors', () => {
+    const cause = new TypeError('Failed to fetch');
+    const error = toRequestError(cause);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect((error as NetworkError).cause).toBe(cause);
+  });
+
+  it('should pass typed errors through unchanged', () => {
+    const error = new ServerError({ status: 500, code: 'internal_error', message: 'x' });
+    expect(toRequestError(error)).toBe(error);
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll, vi } from 'vitest';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse, delay } from 'msw';
+import { HttpClient, CORRELATION_ID_HEADER } from '../../../src/lib/http-client';
+import { s as schema, SchemaValidationError } from '../../../src/lib/schema';
+import { ServerError, TimeoutError, UnauthorizedError } from '../../../src/utils/error-handling';
+
+/**
+ * HTTP client tests
+ */
+
+const BASE_URL = 'http://localhost:3001/api';
+const server = setupServer();
+
+function createClient(token = 'old-token', refresh = vi.fn(async () => 'new-token')) {
+  let accessToken = token;
+  const client = new HttpClient({
+    baseURL: BASE_URL,
+    retryBaseDelayMs: 1,
+    tokenSource: {
+      getAccessToken: () => accessToken,
+      refreshAccessToken: async () => {
+        accessToken = await refresh();
+        return accessToken;
+      },
+    },
+  });
+  return { client, refresh };
+}
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe('HttpClient', () => {
+  it('should inject the bearer token and a correlation ID', async () => {
+    let headers: Headers | undefined;
+    server.use(
+      http.get(`${BASE_URL}/things`, ({ request }) => {
+        headers = request.headers;
+        return HttpResponse.json({ ok: true });
+      })
+    );
+
+    const { client } = createClient();
+    const result = await client.get<{ ok: boolean }>('/things', {
+      query: { page: 2, q: undefined },
+    });
+
+    expect(result).toEqual({ ok: true });
+    expect(headers?.get('Authorization')).toBe('Bearer old-token');
+    expect(headers?.get(CORRELATION_ID_HEADER)).toMatch(/^[0-9a-f-]{32,36}$/);
+  });
+
+  it('should refresh once for concurrent 401s and replay each request', async () => {
+    server.use(
+      http.get(`${BASE_URL}/things/:id`, ({ request, params }) => {
+        if (request.headers.get('Authorization') !== 'Bearer new-token') {
+          return HttpResponse.json({ error: 'invalid_token', message: 'Expired' }, { status: 401 });
+        }
+        return HttpResponse.json({ id: params.id });
+      })
+    );
+
+    const { client, refresh } = createClient();
+    const results = await Promise.all([
+      client.get<{ id: string }>('/things/1'),
+      client.get<{ id: string }>('/things/2'),
+    ]);
+
+    expect(results).toEqual([{ id: '1' }, { id: '2' }]);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('should surface the 401 when the refresh fails', async () => {
+    server.use(
+      http.get(`${BASE_URL}/things`, () =>
+        HttpResponse.json({ error: 'invalid_token', message: 'Expired' }, { status: 401 })
+      )
+    );
+
+    const refresh = vi.fn(async (): Promise<string> => {
+      throw new Error('Refresh failed');
+    });
+    const { client } = createClient('old-token', refresh);
+
+    await expect(client.get('/things')).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry rate-limited requests after Retry-After', async () => {
+    let calls = 0;
+    server.use(
+      http.post(`${BASE_URL}/things`, () => {
+        calls++;
+        if (calls === 1) {
+          return HttpResponse.json(
+            { error: 'rate_limit_exceeded', message: 'Slow down' },
+            { status: 429, headers: { 'Retry-After': '0' } }
+          );
+        }
+        return HttpResponse.json({ created: true });
+      })
+    );
+
+    const { client } = createClient();
+    await expect(client.post('/things', { name: 'x' })).resolves.toEqual({ created: true });
+    expect(calls).toBe(2);
+  });
+
+  it('should retry server errors for GET but not for POST', async () => {
+    let getCalls = 0;
+    let postCalls = 0;
+    server.use(
+      http.get(`${BASE_URL}/things`, () => {
+        getCalls++;
+        return getCalls < 3
+          ? HttpResponse.json({ error: 'internal_error', message: 'Oops' }, { status: 503 })
+          : HttpResponse.json([]);
+      }),
+      http.post(`${BASE_URL}/things`, () => {
+        postCalls++;
+        return HttpResponse.json({ error: 'internal_error', message: 'Oops' }, { status: 500 });
+      })
+    );
+
+    const onRetry = vi.fn();
+    const { client } = createClient();
+    await expect(client.get('/things', { onRetry })).resolves.toEqual([]);
+    await expect(client.post('/things', {}, { onRetry })).rejects.toBeInstanceOf(ServerError);
+
+    expect(getCalls).toBe(3);
+    expect(postCalls).toBe(1);
+    expect(onRetry.mock.calls.map(([retry]) => retry)).toEqual([1, 2]);
+    expect(onRetry.mock.calls[0][1]).toBeInstanceOf(ServerError);
+  });
+
+  it('should time out slow requests', async () => {
+    server.use(
+      http.get(`${BASE_URL}/slow`, async () => {
+        await delay(200);
+        return HttpResponse.json({});
+      })
+    );
+
+    const { client } = createClient();
+    await expect(client.get('/slow', { timeoutMs: 20, retries: 0 })).rejects.toBeInstanceOf(
+      TimeoutError
+    );
+  });
+
+  it('should stop when the caller aborts', async () => {
+    let calls = 0;
+    server.use(
+      http.get(`${BASE_URL}/slow`, async () => {
+        calls++;
+        await delay(200);
+        return HttpResponse.json({});
+      })
+    );
+
+    const { client } = createClient();
+    const controller = new AbortController();
+    const request = client.get('/slow', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+    expect(calls).toBe(1);
+  });
+
+  it('should run request and response interceptors', async () => {
+    server.use(
+      http.delete(`${BASE_URL}/things/1`, ({ request }) =>
+        request.headers.get('X-Client') === 'web'
+          ? new HttpResponse(null, { status: 204 })
+          : HttpResponse.json(
+              { error: 'invalid_request', message: 'Missing header' },
+              { status: 400 }
+            )
+      )
+    );
+
+    const { client } = createClient();
+    const seen: number[] = [];
+    client.addRequestInterceptor(config => {
+      config.headers.set('X-Client', 'web');
+      return config;
+    });
+    client.addResponseInterceptor(response => {
+      seen.push(response.status);
+      return response;
+    });
+
+    await expect(client.delete('/things/1')).resolves.toBeUndefined();
+    expect(seen).toEqual([204]);
+  });
+
+  it('should validate the response body against a schema', async () => {
+    server.use(http.get(`${BASE_URL}/things/1`, () => HttpResponse.json({ id: 1, name: 'Thing' })));
+
+    const { client } = createClient();
+    const request = client.get('/things/1', {
+      schema: schema.object({ id: schema.string(), name: schema.string() }),
+    });
+
+    await expect(request).rejects.toBeInstanceOf(SchemaValidationError);
+    await expect(request).rejects.toThrow(
+      'Invalid response from GET /things/1: "id" must be a string, received 1'
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  sanitizeReturnPath,
+  storeReturnPath,
+  retrieveReturnPath,
+} from '../../../src/utils/oauth';
+
+/**
+ * Post-login return path tests (open redirect protection)
+ */
+
+describe('sanitizeReturnPath', () => {
+  it('should keep same-origin paths with query and hash', () => {
+    expect(sanitizeReturnPath('/quiz/abc?ref=share#q3')).toBe('/quiz/abc?ref=share#q3');
+  });
+
+  it.each([
+    'https://evil.example.com/',
+    '//evil.example.com/path',
+    '/\\evil.example.com',
+    'javascript:alert(1)',
+    'quiz/abc',
+    '/login',
+    '/callback?code=x',
+    '/quiz\u0000',
+  ])('should reject %s', (path) => {
+    expect(sanitizeReturnPath(path)).toBeNull();
+  });
+});
+
+describe('storeReturnPath / retrieveReturnPath', () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+  });
+
+  it('should return the path stored for the same state once', () => {
+    storeReturnPath('state_abc', '/quiz/123?tab=play');
+
+    expect(retrieveReturnPath('state_abc')).toBe('/quiz/123?tab=play');
+    expect(retrieveReturnPath('state_abc')).toBeNull();
+  });
+
+  it('should ignore paths stored for a different state', () => {
+    storeReturnPath('state_abc', '/quiz/123');
+
+    expect(retrieveReturnPath('state_xyz')).toBeNull();
+  });
+
+  it('should reject tampered storage', () => {
+    sessionStorage.setItem(
+      'oauth_return_to',
+      JSON.stringify({ state: 'state_abc', path: 'https://evil.example.com' })
+    );
+
+    expect(retrieveReturnPath('state_abc')).toBeNull();
+  });
+});
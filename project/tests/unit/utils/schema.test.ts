@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { s, SchemaValidationError } from '../../../src/lib/schema';
+import { spotifyCallbackResponseSchema } from '../../../src/schemas/auth';
+import { quizSchema } from '../../../src/schemas/quiz';
+import { playbackStatusResponseSchema } from '../../../src/schemas/playback';
+
+/**
+ * Runtime schema tests
+ */
+
+const callbackResponse = {
+  accessToken: 'access-token',
+  expiresIn: 3600,
+  tokenType: 'Bearer',
+  user: {
+    id: 'spotify-user-123',
+    displayName: 'John Doe',
+    email: 'john@example.com',
+    country: 'US',
+    hasSpotifyPremium: true,
+  },
+};
+
+describe('schema builders', () => {
+  it('should drop unknown fields and omit missing optional ones', () => {
+    const schema = s.object({ id: s.string(), label: s.string().optional() });
+
+    expect(schema.parse({ id: 'a', extra: true })).toEqual({ id: 'a' });
+  });
+
+  it('should accept null only when nullable', () => {
+    expect(s.string().nullable().parse(null)).toBeNull();
+    expect(() => s.string().parse(null)).toThrow(
+      'Invalid payload: "(root)" must be a string, received null'
+    );
+  });
+
+  it('should check number ranges and enum members', () => {
+    expect(s.number({ min: 0, max: 100 }).is(101)).toBe(false);
+    expect(s.number({ integer: true }).is(1.5)).toBe(false);
+    expect(s.oneOf(['off', 'track']).is('context')).toBe(false);
+  });
+});
+
+describe('contract schemas', () => {
+  it('should decode a valid callback response', () => {
+    const decoded = spotifyCallbackResponseSchema.parse(callbackResponse);
+
+    expect(decoded.accessToken).toBe('access-token');
+    expect(decoded.refreshToken).toBeUndefined();
+  });
+
+  it('should name the missing field instead of producing undefined tokens', () => {
+    const withoutToken: Partial<typeof callbackResponse> = { ...callbackResponse };
+    delete withoutToken.accessToken;
+
+    expect(() => spotifyCallbackResponseSchema.parse(withoutToken, 'callback response')).toThrow(
+      'Invalid callback response: "accessToken" is required'
+    );
+  });
+
+  it('should reject snake_case token payloads', () => {
+    const error = (() => {
+      try {
+        spotifyCallbackResponseSchema.parse({ ...callbackResponse, tokenType: 'bearer' });
+      } catch (caught) {
+        return caught;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error).toMatchObject({ path: 'tokenType', expected: '"Bearer"', received: '"bearer"' });
+  });
+
+  it('should report nested paths', () => {
+    const quiz = {
+      id: 'quiz-1',
+      title: '90s Rock',
+      description: 'Grunge and more',
+      questionCount: 1,
+      difficulty: 'Medium',
+      estimatedDuration: 60,
+      createdAt: '2025-09-21T14:30:00Z',
+      questions: [
+        {
+          id: 'q1',
+          text: 'Who sang this?',
+          type: 'MultipleChoice',
+          options: ['Nirvana', 42],
+          correctAnswer: 'Nirvana',
+        },
+      ],
+    };
+
+    expect(() => quizSchema.parse(quiz)).toThrow(
+      'Invalid payload: "questions[0].options[1]" must be a string, received 42'
+    );
+  });
+
+  it('should validate playback status enums', () => {
+    const status = {
+      isPlaying: true,
+      progressMs: 1000,
+      durationMs: 200000,
+      shuffleState: false,
+      repeatState: 'all',
+      timestamp: '2025-09-21T14:30:00Z',
+    };
+
+    expect(() => playbackStatusResponseSchema.parse(status)).toThrow(
+      '"repeatState" must be one of "off", "context", "track", received "all"'
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeUser, tryNormalizeUser } from '../../../src/utils/user-mapper';
+
+/**
+ * User payload normalization tests
+ */
+
+describe('normalizeUser', () => {
+  it('should map the /auth/me envelope', () => {
+    const user = normalizeUser({
+      user: {
+        id: 'spotify-user-123',
+        displayName: 'John Doe',
+        email: 'john@example.com',
+        hasSpotifyPremium: true,
+        country: 'US',
+        createdAt: '2025-09-15T10:00:00Z',
+        lastLoginAt: '2025-09-21T14:30:00Z',
+      },
+      settings: { preferredLanguage: 'en' },
+    });
+
+    expect(user).toEqual({
+      id: 'spotify-user-123',
+      displayName: 'John Doe',
+      email: 'john@example.com',
+      country: 'US',
+      hasSpotifyPremium: true,
+      profileImageUrl: undefined,
+      createdAt: '2025-09-15T10:00:00Z',
+      lastLoginAt: '2025-09-21T14:30:00Z',
+    });
+  });
+
+  it('should map the callback user with a profile image', () => {
+    const user = normalizeUser({
+      id: 'spotify-user-123',
+      displayName: 'John Doe',
+      email: 'john@example.com',
+      country: 'US',
+      hasSpotifyPremium: false,
+      profileImageUrl: 'https://i.scdn.co/image/abc',
+    });
+
+    expect(user.profileImageUrl).toBe('https://i.scdn.co/image/abc');
+    expect(user.hasSpotifyPremium).toBe(false);
+  });
+
+  it('should map the raw Spotify profile', () => {
+    const user = normalizeUser({
+      id: 'test_user_123',
+      display_name: null,
+      email: 'test@example.com',
+      images: [{ url: 'https://i.scdn.co/image/xyz', height: 300, width: 300 }],
+      product: 'premium',
+      country: 'SE',
+      followers: { total: 42 },
+    });
+
+    expect(user).toMatchObject({
+      id: 'test_user_123',
+      displayName: '',
+      hasSpotifyPremium: true,
+      profileImageUrl: 'https://i.scdn.co/image/xyz',
+      country: 'SE',
+    });
+  });
+
+  it('should reject payloads without an id', () => {
+    expect(() => normalizeUser({ displayName: 'No Id' })).toThrow('"id" is required');
+  });
+
+  it('should reject fields with the wrong type', () => {
+    expect(() => normalizeUser({ id: 'u1', hasSpotifyPremium: 'yes' })).toThrow('hasSpotifyPremium');
+    expect(tryNormalizeUser({ id: 42 })).toBeNull();
+  });
+});